@@ -8,6 +8,9 @@ const supabaseConnectSrc = isDev
   ? `${supabaseUrl} http://127.0.0.1:54321`
   : 'https://*.supabase.co';
 
+// Self-hosted map tiles may be served over plain http (https: is already allowed)
+const mapTileOrigin = process.env.NEXT_PUBLIC_MAP_TILE_URL?.match(/^http:\/\/[^/]+/)?.[0] ?? '';
+
 const nextConfig: NextConfig = {
   turbopack: {
     root: path.resolve(__dirname, "../../"),
@@ -43,7 +46,7 @@ const nextConfig: NextConfig = {
           },
           {
             key: 'Permissions-Policy',
-            value: 'camera=(), microphone=(), geolocation=()',
+            value: 'camera=(), microphone=(), geolocation=(self)',
           },
           {
             key: 'Content-Security-Policy',
@@ -52,7 +55,7 @@ const nextConfig: NextConfig = {
               `script-src 'self' 'unsafe-inline' 'unsafe-eval' https://vercel.live https://va.vercel-scripts.com https://vitals.vercel-insights.com https://www.googletagmanager.com https://*.googlesyndication.com https://*.googleadservices.com https://*.adtrafficquality.google https://*.google.com https://*.doubleclick.net`,
               "style-src 'self' 'unsafe-inline' https://fonts.googleapis.com",
               "font-src 'self' https://fonts.gstatic.com data:",
-              `img-src 'self' data: https: blob: ${isDev ? 'http://127.0.0.1:54321' : ''}`,
+              `img-src 'self' data: https: blob: ${isDev ? 'http://127.0.0.1:54321' : ''} ${mapTileOrigin}`,
               `connect-src 'self' ${supabaseConnectSrc} https://vercel.live https://vitals.vercel-insights.com https://*.google-analytics.com https://*.googlesyndication.com https://*.googleadservices.com https://*.adtrafficquality.google https://*.google.com https://*.doubleclick.net`,
               "frame-src 'self' https://*.doubleclick.net https://*.google.com https://*.googlesyndication.com https://*.adtrafficquality.google",
               "frame-ancestors 'none'",
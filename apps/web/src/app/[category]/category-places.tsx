@@ -0,0 +1,99 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useSearchParams, useRouter, usePathname } from 'next/navigation';
+import { X } from 'lucide-react';
+import { PlaceCard } from '@/components/place/place-card';
+import { SortSelect } from '@/components/filters/sort-select';
+import { DynamicPlacesMap } from '@/components/map/dynamic-places-map';
+import { MissingCoordinatesList } from '@/components/map/missing-coordinates-list';
+import { ViewToggle, type PlacesView } from '@/components/map/view-toggle';
+import { isWithinBounds, parseGeoBounds, formatGeoBounds } from '@/lib/geo';
+import { isSearchSort, sortPlaces } from '@/lib/sort';
+import type { GeoBounds, PlaceIndex, SearchSort } from '@/types/place';
+
+interface CategoryPlacesProps {
+  places: PlaceIndex[];
+}
+
+export function CategoryPlaceGrid({ places }: CategoryPlacesProps) {
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4 mb-12">
+      {places.map((place) => (
+        <PlaceCard key={place.id} place={place} />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * List/map toggle for a category's places.
+ * The view, map area and sort live in the `view`, `bbox` and `sort` URL params,
+ * same as /places.
+ */
+export function CategoryPlaces({ places }: CategoryPlacesProps) {
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const pathname = usePathname();
+
+  const view: PlacesView = searchParams.get('view') === 'map' ? 'map' : 'list';
+  const bbox = searchParams.get('bbox');
+  const sortParam = searchParams.get('sort');
+  const sort = isSearchSort(sortParam) && sortParam !== 'distance' ? sortParam : undefined;
+  const bounds = useMemo(() => parseGeoBounds(bbox), [bbox]);
+  const visiblePlaces = useMemo(
+    () => sortPlaces(bounds ? places.filter((place) => isWithinBounds(bounds, place)) : places, sort),
+    [places, bounds, sort]
+  );
+
+  const updateURL = (
+    newView: PlacesView,
+    newBounds: GeoBounds | undefined,
+    newSort: SearchSort | undefined = sort
+  ) => {
+    const params = new URLSearchParams();
+    if (newView === 'map') params.set('view', 'map');
+    if (newBounds) params.set('bbox', formatGeoBounds(newBounds));
+    if (newSort && newSort !== 'relevance') params.set('sort', newSort);
+    const queryString = params.toString();
+    router.push(queryString ? `${pathname}?${queryString}` : pathname, { scroll: false });
+  };
+
+  return (
+    <>
+      <div className="flex items-center justify-end gap-3 mb-5">
+        {bounds && (
+          <button
+            onClick={() => updateURL(view, undefined)}
+            className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-sm font-medium bg-primary/5 border border-primary text-gray-900 hover:bg-primary/10 transition-all"
+          >
+            Within map area
+            <X className="w-4 h-4" />
+          </button>
+        )}
+        {view === 'list' && (
+          <SortSelect value={sort} onValueChange={(newSort) => updateURL(view, bounds, newSort)} />
+        )}
+        <ViewToggle view={view} onViewChange={(newView) => updateURL(newView, bounds)} />
+      </div>
+
+      {view === 'map' ? (
+        <div className="mb-12">
+          <DynamicPlacesMap
+            places={visiblePlaces}
+            bounds={bounds}
+            onSearchArea={(newBounds) => updateURL('map', newBounds)}
+            className="h-[70vh]"
+          />
+          <MissingCoordinatesList
+            places={places.filter(
+              (place) => place.latitude === undefined || place.longitude === undefined
+            )}
+          />
+        </div>
+      ) : (
+        <CategoryPlaceGrid places={visiblePlaces} />
+      )}
+    </>
+  );
+}
@@ -1,16 +1,17 @@
+import { Suspense } from 'react';
 import { notFound } from 'next/navigation';
 import type { Metadata } from 'next';
-import { PlaceCard } from '@/components/place/place-card';
 import { Button } from '@/components/ui/button';
 import { Plus, Edit3, Search } from 'lucide-react';
 import { CategoryIcon } from '@/components/ui/category-icon';
 import { getAllPlaces } from '@/lib/places-server';
+import { isPlaceClosed } from '@/lib/place-status';
 import {
   getCategoryBySlug,
   getAllCategorySlugs,
   isValidCategory,
 } from '@/lib/categories';
-import type { PlaceIndex } from '@/types/place';
+import { CategoryPlaces, CategoryPlaceGrid } from './category-places';
 
 interface CategoryPageProps {
   params: Promise<{
@@ -90,7 +91,7 @@ export default async function CategoryPage({ params }: CategoryPageProps) {
   }
 
   // Pre-filter places based on category configuration
-  const allPlaces = await getAllPlaces();
+  const allPlaces = (await getAllPlaces()).filter((place) => !isPlaceClosed(place));
   const categoryKeywords = category.filters.keywords ?? [];
   const places = categoryKeywords.length > 0
     ? allPlaces.filter((place) =>
@@ -151,11 +152,9 @@ export default async function CategoryPage({ params }: CategoryPageProps) {
             </p>
           </div>
         ) : (
-          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4 mb-12">
-            {places.map((place: PlaceIndex) => (
-              <PlaceCard key={place.id} place={place} />
-            ))}
-          </div>
+          <Suspense fallback={<CategoryPlaceGrid places={places} />}>
+            <CategoryPlaces places={places} />
+          </Suspense>
         )}
 
         {/* Contribute Section */}
@@ -31,6 +31,7 @@ const pageNames: Record<string, string> = {
   '/admin/suggestions': 'Suggestions',
   '/admin/submissions': 'Submissions',
   '/admin/places': 'Places',
+  '/admin/synonyms': 'Search Synonyms',
 };
 
 interface AdminHeaderProps {
@@ -10,6 +10,11 @@ import {
   Store,
   MapPin,
   Home,
+  Tags,
+  BarChart3,
+  Languages,
+  Network,
+  Flag,
 } from 'lucide-react';
 import {
   Sidebar,
@@ -29,7 +34,12 @@ const navItems = [
   { href: '/admin/submissions', label: 'Submissions', icon: FileText },
   { href: '/admin/suggestions', label: 'Suggestions', icon: MessageSquare },
   { href: '/admin/claims', label: 'Claims', icon: Shield },
+  { href: '/admin/reports', label: 'Reports', icon: Flag },
   { href: '/admin/places', label: 'Places', icon: Store },
+  { href: '/admin/brands', label: 'Brands', icon: Network },
+  { href: '/admin/tags', label: 'Tags', icon: Tags },
+  { href: '/admin/synonyms', label: 'Synonyms', icon: Languages },
+  { href: '/admin/search', label: 'Search Analytics', icon: BarChart3 },
 ];
 
 interface AdminSidebarProps {
@@ -0,0 +1,352 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { ExternalLink, Network, Plus, Trash2, X } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { createClient as createBrowserClient } from '@/lib/supabase/client';
+import { toast } from 'sonner';
+
+interface BranchOption {
+  id: string;
+  name: string;
+  slug: string;
+  address: string;
+  brand_id: string | null;
+}
+
+interface BrandRow {
+  id: string;
+  name: string;
+  slug: string;
+  description: string | null;
+  logo_url: string | null;
+  website: string | null;
+  updated_at: string;
+}
+
+interface BrandDraft {
+  name: string;
+  description: string;
+  logoUrl: string;
+  website: string;
+}
+
+const emptyDraft: BrandDraft = { name: '', description: '', logoUrl: '', website: '' };
+
+/** Branch suggestions shown under "Add a branch" */
+const MAX_SUGGESTIONS = 6;
+
+export default function AdminBrandsPage() {
+  const [brands, setBrands] = useState<BrandRow[]>([]);
+  const [places, setPlaces] = useState<BranchOption[]>([]);
+  const [newBrand, setNewBrand] = useState<BrandDraft>(emptyDraft);
+  const [isLoading, setIsLoading] = useState(true);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  const loadBrands = async () => {
+    const supabase = createBrowserClient();
+    const [{ data: brandRows }, { data: placeRows }] = await Promise.all([
+      supabase
+        .from('brands')
+        .select('id, name, slug, description, logo_url, website, updated_at')
+        .order('name'),
+      supabase
+        .from('places')
+        .select('id, name, slug, address, brand_id')
+        .order('name'),
+    ]);
+
+    setBrands(brandRows ?? []);
+    setPlaces(placeRows ?? []);
+    setIsLoading(false);
+  };
+
+  useEffect(() => { loadBrands(); }, []);
+
+  const send = async (id: string, url: string, method: string, body?: object) => {
+    setProcessingId(id);
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await res.json();
+      if (!res.ok || !data.success) {
+        toast.error(data.error || 'Failed to update brand.');
+        return false;
+      }
+      toast.success(data.message);
+      loadBrands();
+      return true;
+    } catch {
+      toast.error('An error occurred.');
+      return false;
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const setBranchBrand = (place: BranchOption, brandId: string | null) =>
+    send(place.id, `/api/admin/places/${place.id}`, 'PUT', { brandId });
+
+  const handleCreate = async () => {
+    const created = await send('new', '/api/admin/brands', 'POST', newBrand);
+    if (created) setNewBrand(emptyDraft);
+  };
+
+  if (isLoading) {
+    return <div className="text-center py-12 text-gray-500">Loading brands...</div>;
+  }
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Brands</h1>
+        <p className="text-gray-600 text-sm mt-1">
+          Chains with more than one branch ({brands.length} brands). Branches keep their own address and
+          hours, share the brand&apos;s logo and website when they have none, and show up once in search.
+        </p>
+      </div>
+
+      <Card className="mb-8">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base">Add a brand</CardTitle>
+        </CardHeader>
+        <CardContent className="pt-0 space-y-3">
+          <BrandFields draft={newBrand} onChange={setNewBrand} idPrefix="new-brand" />
+          <Button
+            size="sm"
+            onClick={handleCreate}
+            disabled={processingId === 'new' || !newBrand.name.trim()}
+            className="gap-1.5"
+          >
+            <Plus className="w-4 h-4" />
+            Add brand
+          </Button>
+        </CardContent>
+      </Card>
+
+      {brands.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <Network className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-gray-800">No brands yet</h3>
+            <p className="text-gray-500 mt-1">Add one above, then add its branches.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-6">
+          {brands.map((brand) => (
+            <BrandCard
+              key={`${brand.id}-${brand.updated_at}`}
+              brand={brand}
+              places={places}
+              processingId={processingId}
+              onSave={(draft) => send(brand.id, `/api/admin/brands/${brand.id}`, 'PATCH', draft)}
+              onDelete={() => {
+                if (confirm(`Delete ${brand.name}? Its branches stay listed as standalone places.`)) {
+                  send(brand.id, `/api/admin/brands/${brand.id}`, 'DELETE');
+                }
+              }}
+              onSetBranch={setBranchBrand}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function BrandFields({
+  draft,
+  onChange,
+  idPrefix,
+}: {
+  draft: BrandDraft;
+  onChange: (draft: BrandDraft) => void;
+  idPrefix: string;
+}) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+      <Input
+        id={`${idPrefix}-name`}
+        value={draft.name}
+        onChange={(e) => onChange({ ...draft, name: e.target.value })}
+        placeholder="Name, e.g. Chowking"
+        className="h-8"
+        aria-label="Name"
+      />
+      <Input
+        id={`${idPrefix}-website`}
+        type="url"
+        value={draft.website}
+        onChange={(e) => onChange({ ...draft, website: e.target.value })}
+        placeholder="Website (https://)"
+        className="h-8"
+        aria-label="Website"
+      />
+      <Input
+        id={`${idPrefix}-logo`}
+        type="url"
+        value={draft.logoUrl}
+        onChange={(e) => onChange({ ...draft, logoUrl: e.target.value })}
+        placeholder="Logo URL (https://)"
+        className="h-8"
+        aria-label="Logo URL"
+      />
+      <textarea
+        id={`${idPrefix}-description`}
+        value={draft.description}
+        onChange={(e) => onChange({ ...draft, description: e.target.value })}
+        placeholder="Description shared by all branches"
+        rows={2}
+        maxLength={1000}
+        className="md:col-span-3 rounded-md border border-input bg-transparent px-3 py-2 text-sm outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+        aria-label="Description"
+      />
+    </div>
+  );
+}
+
+function BrandCard({
+  brand,
+  places,
+  processingId,
+  onSave,
+  onDelete,
+  onSetBranch,
+}: {
+  brand: BrandRow;
+  places: BranchOption[];
+  processingId: string | null;
+  onSave: (draft: BrandDraft) => void;
+  onDelete: () => void;
+  onSetBranch: (place: BranchOption, brandId: string | null) => void;
+}) {
+  const initial: BrandDraft = {
+    name: brand.name,
+    description: brand.description ?? '',
+    logoUrl: brand.logo_url ?? '',
+    website: brand.website ?? '',
+  };
+  const [draft, setDraft] = useState(initial);
+  // Starts with the brand name so likely branches are suggested right away
+  const [branchQuery, setBranchQuery] = useState(brand.name);
+
+  const branches = places.filter((place) => place.brand_id === brand.id);
+  const needle = branchQuery.trim().toLowerCase();
+  const suggestions = needle
+    ? places
+        .filter((place) => place.brand_id !== brand.id && place.name.toLowerCase().includes(needle))
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(initial);
+  const isProcessing = processingId === brand.id;
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base">
+          {brand.name}
+          <span className="text-sm font-normal text-gray-500">
+            {branches.length} {branches.length === 1 ? 'branch' : 'branches'}
+          </span>
+          <Link
+            href={`/brands/${brand.slug}`}
+            target="_blank"
+            className="text-gray-400 hover:text-primary"
+            aria-label={`View ${brand.name} page`}
+          >
+            <ExternalLink className="w-3.5 h-3.5" />
+          </Link>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={onDelete}
+            disabled={isProcessing}
+            className="ml-auto text-destructive hover:text-destructive"
+            aria-label={`Delete ${brand.name}`}
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-4">
+        <div className="space-y-2">
+          <BrandFields draft={draft} onChange={setDraft} idPrefix={`brand-${brand.id}`} />
+          <Button size="sm" variant="outline" onClick={() => onSave(draft)} disabled={isProcessing || !isDirty || !draft.name.trim()}>
+            Save details
+          </Button>
+        </div>
+
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900 mb-2">Branches</h3>
+          {branches.length === 0 ? (
+            <p className="text-sm text-gray-500">No branches yet.</p>
+          ) : (
+            <div className="rounded-lg border border-border divide-y divide-border">
+              {branches.map((place) => (
+                <div key={place.id} className="flex items-center gap-2 px-3 py-2">
+                  <div className="min-w-0 flex-1">
+                    <Link href={`/places/${place.slug}`} target="_blank" className="text-sm font-medium hover:underline">
+                      {place.name}
+                    </Link>
+                    <p className="text-xs text-gray-500 truncate">{place.address}</p>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => onSetBranch(place, null)}
+                    disabled={processingId === place.id}
+                    aria-label={`Remove ${place.name} from ${brand.name}`}
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900 mb-2">Add a branch</h3>
+          <Input
+            value={branchQuery}
+            onChange={(e) => setBranchQuery(e.target.value)}
+            placeholder="Search places by name..."
+            className="h-8 w-full md:w-80 mb-2"
+            aria-label={`Search places to add to ${brand.name}`}
+          />
+          {needle && suggestions.length === 0 && (
+            <p className="text-sm text-gray-500">No other places match.</p>
+          )}
+          {suggestions.map((place) => (
+            <div key={place.id} className="flex items-center gap-2 py-1">
+              <div className="min-w-0 flex-1">
+                <span className="text-sm">{place.name}</span>
+                <span className="text-xs text-gray-500 ml-2">{place.address}</span>
+                {place.brand_id && (
+                  <span className="text-xs text-amber-600 ml-2">(moves from another brand)</span>
+                )}
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => onSetBranch(place, brand.id)}
+                disabled={processingId === place.id}
+                className="gap-1"
+              >
+                <Plus className="w-3.5 h-3.5" />
+                Add
+              </Button>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
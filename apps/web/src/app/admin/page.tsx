@@ -1,13 +1,15 @@
 import Link from 'next/link';
-import { Shield, MessageSquare, FileText, Store, ArrowRight, Clock } from 'lucide-react';
+import { Shield, MessageSquare, FileText, Store, Flag, ArrowRight, Clock } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { createClient } from '@/lib/supabase/server';
+import { REPORT_TARGET_LABELS, getReportReasonLabel } from '@/lib/reports';
+import type { ReportReason, ReportTargetType } from '@/types/place';
 
 export const revalidate = 30;
 
 interface PendingItem {
   id: string;
-  type: 'claim' | 'suggestion' | 'submission';
+  type: 'claim' | 'suggestion' | 'submission' | 'report' | 'photo';
   label: string;
   detail: string;
   date: string;
@@ -17,14 +19,18 @@ interface PendingItem {
 async function getAdminData() {
   const supabase = await createClient();
 
-  const [claims, suggestions, submissions, places, recentClaims, recentSuggestions, recentSubmissions] = await Promise.all([
+  const [claims, suggestions, submissions, reports, photos, places, recentClaims, recentSuggestions, recentSubmissions, recentReports, recentPhotos] = await Promise.all([
     supabase.from('business_claims').select('id', { count: 'exact', head: true }).eq('status', 'pending'),
     supabase.from('update_suggestions').select('id', { count: 'exact', head: true }).eq('status', 'pending'),
     supabase.from('place_submissions').select('id', { count: 'exact', head: true }).eq('status', 'pending'),
+    supabase.from('content_reports').select('id', { count: 'exact', head: true }).eq('status', 'pending'),
+    supabase.from('place_photos').select('id', { count: 'exact', head: true }).eq('status', 'pending'),
     supabase.from('places').select('id', { count: 'exact', head: true }),
     supabase.from('business_claims').select('id, claimant_name, created_at, place_id, places(name)').eq('status', 'pending').order('created_at', { ascending: false }).limit(5),
     supabase.from('update_suggestions').select('id, suggested_by_name, created_at, place_id, places(name)').eq('status', 'pending').order('created_at', { ascending: false }).limit(5),
     supabase.from('place_submissions').select('id, submitted_by_name, created_at, place_data').eq('status', 'pending').order('created_at', { ascending: false }).limit(5),
+    supabase.from('content_reports').select('id, target_type, reason, created_at, reporter:profiles!content_reports_reported_by_fkey(display_name)').eq('status', 'pending').order('created_at', { ascending: false }).limit(5),
+    supabase.from('place_photos').select('id, created_at, place_id, places(name), profiles(display_name)').eq('status', 'pending').order('created_at', { ascending: false }).limit(5),
   ]);
 
   const pendingItems: PendingItem[] = [];
@@ -72,6 +78,35 @@ async function getAdminData() {
     }
   }
 
+  if (recentReports.data) {
+    for (const r of recentReports.data) {
+      const reporter = (r.reporter as unknown as { display_name: string | null } | null)?.display_name;
+      pendingItems.push({
+        id: r.id,
+        type: 'report',
+        label: `${REPORT_TARGET_LABELS[r.target_type as ReportTargetType]}: ${getReportReasonLabel(r.reason as ReportReason)}`,
+        detail: `by ${reporter || 'Anonymous'}`,
+        date: r.created_at,
+        href: '/admin/reports',
+      });
+    }
+  }
+
+  if (recentPhotos.data) {
+    for (const p of recentPhotos.data) {
+      const placeName = (p.places as unknown as { name: string } | null)?.name || 'Unknown place';
+      const uploader = (p.profiles as unknown as { display_name: string | null } | null)?.display_name;
+      pendingItems.push({
+        id: p.id,
+        type: 'photo',
+        label: `Photo for ${placeName}`,
+        detail: `by ${uploader || 'Anonymous'}`,
+        date: p.created_at,
+        href: `/dashboard/places/${p.place_id}/edit`,
+      });
+    }
+  }
+
   // Sort by date descending
   pendingItems.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
 
@@ -80,6 +115,8 @@ async function getAdminData() {
       pendingClaims: claims.count ?? 0,
       pendingSuggestions: suggestions.count ?? 0,
       pendingSubmissions: submissions.count ?? 0,
+      pendingReports: reports.count ?? 0,
+      pendingPhotos: photos.count ?? 0,
       totalPlaces: places.count ?? 0,
     },
     pendingItems: pendingItems.slice(0, 8),
@@ -100,6 +137,8 @@ const typeConfig = {
   claim: { badge: 'Claim', color: 'bg-primary/8 text-primary border-primary/20' },
   suggestion: { badge: 'Edit', color: 'bg-honey/8 text-honey border-honey/20' },
   submission: { badge: 'New', color: 'bg-emerald/8 text-emerald border-emerald/20' },
+  photo: { badge: 'Photo', color: 'bg-primary/8 text-primary border-primary/20' },
+  report: { badge: 'Report', color: 'bg-destructive/8 text-destructive border-destructive/20' },
 };
 
 export default async function AdminOverviewPage() {
@@ -130,6 +169,14 @@ export default async function AdminOverviewPage() {
       accent: 'border-l-emerald',
       iconColor: 'text-emerald',
     },
+    {
+      label: 'Pending Reports',
+      value: stats.pendingReports,
+      href: '/admin/reports',
+      icon: Flag,
+      accent: 'border-l-destructive',
+      iconColor: 'text-destructive',
+    },
     {
       label: 'Total Places',
       value: stats.totalPlaces,
@@ -140,7 +187,7 @@ export default async function AdminOverviewPage() {
     },
   ];
 
-  const totalPending = stats.pendingClaims + stats.pendingSuggestions + stats.pendingSubmissions;
+  const totalPending = stats.pendingClaims + stats.pendingSuggestions + stats.pendingSubmissions + stats.pendingReports + stats.pendingPhotos;
 
   return (
     <div>
@@ -153,7 +200,7 @@ export default async function AdminOverviewPage() {
       </div>
 
       {/* Stat cards */}
-      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 mb-8">
+      <div className="grid grid-cols-2 lg:grid-cols-5 gap-3 mb-8">
         {statCards.map((card) => {
           const Icon = card.icon;
           return (
@@ -0,0 +1,184 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft, ExternalLink, History, RotateCcw } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { RevisionDiff } from '@/components/place/revision-diff';
+import { createClient as createBrowserClient } from '@/lib/supabase/client';
+import { dbRowToPlaceRevision } from '@/lib/supabase/mappers';
+import { REVISION_SOURCES, getRevisionFieldLabel, withRevisionChanges } from '@/lib/revisions';
+import { toast } from 'sonner';
+import type { PlaceRevision } from '@/types/place';
+
+const PAGE_SIZE = 50;
+
+type AdminRevision = PlaceRevision & { editor?: string };
+
+export default function AdminPlaceHistoryPage() {
+  const params = useParams();
+  const placeId = params.id as string;
+
+  const [place, setPlace] = useState<{ name: string; slug: string } | null>(null);
+  const [revisions, setRevisions] = useState<AdminRevision[]>([]);
+  const [hasOlder, setHasOlder] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const supabase = createBrowserClient();
+    const [{ data: placeData }, { data }] = await Promise.all([
+      supabase.from('places').select('name, slug').eq('id', placeId).maybeSingle(),
+      // One extra row so the oldest shown revision has something to diff against
+      supabase
+        .from('place_revisions')
+        .select('*, profiles(display_name, email)')
+        .eq('place_id', placeId)
+        .order('created_at', { ascending: false })
+        .limit(PAGE_SIZE + 1),
+    ]);
+
+    setPlace(placeData);
+    setRevisions((data ?? []).map((row) => {
+      const profile = row.profiles as { display_name: string | null; email: string } | null;
+      return {
+        ...dbRowToPlaceRevision(row),
+        editor: profile ? profile.display_name || profile.email : undefined,
+      };
+    }));
+    setHasOlder((data ?? []).length > PAGE_SIZE);
+    setIsLoading(false);
+  }, [placeId]);
+
+  useEffect(() => { load(); }, [load]);
+
+  const handleRestore = async (revision: AdminRevision) => {
+    const date = new Date(revision.createdAt).toLocaleString('en-US');
+    if (!confirm(`Restore ${place?.name ?? 'this place'} to the version from ${date}?`)) return;
+
+    setRestoringId(revision.id);
+    try {
+      const res = await fetch(`/api/admin/places/${placeId}/restore`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ revisionId: revision.id }),
+      });
+      const data = await res.json();
+      if (!res.ok || !data.success) {
+        toast.error(data.error || 'Failed to restore.');
+        return;
+      }
+      toast.success(data.message);
+      setSelectedId(null);
+      load();
+    } catch {
+      toast.error('An error occurred.');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (isLoading) {
+    return <div className="text-center py-12 text-muted-foreground">Loading history...</div>;
+  }
+
+  const timeline = withRevisionChanges(revisions, { includePrivate: true }).slice(0, PAGE_SIZE);
+
+  return (
+    <div>
+      <Link
+        href="/admin/places"
+        className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-900 mb-4"
+      >
+        <ArrowLeft className="w-4 h-4" /> Back to Places
+      </Link>
+
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-foreground flex items-center gap-2">
+          <History className="w-6 h-6" />
+          Edit History
+        </h1>
+        {place && (
+          <Link
+            href={`/places/${place.slug}`}
+            className="text-sm text-primary hover:underline inline-flex items-center gap-1 mt-1"
+          >
+            {place.name} <ExternalLink className="w-3 h-3" />
+          </Link>
+        )}
+      </div>
+
+      {timeline.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-12 text-center">No revisions recorded yet.</p>
+      ) : (
+        <div className="space-y-3">
+          {timeline.map((revision, index) => {
+            const isCurrent = index === 0;
+            const isOpen = selectedId === revision.id;
+            return (
+              <Card key={revision.id}>
+                <CardHeader className="pb-3">
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <CardTitle className="text-sm font-semibold flex items-center gap-2 flex-wrap">
+                        {REVISION_SOURCES[revision.source] ?? revision.source}
+                        {isCurrent && <Badge variant="outline" className="text-[10px]">Current</Badge>}
+                      </CardTitle>
+                      <p className="text-xs text-muted-foreground mt-0.5">
+                        {new Date(revision.createdAt).toLocaleString('en-US', {
+                          month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit',
+                        })}
+                        {' · '}
+                        {revision.editor ?? 'System'}
+                      </p>
+                      {revision.changes.length > 0 && (
+                        <p className="text-xs text-gray-600 mt-1.5">
+                          {revision.changes.map((change) => getRevisionFieldLabel(change.field)).join(', ')}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setSelectedId(isOpen ? null : revision.id)}
+                      >
+                        {isOpen ? 'Hide diff' : 'View diff'}
+                      </Button>
+                      {!isCurrent && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleRestore(revision)}
+                          disabled={restoringId !== null}
+                          className="gap-1.5"
+                        >
+                          <RotateCcw className="w-3.5 h-3.5" />
+                          {restoringId === revision.id ? 'Restoring...' : 'Restore this version'}
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                </CardHeader>
+                {isOpen && (
+                  <CardContent>
+                    <RevisionDiff changes={revision.changes} />
+                  </CardContent>
+                )}
+              </Card>
+            );
+          })}
+          {hasOlder && (
+            <p className="text-xs text-muted-foreground text-center py-2">
+              Showing the latest {PAGE_SIZE} revisions.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
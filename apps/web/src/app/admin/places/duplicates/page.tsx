@@ -0,0 +1,120 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Copy, ExternalLink, GitMerge } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { createClient as createBrowserClient } from '@/lib/supabase/client';
+import { LIKELY_DUPLICATE_SCORE, formatDuplicateScore } from '@/lib/duplicates';
+
+interface PairPlace {
+  id: string;
+  name: string;
+  slug: string;
+  address: string;
+}
+
+interface DuplicatePair {
+  a: PairPlace;
+  b: PairPlace;
+  score: number;
+}
+
+export default function AdminDuplicatesPage() {
+  const [pairs, setPairs] = useState<DuplicatePair[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const load = async () => {
+      const supabase = createBrowserClient();
+      const { data: rows } = await supabase.rpc('find_duplicate_place_pairs', {});
+
+      const ids = [...new Set((rows ?? []).flatMap((row) => [row.place_a_id, row.place_b_id]))];
+      const { data: places } = ids.length > 0
+        ? await supabase.from('places').select('id, name, slug, address').in('id', ids)
+        : { data: [] };
+      const byId = new Map((places ?? []).map((place) => [place.id, place]));
+
+      setPairs((rows ?? []).flatMap((row) => {
+        const a = byId.get(row.place_a_id);
+        const b = byId.get(row.place_b_id);
+        return a && b ? [{ a, b, score: row.score }] : [];
+      }));
+      setIsLoading(false);
+    };
+
+    load();
+  }, []);
+
+  if (isLoading) {
+    return <div className="text-center py-12 text-muted-foreground">Looking for duplicates...</div>;
+  }
+
+  return (
+    <div>
+      <Link
+        href="/admin/places"
+        className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-900 mb-4"
+      >
+        <ArrowLeft className="w-4 h-4" /> Back to Places
+      </Link>
+
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-foreground">Possible Duplicates</h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          Places with similar names, addresses and locations. Merge the ones that are the same place.
+        </p>
+      </div>
+
+      {pairs.length === 0 ? (
+        <div className="py-16 text-center">
+          <Copy className="w-12 h-12 text-muted-foreground/30 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold text-foreground mb-1">No duplicates found</h3>
+          <p className="text-sm text-muted-foreground">Every place looks distinct.</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {pairs.map((pair) => (
+            <div
+              key={`${pair.a.id}:${pair.b.id}`}
+              className="flex items-center gap-4 bg-card rounded-xl p-3"
+            >
+              <div className="flex-1 min-w-0 grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {[pair.a, pair.b].map((place) => (
+                  <div key={place.id} className="min-w-0">
+                    <Link
+                      href={`/places/${place.slug}`}
+                      target="_blank"
+                      className="text-sm font-semibold text-foreground hover:text-primary inline-flex items-center gap-1 max-w-full"
+                    >
+                      <span className="truncate">{place.name}</span>
+                      <ExternalLink className="w-3 h-3 shrink-0" />
+                    </Link>
+                    <p className="text-xs text-muted-foreground truncate">{place.address}</p>
+                  </div>
+                ))}
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <Badge
+                  variant="outline"
+                  className={pair.score >= LIKELY_DUPLICATE_SCORE
+                    ? 'text-xs border-destructive/30 bg-destructive/8 text-destructive'
+                    : 'text-xs'}
+                >
+                  {formatDuplicateScore(pair.score)}
+                </Badge>
+                <Button size="sm" variant="outline" asChild className="gap-1.5">
+                  <Link href={`/admin/places/merge?a=${pair.a.id}&b=${pair.b.id}`}>
+                    <GitMerge className="w-3.5 h-3.5" />
+                    Merge
+                  </Link>
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,308 @@
+'use client';
+
+import { useState, useEffect, Suspense } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { ArrowLeft, ExternalLink, GitMerge } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { createClient as createBrowserClient } from '@/lib/supabase/client';
+import { DAYS_OF_WEEK, formatDayHours } from '@/lib/hours';
+import { MERGEABLE_FIELDS, type MergeableField } from '@/lib/duplicates';
+import { getRevisionFieldLabel } from '@/lib/revisions';
+import { toast } from 'sonner';
+import type { OperatingHours } from '@/types/place';
+
+type Side = 'a' | 'b';
+
+type MergePlace = Record<string, unknown> & {
+  id: string;
+  name: string;
+  slug: string;
+  created_at: string | null;
+  favorite_count: number;
+};
+
+interface RelatedCounts {
+  contributors: number;
+  claims: number;
+  suggestions: number;
+  reviews: number;
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === '' ||
+    (Array.isArray(value) && value.length === 0) ||
+    (typeof value === 'object' && !Array.isArray(value) && Object.keys(value).length === 0);
+}
+
+function formatValue(field: MergeableField, value: unknown): string {
+  if (isEmpty(value)) return '(empty)';
+  if (field === 'operating_hours') {
+    const hours = value as OperatingHours;
+    return DAYS_OF_WEEK
+      .filter((day) => hours[day])
+      .map((day) => `${day.slice(0, 3)}: ${formatDayHours(hours[day])}`)
+      .join('\n');
+  }
+  if (field === 'hours_overrides' && Array.isArray(value)) return `${value.length} special date${value.length !== 1 ? 's' : ''}`;
+  if (field === 'photos_urls' && Array.isArray(value)) return `${value.length} photo${value.length !== 1 ? 's' : ''}`;
+  if (field === 'claimed_by') return 'Claimed';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/** Take the first place's value unless only the second one is filled in */
+function defaultChoices(a: MergePlace, b: MergePlace): Record<MergeableField, Side> {
+  return Object.fromEntries(
+    MERGEABLE_FIELDS.map((field) => [field, isEmpty(a[field]) && !isEmpty(b[field]) ? 'b' : 'a'])
+  ) as Record<MergeableField, Side>;
+}
+
+export default function AdminMergePlacesPage() {
+  return (
+    <Suspense fallback={null}>
+      <MergePlaces />
+    </Suspense>
+  );
+}
+
+function MergePlaces() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const idA = searchParams.get('a');
+  const idB = searchParams.get('b');
+
+  const [places, setPlaces] = useState<Record<Side, MergePlace> | null>(null);
+  const [counts, setCounts] = useState<Record<Side, RelatedCounts> | null>(null);
+  const [survivor, setSurvivor] = useState<Side>('a');
+  const [choices, setChoices] = useState<Record<MergeableField, Side> | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isMerging, setIsMerging] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      if (!idA || !idB || idA === idB) {
+        setIsLoading(false);
+        return;
+      }
+
+      const supabase = createBrowserClient();
+      const { data } = await supabase.from('places').select('*').in('id', [idA, idB]);
+      const a = data?.find((place) => place.id === idA) as MergePlace | undefined;
+      const b = data?.find((place) => place.id === idB) as MergePlace | undefined;
+
+      if (a && b) {
+        const countFor = async (id: string): Promise<RelatedCounts> => {
+          const [contributors, claims, suggestions, reviews] = await Promise.all([
+            supabase.from('contributors').select('id', { count: 'exact', head: true }).eq('place_id', id),
+            supabase.from('business_claims').select('id', { count: 'exact', head: true }).eq('place_id', id),
+            supabase.from('update_suggestions').select('id', { count: 'exact', head: true }).eq('place_id', id),
+            supabase.from('place_reviews').select('id', { count: 'exact', head: true }).eq('place_id', id),
+          ]);
+          return {
+            contributors: contributors.count ?? 0,
+            claims: claims.count ?? 0,
+            suggestions: suggestions.count ?? 0,
+            reviews: reviews.count ?? 0,
+          };
+        };
+
+        const [countsA, countsB] = await Promise.all([countFor(a.id), countFor(b.id)]);
+        setPlaces({ a, b });
+        setCounts({ a: countsA, b: countsB });
+        setChoices(defaultChoices(a, b));
+        // The older listing usually has the links and favorites worth keeping
+        setSurvivor((b.created_at ?? '') < (a.created_at ?? '') ? 'b' : 'a');
+      }
+      setIsLoading(false);
+    };
+
+    load();
+  }, [idA, idB]);
+
+  const handleMerge = async () => {
+    if (!places || !choices) return;
+    const retired: Side = survivor === 'a' ? 'b' : 'a';
+    if (!confirm(`Merge "${places[retired].name}" into "${places[survivor].name}"? The merged-away place will be deleted.`)) return;
+
+    setIsMerging(true);
+    try {
+      const res = await fetch('/api/admin/places/merge', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          survivorId: places[survivor].id,
+          retiredId: places[retired].id,
+          retiredFields: MERGEABLE_FIELDS.filter((field) => choices[field] === retired),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok || !data.success) {
+        toast.error(data.error || 'Failed to merge.');
+        return;
+      }
+      toast.success(data.message);
+      router.push(`/admin/places/${places[survivor].id}/history`);
+    } catch {
+      toast.error('An error occurred.');
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  if (isLoading) {
+    return <div className="text-center py-12 text-muted-foreground">Loading places...</div>;
+  }
+
+  if (!places || !counts || !choices) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-muted-foreground mb-4">Pick two different places to merge.</p>
+        <Button variant="outline" asChild>
+          <Link href="/admin/places/duplicates">Back to Duplicates</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const differing = MERGEABLE_FIELDS.filter(
+    (field) => JSON.stringify(places.a[field] ?? null) !== JSON.stringify(places.b[field] ?? null)
+  );
+  const sameCount = MERGEABLE_FIELDS.length - differing.length;
+
+  return (
+    <div>
+      <Link
+        href="/admin/places/duplicates"
+        className="inline-flex items-center gap-1 text-sm text-gray-500 hover:text-gray-900 mb-4"
+      >
+        <ArrowLeft className="w-4 h-4" /> Back to Duplicates
+      </Link>
+
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-foreground flex items-center gap-2">
+          <GitMerge className="w-6 h-6" />
+          Merge Places
+        </h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          Choose the place that stays and the value to keep for each field. Contributors, claims,
+          suggestions, reviews and favorites move to the place that stays, and the other URL redirects to it.
+        </p>
+      </div>
+
+      <div className="grid gap-4">
+        {/* Which place stays */}
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {(['a', 'b'] as const).map((side) => {
+            const place = places[side];
+            const isSurvivor = survivor === side;
+            return (
+              <label
+                key={side}
+                className={`block cursor-pointer rounded-xl border p-4 transition-colors ${
+                  isSurvivor ? 'border-primary bg-primary/5' : 'bg-card hover:bg-muted/50'
+                }`}
+              >
+                <div className="flex items-start gap-3">
+                  <input
+                    type="radio"
+                    name="survivor"
+                    checked={isSurvivor}
+                    onChange={() => setSurvivor(side)}
+                    className="mt-1"
+                  />
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-semibold text-foreground">{place.name}</span>
+                      <Badge variant="outline" className="text-[10px]">
+                        {isSurvivor ? 'Stays' : 'Merged away'}
+                      </Badge>
+                    </div>
+                    <Link
+                      href={`/places/${place.slug}`}
+                      target="_blank"
+                      className="text-xs text-primary hover:underline inline-flex items-center gap-1"
+                    >
+                      /places/{place.slug} <ExternalLink className="w-3 h-3" />
+                    </Link>
+                    <p className="text-xs text-muted-foreground mt-1.5">
+                      {counts[side].contributors} contributors · {counts[side].claims} claims ·{' '}
+                      {counts[side].suggestions} suggestions · {counts[side].reviews} reviews ·{' '}
+                      {place.favorite_count} favorites
+                    </p>
+                  </div>
+                </div>
+              </label>
+            );
+          })}
+        </div>
+
+        {/* Field values */}
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-gray-500">Field values</CardTitle>
+            {sameCount > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {sameCount} field{sameCount !== 1 ? 's are' : ' is'} the same on both places.
+              </p>
+            )}
+          </CardHeader>
+          <CardContent className="divide-y divide-gray-100">
+            {differing.length === 0 && (
+              <p className="text-sm text-muted-foreground py-2">Both places have the same details.</p>
+            )}
+            {differing.map((field) => (
+              <div key={field} className="py-3 first:pt-0 last:pb-0">
+                <p className="text-xs font-medium uppercase tracking-wider text-gray-500 mb-1.5">
+                  {getRevisionFieldLabel(field)}
+                </p>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  {(['a', 'b'] as const).map((side) => {
+                    const isChosen = choices[field] === side;
+                    const value = places[side][field];
+                    return (
+                      <label
+                        key={side}
+                        className={`flex items-start gap-2 cursor-pointer rounded-md border p-2 text-xs ${
+                          isChosen ? 'border-primary bg-primary/5' : 'hover:bg-muted/50'
+                        }`}
+                      >
+                        <input
+                          type="radio"
+                          name={field}
+                          checked={isChosen}
+                          onChange={() => setChoices((prev) => prev && { ...prev, [field]: side })}
+                          className="mt-0.5"
+                        />
+                        <span className={`whitespace-pre-wrap break-words ${isEmpty(value) ? 'text-muted-foreground' : 'text-foreground'}`}>
+                          {formatValue(field, value)}
+                        </span>
+                      </label>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-sm text-gray-600 mb-4">
+              &ldquo;{places[survivor === 'a' ? 'b' : 'a'].name}&rdquo; will be deleted and its link will
+              redirect to &ldquo;{places[survivor].name}&rdquo;. The merge is recorded in the edit history.
+            </p>
+            <Button onClick={handleMerge} disabled={isMerging} className="w-full gap-2">
+              <GitMerge className="w-4 h-4" />
+              {isMerging ? 'Merging...' : 'Merge Places'}
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -3,7 +3,7 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import Link from 'next/link';
 import Image from 'next/image';
-import { Store, CheckCircle, ExternalLink, Trash2, Search, Image as ImageIcon } from 'lucide-react';
+import { Store, CheckCircle, ExternalLink, Trash2, Search, Pencil, History, Copy, Image as ImageIcon } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -96,13 +96,21 @@ export default function AdminPlacesPage() {
   return (
     <div>
       {/* Header with stats */}
-      <div className="mb-6">
-        <h1 className="text-2xl font-bold text-foreground">All Places</h1>
-        <div className="flex gap-4 mt-2 text-sm">
-          <span className="text-muted-foreground">{stats.total} total</span>
-          <span className="text-emerald">{stats.verified} verified</span>
-          <span className="text-primary">{stats.claimed} claimed</span>
+      <div className="mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">All Places</h1>
+          <div className="flex gap-4 mt-2 text-sm">
+            <span className="text-muted-foreground">{stats.total} total</span>
+            <span className="text-emerald">{stats.verified} verified</span>
+            <span className="text-primary">{stats.claimed} claimed</span>
+          </div>
         </div>
+        <Button variant="outline" size="sm" asChild className="gap-1.5">
+          <Link href="/admin/places/duplicates">
+            <Copy className="w-4 h-4" />
+            Duplicates
+          </Link>
+        </Button>
       </div>
 
       {/* Search */}
@@ -197,6 +205,26 @@ export default function AdminPlacesPage() {
               <div className="flex items-center gap-2 shrink-0">
                 <Badge variant="outline" className="text-xs">{place.price_range}</Badge>
                 {place.claimed_by && <Badge className="text-xs bg-primary/10 text-primary hover:bg-primary/10">Claimed</Badge>}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  asChild
+                  className="h-8 w-8 text-muted-foreground hover:text-foreground opacity-0 group-hover:opacity-100 transition-opacity"
+                >
+                  <Link href={`/dashboard/places/${place.id}/edit`} aria-label={`Edit ${place.name}`}>
+                    <Pencil className="w-4 h-4" />
+                  </Link>
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  asChild
+                  className="h-8 w-8 text-muted-foreground hover:text-foreground opacity-0 group-hover:opacity-100 transition-opacity"
+                >
+                  <Link href={`/admin/places/${place.id}/history`} aria-label={`Edit history of ${place.name}`}>
+                    <History className="w-4 h-4" />
+                  </Link>
+                </Button>
                 <Button
                   variant="ghost"
                   size="icon"
@@ -0,0 +1,286 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import Image from 'next/image';
+import { Flag, Clock, CheckCircle, XCircle, EyeOff, Eye, Ban, Pencil, ExternalLink } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { StarRating } from '@/components/place/star-rating';
+import { createClient as createBrowserClient } from '@/lib/supabase/client';
+import { REPORT_TARGET_LABELS, getReportReasonLabel } from '@/lib/reports';
+import type { PhotoStatus, ReportReason, ReportStatus, ReportTargetType } from '@/types/place';
+import { toast } from 'sonner';
+
+interface ReportedPlace {
+  id: string;
+  name: string;
+  slug: string;
+}
+
+interface Report {
+  id: string;
+  target_type: ReportTargetType;
+  reason: ReportReason;
+  details: string | null;
+  status: ReportStatus;
+  created_at: string;
+  reporter: { display_name: string | null } | null;
+  place_reviews: {
+    body: string;
+    rating: number;
+    status: 'visible' | 'hidden';
+    user_id: string;
+    places: ReportedPlace | null;
+    profiles: { display_name: string | null } | null;
+  } | null;
+  place_photos: {
+    url: string;
+    caption: string | null;
+    status: PhotoStatus;
+    uploaded_by: string | null;
+    places: ReportedPlace | null;
+    profiles: { display_name: string | null } | null;
+  } | null;
+  places: (ReportedPlace & { description: string }) | null;
+}
+
+type Action = 'hide' | 'restore' | 'ban';
+
+const REPORT_SELECT = `
+  id, target_type, reason, details, status, created_at,
+  reporter:profiles!content_reports_reported_by_fkey(display_name),
+  place_reviews(body, rating, status, user_id, places(id, name, slug), profiles(display_name)),
+  place_photos(url, caption, status, uploaded_by, places(id, name, slug), profiles(display_name)),
+  places(id, name, slug, description)
+`;
+
+const statusConfig = {
+  pending: { label: 'Pending', variant: 'outline' as const, icon: Clock, className: 'border-honey/30 bg-honey/8 text-honey' },
+  actioned: { label: 'Actioned', variant: 'outline' as const, icon: CheckCircle, className: 'border-emerald/30 bg-emerald/8 text-emerald' },
+  dismissed: { label: 'Dismissed', variant: 'outline' as const, icon: XCircle, className: 'border-border bg-muted text-muted-foreground' },
+};
+
+const filters: Array<{ value: ReportStatus | 'all'; label: string }> = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'actioned', label: 'Actioned' },
+  { value: 'dismissed', label: 'Dismissed' },
+  { value: 'all', label: 'All' },
+];
+
+/** The reported item's place, author and visibility, whatever its type */
+function getTarget(report: Report) {
+  const review = report.place_reviews;
+  const photo = report.place_photos;
+  return {
+    place: review?.places ?? photo?.places ?? report.places ?? null,
+    authorId: review?.user_id ?? photo?.uploaded_by ?? null,
+    authorName: review?.profiles?.display_name ?? photo?.profiles?.display_name ?? null,
+    // A hidden description is cleared to '' (see moderate_report)
+    isHidden: (review?.status ?? photo?.status) === 'hidden' || report.places?.description === '',
+  };
+}
+
+export default function AdminReportsPage() {
+  const [reports, setReports] = useState<Report[]>([]);
+  const [bannedIds, setBannedIds] = useState<Set<string>>(new Set());
+  const [filter, setFilter] = useState<ReportStatus | 'all'>('pending');
+  const [isLoading, setIsLoading] = useState(true);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  const loadReports = async () => {
+    const supabase = createBrowserClient();
+    let query = supabase
+      .from('content_reports')
+      .select(REPORT_SELECT)
+      .order('created_at', { ascending: false })
+      .limit(200);
+    if (filter !== 'all') query = query.eq('status', filter);
+
+    const [{ data }, { data: bans }] = await Promise.all([
+      query,
+      supabase.from('user_bans').select('user_id'),
+    ]);
+
+    setReports((data ?? []) as unknown as Report[]);
+    setBannedIds(new Set((bans ?? []).map((ban) => ban.user_id)));
+    setIsLoading(false);
+  };
+
+  useEffect(() => { loadReports(); }, [filter]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const handleAction = async (report: Report, action: Action) => {
+    if (action === 'ban' && !confirm('Ban this user? All their reviews and photos will be hidden and they can no longer post.')) {
+      return;
+    }
+    setProcessingId(report.id);
+    try {
+      const res = await fetch(`/api/admin/reports/${report.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+      const data = await res.json();
+      if (!res.ok || !data.success) {
+        toast.error(data.error || 'Failed to update report.');
+        return;
+      }
+      toast.success(data.message);
+      loadReports();
+    } catch {
+      toast.error('An error occurred.');
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Reports</h1>
+        <p className="text-gray-600 text-sm mt-1">
+          Reviews, photos and descriptions flagged by users. Acting on a report closes every open report on the same item.
+        </p>
+      </div>
+
+      <div className="flex gap-2 mb-4">
+        {filters.map((option) => (
+          <Button
+            key={option.value}
+            size="sm"
+            variant={filter === option.value ? 'default' : 'outline'}
+            onClick={() => { setIsLoading(true); setFilter(option.value); }}
+          >
+            {option.label}
+          </Button>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-12 text-gray-500">Loading reports...</div>
+      ) : reports.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <Flag className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-gray-800">No reports</h3>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {reports.map((report) => {
+            const config = statusConfig[report.status];
+            const { place, authorId, authorName, isHidden } = getTarget(report);
+            const isBanned = authorId !== null && bannedIds.has(authorId);
+            const isProcessing = processingId === report.id;
+            const date = new Date(report.created_at).toLocaleDateString('en-US', {
+              month: 'short', day: 'numeric', year: 'numeric',
+            });
+
+            return (
+              <Card key={report.id}>
+                <CardHeader className="pb-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <CardTitle className="flex items-center gap-2 text-base">
+                        {REPORT_TARGET_LABELS[report.target_type]} · {getReportReasonLabel(report.reason)}
+                        {place && (
+                          <Link
+                            href={`/places/${place.slug}`}
+                            target="_blank"
+                            className="inline-flex items-center gap-1 text-sm font-normal text-gray-500 hover:text-primary"
+                          >
+                            {place.name} <ExternalLink className="w-3 h-3" />
+                          </Link>
+                        )}
+                      </CardTitle>
+                      <p className="text-xs text-gray-500 mt-0.5">
+                        reported by {report.reporter?.display_name || 'a deleted user'} &middot; {date}
+                      </p>
+                    </div>
+                    <div className="flex gap-1.5 shrink-0">
+                      {isHidden && <Badge variant="outline" className="border-destructive/30 text-destructive">Hidden</Badge>}
+                      <Badge variant={config.variant} className={config.className}>{config.label}</Badge>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="pt-0 space-y-3">
+                  {report.details && (
+                    <p className="text-sm text-gray-700">&ldquo;{report.details}&rdquo;</p>
+                  )}
+
+                  <div className="text-sm text-gray-700 bg-gray-50 p-3 rounded-md">
+                    {report.place_reviews && (
+                      <>
+                        <StarRating value={report.place_reviews.rating} starClassName="w-3.5 h-3.5" />
+                        <p className="mt-1 whitespace-pre-line">{report.place_reviews.body}</p>
+                      </>
+                    )}
+                    {report.place_photos && (
+                      <div className="flex items-start gap-3">
+                        <Image
+                          src={report.place_photos.url}
+                          unoptimized
+                          alt={report.place_photos.caption || 'Reported photo'}
+                          width={128}
+                          height={128}
+                          className="h-32 w-32 rounded-md object-cover"
+                        />
+                        {report.place_photos.caption && <p>{report.place_photos.caption}</p>}
+                      </div>
+                    )}
+                    {report.places && (
+                      report.places.description
+                        ? <p>{report.places.description}</p>
+                        : <p className="text-gray-500">The description is hidden.</p>
+                    )}
+                    {!report.place_reviews && !report.place_photos && !report.places && (
+                      <p className="text-gray-500">This content has since been deleted.</p>
+                    )}
+                    {authorId && (
+                      <p className="text-xs text-gray-500 mt-2">
+                        by {authorName || 'Anonymous'}
+                        {isBanned && <span className="ml-1.5 font-medium text-destructive">(banned)</span>}
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="flex flex-wrap gap-2">
+                    {!isHidden && (
+                      <Button size="sm" onClick={() => handleAction(report, 'hide')} disabled={isProcessing}>
+                        <EyeOff className="w-3.5 h-3.5 mr-1" /> Hide
+                      </Button>
+                    )}
+                    {report.target_type === 'description' && place && (
+                      <Button size="sm" variant="outline" asChild>
+                        <Link href={`/dashboard/places/${place.id}/edit`}>
+                          <Pencil className="w-3.5 h-3.5 mr-1" /> Edit description
+                        </Link>
+                      </Button>
+                    )}
+                    {(report.status === 'pending' || isHidden) && (
+                      <Button size="sm" variant="outline" onClick={() => handleAction(report, 'restore')} disabled={isProcessing}>
+                        <Eye className="w-3.5 h-3.5 mr-1" /> {isHidden ? 'Restore' : 'Dismiss'}
+                      </Button>
+                    )}
+                    {authorId && !isBanned && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleAction(report, 'ban')}
+                        disabled={isProcessing}
+                        className="text-destructive hover:text-destructive"
+                      >
+                        <Ban className="w-3.5 h-3.5 mr-1" /> Ban author
+                      </Button>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
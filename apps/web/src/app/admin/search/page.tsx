@@ -0,0 +1,238 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Search, SearchX, MousePointerClick, SlidersHorizontal, ExternalLink } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { createClient as createBrowserClient } from '@/lib/supabase/client';
+import type { Database } from '@/types/database';
+
+type QueryStat = Database['public']['Functions']['search_query_stats']['Returns'][number];
+type FilterStat = Database['public']['Functions']['search_filter_stats']['Returns'][number];
+
+interface Summary {
+  searches: number;
+  zeroResults: number;
+  clicked: number;
+}
+
+const PERIODS = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+];
+
+// search_events.filters keys, as written by summarizeFilters
+const filterLabels: Record<string, string> = {
+  keywords: 'Keyword',
+  tags: 'Tag',
+  cuisines: 'Cuisine',
+  amenities: 'Amenity',
+  prices: 'Price',
+  favorites: 'Favorites only',
+  open: 'Open now',
+  near: 'Near me',
+  radius: 'Radius (m)',
+  bbox: 'Map area',
+  sort: 'Sort',
+};
+
+function percent(part: number, whole: number): string {
+  return whole > 0 ? `${Math.round((part / whole) * 100)}%` : '—';
+}
+
+export default function AdminSearchAnalyticsPage() {
+  const [days, setDays] = useState(30);
+  const [summary, setSummary] = useState<Summary>({ searches: 0, zeroResults: 0, clicked: 0 });
+  const [topQueries, setTopQueries] = useState<QueryStat[]>([]);
+  const [zeroResultQueries, setZeroResultQueries] = useState<QueryStat[]>([]);
+  const [topFilters, setTopFilters] = useState<FilterStat[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const loadStats = async () => {
+      setIsLoading(true);
+      const supabase = createBrowserClient();
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+      const [searches, zeroResults, clicked, queries, zeroQueries, filters] = await Promise.all([
+        supabase.from('search_events').select('id', { count: 'exact', head: true }).gte('created_at', since),
+        supabase.from('search_events').select('id', { count: 'exact', head: true }).gte('created_at', since).eq('result_count', 0),
+        supabase.from('search_events').select('id', { count: 'exact', head: true }).gte('created_at', since).not('clicked_at', 'is', null),
+        supabase.rpc('search_query_stats', { p_since: since, p_limit: 50 }),
+        supabase.rpc('search_query_stats', { p_since: since, p_limit: 50, p_zero_results_only: true }),
+        supabase.rpc('search_filter_stats', { p_since: since, p_limit: 30 }),
+      ]);
+
+      setSummary({
+        searches: searches.count ?? 0,
+        zeroResults: zeroResults.count ?? 0,
+        clicked: clicked.count ?? 0,
+      });
+      setTopQueries(queries.data ?? []);
+      setZeroResultQueries(zeroQueries.data ?? []);
+      setTopFilters(filters.data ?? []);
+      setIsLoading(false);
+    };
+
+    loadStats();
+  }, [days]);
+
+  const statCards = [
+    { label: 'Searches', value: summary.searches.toLocaleString(), icon: Search, accent: 'border-l-primary', iconColor: 'text-primary' },
+    { label: 'Zero-result rate', value: percent(summary.zeroResults, summary.searches), icon: SearchX, accent: 'border-l-destructive', iconColor: 'text-destructive' },
+    { label: 'Click-through rate', value: percent(summary.clicked, summary.searches), icon: MousePointerClick, accent: 'border-l-emerald', iconColor: 'text-emerald' },
+  ];
+
+  return (
+    <div>
+      <div className="mb-6 flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Search Analytics</h1>
+          <p className="text-gray-600 text-sm mt-1">What people search for, and what they don&apos;t find</p>
+        </div>
+        <div className="flex gap-1">
+          {PERIODS.map((period) => (
+            <Button
+              key={period.days}
+              size="sm"
+              variant={days === period.days ? 'default' : 'outline'}
+              onClick={() => setDays(period.days)}
+            >
+              {period.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-12 text-gray-500">Loading search analytics...</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-6">
+            {statCards.map((card) => {
+              const Icon = card.icon;
+              return (
+                <div key={card.label} className={`bg-card rounded-lg border border-border border-l-[3px] ${card.accent} px-4 py-4`}>
+                  <Icon className={`w-4 h-4 mb-3 ${card.iconColor}`} />
+                  <p className="text-2xl font-bold text-foreground tracking-tight">{card.value}</p>
+                  <p className="text-[11px] font-medium text-muted-foreground mt-0.5 uppercase tracking-wider">{card.label}</p>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">Top queries</CardTitle>
+              </CardHeader>
+              <CardContent className="pt-0">
+                {topQueries.length === 0 ? (
+                  <p className="text-sm text-gray-500 py-4">No searches in this period.</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500">
+                        <th className="py-2 font-medium">Query</th>
+                        <th className="py-2 font-medium text-right">Searches</th>
+                        <th className="py-2 font-medium text-right">Avg results</th>
+                        <th className="py-2 font-medium text-right">Clicked</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-border">
+                      {topQueries.map((row) => (
+                        <tr key={row.query}>
+                          <td className="py-2 pr-2 truncate max-w-[200px]">{row.query}</td>
+                          <td className="py-2 text-right tabular-nums">{row.searches}</td>
+                          <td className="py-2 text-right tabular-nums">{row.avg_results.toFixed(1)}</td>
+                          <td className="py-2 text-right tabular-nums">{percent(row.clicked_searches, row.searches)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">Zero-result queries</CardTitle>
+                <p className="text-xs text-gray-500">Missing places, tags or category pages</p>
+              </CardHeader>
+              <CardContent className="pt-0">
+                {zeroResultQueries.length === 0 ? (
+                  <p className="text-sm text-gray-500 py-4">Every search found something.</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500">
+                        <th className="py-2 font-medium">Query</th>
+                        <th className="py-2 font-medium text-right">No results</th>
+                        <th className="py-2 font-medium text-right">Last searched</th>
+                        <th className="py-2" />
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-border">
+                      {zeroResultQueries.map((row) => (
+                        <tr key={row.query}>
+                          <td className="py-2 pr-2 truncate max-w-[200px]">{row.query}</td>
+                          <td className="py-2 text-right tabular-nums">{row.zero_result_searches}</td>
+                          <td className="py-2 text-right text-xs text-gray-500">
+                            {new Date(row.last_searched_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                          </td>
+                          <td className="py-2 text-right">
+                            <Link
+                              href={`/places?q=${encodeURIComponent(row.query)}`}
+                              target="_blank"
+                              className="inline-flex text-gray-400 hover:text-primary"
+                              aria-label={`Search for ${row.query}`}
+                            >
+                              <ExternalLink className="w-3.5 h-3.5" />
+                            </Link>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="xl:col-span-2">
+              <CardHeader className="pb-2">
+                <div className="flex items-center gap-2">
+                  <SlidersHorizontal className="w-4 h-4 text-muted-foreground" />
+                  <CardTitle className="text-base">Popular filters</CardTitle>
+                </div>
+              </CardHeader>
+              <CardContent className="pt-0">
+                {topFilters.length === 0 ? (
+                  <p className="text-sm text-gray-500 py-4">No filters applied in this period.</p>
+                ) : (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-x-6 divide-y divide-border sm:divide-y-0">
+                    {topFilters.map((row) => (
+                      <div key={`${row.filter}-${row.value}`} className="flex items-center justify-between gap-2 py-2 text-sm">
+                        <span className="truncate">
+                          <span className="text-gray-500">{filterLabels[row.filter] ?? row.filter}:</span>{' '}
+                          {row.value === 'true' ? 'on' : row.value}
+                        </span>
+                        <span className="tabular-nums text-gray-600 shrink-0">
+                          {row.searches}
+                          {row.zero_result_searches > 0 && (
+                            <span className="text-destructive text-xs ml-1">({row.zero_result_searches} empty)</span>
+                          )}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
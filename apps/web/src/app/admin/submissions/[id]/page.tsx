@@ -4,12 +4,16 @@ import { useState, useEffect } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import Image from 'next/image';
-import { ArrowLeft, CheckCircle, XCircle, MapPin, DollarSign, Tag } from 'lucide-react';
+import { ArrowLeft, CheckCircle, XCircle, MapPin, DollarSign, Tag, AlertTriangle, ExternalLink } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { createClient as createBrowserClient } from '@/lib/supabase/client';
+import { getDayIntervals } from '@/lib/hours';
+import { LIKELY_DUPLICATE_SCORE, formatDuplicateScore } from '@/lib/duplicates';
+import { getPlaceLinks } from '@/lib/place-links';
 import { toast } from 'sonner';
+import type { OperatingHours, PlaceLinks } from '@/types/place';
 
 interface SubmissionDetail {
   id: string;
@@ -23,6 +27,15 @@ interface SubmissionDetail {
   created_at: string;
 }
 
+interface DuplicateMatch {
+  id: string;
+  name: string;
+  slug: string;
+  address: string;
+  distance_meters: number | null;
+  score: number;
+}
+
 const statusConfig = {
   pending: { label: 'Pending', variant: 'outline' as const, className: 'border-honey/30 bg-honey/8 text-honey' },
   approved: { label: 'Approved', variant: 'outline' as const, className: 'border-emerald/30 bg-emerald/8 text-emerald' },
@@ -35,6 +48,7 @@ export default function AdminSubmissionDetailPage() {
   const [submission, setSubmission] = useState<SubmissionDetail | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [duplicates, setDuplicates] = useState<DuplicateMatch[]>([]);
 
   useEffect(() => {
     const load = async () => {
@@ -51,11 +65,20 @@ export default function AdminSubmissionDetailPage() {
         return;
       }
 
-      setSubmission({
-        ...data,
-        place_data: (data.place_data ?? {}) as Record<string, unknown>,
-      } as SubmissionDetail);
+      const placeData = (data.place_data ?? {}) as Record<string, unknown>;
+      setSubmission({ ...data, place_data: placeData } as SubmissionDetail);
       setIsLoading(false);
+
+      // Warn before approving a place that is already listed
+      if (data.status === 'pending' && typeof placeData.name === 'string') {
+        const { data: matches } = await supabase.rpc('find_duplicate_places', {
+          p_name: placeData.name,
+          p_address: typeof placeData.address === 'string' ? placeData.address : null,
+          p_latitude: typeof placeData.latitude === 'number' ? placeData.latitude : null,
+          p_longitude: typeof placeData.longitude === 'number' ? placeData.longitude : null,
+        });
+        setDuplicates(matches ?? []);
+      }
     };
 
     load();
@@ -93,11 +116,12 @@ export default function AdminSubmissionDetailPage() {
 
   const config = statusConfig[submission.status];
   const pd = submission.place_data;
+  const links = getPlaceLinks(pd.links as PlaceLinks | undefined);
   const createdDate = new Date(submission.created_at).toLocaleDateString('en-US', {
     month: 'long', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit',
   });
 
-  const operatingHours = pd.operating_hours as Record<string, { open?: string; close?: string; closed?: boolean }> | null;
+  const operatingHours = pd.operating_hours as OperatingHours | null;
   const dayOrder = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
 
   return (
@@ -156,7 +180,7 @@ export default function AdminSubmissionDetailPage() {
         </Card>
 
         {/* Contact */}
-        {!!(pd.phone || pd.email || pd.website) && (
+        {!!(pd.phone || pd.email || pd.website || links.length > 0) && (
           <Card>
             <CardHeader className="pb-2">
               <CardTitle className="text-sm font-medium text-gray-500">Contact</CardTitle>
@@ -165,6 +189,9 @@ export default function AdminSubmissionDetailPage() {
               {!!pd.phone && <div><span className="text-gray-500">Phone: </span>{String(pd.phone)}</div>}
               {!!pd.email && <div><span className="text-gray-500">Email: </span>{String(pd.email)}</div>}
               {!!pd.website && <div><span className="text-gray-500">Website: </span>{String(pd.website)}</div>}
+              {links.map((link) => (
+                <div key={link.platform} className="break-all"><span className="text-gray-500">{link.label}: </span>{link.url}</div>
+              ))}
             </CardContent>
           </Card>
         )}
@@ -236,7 +263,9 @@ export default function AdminSubmissionDetailPage() {
                       <div key={day} className="flex justify-between py-1">
                         <span className="capitalize text-gray-600">{day}</span>
                         <span className="font-medium">
-                          {hours?.closed ? 'Closed' : `${hours?.open || '?'} - ${hours?.close || '?'}`}
+                          {hours?.closed
+                            ? 'Closed'
+                            : getDayIntervals(hours).map((interval) => `${interval.open} - ${interval.close}`).join(', ') || '?'}
                         </span>
                       </div>
                     );
@@ -283,6 +312,49 @@ export default function AdminSubmissionDetailPage() {
           </Card>
         )}
 
+        {/* Possible duplicates */}
+        {submission.status === 'pending' && duplicates.length > 0 && (
+          <Card className="border-honey/40 bg-honey/5">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-honey flex items-center gap-1.5">
+                <AlertTriangle className="w-4 h-4" />
+                Possible duplicate{duplicates.length > 1 ? 's' : ''}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <p className="text-sm text-gray-600">
+                This looks like a place that is already listed. Check before approving; if it is the
+                same place, reject this submission or merge the two afterwards.
+              </p>
+              {duplicates.map((match) => (
+                <div key={match.id} className="flex items-start justify-between gap-3 rounded-md border bg-white p-2.5 text-sm">
+                  <div className="min-w-0">
+                    <Link
+                      href={`/places/${match.slug}`}
+                      target="_blank"
+                      className="font-medium text-gray-900 hover:underline inline-flex items-center gap-1"
+                    >
+                      {match.name} <ExternalLink className="w-3 h-3" />
+                    </Link>
+                    <p className="text-xs text-gray-500 truncate">
+                      {match.address}
+                      {match.distance_meters !== null && ` · ${Math.round(match.distance_meters)} m away`}
+                    </p>
+                  </div>
+                  <Badge
+                    variant="outline"
+                    className={match.score >= LIKELY_DUPLICATE_SCORE
+                      ? 'border-destructive/30 bg-destructive/8 text-destructive shrink-0'
+                      : 'shrink-0'}
+                  >
+                    {formatDuplicateScore(match.score)}
+                  </Badge>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Review Actions */}
         {submission.status === 'pending' && (
           <Card>
@@ -7,6 +7,7 @@ import { ArrowLeft, CheckCircle, XCircle, ExternalLink } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { createClient as createBrowserClient } from '@/lib/supabase/client';
 import { toast } from 'sonner';
 
@@ -44,6 +45,8 @@ export default function AdminSuggestionDetailPage() {
   const [suggestion, setSuggestion] = useState<SuggestionDetail | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [closureStatus, setClosureStatus] = useState<'permanently_closed' | 'temporarily_closed'>('permanently_closed');
+  const [closureDate, setClosureDate] = useState('');
 
   useEffect(() => {
     const load = async () => {
@@ -60,6 +63,12 @@ export default function AdminSuggestionDetailPage() {
         return;
       }
 
+      const changes = (data.changes ?? {}) as Record<string, unknown>;
+      if (changes._type === 'closure_report') {
+        if (changes.status === 'temporarily_closed') setClosureStatus('temporarily_closed');
+        if (typeof changes.effectiveDate === 'string') setClosureDate(changes.effectiveDate);
+      }
+
       setSuggestion({
         ...data,
         changes: (data.changes ?? {}) as SuggestionDetail['changes'],
@@ -74,13 +83,17 @@ export default function AdminSuggestionDetailPage() {
 
   const handleReview = async (status: 'approved' | 'rejected') => {
     if (!suggestion) return;
+    const isClosureReport = (suggestion.changes as Record<string, unknown>)._type === 'closure_report';
     setIsProcessing(true);
 
     try {
       const res = await fetch(`/api/admin/suggestions/${suggestion.id}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ status }),
+        body: JSON.stringify({
+          status,
+          ...(isClosureReport && { closureStatus, closureDate: closureDate || null }),
+        }),
       });
       const data = await res.json();
       if (!res.ok || !data.success) {
@@ -215,9 +228,34 @@ export default function AdminSuggestionDetailPage() {
             <CardContent className="pt-6">
               <p className="text-sm text-gray-600 mb-4">
                 {isClosureReport
-                  ? 'Approving this will not automatically remove the place. Review the closure reason and take manual action if needed.'
+                  ? 'Approving marks the place as closed. It leaves search and the sitemap, and its page shows a closure notice.'
                   : 'Approving will apply the proposed changes to the place.'}
               </p>
+              {isClosureReport && (
+                <div className="grid grid-cols-2 gap-3 mb-4">
+                  <div>
+                    <label htmlFor="closure-status" className="block text-xs font-medium text-gray-500 mb-1">Status</label>
+                    <select
+                      id="closure-status"
+                      value={closureStatus}
+                      onChange={(e) => setClosureStatus(e.target.value as typeof closureStatus)}
+                      className="h-9 w-full rounded-md border border-input bg-transparent px-3 text-sm"
+                    >
+                      <option value="permanently_closed">Permanently closed</option>
+                      <option value="temporarily_closed">Temporarily closed</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="closure-date" className="block text-xs font-medium text-gray-500 mb-1">Effective date</label>
+                    <Input
+                      id="closure-date"
+                      type="date"
+                      value={closureDate}
+                      onChange={(e) => setClosureDate(e.target.value)}
+                    />
+                  </div>
+                </div>
+              )}
               <div className="flex gap-3">
                 <Button
                   onClick={() => handleReview('approved')}
@@ -0,0 +1,210 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Languages, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { createClient as createBrowserClient } from '@/lib/supabase/client';
+import { toast } from 'sonner';
+
+type SynonymKind = 'synonym' | 'dish';
+
+interface SearchSynonym {
+  id: string;
+  term: string;
+  synonyms: string[];
+  kind: SynonymKind;
+}
+
+const kindLabels: Record<SynonymKind, string> = {
+  synonym: 'Words',
+  dish: 'Dishes',
+};
+
+const selectClassName =
+  'rounded-md border border-input bg-transparent px-2 py-1.5 text-sm outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]';
+
+function splitSynonyms(value: string): string[] {
+  return value.split(',').map((synonym) => synonym.trim()).filter(Boolean);
+}
+
+export default function AdminSynonymsPage() {
+  const [entries, setEntries] = useState<SearchSynonym[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [filter, setFilter] = useState('');
+  const [newEntry, setNewEntry] = useState({ term: '', synonyms: '', kind: 'synonym' as SynonymKind });
+  const [isLoading, setIsLoading] = useState(true);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  const loadSynonyms = async () => {
+    const supabase = createBrowserClient();
+    const { data } = await supabase
+      .from('search_synonyms')
+      .select('id, term, synonyms, kind')
+      .order('term');
+
+    setEntries((data ?? []) as SearchSynonym[]);
+    setDrafts({});
+    setIsLoading(false);
+  };
+
+  useEffect(() => { loadSynonyms(); }, []);
+
+  const send = async (id: string, url: string, method: string, body?: object) => {
+    setProcessingId(id);
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await res.json();
+      if (!res.ok || !data.success) {
+        toast.error(data.error || 'Failed to update dictionary.');
+        return false;
+      }
+      toast.success(data.message);
+      loadSynonyms();
+      return true;
+    } catch {
+      toast.error('An error occurred.');
+      return false;
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleAdd = async () => {
+    const added = await send('new', '/api/admin/synonyms', 'POST', {
+      term: newEntry.term,
+      synonyms: splitSynonyms(newEntry.synonyms),
+      kind: newEntry.kind,
+    });
+    if (added) setNewEntry({ term: '', synonyms: '', kind: newEntry.kind });
+  };
+
+  if (isLoading) {
+    return <div className="text-center py-12 text-gray-500">Loading synonyms...</div>;
+  }
+
+  const needle = filter.trim().toLowerCase();
+  const visible = needle
+    ? entries.filter((entry) => entry.term.includes(needle) || entry.synonyms.some((s) => s.includes(needle)))
+    : entries;
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Search Synonyms</h1>
+        <p className="text-gray-600 text-sm mt-1">
+          Filipino/Taglish words and dishes that expand search queries ({entries.length} entries).
+          Searching any word in an entry also matches the others.
+        </p>
+      </div>
+
+      <Card className="mb-8">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base">Add an entry</CardTitle>
+        </CardHeader>
+        <CardContent className="pt-0 flex flex-wrap items-center gap-2">
+          <Input
+            value={newEntry.term}
+            onChange={(e) => setNewEntry({ ...newEntry, term: e.target.value })}
+            placeholder="Term, e.g. kape"
+            className="h-8 w-40"
+            aria-label="Term"
+          />
+          <Input
+            value={newEntry.synonyms}
+            onChange={(e) => setNewEntry({ ...newEntry, synonyms: e.target.value })}
+            placeholder="Synonyms, comma separated"
+            className="h-8 flex-1 min-w-[200px]"
+            aria-label="Synonyms"
+          />
+          <select
+            value={newEntry.kind}
+            onChange={(e) => setNewEntry({ ...newEntry, kind: e.target.value as SynonymKind })}
+            className={selectClassName}
+            aria-label="Kind"
+          >
+            <option value="synonym">Word</option>
+            <option value="dish">Dish</option>
+          </select>
+          <Button
+            size="sm"
+            onClick={handleAdd}
+            disabled={processingId === 'new' || !newEntry.term.trim() || splitSynonyms(newEntry.synonyms).length === 0}
+          >
+            Add
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Input
+        value={filter}
+        onChange={(e) => setFilter(e.target.value)}
+        placeholder="Filter entries..."
+        className="h-8 w-64 mb-4"
+        aria-label="Filter entries"
+      />
+
+      {visible.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <Languages className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-gray-800">No matching entries</h3>
+          </CardContent>
+        </Card>
+      ) : (
+        (['synonym', 'dish'] as const).map((kind) => {
+          const group = visible.filter((entry) => entry.kind === kind);
+          if (group.length === 0) return null;
+
+          return (
+            <div key={kind} className="mb-8">
+              <h2 className="text-sm font-semibold text-gray-900 mb-3">{kindLabels[kind]} ({group.length})</h2>
+              <div className="bg-card rounded-lg border border-border divide-y divide-border">
+                {group.map((entry) => {
+                  const draft = drafts[entry.id] ?? entry.synonyms.join(', ');
+                  const isDirty = draft !== entry.synonyms.join(', ');
+                  const isProcessing = processingId === entry.id;
+
+                  return (
+                    <div key={entry.id} className="flex flex-wrap items-center gap-2 px-4 py-2">
+                      <span className="w-32 font-mono text-sm text-foreground">{entry.term}</span>
+                      <Input
+                        value={draft}
+                        onChange={(e) => setDrafts((prev) => ({ ...prev, [entry.id]: e.target.value }))}
+                        className="h-8 flex-1 min-w-[200px]"
+                        aria-label={`Synonyms for ${entry.term}`}
+                      />
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => send(entry.id, `/api/admin/synonyms/${entry.id}`, 'PATCH', { synonyms: splitSynonyms(draft) })}
+                        disabled={isProcessing || !isDirty || splitSynonyms(draft).length === 0}
+                      >
+                        Save
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => send(entry.id, `/api/admin/synonyms/${entry.id}`, 'DELETE')}
+                        disabled={isProcessing}
+                        className="text-destructive hover:text-destructive"
+                        aria-label={`Delete ${entry.term}`}
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </Button>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
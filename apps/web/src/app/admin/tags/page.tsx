@@ -0,0 +1,263 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { Tags, Clock, CheckCircle, XCircle, ArrowRight } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { createClient as createBrowserClient } from '@/lib/supabase/client';
+import { TAG_CATEGORIES } from '@/lib/tags';
+import { toast } from 'sonner';
+import type { Tag, TagCategory } from '@/types/place';
+
+interface TagProposal {
+  id: string;
+  slug: string;
+  category: TagCategory | null;
+  usage_count: number;
+  status: 'pending' | 'approved' | 'aliased' | 'rejected';
+  created_at: string;
+}
+
+interface ProposalDraft {
+  name: string;
+  category: TagCategory;
+  tagSlug: string;
+}
+
+const statusConfig = {
+  pending: { label: 'Pending', variant: 'outline' as const, icon: Clock, className: 'border-honey/30 bg-honey/8 text-honey' },
+  approved: { label: 'Approved', variant: 'outline' as const, icon: CheckCircle, className: 'border-emerald/30 bg-emerald/8 text-emerald' },
+  aliased: { label: 'Aliased', variant: 'outline' as const, icon: ArrowRight, className: 'border-primary/30 bg-primary/8 text-primary' },
+  rejected: { label: 'Rejected', variant: 'outline' as const, icon: XCircle, className: 'border-destructive/30 bg-destructive/8 text-destructive' },
+};
+
+const selectClassName =
+  'rounded-md border border-input bg-transparent px-2 py-1.5 text-sm outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]';
+
+function nameFromSlug(slug: string): string {
+  return slug
+    .split('-')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+export default function AdminTagsPage() {
+  const [proposals, setProposals] = useState<TagProposal[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [aliases, setAliases] = useState<Array<{ alias: string; tag_slug: string }>>([]);
+  const [drafts, setDrafts] = useState<Record<string, ProposalDraft>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  const loadTags = async () => {
+    const supabase = createBrowserClient();
+    const [proposalsResult, tagsResult, aliasesResult] = await Promise.all([
+      supabase
+        .from('tag_proposals')
+        .select('id, slug, category, usage_count, status, created_at')
+        .order('usage_count', { ascending: false }),
+      supabase.from('tags').select('id, name, slug, category').order('name'),
+      supabase.from('tag_aliases').select('alias, tag_slug').order('alias'),
+    ]);
+
+    setProposals((proposalsResult.data ?? []) as TagProposal[]);
+    setTags((tagsResult.data ?? []) as Tag[]);
+    setAliases(aliasesResult.data ?? []);
+    setIsLoading(false);
+  };
+
+  useEffect(() => { loadTags(); }, []);
+
+  const aliasesBySlug = useMemo(() => {
+    const grouped: Record<string, string[]> = {};
+    for (const { alias, tag_slug } of aliases) {
+      (grouped[tag_slug] ??= []).push(alias);
+    }
+    return grouped;
+  }, [aliases]);
+
+  const getDraft = (proposal: TagProposal): ProposalDraft =>
+    drafts[proposal.id] ?? {
+      name: nameFromSlug(proposal.slug),
+      category: proposal.category ?? 'atmosphere',
+      tagSlug: '',
+    };
+
+  const updateDraft = (proposal: TagProposal, update: Partial<ProposalDraft>) => {
+    setDrafts((prev) => ({ ...prev, [proposal.id]: { ...getDraft(proposal), ...update } }));
+  };
+
+  const handleReview = async (proposal: TagProposal, action: 'approve' | 'alias' | 'reject') => {
+    const draft = getDraft(proposal);
+    if (action === 'alias' && !draft.tagSlug) {
+      toast.error('Pick a canonical tag to alias to.');
+      return;
+    }
+
+    setProcessingId(proposal.id);
+    try {
+      const res = await fetch(`/api/admin/tags/proposals/${proposal.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(
+          action === 'approve'
+            ? { action, name: draft.name, category: draft.category }
+            : action === 'alias'
+              ? { action, tagSlug: draft.tagSlug }
+              : { action }
+        ),
+      });
+      const data = await res.json();
+      if (!res.ok || !data.success) {
+        toast.error(data.error || 'Failed to review tag.');
+        return;
+      }
+      toast.success(data.message);
+      loadTags();
+    } catch {
+      toast.error('An error occurred.');
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  if (isLoading) {
+    return <div className="text-center py-12 text-gray-500">Loading tags...</div>;
+  }
+
+  const pending = proposals.filter((p) => p.status === 'pending');
+  const reviewed = proposals.filter((p) => p.status !== 'pending');
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Tags</h1>
+        <p className="text-gray-600 text-sm mt-1">
+          Review proposed tags and manage the canonical taxonomy ({tags.length} tags, {aliases.length} aliases)
+        </p>
+      </div>
+
+      <h2 className="text-sm font-semibold text-gray-900 mb-3">Proposed tags ({pending.length})</h2>
+      {pending.length === 0 ? (
+        <Card className="mb-8">
+          <CardContent className="py-12 text-center">
+            <Tags className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-gray-800">No proposed tags</h3>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3 mb-8">
+          {pending.map((proposal) => {
+            const draft = getDraft(proposal);
+            const isProcessing = processingId === proposal.id;
+
+            return (
+              <Card key={proposal.id}>
+                <CardHeader className="pb-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <CardTitle className="text-base font-mono">{proposal.slug}</CardTitle>
+                      <p className="text-xs text-gray-500 mt-0.5">
+                        Used {proposal.usage_count} {proposal.usage_count === 1 ? 'time' : 'times'}
+                      </p>
+                    </div>
+                    <Badge variant={statusConfig.pending.variant} className={statusConfig.pending.className}>
+                      {statusConfig.pending.label}
+                    </Badge>
+                  </div>
+                </CardHeader>
+                <CardContent className="pt-0 space-y-3">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Input
+                      value={draft.name}
+                      onChange={(e) => updateDraft(proposal, { name: e.target.value })}
+                      className="h-8 w-48"
+                      aria-label="Tag name"
+                    />
+                    <select
+                      value={draft.category}
+                      onChange={(e) => updateDraft(proposal, { category: e.target.value as TagCategory })}
+                      className={selectClassName}
+                      aria-label="Category"
+                    >
+                      {TAG_CATEGORIES.map((category) => (
+                        <option key={category.value} value={category.value}>{category.label}</option>
+                      ))}
+                    </select>
+                    <Button size="sm" onClick={() => handleReview(proposal, 'approve')} disabled={isProcessing || !draft.name.trim()}>
+                      Approve
+                    </Button>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <select
+                      value={draft.tagSlug}
+                      onChange={(e) => updateDraft(proposal, { tagSlug: e.target.value })}
+                      className={`${selectClassName} w-48`}
+                      aria-label="Alias to"
+                    >
+                      <option value="">Alias to…</option>
+                      {tags.map((tag) => (
+                        <option key={tag.slug} value={tag.slug}>{tag.slug}</option>
+                      ))}
+                    </select>
+                    <Button size="sm" variant="outline" onClick={() => handleReview(proposal, 'alias')} disabled={isProcessing}>
+                      Alias
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => handleReview(proposal, 'reject')} disabled={isProcessing}>
+                      Reject
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <h2 className="text-sm font-semibold text-gray-900 mb-3">Canonical tags</h2>
+      <div className="space-y-3 mb-8">
+        {TAG_CATEGORIES.map((category) => (
+          <Card key={category.value}>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">{category.label}</CardTitle>
+            </CardHeader>
+            <CardContent className="pt-0 flex flex-wrap gap-1.5">
+              {tags
+                .filter((tag) => tag.category === category.value)
+                .map((tag) => (
+                  <Badge
+                    key={tag.slug}
+                    variant="secondary"
+                    title={aliasesBySlug[tag.slug] ? `Aliases: ${aliasesBySlug[tag.slug].join(', ')}` : undefined}
+                  >
+                    {tag.slug}
+                    {aliasesBySlug[tag.slug] && (
+                      <span className="ml-1 text-gray-400">+{aliasesBySlug[tag.slug].length}</span>
+                    )}
+                  </Badge>
+                ))}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {reviewed.length > 0 && (
+        <>
+          <h2 className="text-sm font-semibold text-gray-900 mb-3">Reviewed proposals</h2>
+          <div className="flex flex-wrap gap-1.5">
+            {reviewed.map((proposal) => {
+              const config = statusConfig[proposal.status];
+              return (
+                <Badge key={proposal.id} variant={config.variant} className={config.className}>
+                  {proposal.slug}
+                </Badge>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
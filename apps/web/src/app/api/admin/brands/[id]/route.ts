@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth';
+import { createClient } from '@/lib/supabase/server';
+import { checkRateLimit } from '@/lib/rate-limiter';
+import { sanitizeStrings } from '@/lib/sanitize';
+import { updateBrandSchema } from '@/lib/brands';
+import { dbRowToBrand } from '@/lib/supabase/mappers';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * PATCH /api/admin/brands/[id]
+ * Edit a brand's shared details
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const admin = await requireAdmin(request);
+    if (admin.response) return admin.response;
+
+    if (!(await checkRateLimit(`admin:${admin.profile.id}`, { limit: 100, windowMs: 60 * 60 * 1000 }))) {
+      return NextResponse.json({ success: false, error: 'Rate limit exceeded.' }, { status: 429 });
+    }
+
+    const body = await request.json();
+    const validation = updateBrandSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: validation.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const data = sanitizeStrings(validation.data);
+    const update: Record<string, unknown> = {};
+    if (data.name !== undefined) update.name = data.name;
+    if (data.slug !== undefined) update.slug = data.slug;
+    if (data.description !== undefined) update.description = data.description || null;
+    if (data.logoUrl !== undefined) update.logo_url = data.logoUrl || null;
+    if (data.website !== undefined) update.website = data.website || null;
+
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: row, error } = await supabase
+      .from('brands')
+      .update(update)
+      .eq('id', id)
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { success: false, error: `A brand already uses the slug "${data.slug}".` },
+          { status: 409 }
+        );
+      }
+      console.info('[admin/brands] Update error:', error.message);
+      return NextResponse.json(
+        { success: false, error: 'Failed to update brand.' },
+        { status: 500 }
+      );
+    }
+
+    if (!row) {
+      return NextResponse.json(
+        { success: false, error: 'Brand not found.' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Updated ${row.name}.`,
+      brand: dbRowToBrand(row),
+    });
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+    console.info('[admin/brands] API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'An unexpected error occurred.' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/brands/[id]
+ * Delete a brand. Its branches stay listed as standalone places.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const admin = await requireAdmin(request);
+    if (admin.response) return admin.response;
+
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: row, error } = await supabase
+      .from('brands')
+      .delete()
+      .eq('id', id)
+      .select('name')
+      .maybeSingle();
+
+    if (error) {
+      console.info('[admin/brands] Delete error:', error.message);
+      return NextResponse.json(
+        { success: false, error: 'Failed to delete brand.' },
+        { status: 500 }
+      );
+    }
+
+    if (!row) {
+      return NextResponse.json(
+        { success: false, error: 'Brand not found.' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Deleted ${row.name}. Its branches are now standalone places.`,
+    });
+  } catch (error) {
+    console.info('[admin/brands] API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'An unexpected error occurred.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth';
+import { createClient } from '@/lib/supabase/server';
+import { checkRateLimit } from '@/lib/rate-limiter';
+import { sanitizeStrings } from '@/lib/sanitize';
+import { brandSchema } from '@/lib/brands';
+import { slugify } from '@/lib/slugs-server';
+import { dbRowToBrand } from '@/lib/supabase/mappers';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/admin/brands
+ * Create a brand. Branches are assigned by setting brand_id on places
+ * (PUT /api/admin/places/[id]).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await requireAdmin(request);
+    if (admin.response) return admin.response;
+
+    if (!(await checkRateLimit(`admin:${admin.profile.id}`, { limit: 100, windowMs: 60 * 60 * 1000 }))) {
+      return NextResponse.json({ success: false, error: 'Rate limit exceeded.' }, { status: 429 });
+    }
+
+    const body = await request.json();
+    const validation = brandSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: validation.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const data = sanitizeStrings(validation.data);
+    const slug = data.slug || slugify(data.name);
+    if (!slug) {
+      return NextResponse.json(
+        { success: false, error: 'The name needs at least one letter or number.' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClient();
+    const { data: row, error } = await supabase
+      .from('brands')
+      .insert({
+        name: data.name,
+        slug,
+        description: data.description || null,
+        logo_url: data.logoUrl || null,
+        website: data.website || null,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { success: false, error: `A brand already uses the slug "${slug}".` },
+          { status: 409 }
+        );
+      }
+      console.info('[admin/brands] Insert error:', error.message);
+      return NextResponse.json(
+        { success: false, error: 'Failed to create brand.' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Created ${row.name}.`,
+      brand: dbRowToBrand(row),
+    });
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+    console.info('[admin/brands] API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'An unexpected error occurred.' },
+      { status: 500 }
+    );
+  }
+}
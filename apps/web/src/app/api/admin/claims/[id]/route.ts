@@ -3,6 +3,7 @@ import { z } from 'zod';
 import { requireAdmin } from '@/lib/auth';
 import { createClient } from '@/lib/supabase/server';
 import { checkRateLimit } from '@/lib/rate-limiter';
+import { REVISION_SOURCE_HEADER } from '@/lib/revisions';
 
 const reviewSchema = z.object({
   status: z.enum(['approved', 'rejected']),
@@ -87,7 +88,8 @@ export async function PATCH(
           verified: true,
           updated_at: now,
         })
-        .eq('id', claim.place_id);
+        .eq('id', claim.place_id)
+        .setHeader(REVISION_SOURCE_HEADER, 'claim');
 
       if (placeError) {
         console.info('[admin/claims] Place update error:', placeError.message);
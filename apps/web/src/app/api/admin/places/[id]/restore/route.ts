@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAdmin } from '@/lib/auth';
+import { createClient } from '@/lib/supabase/server';
+import { checkRateLimit } from '@/lib/rate-limiter';
+import { RESTORABLE_FIELDS, REVISION_SOURCE_HEADER } from '@/lib/revisions';
+
+const restoreSchema = z.object({
+  revisionId: z.string().uuid(),
+});
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/admin/places/[id]/restore
+ * Write a stored revision's content back to the place. The restore is
+ * recorded as a new revision, so it can be undone the same way.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const admin = await requireAdmin(request);
+    if (admin.response) return admin.response;
+
+    if (!(await checkRateLimit(`admin:${admin.profile.id}`, { limit: 100, windowMs: 60 * 60 * 1000 }))) {
+      return NextResponse.json({ success: false, error: 'Rate limit exceeded.' }, { status: 429 });
+    }
+
+    const body = await request.json();
+    const validation = restoreSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: validation.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    const supabase = await createClient();
+
+    const { data: revision, error: fetchError } = await supabase
+      .from('place_revisions')
+      .select('id, snapshot')
+      .eq('id', validation.data.revisionId)
+      .eq('place_id', id)
+      .maybeSingle();
+
+    if (fetchError || !revision) {
+      return NextResponse.json(
+        { success: false, error: 'Revision not found.' },
+        { status: 404 }
+      );
+    }
+
+    const snapshot = revision.snapshot as Record<string, unknown>;
+    const update: Record<string, unknown> = { updated_at: new Date().toISOString() };
+    for (const field of RESTORABLE_FIELDS) {
+      if (field in snapshot) update[field] = snapshot[field];
+    }
+
+    const { error: updateError } = await supabase
+      .from('places')
+      .update(update)
+      .eq('id', id)
+      .setHeader(REVISION_SOURCE_HEADER, 'restore');
+
+    if (updateError) {
+      console.info('[admin/places] Restore error:', updateError.message);
+      return NextResponse.json(
+        { success: false, error: 'Failed to restore revision.' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: 'Revision restored.' });
+  } catch (error) {
+    console.info('[admin/places] Restore error:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'An unexpected error occurred.' },
+      { status: 500 }
+    );
+  }
+}
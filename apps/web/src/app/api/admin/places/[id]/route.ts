@@ -1,31 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { z } from 'zod';
 import { requireAdmin } from '@/lib/auth';
 import { createClient } from '@/lib/supabase/server';
 import { checkRateLimit } from '@/lib/rate-limiter';
-
-const updatePlaceSchema = z.object({
-  name: z.string().min(1).optional(),
-  description: z.string().min(10).optional(),
-  address: z.string().min(1).optional(),
-  operating_hours: z.record(z.string(), z.unknown()).optional(),
-  price_range: z.enum(['$', '$$', '$$$', '$$$$']).optional(),
-  cuisine_types: z.array(z.string()).min(1).optional(),
-  phone: z.string().optional().nullable(),
-  email: z.string().email().optional().or(z.literal('')).nullable(),
-  website: z.string().url().optional().or(z.literal('')).nullable(),
-  logo_url: z.string().url().optional().or(z.literal('')).nullable(),
-  cover_image_url: z.string().url().optional().or(z.literal('')).nullable(),
-  photos_urls: z.array(z.string().url()).optional(),
-  payment_methods: z.array(z.string()).optional(),
-  tags: z.array(z.string()).optional(),
-  amenities: z.array(z.string()).optional(),
-  specialties: z.array(z.string()).optional(),
-  latitude: z.number().min(-90).max(90).optional().nullable(),
-  longitude: z.number().min(-180).max(180).optional().nullable(),
-  verified: z.boolean().optional(),
-  claimed_by: z.string().uuid().optional().nullable(),
-});
+import { REVISION_SOURCE_HEADER } from '@/lib/revisions';
+import { getUniquePlaceSlug } from '@/lib/slugs-server';
+import { adminUpdatePlaceSchema, checkPaymentMethods, unknownPaymentMethodsMessage } from '@/lib/place-schema';
+import { mapPlaceFieldsToDb } from '@/lib/supabase/mappers';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -47,7 +27,7 @@ export async function PUT(
 
     const { data: place, error: fetchError } = await supabase
       .from('places')
-      .select('id')
+      .select('id, name, slug, payment_methods')
       .eq('id', id)
       .single();
 
@@ -59,7 +39,7 @@ export async function PUT(
     }
 
     const body = await request.json();
-    const validation = updatePlaceSchema.safeParse(body);
+    const validation = adminUpdatePlaceSchema.safeParse(body);
     if (!validation.success) {
       return NextResponse.json(
         { success: false, error: 'Validation failed', details: validation.error.format() },
@@ -67,15 +47,36 @@ export async function PUT(
       );
     }
 
+    const data = validation.data;
+    if (data.paymentMethods !== undefined) {
+      const { methods, unknown } = checkPaymentMethods(data.paymentMethods, place.payment_methods);
+      if (unknown.length > 0) {
+        return NextResponse.json(
+          { success: false, error: unknownPaymentMethodsMessage(unknown) },
+          { status: 400 }
+        );
+      }
+      data.paymentMethods = methods;
+    }
+
     const update: Record<string, unknown> = {
-      ...validation.data,
+      ...mapPlaceFieldsToDb(data),
       updated_at: new Date().toISOString(),
     };
 
+    // Renaming moves the place to a new slug; the old one redirects
+    const { slug, name } = data;
+    if (slug !== undefined && slug !== place.slug) {
+      update.slug = await getUniquePlaceSlug(slug, id);
+    } else if (slug === undefined && name !== undefined && name !== place.name) {
+      update.slug = await getUniquePlaceSlug(name, id);
+    }
+
     const { error: updateError } = await supabase
       .from('places')
       .update(update)
-      .eq('id', id);
+      .eq('id', id)
+      .setHeader(REVISION_SOURCE_HEADER, 'admin_edit');
 
     if (updateError) {
       console.info('[admin/places] Update error:', updateError.message);
@@ -85,7 +86,11 @@ export async function PUT(
       );
     }
 
-    return NextResponse.json({ success: true, message: 'Place updated successfully.' });
+    return NextResponse.json({
+      success: true,
+      message: 'Place updated successfully.',
+      slug: (update.slug as string | undefined) ?? place.slug,
+    });
   } catch (error) {
     console.info('[admin/places] PUT error:', error);
     return NextResponse.json(
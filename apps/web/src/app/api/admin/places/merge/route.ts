@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAdmin } from '@/lib/auth';
+import { createClient } from '@/lib/supabase/server';
+import { checkRateLimit } from '@/lib/rate-limiter';
+import { REVISION_SOURCE_HEADER } from '@/lib/revisions';
+import { MERGEABLE_FIELDS } from '@/lib/duplicates';
+
+const mergeSchema = z.object({
+  survivorId: z.string().uuid(),
+  retiredId: z.string().uuid(),
+  /** Fields whose value comes from the retired place */
+  retiredFields: z.array(z.enum(MERGEABLE_FIELDS)).default([]),
+}).refine((data) => data.survivorId !== data.retiredId, {
+  message: 'Pick two different places',
+  path: ['retiredId'],
+});
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/admin/places/merge
+ * Fold a duplicate into the place that survives. Contributors, claims,
+ * suggestions and favorites move over and the retired slug redirects to
+ * the survivor (see merge_places).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await requireAdmin(request);
+    if (admin.response) return admin.response;
+
+    if (!(await checkRateLimit(`admin:${admin.profile.id}`, { limit: 100, windowMs: 60 * 60 * 1000 }))) {
+      return NextResponse.json({ success: false, error: 'Rate limit exceeded.' }, { status: 429 });
+    }
+
+    const body = await request.json();
+    const validation = mergeSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: validation.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { survivorId, retiredId, retiredFields } = validation.data;
+    const supabase = await createClient();
+
+    const { data: slug, error } = await supabase
+      .rpc('merge_places', {
+        p_survivor_id: survivorId,
+        p_retired_id: retiredId,
+        p_fields: retiredFields,
+      })
+      .setHeader(REVISION_SOURCE_HEADER, 'merge');
+
+    if (error) {
+      console.info('[admin/places] Merge error:', error.message);
+      const notFound = error.code === 'P0002';
+      return NextResponse.json(
+        { success: false, error: notFound ? 'Place not found.' : 'Failed to merge places.' },
+        { status: notFound ? 404 : 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: 'Places merged.', slug });
+  } catch (error) {
+    console.info('[admin/places] Merge error:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'An unexpected error occurred.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/auth';
+import { createClient } from '@/lib/supabase/server';
+import { checkRateLimit } from '@/lib/rate-limiter';
+import { REVISION_SOURCE_HEADER } from '@/lib/revisions';
+import { moderateReportSchema } from '@/lib/reports';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const ACTION_MESSAGES = {
+  hide: 'Content hidden.',
+  restore: 'Content restored and report dismissed.',
+  ban: 'User banned and their reviews and photos hidden.',
+};
+
+/**
+ * PATCH /api/admin/reports/[id]
+ * Act on a report: hide the content, restore it, or ban its author. Other
+ * open reports on the same content are closed too (see moderate_report).
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const admin = await requireAdmin(request);
+    if (admin.response) return admin.response;
+
+    if (!(await checkRateLimit(`admin:${admin.profile.id}`, { limit: 100, windowMs: 60 * 60 * 1000 }))) {
+      return NextResponse.json({ success: false, error: 'Rate limit exceeded.' }, { status: 429 });
+    }
+
+    const { id } = await params;
+
+    const body = await request.json();
+    const validation = moderateReportSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: validation.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { action } = validation.data;
+    const supabase = await createClient();
+
+    // Hidden photos drop out of places.photos_urls, which records a revision
+    const { data: status, error } = await supabase
+      .rpc('moderate_report', { p_report_id: id, p_action: action })
+      .setHeader(REVISION_SOURCE_HEADER, 'moderation');
+
+    if (error) {
+      console.info('[admin/reports] Moderation error:', error.message);
+      if (error.code === 'P0002') {
+        return NextResponse.json({ success: false, error: 'Report not found.' }, { status: 404 });
+      }
+      if (error.code === '22023') {
+        return NextResponse.json({ success: false, error: error.message }, { status: 400 });
+      }
+      return NextResponse.json(
+        { success: false, error: 'Failed to update report.' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: ACTION_MESSAGES[action], status });
+  } catch (error) {
+    console.info('[admin/reports] API error:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'An unexpected error occurred.' },
+      { status: 500 }
+    );
+  }
+}
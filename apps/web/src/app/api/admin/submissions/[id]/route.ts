@@ -2,7 +2,11 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { requireAdmin } from '@/lib/auth';
 import { createClient } from '@/lib/supabase/server';
+import { createAdminClient } from '@/lib/supabase/admin';
 import { checkRateLimit } from '@/lib/rate-limiter';
+import { REVISION_SOURCE_HEADER } from '@/lib/revisions';
+import { getUniquePlaceSlug } from '@/lib/slugs-server';
+import { compactPlaceLinks } from '@/lib/place-links';
 import type { Json } from '@/types/database';
 
 const reviewSchema = z.object({
@@ -83,16 +87,20 @@ export async function PATCH(
     if (status === 'approved') {
       const placeData = submission.place_data as Record<string, unknown>;
 
-      const { error: insertError } = await supabase
+      // The slug was free at submit time; another place may have taken it since
+      const slug = await getUniquePlaceSlug((placeData.slug as string) || (placeData.name as string));
+
+      const { data: place, error: insertError } = await supabase
         .from('places')
         .insert({
           name: placeData.name as string,
-          slug: placeData.slug as string,
+          slug,
           description: placeData.description as string,
           address: placeData.address as string,
           phone: (placeData.phone as string) || null,
           email: (placeData.email as string) || null,
           website: (placeData.website as string) || null,
+          links: compactPlaceLinks(placeData.links as Record<string, string> | undefined),
           logo_url: (placeData.logo_url as string) || null,
           cover_image_url: (placeData.cover_image_url as string) || null,
           photos_urls: (placeData.photos_urls as string[]) || null,
@@ -108,7 +116,10 @@ export async function PATCH(
           created_by: submission.submitted_by_user_id,
           created_at: now,
           updated_at: now,
-        });
+        })
+        .select('id')
+        .single()
+        .setHeader(REVISION_SOURCE_HEADER, 'submission');
 
       if (insertError) {
         console.info('[admin/submissions] Place insert error:', insertError.message);
@@ -117,6 +128,16 @@ export async function PATCH(
           { status: 500 }
         );
       }
+
+      // Alert users whose saved searches match the new place
+      const { data: notified, error: notifyError } = await createAdminClient()
+        .rpc('notify_saved_search_matches', { p_place_id: place.id });
+
+      if (notifyError) {
+        console.info('[admin/submissions] Saved search alert error:', notifyError.message);
+      } else if (notified) {
+        console.info(`[admin/submissions] Notified ${notified} saved search(es) for place ${place.id}`);
+      }
     }
 
     return NextResponse.json({
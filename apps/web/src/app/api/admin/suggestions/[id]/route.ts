@@ -3,9 +3,14 @@ import { z } from 'zod';
 import { requireAdmin } from '@/lib/auth';
 import { createClient } from '@/lib/supabase/server';
 import { checkRateLimit } from '@/lib/rate-limiter';
+import { REVISION_SOURCE_HEADER } from '@/lib/revisions';
+import { getRenamedSlug } from '@/lib/slugs-server';
 
 const reviewSchema = z.object({
   status: z.enum(['approved', 'rejected']),
+  // Closure reports: lets the admin correct the reported closure before applying it
+  closureStatus: z.enum(['temporarily_closed', 'permanently_closed']).optional(),
+  closureDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable().optional(),
 });
 
 export const runtime = 'nodejs';
@@ -56,7 +61,7 @@ export async function PATCH(
       );
     }
 
-    const { status } = validation.data;
+    const { status, closureStatus, closureDate } = validation.data;
     const now = new Date().toISOString();
 
     // Update suggestion status
@@ -83,6 +88,15 @@ export async function PATCH(
       const changes = suggestion.changes as Record<string, { new: unknown }>;
       const placeUpdate: Record<string, unknown> = { updated_at: now };
 
+      // Closure reports close the place instead of editing fields
+      const closure = suggestion.changes as { _type?: string; status?: string; effectiveDate?: string };
+      if (closure._type === 'closure_report') {
+        placeUpdate.status = closureStatus ?? closure.status ?? 'permanently_closed';
+        placeUpdate.status_effective_date = closureDate !== undefined
+          ? closureDate
+          : closure.effectiveDate ?? null;
+      }
+
       for (const [field, value] of Object.entries(changes)) {
         if (field.startsWith('_')) continue; // Skip meta fields like _type
         if (value && typeof value === 'object' && 'new' in value) {
@@ -90,11 +104,18 @@ export async function PATCH(
         }
       }
 
+      // A new name moves the place to a new slug; the old one redirects
+      if (typeof placeUpdate.name === 'string') {
+        const slug = await getRenamedSlug(suggestion.place_id, placeUpdate.name);
+        if (slug) placeUpdate.slug = slug;
+      }
+
       if (Object.keys(placeUpdate).length > 1) {
         const { error: placeError } = await supabase
           .from('places')
           .update(placeUpdate)
-          .eq('id', suggestion.place_id);
+          .eq('id', suggestion.place_id)
+          .setHeader(REVISION_SOURCE_HEADER, 'suggestion');
 
         if (placeError) {
           console.info('[admin/suggestions] Place update error:', placeError.message);
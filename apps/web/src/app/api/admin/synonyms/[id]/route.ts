@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAdmin } from '@/lib/auth';
+import { createClient } from '@/lib/supabase/server';
+import { checkRateLimit } from '@/lib/rate-limiter';
+import { searchWords } from '@/lib/synonyms';
+
+const updateSchema = z.object({
+  synonyms: z
+    .array(z.string().max(60))
+    .max(30)
+    .transform((values) => Array.from(new Set(values.map((value) => searchWords(value).join(' ')).filter(Boolean))))
+    .refine((values) => values.length > 0, 'Add at least one synonym')
+    .optional(),
+  kind: z.enum(['synonym', 'dish']).optional(),
+});
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const admin = await requireAdmin(request);
+    if (admin.response) return admin.response;
+
+    if (!(await checkRateLimit(`admin:${admin.profile.id}`, { limit: 100, windowMs: 60 * 60 * 1000 }))) {
+      return NextResponse.json({ success: false, error: 'Rate limit exceeded.' }, { status: 429 });
+    }
+
+    const body = await request.json();
+    const validation = updateSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: validation.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: entry, error } = await supabase
+      .from('search_synonyms')
+      .update(validation.data)
+      .eq('id', id)
+      .select('id, term, synonyms, kind')
+      .maybeSingle();
+
+    if (error) {
+      console.info('[admin/synonyms] Update error:', error.message);
+      return NextResponse.json(
+        { success: false, error: 'Failed to update synonym.' },
+        { status: 500 }
+      );
+    }
+
+    if (!entry) {
+      return NextResponse.json(
+        { success: false, error: 'Synonym not found.' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Updated "${entry.term}".`,
+      entry,
+    });
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+    console.info('[admin/synonyms] API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'An unexpected error occurred.' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const admin = await requireAdmin(request);
+    if (admin.response) return admin.response;
+
+    const { id } = await params;
+    const supabase = await createClient();
+    const { data: entry, error } = await supabase
+      .from('search_synonyms')
+      .delete()
+      .eq('id', id)
+      .select('term')
+      .maybeSingle();
+
+    if (error) {
+      console.info('[admin/synonyms] Delete error:', error.message);
+      return NextResponse.json(
+        { success: false, error: 'Failed to delete synonym.' },
+        { status: 500 }
+      );
+    }
+
+    if (!entry) {
+      return NextResponse.json(
+        { success: false, error: 'Synonym not found.' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Removed "${entry.term}" from the dictionary.`,
+    });
+  } catch (error) {
+    console.info('[admin/synonyms] API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'An unexpected error occurred.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAdmin } from '@/lib/auth';
+import { createClient } from '@/lib/supabase/server';
+import { checkRateLimit } from '@/lib/rate-limiter';
+import { searchWords } from '@/lib/synonyms';
+
+const synonymSchema = z.object({
+  term: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .regex(/^[\p{L}\p{N}]+$/u, 'Term must be a single word'),
+  synonyms: z
+    .array(z.string().max(60))
+    .max(30)
+    // Store the normalized form so it matches what search_ts_query splits out
+    .transform((values) => Array.from(new Set(values.map((value) => searchWords(value).join(' ')).filter(Boolean))))
+    .refine((values) => values.length > 0, 'Add at least one synonym'),
+  kind: z.enum(['synonym', 'dish']),
+});
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await requireAdmin(request);
+    if (admin.response) return admin.response;
+
+    if (!(await checkRateLimit(`admin:${admin.profile.id}`, { limit: 100, windowMs: 60 * 60 * 1000 }))) {
+      return NextResponse.json({ success: false, error: 'Rate limit exceeded.' }, { status: 429 });
+    }
+
+    const body = await request.json();
+    const validation = synonymSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: validation.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClient();
+    const { data: entry, error } = await supabase
+      .from('search_synonyms')
+      .insert(validation.data)
+      .select('id, term, synonyms, kind')
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { success: false, error: `"${validation.data.term}" is already in the dictionary.` },
+          { status: 409 }
+        );
+      }
+      console.info('[admin/synonyms] Insert error:', error.message);
+      return NextResponse.json(
+        { success: false, error: 'Failed to add synonym.' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Added "${entry.term}" to the dictionary.`,
+      entry,
+    });
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+    console.info('[admin/synonyms] API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'An unexpected error occurred.' },
+      { status: 500 }
+    );
+  }
+}
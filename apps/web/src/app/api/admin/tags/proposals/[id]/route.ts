@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAdmin } from '@/lib/auth';
+import { createClient } from '@/lib/supabase/server';
+import { checkRateLimit } from '@/lib/rate-limiter';
+
+const reviewSchema = z.discriminatedUnion('action', [
+  // Add as a new canonical tag
+  z.object({
+    action: z.literal('approve'),
+    name: z.string().trim().min(1).max(60),
+    category: z.enum(['amenity', 'cuisine', 'dietary', 'atmosphere', 'service']),
+  }),
+  // Map onto an existing canonical tag and rewrite places using it
+  z.object({
+    action: z.literal('alias'),
+    tagSlug: z.string().min(1),
+  }),
+  // Drop the tag from every place using it
+  z.object({
+    action: z.literal('reject'),
+  }),
+]);
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const admin = await requireAdmin(request);
+    if (admin.response) return admin.response;
+
+    if (!(await checkRateLimit(`admin:${admin.profile.id}`, { limit: 100, windowMs: 60 * 60 * 1000 }))) {
+      return NextResponse.json({ success: false, error: 'Rate limit exceeded.' }, { status: 429 });
+    }
+
+    const { id } = await params;
+    const supabase = await createClient();
+
+    const { data: proposal, error: fetchError } = await supabase
+      .from('tag_proposals')
+      .select('id, slug, status')
+      .eq('id', id)
+      .single();
+
+    if (fetchError || !proposal) {
+      return NextResponse.json(
+        { success: false, error: 'Tag proposal not found.' },
+        { status: 404 }
+      );
+    }
+
+    if (proposal.status !== 'pending') {
+      return NextResponse.json(
+        { success: false, error: 'This tag proposal has already been reviewed.' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const validation = reviewSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: validation.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const review = validation.data;
+    let status: 'approved' | 'aliased' | 'rejected';
+
+    if (review.action === 'approve') {
+      const { error } = await supabase
+        .from('tags')
+        .insert({ name: review.name, slug: proposal.slug, category: review.category });
+
+      if (error) {
+        console.info('[admin/tags] Insert error:', error.message);
+        return NextResponse.json(
+          { success: false, error: 'Failed to add tag.' },
+          { status: 500 }
+        );
+      }
+      status = 'approved';
+    } else if (review.action === 'alias') {
+      const { data: tag } = await supabase
+        .from('tags')
+        .select('slug')
+        .eq('slug', review.tagSlug)
+        .maybeSingle();
+
+      if (!tag) {
+        return NextResponse.json(
+          { success: false, error: 'Canonical tag not found.' },
+          { status: 400 }
+        );
+      }
+
+      const { error } = await supabase.rpc('apply_tag_alias', {
+        p_alias: proposal.slug,
+        p_tag_slug: tag.slug,
+      });
+
+      if (error) {
+        console.info('[admin/tags] Alias error:', error.message);
+        return NextResponse.json(
+          { success: false, error: 'Failed to apply alias.' },
+          { status: 500 }
+        );
+      }
+      status = 'aliased';
+    } else {
+      const { error } = await supabase.rpc('remove_tag', { p_slug: proposal.slug });
+
+      if (error) {
+        console.info('[admin/tags] Remove error:', error.message);
+        return NextResponse.json(
+          { success: false, error: 'Failed to remove tag from places.' },
+          { status: 500 }
+        );
+      }
+      status = 'rejected';
+    }
+
+    const { error: updateError } = await supabase
+      .from('tag_proposals')
+      .update({
+        status,
+        reviewed_by: admin.profile.id,
+        reviewed_at: new Date().toISOString(),
+      })
+      .eq('id', id);
+
+    if (updateError) {
+      console.info('[admin/tags] Update error:', updateError.message);
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Tag ${status} successfully.`,
+    });
+  } catch (error) {
+    console.info('[admin/tags] API error:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'An unexpected error occurred.' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
 import { requireAuth } from '@/lib/auth';
 import { createAdminClient } from '@/lib/supabase/admin';
+import { REVISION_SOURCE_HEADER } from '@/lib/revisions';
 
 export async function DELETE(request: NextRequest) {
   const { user, response } = await requireAuth(request);
@@ -13,7 +14,8 @@ export async function DELETE(request: NextRequest) {
   const { error: unclaimError } = await admin
     .from('places')
     .update({ claimed_by: null, verified: false })
-    .eq('claimed_by', user.id);
+    .eq('claimed_by', user.id)
+    .setHeader(REVISION_SOURCE_HEADER, 'claim');
 
   if (unclaimError) {
     console.info('[delete-account] Failed to unclaim places:', unclaimError.message);
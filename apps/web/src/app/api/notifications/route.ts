@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAuth } from '@/lib/auth';
+import { requireCsrfToken } from '@/lib/csrf';
+import { createClient } from '@/lib/supabase/server';
+
+const markReadSchema = z.object({
+  // Omit to mark every notification as read
+  ids: z.array(z.string().uuid()).max(100).optional(),
+});
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * PATCH /api/notifications
+ * Mark the logged-in user's notifications as read
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const csrfError = requireCsrfToken(request);
+    if (csrfError) return csrfError;
+
+    const auth = await requireAuth(request);
+    if (auth.response) return auth.response;
+
+    const body = await request.json();
+    const validation = markReadSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: validation.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClient();
+    let query = supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', auth.user.id)
+      .is('read_at', null);
+
+    if (validation.data.ids) {
+      query = query.in('id', validation.data.ids);
+    }
+
+    const { error } = await query;
+
+    if (error) {
+      console.info('[notifications] Update error:', error.message);
+      return NextResponse.json(
+        { success: false, error: 'Failed to update notifications.' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.info('[notifications] API error:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'An unexpected error occurred.' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,38 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { z } from 'zod';
 import { requireAuth, isOwnerOfPlace } from '@/lib/auth';
 import { createClient } from '@/lib/supabase/server';
 import { checkRateLimit } from '@/lib/rate-limiter';
-
-const operatingHoursSchema = z.record(
-  z.string(),
-  z.object({
-    open: z.string().regex(/^\d{2}:\d{2}$/).optional(),
-    close: z.string().regex(/^\d{2}:\d{2}$/).optional(),
-    closed: z.boolean().optional(),
-  })
-);
-
-const updatePlaceSchema = z.object({
-  name: z.string().min(1).optional(),
-  description: z.string().min(10).optional(),
-  address: z.string().min(1).optional(),
-  operatingHours: operatingHoursSchema.optional(),
-  priceRange: z.enum(['$', '$$', '$$$', '$$$$']).optional(),
-  cuisineTypes: z.array(z.string()).min(1).optional(),
-  phone: z.string().optional(),
-  email: z.string().email().optional().or(z.literal('')),
-  website: z.string().url().optional().or(z.literal('')),
-  logoUrl: z.string().url().optional().or(z.literal('')),
-  coverImageUrl: z.string().url().optional().or(z.literal('')),
-  photosUrls: z.array(z.string().url()).optional(),
-  paymentMethods: z.array(z.string()).optional(),
-  tags: z.array(z.string()).optional(),
-  amenities: z.array(z.string()).optional(),
-  specialties: z.array(z.string()).optional(),
-  latitude: z.number().min(-90).max(90).optional(),
-  longitude: z.number().min(-180).max(180).optional(),
-});
+import { normalizePlaceTags } from '@/lib/tags-server';
+import { REVISION_SOURCE_HEADER } from '@/lib/revisions';
+import { getRenamedSlug } from '@/lib/slugs-server';
+import { updatePlaceSchema, checkPaymentMethods, unknownPaymentMethodsMessage } from '@/lib/place-schema';
+import { mapPlaceFieldsToDb } from '@/lib/supabase/mappers';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
@@ -63,7 +37,8 @@ export async function DELETE(
     const { error } = await supabase
       .from('places')
       .update({ claimed_by: null, verified: false })
-      .eq('id', id);
+      .eq('id', id)
+      .setHeader(REVISION_SOURCE_HEADER, 'claim');
 
     if (error) {
       console.info('[owner/places] Release error:', error.message);
@@ -115,37 +90,43 @@ export async function PUT(
       );
     }
 
-    const data = validation.data;
+    const data = await normalizePlaceTags(validation.data);
     const supabase = await createClient();
 
-    // Build update object (only include provided fields)
+    if (data.paymentMethods !== undefined) {
+      const { data: current } = await supabase
+        .from('places')
+        .select('payment_methods')
+        .eq('id', id)
+        .single();
+
+      const { methods, unknown } = checkPaymentMethods(data.paymentMethods, current?.payment_methods);
+      if (unknown.length > 0) {
+        return NextResponse.json(
+          { success: false, error: unknownPaymentMethodsMessage(unknown) },
+          { status: 400 }
+        );
+      }
+      data.paymentMethods = methods;
+    }
+
+    // Only the provided fields are updated
     const update: Record<string, unknown> = {
+      ...mapPlaceFieldsToDb(data),
       updated_at: new Date().toISOString(),
     };
 
-    if (data.name !== undefined) update.name = data.name;
-    if (data.description !== undefined) update.description = data.description;
-    if (data.address !== undefined) update.address = data.address;
-    if (data.operatingHours !== undefined) update.operating_hours = data.operatingHours;
-    if (data.priceRange !== undefined) update.price_range = data.priceRange;
-    if (data.cuisineTypes !== undefined) update.cuisine_types = data.cuisineTypes;
-    if (data.phone !== undefined) update.phone = data.phone || null;
-    if (data.email !== undefined) update.email = data.email || null;
-    if (data.website !== undefined) update.website = data.website || null;
-    if (data.logoUrl !== undefined) update.logo_url = data.logoUrl || null;
-    if (data.coverImageUrl !== undefined) update.cover_image_url = data.coverImageUrl || null;
-    if (data.photosUrls !== undefined) update.photos_urls = data.photosUrls;
-    if (data.paymentMethods !== undefined) update.payment_methods = data.paymentMethods;
-    if (data.tags !== undefined) update.tags = data.tags;
-    if (data.amenities !== undefined) update.amenities = data.amenities;
-    if (data.specialties !== undefined) update.specialties = data.specialties;
-    if (data.latitude !== undefined) update.latitude = data.latitude;
-    if (data.longitude !== undefined) update.longitude = data.longitude;
+    if (data.name !== undefined) {
+      // Renaming moves the place to a new slug; the old one redirects
+      const slug = await getRenamedSlug(id, data.name);
+      if (slug) update.slug = slug;
+    }
 
     const { error: updateError } = await supabase
       .from('places')
       .update(update)
-      .eq('id', id);
+      .eq('id', id)
+      .setHeader(REVISION_SOURCE_HEADER, 'owner_edit');
 
     if (updateError) {
       console.info('[owner/places] Update error:', updateError.message);
@@ -155,7 +136,11 @@ export async function PUT(
       );
     }
 
-    return NextResponse.json({ success: true, message: 'Place updated successfully.' });
+    return NextResponse.json({
+      success: true,
+      message: 'Place updated successfully.',
+      ...(update.slug !== undefined && { slug: update.slug }),
+    });
   } catch (error) {
     console.info('[owner/places] API error:', error);
     return NextResponse.json(
@@ -3,6 +3,8 @@ import { z } from 'zod';
 import { requireAuth, isOwnerOfPlace } from '@/lib/auth';
 import { createClient } from '@/lib/supabase/server';
 import { checkRateLimit } from '@/lib/rate-limiter';
+import { REVISION_SOURCE_HEADER } from '@/lib/revisions';
+import { getRenamedSlug } from '@/lib/slugs-server';
 
 const reviewSchema = z.object({
   status: z.enum(['approved', 'rejected']),
@@ -99,11 +101,18 @@ export async function PATCH(
         }
       }
 
+      // A new name moves the place to a new slug; the old one redirects
+      if (typeof placeUpdate.name === 'string') {
+        const slug = await getRenamedSlug(suggestion.place_id, placeUpdate.name);
+        if (slug) placeUpdate.slug = slug;
+      }
+
       if (Object.keys(placeUpdate).length > 1) {
         const { error: placeError } = await supabase
           .from('places')
           .update(placeUpdate)
-          .eq('id', suggestion.place_id);
+          .eq('id', suggestion.place_id)
+          .setHeader(REVISION_SOURCE_HEADER, 'suggestion');
 
         if (placeError) {
           console.info('[owner/suggestions] Place update error:', placeError.message);
@@ -0,0 +1,106 @@
+import { createHmac } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSession } from '@/lib/auth';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { requireCsrfToken } from '@/lib/csrf';
+import { checkRateLimit, getClientIP } from '@/lib/rate-limiter';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const favoriteSchema = z.object({
+  favorited: z.boolean(),
+});
+
+/**
+ * Who a favorite counts for: the signed-in user, or a keyed hash of the
+ * visitor's IP so the IP itself is never stored
+ */
+async function getVoter(request: NextRequest): Promise<string> {
+  const user = await getSession();
+  if (user) return `user:${user.id}`;
+  const ipHash = createHmac('sha256', process.env.SUPABASE_SERVICE_ROLE_KEY ?? '')
+    .update(getClientIP(request))
+    .digest('hex');
+  return `ip:${ipHash}`;
+}
+
+/**
+ * POST /api/places/[id]/favorite
+ * Keeps places.favorite_count in step with favorites saved in the browser.
+ * Used for the "Most favorited" sort. Each visitor counts once per place
+ * (see set_place_favorite).
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const csrfError = requireCsrfToken(request);
+    if (csrfError) return csrfError;
+
+    const { id } = await params;
+    if (!z.string().uuid().safeParse(id).success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid place ID' },
+        { status: 400 }
+      );
+    }
+
+    const clientIP = getClientIP(request);
+    if (!(await checkRateLimit(`favorite:${clientIP}`, { limit: 60, windowMs: 60 * 60 * 1000 }))) {
+      return NextResponse.json(
+        { success: false, error: 'Rate limit exceeded. Please try again later.' },
+        { status: 429 }
+      );
+    }
+
+    const body = await request.json();
+    const validation = favoriteSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: validation.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const admin = createAdminClient();
+    const { data: favoriteCount, error } = await admin.rpc('set_place_favorite', {
+      p_place_id: id,
+      p_voter: await getVoter(request),
+      p_favorited: validation.data.favorited,
+    });
+
+    if (error) {
+      console.info('[favorite] Update error:', error.message);
+      return NextResponse.json(
+        { success: false, error: 'Failed to update favorite' },
+        { status: 500 }
+      );
+    }
+
+    if (favoriteCount === null) {
+      return NextResponse.json(
+        { success: false, error: 'Place not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, favoriteCount });
+  } catch (error) {
+    console.info('[favorite] API error:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
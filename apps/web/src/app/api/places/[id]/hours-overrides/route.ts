@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAuth, canManagePlace } from '@/lib/auth';
+import { requireCsrfToken } from '@/lib/csrf';
+import { createClient } from '@/lib/supabase/server';
+import { checkRateLimit } from '@/lib/rate-limiter';
+import { sanitizeStrings } from '@/lib/sanitize';
+import { REVISION_SOURCE_HEADER } from '@/lib/revisions';
+import type { Json } from '@/types/database';
+import type { HoursOverride } from '@/types/place';
+
+const MAX_HOURS_OVERRIDES = 50;
+
+// Must be a real calendar date: 2027-02-30 would make the ::DATE cast in
+// hours_entry_on fail
+const dateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/)
+  .refine((value) => {
+    const date = new Date(`${value}T00:00:00Z`);
+    return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+  }, 'Not a valid date');
+const timeSchema = z.string().regex(/^\d{2}:\d{2}$/);
+
+const hoursOverrideSchema = z
+  .object({
+    startDate: dateSchema,
+    endDate: dateSchema.optional().or(z.literal('')),
+    closed: z.boolean().optional(),
+    open: timeSchema.optional(),
+    close: timeSchema.optional(),
+    note: z.string().trim().max(100).optional(),
+  })
+  .refine((override) => override.closed || (override.open && override.close), {
+    message: 'Set opening and closing times, or mark the dates as closed',
+  })
+  .refine((override) => !override.endDate || override.endDate >= override.startDate, {
+    message: 'End date must be on or after the start date',
+    path: ['endDate'],
+  });
+
+const updateHoursOverridesSchema = z.object({
+  hoursOverrides: z.array(hoursOverrideSchema).max(MAX_HOURS_OVERRIDES),
+});
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * PUT /api/places/[id]/hours-overrides
+ * Replace a place's dated hours overrides (holidays, temporary closures).
+ * Only the place's owner or an admin can change them.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const csrfError = requireCsrfToken(request);
+    if (csrfError) return csrfError;
+
+    const auth = await requireAuth(request);
+    if (auth.response) return auth.response;
+
+    if (!(await checkRateLimit(`owner:${auth.user.id}`, { limit: 50, windowMs: 60 * 60 * 1000 }))) {
+      return NextResponse.json({ success: false, error: 'Rate limit exceeded.' }, { status: 429 });
+    }
+
+    const { id } = await params;
+    if (!z.string().uuid().safeParse(id).success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid place ID' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await canManagePlace(auth.user.id, id))) {
+      return NextResponse.json(
+        { success: false, error: 'You do not manage this place.' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validation = updateHoursOverridesSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: validation.error.format() },
+        { status: 400 }
+      );
+    }
+
+    // Store only the fields that apply, in start date order
+    const hoursOverrides: HoursOverride[] = sanitizeStrings(validation.data.hoursOverrides)
+      .map((override) => ({
+        startDate: override.startDate,
+        ...(override.endDate && override.endDate !== override.startDate && { endDate: override.endDate }),
+        ...(override.closed
+          ? { closed: true }
+          : { open: override.open, close: override.close }),
+        ...(override.note && { note: override.note }),
+      }))
+      .sort((a, b) => a.startDate.localeCompare(b.startDate));
+
+    const supabase = await createClient();
+    const { error } = await supabase
+      .from('places')
+      .update({
+        hours_overrides: hoursOverrides as unknown as Json,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .setHeader(REVISION_SOURCE_HEADER, 'special_hours');
+
+    if (error) {
+      console.info('[places/hours-overrides] Update error:', error.message);
+      return NextResponse.json(
+        { success: false, error: 'Failed to update special hours.' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Special hours updated.',
+      hoursOverrides,
+    });
+  } catch (error) {
+    console.info('[places/hours-overrides] API error:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'An unexpected error occurred.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth, canManagePlace } from '@/lib/auth';
+import { requireCsrfToken } from '@/lib/csrf';
+import { createClient } from '@/lib/supabase/server';
+import { checkRateLimit } from '@/lib/rate-limiter';
+import { sanitizeStrings } from '@/lib/sanitize';
+import { menuItemSchema } from '@/lib/menu';
+import { dbRowToMenuItem } from '@/lib/supabase/mappers';
+
+const updateMenuItemSchema = menuItemSchema.partial();
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; itemId: string }> }
+) {
+  try {
+    const csrfError = requireCsrfToken(request);
+    if (csrfError) return csrfError;
+
+    const auth = await requireAuth(request);
+    if (auth.response) return auth.response;
+
+    if (!(await checkRateLimit(`menu:${auth.user.id}`, { limit: 200, windowMs: 60 * 60 * 1000 }))) {
+      return NextResponse.json({ success: false, error: 'Rate limit exceeded.' }, { status: 429 });
+    }
+
+    const { id, itemId } = await params;
+
+    if (!(await canManagePlace(auth.user.id, id))) {
+      return NextResponse.json(
+        { success: false, error: 'You do not manage this place.' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validation = updateMenuItemSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: validation.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const data = sanitizeStrings(validation.data);
+    const update: Record<string, unknown> = {};
+    if (data.name !== undefined) update.name = data.name;
+    if (data.description !== undefined) update.description = data.description || null;
+    if (data.price !== undefined) update.price = data.price;
+    if (data.category !== undefined) update.category = data.category || null;
+    if (data.photoUrl !== undefined) update.photo_url = data.photoUrl || null;
+    if (data.dietaryFlags !== undefined) update.dietary_flags = data.dietaryFlags;
+    if (data.isAvailable !== undefined) update.is_available = data.isAvailable;
+    if (data.sortOrder !== undefined) update.sort_order = data.sortOrder;
+
+    const supabase = await createClient();
+    const { data: row, error } = await supabase
+      .from('menu_items')
+      .update(update)
+      .eq('id', itemId)
+      .eq('place_id', id)
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      console.info('[places/menu] Update error:', error.message);
+      return NextResponse.json(
+        { success: false, error: 'Failed to update menu item.' },
+        { status: 500 }
+      );
+    }
+
+    if (!row) {
+      return NextResponse.json(
+        { success: false, error: 'Menu item not found.' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Updated ${row.name}.`,
+      item: dbRowToMenuItem(row),
+    });
+  } catch (error) {
+    console.info('[places/menu] API error:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'An unexpected error occurred.' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; itemId: string }> }
+) {
+  try {
+    const csrfError = requireCsrfToken(request);
+    if (csrfError) return csrfError;
+
+    const auth = await requireAuth(request);
+    if (auth.response) return auth.response;
+
+    const { id, itemId } = await params;
+
+    if (!(await canManagePlace(auth.user.id, id))) {
+      return NextResponse.json(
+        { success: false, error: 'You do not manage this place.' },
+        { status: 403 }
+      );
+    }
+
+    const supabase = await createClient();
+    const { data: row, error } = await supabase
+      .from('menu_items')
+      .delete()
+      .eq('id', itemId)
+      .eq('place_id', id)
+      .select('name')
+      .maybeSingle();
+
+    if (error) {
+      console.info('[places/menu] Delete error:', error.message);
+      return NextResponse.json(
+        { success: false, error: 'Failed to delete menu item.' },
+        { status: 500 }
+      );
+    }
+
+    if (!row) {
+      return NextResponse.json(
+        { success: false, error: 'Menu item not found.' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: `Removed ${row.name} from the menu.` });
+  } catch (error) {
+    console.info('[places/menu] API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'An unexpected error occurred.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAuth, canManagePlace } from '@/lib/auth';
+import { requireCsrfToken } from '@/lib/csrf';
+import { createClient } from '@/lib/supabase/server';
+import { checkRateLimit } from '@/lib/rate-limiter';
+import { sanitizeStrings } from '@/lib/sanitize';
+import { menuItemSchema } from '@/lib/menu';
+import { dbRowToMenuItem } from '@/lib/supabase/mappers';
+
+const MAX_MENU_ITEMS = 300;
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/places/[id]/menu
+ * Add a menu item. Only the place's owner or an admin can edit its menu.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const csrfError = requireCsrfToken(request);
+    if (csrfError) return csrfError;
+
+    const auth = await requireAuth(request);
+    if (auth.response) return auth.response;
+
+    if (!(await checkRateLimit(`menu:${auth.user.id}`, { limit: 200, windowMs: 60 * 60 * 1000 }))) {
+      return NextResponse.json({ success: false, error: 'Rate limit exceeded.' }, { status: 429 });
+    }
+
+    const { id } = await params;
+    if (!z.string().uuid().safeParse(id).success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid place ID' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await canManagePlace(auth.user.id, id))) {
+      return NextResponse.json(
+        { success: false, error: 'You do not manage this place.' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validation = menuItemSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: validation.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const data = sanitizeStrings(validation.data);
+    const supabase = await createClient();
+
+    const { count } = await supabase
+      .from('menu_items')
+      .select('id', { count: 'exact', head: true })
+      .eq('place_id', id);
+
+    if ((count ?? 0) >= MAX_MENU_ITEMS) {
+      return NextResponse.json(
+        { success: false, error: `A menu can have at most ${MAX_MENU_ITEMS} items.` },
+        { status: 400 }
+      );
+    }
+
+    const { data: row, error } = await supabase
+      .from('menu_items')
+      .insert({
+        place_id: id,
+        name: data.name,
+        description: data.description || null,
+        price: data.price ?? null,
+        category: data.category || null,
+        photo_url: data.photoUrl || null,
+        dietary_flags: data.dietaryFlags ?? [],
+        is_available: data.isAvailable ?? true,
+        sort_order: data.sortOrder ?? count ?? 0,
+        created_by: auth.user.id,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      console.info('[places/menu] Insert error:', error.message);
+      return NextResponse.json(
+        { success: false, error: 'Failed to add menu item.' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Added ${row.name} to the menu.`,
+      item: dbRowToMenuItem(row),
+    });
+  } catch (error) {
+    console.info('[places/menu] API error:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'An unexpected error occurred.' },
+      { status: 500 }
+    );
+  }
+}
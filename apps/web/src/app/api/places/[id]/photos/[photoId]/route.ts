@@ -0,0 +1,179 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth, canManagePlace } from '@/lib/auth';
+import { requireCsrfToken } from '@/lib/csrf';
+import { createClient } from '@/lib/supabase/server';
+import { checkRateLimit } from '@/lib/rate-limiter';
+import { sanitizeStrings } from '@/lib/sanitize';
+import { updatePhotoSchema } from '@/lib/photos';
+import { REVISION_SOURCE_HEADER } from '@/lib/revisions';
+import { dbRowToPlacePhoto } from '@/lib/supabase/mappers';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * PATCH /api/places/[id]/photos/[photoId]
+ * Edit a photo's caption and alt text, or hide/show it. Owner or admin only.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; photoId: string }> }
+) {
+  try {
+    const csrfError = requireCsrfToken(request);
+    if (csrfError) return csrfError;
+
+    const auth = await requireAuth(request);
+    if (auth.response) return auth.response;
+
+    if (!(await checkRateLimit(`photos:${auth.user.id}`, { limit: 30, windowMs: 60 * 60 * 1000 }))) {
+      return NextResponse.json({ success: false, error: 'Rate limit exceeded.' }, { status: 429 });
+    }
+
+    const { id, photoId } = await params;
+
+    if (!(await canManagePlace(auth.user.id, id))) {
+      return NextResponse.json(
+        { success: false, error: 'You do not manage this place.' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validation = updatePhotoSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: validation.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const data = sanitizeStrings(validation.data);
+    const update: Record<string, unknown> = {};
+    if (data.caption !== undefined) update.caption = data.caption || null;
+    if (data.altText !== undefined) update.alt_text = data.altText || null;
+    if (data.status !== undefined) update.status = data.status;
+
+    const supabase = await createClient();
+    const { data: row, error } = await supabase
+      .from('place_photos')
+      .update(update)
+      .eq('id', photoId)
+      .eq('place_id', id)
+      .select('*, profiles(display_name)')
+      .maybeSingle()
+      .setHeader(REVISION_SOURCE_HEADER, 'photos');
+
+    if (error) {
+      console.info('[places/photos] Update error:', error.message);
+      return NextResponse.json(
+        { success: false, error: 'Failed to update photo.' },
+        { status: 500 }
+      );
+    }
+
+    if (!row) {
+      return NextResponse.json(
+        { success: false, error: 'Photo not found.' },
+        { status: 404 }
+      );
+    }
+
+    const message = data.status === 'hidden'
+      ? 'Photo hidden from the gallery.'
+      : data.status === 'visible'
+        ? 'Photo shown in the gallery.'
+        : 'Photo updated.';
+
+    return NextResponse.json({ success: true, message, photo: dbRowToPlacePhoto(row) });
+  } catch (error) {
+    console.info('[places/photos] API error:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'An unexpected error occurred.' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/places/[id]/photos/[photoId]
+ * Remove a photo. The owner and admins can remove any photo; contributors
+ * can remove their own unless it was hidden or has open reports, so the
+ * report trail stays for moderators.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; photoId: string }> }
+) {
+  try {
+    const csrfError = requireCsrfToken(request);
+    if (csrfError) return csrfError;
+
+    const auth = await requireAuth(request);
+    if (auth.response) return auth.response;
+
+    const { id, photoId } = await params;
+    const supabase = await createClient();
+
+    const { data: photo } = await supabase
+      .from('place_photos')
+      .select('id, uploaded_by, status')
+      .eq('id', photoId)
+      .eq('place_id', id)
+      .maybeSingle();
+
+    if (!photo) {
+      return NextResponse.json(
+        { success: false, error: 'Photo not found.' },
+        { status: 404 }
+      );
+    }
+
+    if (!(await canManagePlace(auth.user.id, id))) {
+      if (photo.uploaded_by !== auth.user.id) {
+        return NextResponse.json(
+          { success: false, error: 'You can only remove your own photos.' },
+          { status: 403 }
+        );
+      }
+
+      const { data: isReported } = await supabase.rpc('photo_has_pending_reports', { p_photo_id: photo.id });
+      if (photo.status === 'hidden' || isReported) {
+        return NextResponse.json(
+          { success: false, error: 'This photo is under moderation and can no longer be removed.' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const { error } = await supabase
+      .from('place_photos')
+      .delete()
+      .eq('id', photoId)
+      .setHeader(REVISION_SOURCE_HEADER, 'photos');
+
+    if (error) {
+      console.info('[places/photos] Delete error:', error.message);
+      return NextResponse.json(
+        { success: false, error: 'Failed to remove photo.' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: 'Photo removed.' });
+  } catch (error) {
+    console.info('[places/photos] API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'An unexpected error occurred.' },
+      { status: 500 }
+    );
+  }
+}
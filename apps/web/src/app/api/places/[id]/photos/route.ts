@@ -0,0 +1,253 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAuth, requireNotBanned, canManagePlace } from '@/lib/auth';
+import { requireCsrfToken } from '@/lib/csrf';
+import { createClient } from '@/lib/supabase/server';
+import { checkRateLimit } from '@/lib/rate-limiter';
+import { sanitizeStrings } from '@/lib/sanitize';
+import { MAX_PLACE_PHOTOS, gallerySchema, photoSchema } from '@/lib/photos';
+import { REVISION_SOURCE_HEADER } from '@/lib/revisions';
+import { dbRowToPlacePhoto } from '@/lib/supabase/mappers';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/places/[id]/photos
+ * Add a photo to a place's gallery. Any signed-in user can contribute
+ * photos; they're credited to the uploader and stay pending until the
+ * place owner or an admin approves them.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const csrfError = requireCsrfToken(request);
+    if (csrfError) return csrfError;
+
+    const auth = await requireAuth(request);
+    if (auth.response) return auth.response;
+
+    const bannedError = await requireNotBanned(auth.user.id);
+    if (bannedError) return bannedError;
+
+    if (!(await checkRateLimit(`photos:${auth.user.id}`, { limit: 30, windowMs: 60 * 60 * 1000 }))) {
+      return NextResponse.json({ success: false, error: 'Rate limit exceeded.' }, { status: 429 });
+    }
+
+    const { id } = await params;
+    if (!z.string().uuid().safeParse(id).success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid place ID' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const validation = photoSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: validation.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const data = sanitizeStrings(validation.data);
+    const supabase = await createClient();
+
+    const { data: place } = await supabase
+      .from('places')
+      .select('id')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (!place) {
+      return NextResponse.json(
+        { success: false, error: 'Place not found.' },
+        { status: 404 }
+      );
+    }
+
+    const canManage = await canManagePlace(auth.user.id, id);
+
+    const { count } = await supabase
+      .from('place_photos')
+      .select('id', { count: 'exact', head: true })
+      .eq('place_id', id);
+
+    if ((count ?? 0) >= MAX_PLACE_PHOTOS) {
+      return NextResponse.json(
+        { success: false, error: `A gallery can have at most ${MAX_PLACE_PHOTOS} photos.` },
+        { status: 400 }
+      );
+    }
+
+    const { data: row, error } = await supabase
+      .from('place_photos')
+      .insert({
+        place_id: id,
+        url: data.url,
+        caption: data.caption || null,
+        alt_text: data.altText || null,
+        sort_order: count ?? 0,
+        status: canManage ? 'visible' : 'pending',
+        uploaded_by: auth.user.id,
+      })
+      .select('*, profiles(display_name)')
+      .single()
+      .setHeader(REVISION_SOURCE_HEADER, 'photos');
+
+    if (error) {
+      console.info('[places/photos] Insert error:', error.message);
+      const duplicate = error.code === '23505';
+      return NextResponse.json(
+        { success: false, error: duplicate ? 'This photo is already in the gallery.' : 'Failed to add photo.' },
+        { status: duplicate ? 409 : 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: canManage
+        ? 'Photo added to the gallery.'
+        : 'Thanks! Your photo will show up once the place owner or an admin approves it.',
+      photo: dbRowToPlacePhoto(row),
+    });
+  } catch (error) {
+    console.info('[places/photos] API error:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'An unexpected error occurred.' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/places/[id]/photos
+ * Reorder the gallery and pick the cover photo. Only the place's owner or
+ * an admin can arrange the gallery.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const csrfError = requireCsrfToken(request);
+    if (csrfError) return csrfError;
+
+    const auth = await requireAuth(request);
+    if (auth.response) return auth.response;
+
+    if (!(await checkRateLimit(`photos:${auth.user.id}`, { limit: 30, windowMs: 60 * 60 * 1000 }))) {
+      return NextResponse.json({ success: false, error: 'Rate limit exceeded.' }, { status: 429 });
+    }
+
+    const { id } = await params;
+
+    if (!(await canManagePlace(auth.user.id, id))) {
+      return NextResponse.json(
+        { success: false, error: 'You do not manage this place.' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validation = gallerySchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: validation.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { order, coverPhotoId } = validation.data;
+    const supabase = await createClient();
+
+    const { data: photos, error: fetchError } = await supabase
+      .from('place_photos')
+      .select('id, url, status')
+      .eq('place_id', id);
+
+    if (fetchError) {
+      console.info('[places/photos] Fetch error:', fetchError.message);
+      return NextResponse.json(
+        { success: false, error: 'Failed to load the gallery.' },
+        { status: 500 }
+      );
+    }
+
+    const byId = new Map((photos ?? []).map((photo) => [photo.id, photo]));
+    const update: Record<string, unknown> = {};
+
+    // Writing the ordered URLs reorders the gallery rows in one go
+    // (see sync_place_photos_from_urls)
+    if (order !== undefined) {
+      const visible = (photos ?? []).filter((photo) => photo.status === 'visible');
+      if (order.length !== visible.length || order.some((photoId) => byId.get(photoId)?.status !== 'visible')) {
+        return NextResponse.json(
+          { success: false, error: 'The order must list every visible photo once.' },
+          { status: 400 }
+        );
+      }
+      update.photos_urls = order.map((photoId) => byId.get(photoId)!.url);
+    }
+
+    if (coverPhotoId !== undefined) {
+      if (coverPhotoId === null) {
+        update.cover_image_url = null;
+      } else {
+        const cover = byId.get(coverPhotoId);
+        if (!cover || cover.status !== 'visible') {
+          return NextResponse.json(
+            { success: false, error: 'Photo not found.' },
+            { status: 404 }
+          );
+        }
+        update.cover_image_url = cover.url;
+      }
+    }
+
+    if (Object.keys(update).length === 0) {
+      return NextResponse.json({ success: true, message: 'Nothing to update.' });
+    }
+
+    const { error } = await supabase
+      .from('places')
+      .update({ ...update, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .setHeader(REVISION_SOURCE_HEADER, 'photos');
+
+    if (error) {
+      console.info('[places/photos] Update error:', error.message);
+      return NextResponse.json(
+        { success: false, error: 'Failed to update the gallery.' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: 'Gallery updated.' });
+  } catch (error) {
+    console.info('[places/photos] API error:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'An unexpected error occurred.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,343 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSession, requireAuth, requireNotBanned } from '@/lib/auth';
+import { requireCsrfToken } from '@/lib/csrf';
+import { createClient } from '@/lib/supabase/server';
+import { checkRateLimit } from '@/lib/rate-limiter';
+import { sanitizeStrings } from '@/lib/sanitize';
+import { reviewSchema, reviewSortSchema } from '@/lib/reviews';
+import { getPlaceReviews } from '@/lib/places-server';
+import { dbRowToPlaceReview } from '@/lib/supabase/mappers';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const REVIEW_SELECT = '*, profiles(display_name, avatar_url)';
+
+function invalidPlaceId() {
+  return NextResponse.json(
+    { success: false, error: 'Invalid place ID' },
+    { status: 400 }
+  );
+}
+
+/**
+ * GET /api/places/[id]/reviews?sort=newest&offset=0
+ * A page of the place's visible reviews and its current rating, plus the
+ * signed-in user's own review (hidden or not) so they can edit it.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    if (!z.string().uuid().safeParse(id).success) return invalidPlaceId();
+
+    const { searchParams } = request.nextUrl;
+    const sort = reviewSortSchema.parse(searchParams.get('sort') ?? undefined);
+    const offset = z.coerce.number().int().min(0).catch(0).parse(searchParams.get('offset') ?? undefined);
+
+    const supabase = await createClient();
+    const [{ reviews, total }, { data: place }] = await Promise.all([
+      getPlaceReviews(id, sort, offset),
+      supabase.from('places').select('rating').eq('id', id).maybeSingle(),
+    ]);
+
+    let ownReview = null;
+    const user = await getSession();
+    if (user) {
+      const { data: row } = await supabase
+        .from('place_reviews')
+        .select(REVIEW_SELECT)
+        .eq('place_id', id)
+        .eq('user_id', user.id)
+        .maybeSingle();
+      if (row) ownReview = dbRowToPlaceReview(row);
+    }
+
+    return NextResponse.json({
+      success: true,
+      reviews,
+      total,
+      rating: place?.rating ? Number(place.rating) : null,
+      ownReview,
+    });
+  } catch (error) {
+    console.info('[places/reviews] API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'An unexpected error occurred.' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/places/[id]/reviews
+ * Review a place. Each user gets one review per place; later changes go
+ * through PATCH.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const csrfError = requireCsrfToken(request);
+    if (csrfError) return csrfError;
+
+    const auth = await requireAuth(request);
+    if (auth.response) return auth.response;
+
+    const bannedError = await requireNotBanned(auth.user.id);
+    if (bannedError) return bannedError;
+
+    if (!(await checkRateLimit(`reviews:${auth.user.id}`, { limit: 20, windowMs: 60 * 60 * 1000 }))) {
+      return NextResponse.json({ success: false, error: 'Rate limit exceeded.' }, { status: 429 });
+    }
+
+    const { id } = await params;
+    if (!z.string().uuid().safeParse(id).success) return invalidPlaceId();
+
+    const body = await request.json();
+    const validation = reviewSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: validation.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const data = sanitizeStrings(validation.data);
+    const supabase = await createClient();
+
+    const { data: place } = await supabase
+      .from('places')
+      .select('id')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (!place) {
+      return NextResponse.json(
+        { success: false, error: 'Place not found.' },
+        { status: 404 }
+      );
+    }
+
+    const { data: row, error } = await supabase
+      .from('place_reviews')
+      .insert({
+        place_id: id,
+        user_id: auth.user.id,
+        rating: data.rating,
+        body: data.body,
+        photo_urls: data.photoUrls,
+        visited_on: data.visitedOn || null,
+      })
+      .select(REVIEW_SELECT)
+      .single();
+
+    if (error) {
+      console.info('[places/reviews] Insert error:', error.message);
+      const duplicate = error.code === '23505';
+      return NextResponse.json(
+        { success: false, error: duplicate ? 'You already reviewed this place. Edit your review instead.' : 'Failed to post review.' },
+        { status: duplicate ? 409 : 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Thanks! Your review was posted.',
+      review: dbRowToPlaceReview(row),
+    });
+  } catch (error) {
+    console.info('[places/reviews] API error:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'An unexpected error occurred.' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/places/[id]/reviews
+ * Edit your own review of the place. Reviews hidden by a moderator can't
+ * be edited or deleted.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const csrfError = requireCsrfToken(request);
+    if (csrfError) return csrfError;
+
+    const auth = await requireAuth(request);
+    if (auth.response) return auth.response;
+
+    const bannedError = await requireNotBanned(auth.user.id);
+    if (bannedError) return bannedError;
+
+    if (!(await checkRateLimit(`reviews:${auth.user.id}`, { limit: 20, windowMs: 60 * 60 * 1000 }))) {
+      return NextResponse.json({ success: false, error: 'Rate limit exceeded.' }, { status: 429 });
+    }
+
+    const { id } = await params;
+    if (!z.string().uuid().safeParse(id).success) return invalidPlaceId();
+
+    const body = await request.json();
+    const validation = reviewSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: validation.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const data = sanitizeStrings(validation.data);
+    const supabase = await createClient();
+
+    const { data: existing } = await supabase
+      .from('place_reviews')
+      .select('id, status')
+      .eq('place_id', id)
+      .eq('user_id', auth.user.id)
+      .maybeSingle();
+
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: 'You have not reviewed this place yet.' },
+        { status: 404 }
+      );
+    }
+
+    if (existing.status === 'hidden') {
+      return NextResponse.json(
+        { success: false, error: 'This review was hidden by a moderator and can no longer be edited.' },
+        { status: 403 }
+      );
+    }
+
+    const { data: row, error } = await supabase
+      .from('place_reviews')
+      .update({
+        rating: data.rating,
+        body: data.body,
+        photo_urls: data.photoUrls,
+        visited_on: data.visitedOn || null,
+      })
+      .eq('id', existing.id)
+      .select(REVIEW_SELECT)
+      .single();
+
+    if (error) {
+      console.info('[places/reviews] Update error:', error.message);
+      return NextResponse.json(
+        { success: false, error: 'Failed to update review.' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Your review was updated.',
+      review: dbRowToPlaceReview(row),
+    });
+  } catch (error) {
+    console.info('[places/reviews] API error:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'An unexpected error occurred.' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/places/[id]/reviews
+ * Delete your own review of the place. Hidden reviews stay, so deleting
+ * one can't be used to post a fresh review and drop its reports.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const csrfError = requireCsrfToken(request);
+    if (csrfError) return csrfError;
+
+    const auth = await requireAuth(request);
+    if (auth.response) return auth.response;
+
+    const { id } = await params;
+    if (!z.string().uuid().safeParse(id).success) return invalidPlaceId();
+
+    const supabase = await createClient();
+
+    const { data: existing } = await supabase
+      .from('place_reviews')
+      .select('id, status')
+      .eq('place_id', id)
+      .eq('user_id', auth.user.id)
+      .maybeSingle();
+
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: 'You have not reviewed this place yet.' },
+        { status: 404 }
+      );
+    }
+
+    if (existing.status === 'hidden') {
+      return NextResponse.json(
+        { success: false, error: 'This review was hidden by a moderator and can no longer be deleted.' },
+        { status: 403 }
+      );
+    }
+
+    const { data: deleted, error } = await supabase
+      .from('place_reviews')
+      .delete()
+      .eq('id', existing.id)
+      .eq('status', 'visible')
+      .select('id');
+
+    if (error) {
+      console.info('[places/reviews] Delete error:', error.message);
+      return NextResponse.json(
+        { success: false, error: 'Failed to delete review.' },
+        { status: 500 }
+      );
+    }
+
+    if (!deleted?.length) {
+      return NextResponse.json(
+        { success: false, error: 'You have not reviewed this place yet.' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: 'Your review was deleted.' });
+  } catch (error) {
+    console.info('[places/reviews] API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'An unexpected error occurred.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAuth, canManagePlace } from '@/lib/auth';
+import { requireCsrfToken } from '@/lib/csrf';
+import { createClient } from '@/lib/supabase/server';
+import { checkRateLimit } from '@/lib/rate-limiter';
+import { placeStatusSchema } from '@/lib/place-status';
+import { REVISION_SOURCE_HEADER } from '@/lib/revisions';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * PUT /api/places/[id]/status
+ * Set a place's lifecycle status (open, temporarily/permanently closed,
+ * coming soon) and the date it takes effect.
+ * Only the place's owner or an admin can change it.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const csrfError = requireCsrfToken(request);
+    if (csrfError) return csrfError;
+
+    const auth = await requireAuth(request);
+    if (auth.response) return auth.response;
+
+    if (!(await checkRateLimit(`owner:${auth.user.id}`, { limit: 50, windowMs: 60 * 60 * 1000 }))) {
+      return NextResponse.json({ success: false, error: 'Rate limit exceeded.' }, { status: 429 });
+    }
+
+    const { id } = await params;
+    if (!z.string().uuid().safeParse(id).success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid place ID' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await canManagePlace(auth.user.id, id))) {
+      return NextResponse.json(
+        { success: false, error: 'You do not manage this place.' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validation = placeStatusSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: validation.error.format() },
+        { status: 400 }
+      );
+    }
+
+    // An active place has nothing to take effect
+    const { status } = validation.data;
+    const statusEffectiveDate = status === 'active' ? null : validation.data.statusEffectiveDate ?? null;
+
+    const supabase = await createClient();
+    const { error } = await supabase
+      .from('places')
+      .update({
+        status,
+        status_effective_date: statusEffectiveDate,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .setHeader(REVISION_SOURCE_HEADER, 'status');
+
+    if (error) {
+      console.info('[places/status] Update error:', error.message);
+      return NextResponse.json(
+        { success: false, error: 'Failed to update status.' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Status updated.',
+      status,
+      statusEffectiveDate,
+    });
+  } catch (error) {
+    console.info('[places/status] API error:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'An unexpected error occurred.' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { createAdminClient } from '@/lib/supabase/admin';
 import { requireCsrfToken } from '@/lib/csrf';
-import { checkRateLimit } from '@/lib/rate-limiter';
+import { checkRateLimit, getClientIP } from '@/lib/rate-limiter';
 import { getSession } from '@/lib/auth';
 import type { Json } from '@/types/database';
 
@@ -10,6 +10,8 @@ const deletePlaceRequestSchema = z.object({
   slug: z.string().min(1, 'Slug is required'),
   name: z.string().min(1, 'Name is required'),
   reason: z.string().optional(),
+  status: z.enum(['temporarily_closed', 'permanently_closed']).default('permanently_closed'),
+  effectiveDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD').optional().or(z.literal('')),
   contributorName: z.string().optional(),
   contributorEmail: z.string().email('Invalid email format').optional().or(z.literal('')),
 });
@@ -18,14 +20,6 @@ export const runtime = 'nodejs';
 export const maxDuration = 30;
 export const dynamic = 'force-dynamic';
 
-function getClientIP(request: NextRequest): string {
-  const forwarded = request.headers.get('x-forwarded-for');
-  if (forwarded) return forwarded.split(',')[0].trim();
-  const realIP = request.headers.get('x-real-ip');
-  if (realIP) return realIP;
-  return 'unknown';
-}
-
 export async function POST(request: NextRequest) {
   try {
     const csrfError = requireCsrfToken(request);
@@ -73,10 +67,15 @@ export async function POST(request: NextRequest) {
       // Anonymous is fine
     }
 
-    // Store as a suggestion with a special closure change marker
+    // Store as a suggestion with a special closure change marker;
+    // approving it sets the place's status
     const changes = {
       _type: 'closure_report',
-      reason: data.reason || 'Reported as permanently closed',
+      status: data.status,
+      ...(data.effectiveDate && { effectiveDate: data.effectiveDate }),
+      reason: data.reason || (data.status === 'temporarily_closed'
+        ? 'Reported as temporarily closed'
+        : 'Reported as permanently closed'),
     };
 
     const { data: suggestion, error: insertError } = await admin
@@ -1,77 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { z } from 'zod';
 import { createAdminClient } from '@/lib/supabase/admin';
 import { requireCsrfToken } from '@/lib/csrf';
-import { checkRateLimit } from '@/lib/rate-limiter';
+import { checkRateLimit, getClientIP } from '@/lib/rate-limiter';
 import { getSession } from '@/lib/auth';
 import { sanitizeStrings } from '@/lib/sanitize';
+import { createPlaceSchema } from '@/lib/place-schema';
+import { mapPlaceFieldsToDb } from '@/lib/supabase/mappers';
+import { normalizePlaceTags } from '@/lib/tags-server';
+import { getUniquePlaceSlug } from '@/lib/slugs-server';
 import type { Json } from '@/types/database';
 
-const operatingHoursSchema = z.record(
-  z.string(),
-  z.object({
-    open: z.string().regex(/^\d{2}:\d{2}$/, 'Time must be in HH:MM format').optional(),
-    close: z.string().regex(/^\d{2}:\d{2}$/, 'Time must be in HH:MM format').optional(),
-    closed: z.boolean().optional(),
-  })
-);
-
-const submitPlaceSchema = z.object({
-  // Required fields
-  name: z.string().min(1, 'Name is required'),
-  description: z.string().min(10, 'Description must be at least 10 characters'),
-  address: z.string().min(1, 'Address is required'),
-  operatingHours: operatingHoursSchema,
-  priceRange: z.enum(['$', '$$', '$$$', '$$$$'], {
-    message: 'Price range must be $, $$, $$$, or $$$$',
-  }),
-  cuisineTypes: z.array(z.string()).min(1, 'At least one cuisine type is required'),
-
-  // Optional fields
-  phone: z.string().optional(),
-  email: z.string().email('Invalid email format').optional().or(z.literal('')),
-  website: z.string().url('Invalid URL format').optional().or(z.literal('')),
-  logoUrl: z.string().url('Invalid logo URL').optional().or(z.literal('')),
-  coverImageUrl: z.string().url('Invalid cover image URL').optional().or(z.literal('')),
-  photosUrls: z.array(z.string().url('Invalid photo URL')).default([]),
-  paymentMethods: z.array(z.string()).default([]),
-  tags: z.array(z.string()).default([]),
-  amenities: z.array(z.string()).default([]),
-  specialties: z.array(z.string()).default([]),
-  latitude: z.number().min(-90).max(90).optional(),
-  longitude: z.number().min(-180).max(180).optional(),
-
-  // Contributor info
-  contributorName: z.string().min(1, 'Contributor name is required'),
-  contributorEmail: z.string().email('Invalid email format').optional().or(z.literal('')),
-  contributorGithub: z.string().optional(),
-});
-
 export const runtime = 'nodejs';
 export const maxDuration = 30;
 export const dynamic = 'force-dynamic';
 
-function getClientIP(request: NextRequest): string {
-  const forwarded = request.headers.get('x-forwarded-for');
-  if (forwarded) return forwarded.split(',')[0].trim();
-  const realIP = request.headers.get('x-real-ip');
-  if (realIP) return realIP;
-  return 'unknown';
-}
-
-/**
- * Generate a URL-friendly slug from a name
- */
-function generateSlug(name: string): string {
-  return name
-    .toLowerCase()
-    .trim()
-    .replace(/[^\w\s-]/g, '')
-    .replace(/\s+/g, '-')
-    .replace(/-+/g, '-')
-    .replace(/^-+|-+$/g, '');
-}
-
 export async function POST(request: NextRequest) {
   try {
     // Validate CSRF token
@@ -89,7 +31,7 @@ export async function POST(request: NextRequest) {
 
     // Parse and validate
     const body = await request.json();
-    const validation = submitPlaceSchema.safeParse(body);
+    const validation = createPlaceSchema.safeParse(body);
     if (!validation.success) {
       return NextResponse.json(
         { success: false, error: 'Validation failed', details: validation.error.format() },
@@ -97,30 +39,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const data = sanitizeStrings(validation.data);
-    const slug = generateSlug(data.name);
+    // Canonicalize tags; unknown ones are queued for review
+    const data = await normalizePlaceTags(sanitizeStrings(validation.data));
+    // Checked again at approval, in case another place takes it meanwhile
+    const slug = await getUniquePlaceSlug(data.name);
 
     // Build the full place data as JSONB
     const placeData = {
-      name: data.name,
+      ...mapPlaceFieldsToDb(data),
       slug,
-      description: data.description,
-      address: data.address,
-      phone: data.phone || null,
-      email: data.email || null,
-      website: data.website || null,
-      logo_url: data.logoUrl || null,
-      cover_image_url: data.coverImageUrl || null,
-      photos_urls: data.photosUrls,
-      operating_hours: data.operatingHours,
-      price_range: data.priceRange,
-      payment_methods: data.paymentMethods,
-      tags: data.tags,
-      amenities: data.amenities,
-      cuisine_types: data.cuisineTypes,
-      specialties: data.specialties,
-      latitude: data.latitude ?? null,
-      longitude: data.longitude ?? null,
       contributor_name: data.contributorName,
       contributor_email: data.contributorEmail || null,
       contributor_github: data.contributorGithub || null,
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth, requireNotBanned } from '@/lib/auth';
+import { requireCsrfToken } from '@/lib/csrf';
+import { createClient } from '@/lib/supabase/server';
+import { checkRateLimit } from '@/lib/rate-limiter';
+import { sanitizeStrings } from '@/lib/sanitize';
+import { reportSchema } from '@/lib/reports';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/** Table holding each kind of reported content */
+const TARGET_TABLES = {
+  review: 'place_reviews',
+  photo: 'place_photos',
+  description: 'places',
+} as const;
+
+/**
+ * POST /api/reports
+ * Flag a review, a gallery photo or a place description for the admins'
+ * report queue. Signed-in users only; one open report per user per item.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const csrfError = requireCsrfToken(request);
+    if (csrfError) return csrfError;
+
+    const auth = await requireAuth(request);
+    if (auth.response) return auth.response;
+
+    const bannedError = await requireNotBanned(auth.user.id);
+    if (bannedError) return bannedError;
+
+    if (!(await checkRateLimit(`reports:${auth.user.id}`, { limit: 20, windowMs: 60 * 60 * 1000 }))) {
+      return NextResponse.json({ success: false, error: 'Rate limit exceeded.' }, { status: 429 });
+    }
+
+    const body = await request.json();
+    const validation = reportSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: validation.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const data = sanitizeStrings(validation.data);
+    const supabase = await createClient();
+
+    const { data: target } = await supabase
+      .from(TARGET_TABLES[data.targetType])
+      .select('id')
+      .eq('id', data.targetId)
+      .maybeSingle();
+
+    if (!target) {
+      return NextResponse.json(
+        { success: false, error: 'The reported content no longer exists.' },
+        { status: 404 }
+      );
+    }
+
+    const { error } = await supabase
+      .from('content_reports')
+      .insert({
+        target_type: data.targetType,
+        review_id: data.targetType === 'review' ? data.targetId : null,
+        photo_id: data.targetType === 'photo' ? data.targetId : null,
+        place_id: data.targetType === 'description' ? data.targetId : null,
+        reason: data.reason,
+        details: data.details || null,
+        reported_by: auth.user.id,
+      });
+
+    if (error) {
+      console.info('[reports] Insert error:', error.message);
+      const duplicate = error.code === '23505';
+      return NextResponse.json(
+        { success: false, error: duplicate ? 'You already reported this. An admin will look at it soon.' : 'Failed to send report.' },
+        { status: duplicate ? 409 : 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Thanks for the report. An admin will review it.',
+    });
+  } catch (error) {
+    console.info('[reports] API error:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'An unexpected error occurred.' },
+      { status: 500 }
+    );
+  }
+}
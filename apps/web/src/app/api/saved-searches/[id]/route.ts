@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAuth } from '@/lib/auth';
+import { requireCsrfToken } from '@/lib/csrf';
+import { createClient } from '@/lib/supabase/server';
+import { checkRateLimit } from '@/lib/rate-limiter';
+
+const updateSavedSearchSchema = z.object({
+  name: z.string().trim().min(1).max(80).optional(),
+  alertsEnabled: z.boolean().optional(),
+});
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const csrfError = requireCsrfToken(request);
+    if (csrfError) return csrfError;
+
+    const auth = await requireAuth(request);
+    if (auth.response) return auth.response;
+
+    if (!(await checkRateLimit(`saved-searches:${auth.user.id}`, { limit: 50, windowMs: 60 * 60 * 1000 }))) {
+      return NextResponse.json({ success: false, error: 'Rate limit exceeded.' }, { status: 429 });
+    }
+
+    const { id } = await params;
+
+    const body = await request.json();
+    const validation = updateSavedSearchSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: validation.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const data = validation.data;
+    const update: Record<string, unknown> = {};
+    if (data.name !== undefined) update.name = data.name;
+    if (data.alertsEnabled !== undefined) update.alerts_enabled = data.alertsEnabled;
+
+    // RLS limits this to the user's own saved searches
+    const supabase = await createClient();
+    const { data: updated, error } = await supabase
+      .from('saved_searches')
+      .update(update)
+      .eq('id', id)
+      .select('id')
+      .maybeSingle();
+
+    if (error) {
+      console.info('[saved-searches] Update error:', error.message);
+      return NextResponse.json(
+        { success: false, error: 'Failed to update saved search.' },
+        { status: 500 }
+      );
+    }
+
+    if (!updated) {
+      return NextResponse.json(
+        { success: false, error: 'Saved search not found.' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: 'Saved search updated.' });
+  } catch (error) {
+    console.info('[saved-searches] API error:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'An unexpected error occurred.' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const csrfError = requireCsrfToken(request);
+    if (csrfError) return csrfError;
+
+    const auth = await requireAuth(request);
+    if (auth.response) return auth.response;
+
+    const { id } = await params;
+
+    // RLS limits this to the user's own saved searches
+    const supabase = await createClient();
+    const { error } = await supabase
+      .from('saved_searches')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.info('[saved-searches] Delete error:', error.message);
+      return NextResponse.json(
+        { success: false, error: 'Failed to delete saved search.' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: 'Saved search deleted.' });
+  } catch (error) {
+    console.info('[saved-searches] Delete API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'An unexpected error occurred.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAuth } from '@/lib/auth';
+import { requireCsrfToken } from '@/lib/csrf';
+import { createClient } from '@/lib/supabase/server';
+import { checkRateLimit } from '@/lib/rate-limiter';
+import { searchParamsToFilters, hasActiveFilters } from '@/lib/search-params';
+import { MAX_SAVED_SEARCHES } from '@/lib/saved-searches';
+import type { Json } from '@/types/database';
+
+const savedSearchSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  // Search params as built by filtersToSearchParams
+  params: z.string().max(2000),
+  alertsEnabled: z.boolean().default(true),
+});
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/saved-searches
+ * Save the current /places filters for the logged-in user
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const csrfError = requireCsrfToken(request);
+    if (csrfError) return csrfError;
+
+    const auth = await requireAuth(request);
+    if (auth.response) return auth.response;
+
+    if (!(await checkRateLimit(`saved-searches:${auth.user.id}`, { limit: 50, windowMs: 60 * 60 * 1000 }))) {
+      return NextResponse.json({ success: false, error: 'Rate limit exceeded.' }, { status: 429 });
+    }
+
+    const body = await request.json();
+    const validation = savedSearchSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: validation.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { name, params, alertsEnabled } = validation.data;
+    const filters = searchParamsToFilters(new URLSearchParams(params));
+    if (!hasActiveFilters({ ...filters, sort: undefined })) {
+      return NextResponse.json(
+        { success: false, error: 'Apply at least one filter or search term before saving.' },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createClient();
+
+    const { count } = await supabase
+      .from('saved_searches')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', auth.user.id);
+
+    if ((count ?? 0) >= MAX_SAVED_SEARCHES) {
+      return NextResponse.json(
+        { success: false, error: `You can save up to ${MAX_SAVED_SEARCHES} searches. Delete one from your dashboard first.` },
+        { status: 400 }
+      );
+    }
+
+    const { data: savedSearch, error } = await supabase
+      .from('saved_searches')
+      .insert({
+        user_id: auth.user.id,
+        name,
+        filters: filters as unknown as Json,
+        alerts_enabled: alertsEnabled,
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.info('[saved-searches] Insert error:', error.message);
+      return NextResponse.json(
+        { success: false, error: 'Failed to save search.' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      savedSearchId: savedSearch.id,
+      message: 'Search saved.',
+    });
+  } catch (error) {
+    console.info('[saved-searches] API error:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'An unexpected error occurred.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { dbRowToMenuItem } from '@/lib/supabase/mappers';
+import { parseDishQuery } from '@/lib/menu';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Dish search across every place's menu
+ * `q` may include a price limit ("sisig under ₱200"), which is parsed out
+ * and applied to menu prices.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const dish = parseDishQuery(searchParams.get('q') ?? '');
+    const limit = Number(searchParams.get('limit')) || 12;
+
+    if (!dish.query) {
+      return NextResponse.json({ success: true, dish, items: [] });
+    }
+
+    const supabase = createAdminClient();
+    const { data, error } = await supabase.rpc('search_menu_items', {
+      p_query: dish.query,
+      p_min_price: dish.minPrice ?? null,
+      p_max_price: dish.maxPrice ?? null,
+      p_limit: limit,
+    });
+
+    if (error) {
+      console.info('[search/dishes] Error searching dishes:', error.message);
+      throw new Error('Search failed');
+    }
+
+    const items = (data ?? []).map((row) => ({
+      ...dbRowToMenuItem(row.item),
+      placeName: row.place_name,
+      placeSlug: row.place_slug,
+    }));
+
+    return NextResponse.json({ success: true, dish, items });
+  } catch (error) {
+    console.info('[search/dishes] API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'An unexpected error occurred. Please try again later.' },
+      { status: 500 }
+    );
+  }
+}
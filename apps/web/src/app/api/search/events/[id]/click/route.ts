@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { requireCsrfToken } from '@/lib/csrf';
+import { checkRateLimit, getClientIP } from '@/lib/rate-limiter';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const clickSchema = z.object({
+  placeId: z.string().uuid(),
+  position: z.number().int().min(0),
+});
+
+// Clicks this long after the search aren't attributed to it
+const CLICK_WINDOW_MS = 60 * 60 * 1000;
+
+/**
+ * POST /api/search/events/[id]/click
+ * Records the first result clicked from a search (query-to-click rate).
+ * Later clicks on the same search are ignored.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const csrfError = requireCsrfToken(request);
+    if (csrfError) return csrfError;
+
+    const { id } = await params;
+    if (!z.string().uuid().safeParse(id).success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid search event ID' },
+        { status: 400 }
+      );
+    }
+
+    const clientIP = getClientIP(request);
+    if (!(await checkRateLimit(`search-events:${clientIP}`, { limit: 300, windowMs: 60 * 60 * 1000 }))) {
+      return NextResponse.json(
+        { success: false, error: 'Rate limit exceeded.' },
+        { status: 429 }
+      );
+    }
+
+    const body = await request.json();
+    const validation = clickSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: validation.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const admin = createAdminClient();
+    const { error } = await admin
+      .from('search_events')
+      .update({
+        clicked_place_id: validation.data.placeId,
+        clicked_position: validation.data.position,
+        clicked_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .is('clicked_at', null)
+      .gte('created_at', new Date(Date.now() - CLICK_WINDOW_MS).toISOString());
+
+    if (error) {
+      console.info('[search/events] Click update error:', error.message);
+      return NextResponse.json(
+        { success: false, error: 'Failed to record click.' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.info('[search/events] Click API error:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'An unexpected error occurred. Please try again later.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { requireCsrfToken } from '@/lib/csrf';
+import { checkRateLimit, getClientIP } from '@/lib/rate-limiter';
+import { searchParamsToFilters } from '@/lib/search-params';
+import { anonymizeQuery, summarizeFilters } from '@/lib/search-analytics';
+import type { Json } from '@/types/database';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const searchEventSchema = z.object({
+  // Search params as built by filtersToSearchParams
+  params: z.string().max(2000),
+  resultCount: z.number().int().min(0),
+  source: z.enum(['places', 'search-bar']),
+});
+
+/**
+ * POST /api/search/events
+ * Records an anonymized search (query, applied filters, result count)
+ * for the admin search analytics page. Returns the event ID so a
+ * following click can be attributed to it.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const csrfError = requireCsrfToken(request);
+    if (csrfError) return csrfError;
+
+    const clientIP = getClientIP(request);
+    if (!(await checkRateLimit(`search-events:${clientIP}`, { limit: 300, windowMs: 60 * 60 * 1000 }))) {
+      return NextResponse.json(
+        { success: false, error: 'Rate limit exceeded.' },
+        { status: 429 }
+      );
+    }
+
+    const body = await request.json();
+    const validation = searchEventSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: validation.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { params, resultCount, source } = validation.data;
+    const filters = searchParamsToFilters(new URLSearchParams(params));
+
+    const admin = createAdminClient();
+    const { data: event, error } = await admin
+      .from('search_events')
+      .insert({
+        query: anonymizeQuery(filters.query),
+        filters: summarizeFilters(filters) as unknown as Json,
+        result_count: resultCount,
+        source,
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.info('[search/events] Insert error:', error.message);
+      return NextResponse.json(
+        { success: false, error: 'Failed to record search.' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, eventId: event.id });
+  } catch (error) {
+    console.info('[search/events] API error:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'An unexpected error occurred. Please try again later.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { searchFacetsServer } from '@/lib/search-server';
+import { searchParamsToFilters } from '@/lib/search-params';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Facet counts for the filter sidebar
+ * Accepts the same filter params as /api/search (including `ids` for favorites)
+ * and returns how many places match each cuisine, amenity and price range.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const placeIds = searchParams
+      .get('ids')
+      ?.split(',')
+      .filter((id) => z.string().uuid().safeParse(id).success);
+
+    const facets = await searchFacetsServer(searchParamsToFilters(searchParams), { placeIds });
+
+    return NextResponse.json({ success: true, facets });
+  } catch (error) {
+    console.info('[search/facets] API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'An unexpected error occurred. Please try again later.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { searchPlacesServer, decodeCursor, SEARCH_PAGE_SIZE, SEARCH_MAX_PAGE_SIZE } from '@/lib/search-server';
+import { searchParamsToFilters } from '@/lib/search-params';
+
+const paginationSchema = z.object({
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(SEARCH_MAX_PAGE_SIZE).default(SEARCH_PAGE_SIZE),
+  ids: z.string().optional(),
+  group: z.enum(['branches']).optional(),
+});
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Search places
+ * Accepts the same filter params as /places (q, cuisines, amenities, prices,
+ * tags, keywords, open, favorites) plus `cursor`, `limit`, `ids`
+ * (comma-separated favorite place IDs, used with favorites=true) and
+ * `group=branches` (one result per chain, other branches attached).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const validation = paginationSchema.safeParse({
+      cursor: searchParams.get('cursor') ?? undefined,
+      limit: searchParams.get('limit') ?? undefined,
+      ids: searchParams.get('ids') ?? undefined,
+      group: searchParams.get('group') ?? undefined,
+    });
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: validation.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { cursor, limit, ids, group } = validation.data;
+    if (cursor && !decodeCursor(cursor)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid cursor' },
+        { status: 400 }
+      );
+    }
+
+    const placeIds = ids
+      ?.split(',')
+      .filter((id) => z.string().uuid().safeParse(id).success);
+
+    const result = await searchPlacesServer(searchParamsToFilters(searchParams), {
+      cursor,
+      limit,
+      placeIds,
+      groupBranches: group === 'branches',
+    });
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    console.info('[search] API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'An unexpected error occurred. Please try again later.' },
+      { status: 500 }
+    );
+  }
+}
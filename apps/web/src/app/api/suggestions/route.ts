@@ -1,66 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { z } from 'zod';
 import { createAdminClient } from '@/lib/supabase/admin';
 import { requireCsrfToken } from '@/lib/csrf';
-import { checkRateLimit } from '@/lib/rate-limiter';
+import { checkRateLimit, getClientIP } from '@/lib/rate-limiter';
 import { getSession } from '@/lib/auth';
 import { sanitizeStrings } from '@/lib/sanitize';
+import { suggestPlaceSchema, checkPaymentMethods, unknownPaymentMethodsMessage } from '@/lib/place-schema';
+import { mapPlaceFieldsToDb } from '@/lib/supabase/mappers';
+import { normalizePlaceTags } from '@/lib/tags-server';
 import type { Json } from '@/types/database';
 
-const operatingHoursSchema = z.record(
-  z.string(),
-  z.object({
-    open: z.string().regex(/^\d{2}:\d{2}$/, 'Time must be in HH:MM format').optional(),
-    close: z.string().regex(/^\d{2}:\d{2}$/, 'Time must be in HH:MM format').optional(),
-    closed: z.boolean().optional(),
-  })
-);
-
-const suggestionSchema = z.object({
-  // Place identity
-  placeId: z.string().uuid('Valid place UUID required'),
-
-  // Editable fields
-  name: z.string().min(1, 'Name is required'),
-  description: z.string().min(10, 'Description must be at least 10 characters'),
-  address: z.string().min(1, 'Address is required'),
-  operatingHours: operatingHoursSchema,
-  priceRange: z.enum(['$', '$$', '$$$', '$$$$'], {
-    message: 'Price range must be $, $$, $$$, or $$$$',
-  }),
-  cuisineTypes: z.array(z.string()).min(1, 'At least one cuisine type is required'),
-
-  // Optional fields
-  phone: z.string().optional(),
-  email: z.string().email('Invalid email format').optional().or(z.literal('')),
-  website: z.string().url('Invalid URL format').optional().or(z.literal('')),
-  logoUrl: z.string().url('Invalid logo URL').optional().or(z.literal('')),
-  coverImageUrl: z.string().url('Invalid cover image URL').optional().or(z.literal('')),
-  photosUrls: z.array(z.string().url('Invalid photo URL')).default([]),
-  paymentMethods: z.array(z.string()).default([]),
-  tags: z.array(z.string()).default([]),
-  amenities: z.array(z.string()).default([]),
-  specialties: z.array(z.string()).default([]),
-  latitude: z.number().min(-90).max(90).optional(),
-  longitude: z.number().min(-180).max(180).optional(),
-
-  // Contributor info
-  contributorName: z.string().min(1, 'Contributor name is required'),
-  contributorEmail: z.string().email('Invalid email format').optional().or(z.literal('')),
-});
-
 export const runtime = 'nodejs';
 export const maxDuration = 30;
 export const dynamic = 'force-dynamic';
 
-function getClientIP(request: NextRequest): string {
-  const forwarded = request.headers.get('x-forwarded-for');
-  if (forwarded) return forwarded.split(',')[0].trim();
-  const realIP = request.headers.get('x-real-ip');
-  if (realIP) return realIP;
-  return 'unknown';
-}
-
 /**
  * Compute field-by-field diff between the existing place and submitted data.
  * Only includes fields that actually changed.
@@ -71,7 +23,7 @@ function computeDiff(
 ): Record<string, { old: unknown; new: unknown }> {
   const diff: Record<string, { old: unknown; new: unknown }> = {};
   const fieldsToCompare = [
-    'name', 'description', 'address', 'phone', 'email', 'website',
+    'name', 'description', 'address', 'phone', 'email', 'website', 'links',
     'logo_url', 'cover_image_url', 'operating_hours', 'price_range',
     'cuisine_types', 'specialties', 'tags', 'amenities', 'payment_methods',
     'latitude', 'longitude',
@@ -110,7 +62,7 @@ export async function POST(request: NextRequest) {
 
     // Parse and validate
     const body = await request.json();
-    const validation = suggestionSchema.safeParse(body);
+    const validation = suggestPlaceSchema.safeParse(body);
     if (!validation.success) {
       return NextResponse.json(
         { success: false, error: 'Validation failed', details: validation.error.format() },
@@ -118,7 +70,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const data = sanitizeStrings(validation.data);
+    // Canonicalize tags; unknown ones are queued for review
+    const data = await normalizePlaceTags(sanitizeStrings(validation.data));
     const admin = createAdminClient();
 
     // Fetch the existing place to compute diff
@@ -135,25 +88,22 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const { methods, unknown } = checkPaymentMethods(data.paymentMethods, existingPlace.payment_methods);
+    if (unknown.length > 0) {
+      return NextResponse.json(
+        { success: false, error: unknownPaymentMethodsMessage(unknown) },
+        { status: 400 }
+      );
+    }
+    data.paymentMethods = methods;
+
     // Build submitted data in DB column format for comparison
+    // Omitted links and pin keep the current ones
     const submittedDbFormat: Record<string, unknown> = {
-      name: data.name,
-      description: data.description,
-      address: data.address,
-      phone: data.phone || null,
-      email: data.email || null,
-      website: data.website || null,
-      logo_url: data.logoUrl || null,
-      cover_image_url: data.coverImageUrl || null,
-      operating_hours: data.operatingHours,
-      price_range: data.priceRange,
-      cuisine_types: data.cuisineTypes,
-      specialties: data.specialties,
-      tags: data.tags,
-      amenities: data.amenities,
-      payment_methods: data.paymentMethods,
-      latitude: data.latitude ?? null,
-      longitude: data.longitude ?? null,
+      ...mapPlaceFieldsToDb(data),
+      links: data.links ?? existingPlace.links,
+      latitude: data.latitude ?? existingPlace.latitude,
+      longitude: data.longitude ?? existingPlace.longitude,
     };
 
     const changes = computeDiff(existingPlace as Record<string, unknown>, submittedDbFormat);
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { getTagTaxonomy } from '@/lib/tags-server';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Canonical tags and aliases for TagInput autocomplete
+ */
+export async function GET() {
+  try {
+    const taxonomy = await getTagTaxonomy();
+    return NextResponse.json({ success: true, ...taxonomy });
+  } catch (error) {
+    console.info('[tags] API error:', error);
+    return NextResponse.json(
+      { success: false, error: 'An unexpected error occurred. Please try again later.' },
+      { status: 500 }
+    );
+  }
+}
@@ -20,8 +20,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'No file provided' }, { status: 400 });
     }
 
-    if (!type || !['profile', 'cover'].includes(type)) {
-      return NextResponse.json({ error: 'Invalid image type. Must be "profile" or "cover"' }, { status: 400 });
+    if (!type || !['profile', 'cover', 'menu', 'gallery', 'review'].includes(type)) {
+      return NextResponse.json({ error: 'Invalid image type. Must be "profile", "cover", "menu", "gallery" or "review"' }, { status: 400 });
     }
 
     if (!slug || !SLUG_PATTERN.test(slug)) {
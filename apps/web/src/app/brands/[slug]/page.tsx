@@ -0,0 +1,126 @@
+import { notFound } from 'next/navigation';
+import Link from 'next/link';
+import type { Metadata } from 'next';
+import { ChevronLeft, ExternalLink, Globe } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { PlaceCard } from '@/components/place/place-card';
+import { PlaceImage } from '@/components/place/place-image';
+import { getAllBrands, getBrandBySlug } from '@/lib/brands-server';
+import { isPlaceClosed } from '@/lib/place-status';
+
+interface BrandPageProps {
+  params: Promise<{ slug: string }>;
+}
+
+export async function generateStaticParams() {
+  const brands = await getAllBrands();
+  return brands.map((brand) => ({ slug: brand.slug }));
+}
+
+export async function generateMetadata({ params }: BrandPageProps): Promise<Metadata> {
+  const { slug } = await params;
+  const result = await getBrandBySlug(slug);
+
+  if (!result) {
+    return {
+      title: 'Brand Not Found',
+    };
+  }
+
+  const { brand, branches } = result;
+  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'https://whereinmaginhawa.com';
+  const description = brand.description
+    || `${branches.length} ${brand.name} ${branches.length === 1 ? 'branch' : 'branches'} in Maginhawa and Teacher's Village`;
+
+  return {
+    title: `${brand.name} branches | Where In Maginhawa`,
+    description,
+    openGraph: {
+      title: `${brand.name} branches`,
+      description,
+      url: `${siteUrl}/brands/${brand.slug}`,
+      siteName: 'Where In Maginhawa',
+      locale: 'en_PH',
+      type: 'website',
+    },
+    alternates: {
+      canonical: `${siteUrl}/brands/${brand.slug}`,
+    },
+  };
+}
+
+/**
+ * A chain's page: its shared details and every branch
+ */
+export default async function BrandPage({ params }: BrandPageProps) {
+  const { slug } = await params;
+  const result = await getBrandBySlug(slug);
+
+  if (!result) notFound();
+
+  const { brand, branches } = result;
+  // Open branches first; closed ones keep their listing at the end
+  const sortedBranches = [
+    ...branches.filter((place) => !isPlaceClosed(place)),
+    ...branches.filter((place) => isPlaceClosed(place)),
+  ];
+
+  return (
+    <div className="min-h-screen bg-gray-50/50 pt-16">
+      <div className="container mx-auto px-4 py-8">
+        <Button variant="ghost" size="sm" asChild className="mb-6 -ml-3 gap-2">
+          <Link href="/places">
+            <ChevronLeft className="w-4 h-4" />
+            All places
+          </Link>
+        </Button>
+
+        {/* Brand Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center gap-6 mb-10">
+          <PlaceImage
+            src={brand.logoUrl}
+            alt={`${brand.name} logo`}
+            className="w-28 h-28 rounded-full object-cover border-4 bg-white border-slate-100 shadow-md shrink-0"
+            fallbackContent={
+              <div className="w-28 h-28 rounded-full bg-white border-4 border-slate-100 flex items-center justify-center shadow-md shrink-0">
+                <span className="text-5xl font-bold text-primary">{brand.name.charAt(0)}</span>
+              </div>
+            }
+          />
+          <div className="space-y-2">
+            <h1 className="text-3xl md:text-4xl font-bold text-gray-900">{brand.name}</h1>
+            <p className="text-sm text-gray-500">
+              {branches.length} {branches.length === 1 ? 'branch' : 'branches'} around Maginhawa
+            </p>
+            {brand.description && (
+              <p className="text-gray-600 leading-relaxed max-w-2xl">{brand.description}</p>
+            )}
+            {brand.website && (
+              <a
+                href={brand.website}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-1.5 text-sm text-orange-600 hover:underline"
+              >
+                <Globe className="w-4 h-4" />
+                Visit Website
+                <ExternalLink className="w-3 h-3" />
+              </a>
+            )}
+          </div>
+        </div>
+
+        {/* Branches */}
+        {sortedBranches.length === 0 ? (
+          <p className="text-gray-600">No branches listed yet.</p>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-5">
+            {sortedBranches.map((place) => (
+              <PlaceCard key={place.id} place={place} />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
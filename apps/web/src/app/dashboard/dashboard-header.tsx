@@ -28,6 +28,7 @@ import { createClient } from '@/lib/supabase/client';
 const pageNames: Record<string, string> = {
   '/dashboard': 'My Places',
   '/dashboard/suggestions': 'Suggestions',
+  '/dashboard/saved-searches': 'Saved Searches',
   '/dashboard/settings': 'Settings',
 };
 
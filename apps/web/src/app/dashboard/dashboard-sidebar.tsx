@@ -2,7 +2,7 @@
 
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
-import { Store, MessageSquare, Settings, MapPin, Home, Shield } from 'lucide-react';
+import { Store, MessageSquare, Settings, MapPin, Home, Shield, BellRing } from 'lucide-react';
 import {
   Sidebar,
   SidebarContent,
@@ -19,6 +19,7 @@ import {
 const navItems = [
   { href: '/dashboard', label: 'My Places', icon: Store, exact: true },
   { href: '/dashboard/suggestions', label: 'Suggestions', icon: MessageSquare },
+  { href: '/dashboard/saved-searches', label: 'Saved Searches', icon: BellRing },
   { href: '/dashboard/settings', label: 'Settings', icon: Settings },
 ];
 
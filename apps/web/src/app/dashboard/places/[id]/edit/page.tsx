@@ -5,6 +5,10 @@ import { useRouter, useParams } from 'next/navigation';
 import { ArrowLeft } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { EditPlaceForm } from '@/components/place/edit-place-form';
+import { GalleryEditor } from '@/components/place/gallery-editor';
+import { HoursOverridesEditor } from '@/components/place/hours-overrides-editor';
+import { MenuEditor } from '@/components/place/menu-editor';
+import { PlaceStatusEditor } from '@/components/place/place-status-editor';
 import { createClient as createBrowserClient } from '@/lib/supabase/client';
 import { dbRowToPlace } from '@/lib/supabase/mappers';
 import { toast } from 'sonner';
@@ -30,13 +34,19 @@ export default function OwnerEditPlacePage() {
           return;
         }
 
-        const { data, error } = await supabase
-          .from('places')
-          .select('*')
-          .eq('id', placeId)
-          .eq('claimed_by', user.id)
+        const { data: profile } = await supabase
+          .from('profiles')
+          .select('role')
+          .eq('id', user.id)
           .single();
 
+        // Admins can edit any place; owners only their claimed ones
+        let query = supabase.from('places').select('*').eq('id', placeId);
+        if (profile?.role !== 'admin') {
+          query = query.eq('claimed_by', user.id);
+        }
+        const { data, error } = await query.single();
+
         if (error || !data) {
           toast.error('Place not found or you do not have permission to edit it.');
           router.push('/dashboard');
@@ -89,6 +99,23 @@ export default function OwnerEditPlacePage() {
       </div>
 
       <OwnerEditForm place={place} onSuccess={handleSuccess} onCancel={handleCancel} />
+
+      <HoursOverridesEditor placeId={place.id} initialOverrides={place.hoursOverrides ?? []} />
+
+      <MenuEditor placeId={place.id} placeSlug={place.slug} />
+
+      <GalleryEditor
+        placeId={place.id}
+        placeSlug={place.slug}
+        placeName={place.name}
+        coverImageUrl={place.coverImageUrl}
+      />
+
+      <PlaceStatusEditor
+        placeId={place.id}
+        initialStatus={place.status ?? 'active'}
+        initialEffectiveDate={place.statusEffectiveDate}
+      />
     </div>
   );
 }
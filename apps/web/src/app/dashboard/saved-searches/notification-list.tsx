@@ -0,0 +1,96 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { csrfFetch } from '@/lib/csrf-client';
+
+interface Notification {
+  id: string;
+  title: string;
+  body: string | null;
+  href: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+interface NotificationListProps {
+  notifications: Notification[];
+}
+
+export function NotificationList({ notifications }: NotificationListProps) {
+  const router = useRouter();
+  const [isMarking, setIsMarking] = useState(false);
+  const hasUnread = notifications.some((n) => !n.read_at);
+
+  function markRead(ids?: string[]) {
+    return csrfFetch('/api/notifications', {
+      method: 'PATCH',
+      body: JSON.stringify(ids ? { ids } : {}),
+    });
+  }
+
+  async function handleMarkAllRead() {
+    setIsMarking(true);
+    try {
+      const res = await markRead();
+      if (!res.ok) {
+        toast.error('Failed to update notifications.');
+        return;
+      }
+      router.refresh();
+    } catch {
+      toast.error('Something went wrong');
+    } finally {
+      setIsMarking(false);
+    }
+  }
+
+  return (
+    <div>
+      <div className="bg-card rounded-lg border border-border divide-y divide-border">
+        {notifications.map((notification) => {
+          const date = new Date(notification.created_at).toLocaleDateString('en-US', {
+            month: 'short', day: 'numeric',
+          });
+          const content = (
+            <>
+              {!notification.read_at && <span className="w-2 h-2 rounded-full bg-primary shrink-0 mt-1.5" />}
+              <div className="flex-1 min-w-0">
+                <p className={`text-sm truncate ${notification.read_at ? 'text-muted-foreground' : 'font-medium text-foreground'}`}>
+                  {notification.title}
+                </p>
+                {notification.body && <p className="text-xs text-muted-foreground">{notification.body}</p>}
+              </div>
+              <span className="text-[11px] text-muted-foreground/60 shrink-0">{date}</span>
+            </>
+          );
+
+          return notification.href ? (
+            <Link
+              key={notification.id}
+              href={notification.href}
+              onClick={() => {
+                if (!notification.read_at) markRead([notification.id]).catch(() => {});
+              }}
+              className="flex items-start gap-3 px-4 py-3 hover:bg-muted transition-colors"
+            >
+              {content}
+            </Link>
+          ) : (
+            <div key={notification.id} className="flex items-start gap-3 px-4 py-3">
+              {content}
+            </div>
+          );
+        })}
+      </div>
+      {hasUnread && (
+        <Button size="sm" variant="ghost" onClick={handleMarkAllRead} disabled={isMarking} className="mt-2">
+          Mark all as read
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { redirect } from 'next/navigation';
+import { Bell, Search } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import Link from 'next/link';
+import { getSession } from '@/lib/auth';
+import { createClient } from '@/lib/supabase/server';
+import { NotificationList } from './notification-list';
+import { SavedSearchList } from './saved-search-list';
+import type { SearchFilters } from '@/types/place';
+
+export default async function DashboardSavedSearchesPage() {
+  const user = await getSession();
+  if (!user) redirect('/auth/login?redirect=/dashboard/saved-searches');
+
+  const supabase = await createClient();
+
+  const [{ data: savedSearches }, { data: notifications }] = await Promise.all([
+    supabase
+      .from('saved_searches')
+      .select('id, name, filters, alerts_enabled, last_notified_at, created_at')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false }),
+    supabase
+      .from('notifications')
+      .select('id, title, body, href, read_at, created_at')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .limit(20),
+  ]);
+
+  const searches = (savedSearches ?? []).map((s) => ({
+    id: s.id,
+    name: s.name,
+    filters: (s.filters ?? {}) as SearchFilters,
+    alertsEnabled: s.alerts_enabled,
+    lastNotifiedAt: s.last_notified_at,
+    createdAt: s.created_at,
+  }));
+
+  const unreadCount = (notifications ?? []).filter((n) => !n.read_at).length;
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Saved Searches</h1>
+        <p className="text-gray-600 text-sm mt-1">
+          Get notified when new places match your searches
+          {unreadCount > 0 && (
+            <span className="ml-2 inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-primary/10 text-primary text-xs font-medium">
+              {unreadCount} new
+            </span>
+          )}
+        </p>
+      </div>
+
+      {(notifications ?? []).length > 0 && (
+        <div className="mb-8">
+          <div className="flex items-center gap-2 mb-3">
+            <Bell className="w-4 h-4 text-muted-foreground" />
+            <h2 className="text-sm font-semibold text-foreground">Alerts</h2>
+          </div>
+          <NotificationList notifications={notifications ?? []} />
+        </div>
+      )}
+
+      {searches.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <Search className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-gray-800 mb-2">No saved searches yet</h3>
+            <p className="text-gray-600 mb-4">
+              Filter places, then use &ldquo;Save search&rdquo; to keep them here.
+            </p>
+            <Button asChild>
+              <Link href="/places">Browse Places</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <SavedSearchList searches={searches} />
+      )}
+    </div>
+  );
+}
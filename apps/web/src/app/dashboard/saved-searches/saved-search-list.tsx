@@ -0,0 +1,110 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Bell, BellOff, ExternalLink, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { csrfFetch } from '@/lib/csrf-client';
+import { filtersToSearchParams } from '@/lib/search-params';
+import { describeFilters } from '@/lib/saved-searches';
+import type { SearchFilters } from '@/types/place';
+
+interface SavedSearch {
+  id: string;
+  name: string;
+  filters: SearchFilters;
+  alertsEnabled: boolean;
+  lastNotifiedAt: string | null;
+  createdAt: string;
+}
+
+interface SavedSearchListProps {
+  searches: SavedSearch[];
+}
+
+export function SavedSearchList({ searches }: SavedSearchListProps) {
+  const router = useRouter();
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  async function update(search: SavedSearch, method: 'PATCH' | 'DELETE', body?: object) {
+    setProcessingId(search.id);
+    try {
+      const res = await csrfFetch(`/api/saved-searches/${search.id}`, {
+        method,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await res.json();
+      if (!res.ok || !data.success) {
+        toast.error(data.error || 'Failed to update saved search.');
+        return;
+      }
+      toast.success(data.message);
+      router.refresh();
+    } catch {
+      toast.error('Something went wrong');
+    } finally {
+      setProcessingId(null);
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      {searches.map((search) => {
+        const isProcessing = processingId === search.id;
+        const savedDate = new Date(search.createdAt).toLocaleDateString('en-US', {
+          month: 'short', day: 'numeric', year: 'numeric',
+        });
+
+        return (
+          <Card key={search.id}>
+            <CardHeader className="pb-2">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <CardTitle className="text-base truncate">{search.name}</CardTitle>
+                  <p className="text-xs text-gray-500 mt-0.5">
+                    {describeFilters(search.filters)} &middot; saved {savedDate}
+                  </p>
+                </div>
+                <Button size="sm" variant="ghost" asChild className="shrink-0">
+                  <Link href={`/places?${filtersToSearchParams(search.filters).toString()}`}>
+                    <ExternalLink className="w-3.5 h-3.5 mr-1" /> View results
+                  </Link>
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="pt-0 flex flex-wrap items-center gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => update(search, 'PATCH', { alertsEnabled: !search.alertsEnabled })}
+                disabled={isProcessing}
+                className="gap-1.5"
+              >
+                {search.alertsEnabled ? <Bell className="w-3.5 h-3.5" /> : <BellOff className="w-3.5 h-3.5" />}
+                {search.alertsEnabled ? 'Alerts on' : 'Alerts off'}
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => update(search, 'DELETE')}
+                disabled={isProcessing}
+                className="gap-1.5 text-destructive hover:text-destructive"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+                Delete
+              </Button>
+              {search.lastNotifiedAt && (
+                <span className="text-xs text-gray-500 ml-auto">
+                  Last match {new Date(search.lastNotifiedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                </span>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
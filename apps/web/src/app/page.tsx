@@ -3,6 +3,7 @@ import { HeroSection } from '@/components/hero/hero-section';
 import { PlaceMarquee } from '@/components/hero/place-marquee';
 import { AdUnit } from '@/components/ads/ad-unit';
 import { getAllPlaces } from '@/lib/places-server';
+import { isPlaceClosed } from '@/lib/place-status';
 import type { PlaceIndex } from '@/types/place';
 
 export const revalidate = 60;
@@ -40,7 +41,7 @@ function getFeaturedPlaces(places: PlaceIndex[], count: number = 20): PlaceIndex
 }
 
 export default async function Home() {
-  const allPlaces = await getAllPlaces();
+  const allPlaces = (await getAllPlaces()).filter((place) => !isPlaceClosed(place));
   const featuredPlaces = getFeaturedPlaces(allPlaces, 20);
 
   const uniqueCuisines = new Set(allPlaces.flatMap(p => p.cuisineTypes));
@@ -24,6 +24,8 @@ export default function DeletePlacePage() {
 
   // Form data
   const [reason, setReason] = useState('');
+  const [closureType, setClosureType] = useState<'permanently_closed' | 'temporarily_closed'>('permanently_closed');
+  const [effectiveDate, setEffectiveDate] = useState('');
   const [contributorName, setContributorName] = useState('');
   const [contributorEmail, setContributorEmail] = useState('');
 
@@ -56,6 +58,8 @@ export default function DeletePlacePage() {
         slug: place!.slug,
         name: place!.name,
         reason: reason || undefined,
+        status: closureType,
+        effectiveDate: effectiveDate || undefined,
         contributorName: contributorName || undefined,
         contributorEmail: contributorEmail || undefined,
       };
@@ -158,7 +162,7 @@ export default function DeletePlacePage() {
                   Report Place Closure
                 </h1>
                 <p className="text-lg text-gray-600">
-                  Let us know if <strong>{place.name}</strong> is permanently closed or no longer operating.
+                  Let us know if <strong>{place.name}</strong> has closed for good or is temporarily closed.
                 </p>
               </div>
             </div>
@@ -169,6 +173,47 @@ export default function DeletePlacePage() {
             <Card className="p-6">
               <h3 className="text-lg font-semibold mb-4">Closure Information</h3>
               <div className="space-y-4">
+                <div>
+                  <span className="block text-sm font-medium mb-2">Closure Type</span>
+                  <div className="flex flex-col sm:flex-row gap-2 sm:gap-6">
+                    <label className="flex items-center gap-2 text-sm cursor-pointer">
+                      <input
+                        type="radio"
+                        name="closureType"
+                        checked={closureType === 'permanently_closed'}
+                        onChange={() => setClosureType('permanently_closed')}
+                      />
+                      Permanently closed
+                    </label>
+                    <label className="flex items-center gap-2 text-sm cursor-pointer">
+                      <input
+                        type="radio"
+                        name="closureType"
+                        checked={closureType === 'temporarily_closed'}
+                        onChange={() => setClosureType('temporarily_closed')}
+                      />
+                      Temporarily closed
+                    </label>
+                  </div>
+                </div>
+
+                <div>
+                  <label htmlFor="effectiveDate" className="block text-sm font-medium mb-1">
+                    Closed Since (Optional)
+                  </label>
+                  <Input
+                    id="effectiveDate"
+                    name="effectiveDate"
+                    type="date"
+                    value={effectiveDate}
+                    onChange={(e) => setEffectiveDate(e.target.value)}
+                    className="w-48"
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Leave blank if you&apos;re not sure. A future date works for announced closures.
+                  </p>
+                </div>
+
                 <div>
                   <label htmlFor="reason" className="block text-sm font-medium mb-1">
                     Reason or Additional Details (Optional)
@@ -189,8 +234,8 @@ export default function DeletePlacePage() {
 
                 <div className="p-4 bg-amber-50 border border-amber-200 rounded-md">
                   <p className="text-sm text-amber-800">
-                    <strong>Note:</strong> Submitting this report will request the removal of this place from our directory.
-                    Our team will verify the closure before making changes.
+                    <strong>Note:</strong> Once verified, the place is marked as closed and leaves search results.
+                    Its page stays up with a closure notice.
                   </p>
                 </div>
               </div>
@@ -286,7 +331,7 @@ export default function DeletePlacePage() {
               </li>
               <li className="flex items-start gap-2">
                 <span className="text-blue-600 mt-0.5">3.</span>
-                <span>If confirmed, the place will be removed from the directory</span>
+                <span>If confirmed, the place will be marked as closed and hidden from search</span>
               </li>
               <li className="flex items-start gap-2">
                 <span className="text-blue-600 mt-0.5">4.</span>
@@ -0,0 +1,86 @@
+import { notFound, permanentRedirect } from 'next/navigation';
+import Link from 'next/link';
+import { ChevronLeft, History } from 'lucide-react';
+import { getPlaceBySlug, getPlaceHistory } from '@/lib/places-server';
+import { REVISION_SOURCES } from '@/lib/revisions';
+import { resolveFormerSlug } from '@/lib/slugs-server';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { RevisionDiff } from '@/components/place/revision-diff';
+import type { Metadata } from 'next';
+
+interface PlaceHistoryPageProps {
+  params: Promise<{ slug: string }>;
+}
+
+export async function generateMetadata({ params }: PlaceHistoryPageProps): Promise<Metadata> {
+  const { slug } = await params;
+  const place = await getPlaceBySlug(slug);
+
+  return {
+    title: place ? `Edit history of ${place.name} | Where In Maginhawa` : 'Place Not Found',
+    robots: { index: false },
+  };
+}
+
+export default async function PlaceHistoryPage({ params }: PlaceHistoryPageProps) {
+  const { slug } = await params;
+  const place = await getPlaceBySlug(slug);
+
+  if (!place) {
+    const currentSlug = await resolveFormerSlug(slug);
+    if (currentSlug) permanentRedirect(`/places/${currentSlug}/history`);
+    notFound();
+  }
+
+  const history = await getPlaceHistory(place.id);
+
+  return (
+    <main className="min-h-screen pt-24 pb-16 bg-gradient-to-b from-white to-gray-50/50">
+      <div className="container mx-auto px-4">
+        <div className="max-w-3xl mx-auto">
+          <Button variant="ghost" asChild className="mb-4 -ml-4">
+            <Link href={`/places/${place.slug}`}>
+              <ChevronLeft className="w-4 h-4 mr-2" />
+              Back to {place.name}
+            </Link>
+          </Button>
+
+          <h1 className="text-3xl font-bold text-gray-900 mb-2 flex items-center gap-3">
+            <History className="w-7 h-7" />
+            Edit History
+          </h1>
+          <p className="text-gray-600 mb-8">
+            Every change to <strong>{place.name}</strong>, newest first.
+          </p>
+
+          {history.length === 0 ? (
+            <p className="text-sm text-gray-500 py-12 text-center">No changes recorded yet.</p>
+          ) : (
+            <div className="space-y-4">
+              {history.map((revision) => (
+                <Card key={revision.id} className="shadow-sm">
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-base">
+                      {REVISION_SOURCES[revision.source] ?? REVISION_SOURCES.other}
+                    </CardTitle>
+                    <p className="text-xs text-gray-500">
+                      {new Date(revision.createdAt).toLocaleDateString('en-US', {
+                        year: 'numeric',
+                        month: 'long',
+                        day: 'numeric',
+                      })}
+                    </p>
+                  </CardHeader>
+                  <CardContent>
+                    <RevisionDiff changes={revision.changes} />
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
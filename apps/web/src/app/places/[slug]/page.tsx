@@ -1,4 +1,4 @@
-import { notFound } from 'next/navigation';
+import { notFound, permanentRedirect } from 'next/navigation';
 import Link from 'next/link';
 import {
   MapPin,
@@ -15,8 +15,11 @@ import {
   User,
   Github,
   Mail as MailIcon,
+  History,
+  Store,
 } from 'lucide-react';
-import { getPlaceBySlug, getAllPlaces } from '@/lib/places-server';
+import { getPlaceBySlug, getAllPlaces, getMenuItems, getPlacePhotos, getPlaceReviews } from '@/lib/places-server';
+import { resolveFormerSlug } from '@/lib/slugs-server';
 import { AdUnit } from '@/components/ads/ad-unit';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -25,8 +28,19 @@ import { Separator } from '@/components/ui/separator';
 import { PlaceImage } from '@/components/place/place-image';
 import { PlaceShare } from '@/components/place/place-share';
 import { GradientBackground } from '@/components/hero/gradient-bg';
+import { LocalBusinessStructuredData } from '@/components/seo/structured-data';
 import { VerifiedBadge } from '@/components/place/verified-badge';
 import { ClaimButton } from '@/components/claim/claim-button';
+import { OpenStatusBadge } from '@/components/place/open-status-badge';
+import { OperatingHoursTable } from '@/components/place/operating-hours-table';
+import { PlaceMenu } from '@/components/place/place-menu';
+import { PlaceGallery } from '@/components/place/place-gallery';
+import { PlaceReviews } from '@/components/place/place-reviews';
+import { ReportButton } from '@/components/place/report-button';
+import { StarRating } from '@/components/place/star-rating';
+import { PlaceLinks } from '@/components/place/place-links';
+import { PlaceStatusNotice } from '@/components/place/place-status-notice';
+import { formatRating, formatReviewCount } from '@/lib/reviews';
 import type { Metadata } from 'next';
 
 interface PlacePageProps {
@@ -127,26 +141,25 @@ export default async function PlacePage({ params }: PlacePageProps) {
   const place = await getPlaceBySlug(slug);
 
   if (!place) {
+    // Renamed places keep working at their old URL
+    const currentSlug = await resolveFormerSlug(slug);
+    if (currentSlug) permanentRedirect(`/places/${currentSlug}`);
     notFound();
   }
 
+  const [menuItems, photos, { reviews, total: reviewTotal }] = await Promise.all([
+    getMenuItems(place.id),
+    getPlacePhotos(place.id),
+    getPlaceReviews(place.id),
+  ]);
+  const rating = formatRating(place.rating, place.reviewCount);
+
   const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'https://whereinmaginhawa.com';
   const placeUrl = `${siteUrl}/places/${place.slug}`;
 
-  const formatTime = (time: string) => {
-    const [hours, minutes] = time.split(':');
-    const hour = parseInt(hours);
-    const ampm = hour >= 12 ? 'PM' : 'AM';
-    const displayHour = hour % 12 || 12;
-    return `${displayHour}:${minutes} ${ampm}`;
-  };
-
-  const getDayName = (day: string) => {
-    return day.charAt(0).toUpperCase() + day.slice(1);
-  };
-
   return (
     <div className="min-h-screen pt-16 relative overflow-hidden">
+      <LocalBusinessStructuredData place={place} reviews={reviews} />
       <GradientBackground />
 
       {/* Header Image */}
@@ -207,6 +220,8 @@ export default async function PlacePage({ params }: PlacePageProps) {
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Main Content */}
           <div className="lg:col-span-2 space-y-6">
+            <PlaceStatusNotice place={place} />
+
             {/* Title Card */}
             <Card className="shadow-sm">
               <CardHeader>
@@ -222,6 +237,26 @@ export default async function PlacePage({ params }: PlacePageProps) {
                         )}
                       </CardTitle>
 
+                      {/* Chain */}
+                      {place.brand && (
+                        <Link
+                          href={`/brands/${place.brand.slug}`}
+                          className="inline-flex items-center gap-1.5 text-sm text-orange-600 hover:underline mb-2"
+                        >
+                          <Store className="w-4 h-4" />
+                          {place.brand.name} branch · See all branches
+                        </Link>
+                      )}
+
+                      {/* Rating */}
+                      {rating && (
+                        <a href="#reviews" className="flex items-center gap-2 text-sm mb-2 hover:underline">
+                          <span className="font-semibold">{rating}</span>
+                          <StarRating value={place.rating!} />
+                          <span className="text-gray-500">{formatReviewCount(place.reviewCount!)}</span>
+                        </a>
+                      )}
+
                       {/* Cuisine Types */}
                       <div className="flex gap-2 flex-wrap">
                         {place.cuisineTypes.map((cuisine) => (
@@ -238,7 +273,13 @@ export default async function PlacePage({ params }: PlacePageProps) {
                     </Badge>
                   </div>
 
-                  <p className="text-gray-600 text-lg leading-relaxed">{place.description}</p>
+                  {/* Empty when a moderator hid the description */}
+                  {place.description && (
+                    <div>
+                      <p className="text-gray-600 text-lg leading-relaxed">{place.description}</p>
+                      <ReportButton targetType="description" targetId={place.id} className="-ml-2 mt-1" />
+                    </div>
+                  )}
 
                   {/* Specialties */}
                   {place.specialties.length > 0 && (
@@ -263,31 +304,41 @@ export default async function PlacePage({ params }: PlacePageProps) {
             {/* Operating Hours */}
             <Card className="shadow-sm">
               <CardHeader>
-                <CardTitle className="flex items-center gap-2">
+                <CardTitle className="flex items-center gap-2 flex-wrap">
                   <Clock className="w-5 h-5" />
                   Operating Hours
+                  <OpenStatusBadge
+                    hours={place.operatingHours}
+                    overrides={place.hoursOverrides}
+                    placeStatus={place.status}
+                    statusEffectiveDate={place.statusEffectiveDate}
+                    className="ml-auto"
+                  />
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="space-y-2">
-                  {Object.entries(place.operatingHours).map(([day, hours]) => (
-                    <div key={day} className="flex justify-between items-center py-2">
-                      <span className="font-medium capitalize text-gray-700">
-                        {getDayName(day)}
-                      </span>
-                      {hours.closed ? (
-                        <span className="text-red-600 font-medium">Closed</span>
-                      ) : (
-                        <span className="text-gray-600">
-                          {formatTime(hours.open!)} - {formatTime(hours.close!)}
-                        </span>
-                      )}
-                    </div>
-                  ))}
-                </div>
+                <OperatingHoursTable hours={place.operatingHours} overrides={place.hoursOverrides} />
               </CardContent>
             </Card>
 
+            <PlaceGallery
+              placeId={place.id}
+              placeSlug={place.slug}
+              placeName={place.name}
+              photos={photos}
+            />
+
+            <PlaceMenu items={menuItems} />
+
+            <PlaceReviews
+              placeId={place.id}
+              placeSlug={place.slug}
+              placeName={place.name}
+              rating={place.rating}
+              reviews={reviews}
+              total={reviewTotal}
+            />
+
             {/* Amenities */}
             {place.amenities.length > 0 && (
               <Card className="shadow-sm">
@@ -499,6 +550,9 @@ export default async function PlacePage({ params }: PlacePageProps) {
                   </div>
                 )}
 
+                {/* Social, delivery and reservation links */}
+                <PlaceLinks placeName={place.name} links={place.links} />
+
                 <Separator />
 
                 {/* Payment Methods */}
@@ -554,6 +608,14 @@ export default async function PlacePage({ params }: PlacePageProps) {
                       Report Closure
                     </Link>
                   </Button>
+
+                  <Link
+                    href={`/places/${place.slug}/history`}
+                    className="flex items-center justify-center gap-1.5 pt-1 text-xs text-gray-500 hover:text-gray-900"
+                  >
+                    <History className="w-3.5 h-3.5" />
+                    View edit history
+                  </Link>
                 </div>
               </CardContent>
             </Card>
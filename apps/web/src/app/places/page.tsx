@@ -1,15 +1,20 @@
 import { Suspense } from 'react';
-import { getAllPlaces } from '@/lib/places-server';
+import { searchPlacesServer } from '@/lib/search-server';
 import { PlacesContent } from './places-content';
 
 export const revalidate = 60;
 
 export default async function PlacesPage() {
-  const initialPlaces = await getAllPlaces();
+  const initialResult = await searchPlacesServer({}, { groupBranches: true }).catch(() => ({
+    places: [],
+    total: 0,
+    filters: {},
+    nextCursor: null,
+  }));
 
   return (
     <Suspense fallback={null}>
-      <PlacesContent initialPlaces={initialPlaces} />
+      <PlacesContent initialResult={initialResult} />
     </Suspense>
   );
 }
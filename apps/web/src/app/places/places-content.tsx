@@ -5,41 +5,76 @@ import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { X, SlidersHorizontal, Plus, Edit3, Search } from 'lucide-react';
 import { PlaceCard } from '@/components/place/place-card';
 import { PlaceFilters } from '@/components/filters/place-filters';
+import { SortSelect } from '@/components/filters/sort-select';
+import { SaveSearchButton } from '@/components/search/save-search-button';
+import { DishResults } from '@/components/search/dish-results';
 import { Button } from '@/components/ui/button';
 import { AdUnit } from '@/components/ads/ad-unit';
-import { searchPlaces, getAllPlaces } from '@/lib/places';
-import type { PlaceIndex, SearchFilters } from '@/types/place';
+import { DynamicPlacesMap } from '@/components/map/dynamic-places-map';
+import { MissingCoordinatesList } from '@/components/map/missing-coordinates-list';
+import { ViewToggle, type PlacesView } from '@/components/map/view-toggle';
+import { fetchSearchPage, fetchAllSearchResults, recordSearch, recordSearchClick } from '@/lib/places';
+import { searchParamsToFilters, filtersToSearchParams, hasActiveFilters } from '@/lib/search-params';
+import type { GeoBounds, PlaceIndex, SearchFilters, SearchResult, SearchSort } from '@/types/place';
 
 const AD_INTERVAL = 12;
 const ITEMS_PER_PAGE = 24;
 
 interface PlacesContentProps {
-  initialPlaces: PlaceIndex[];
+  initialResult: SearchResult;
 }
 
-export function PlacesContent({ initialPlaces }: PlacesContentProps) {
+export function PlacesContent({ initialResult }: PlacesContentProps) {
   const searchParams = useSearchParams();
   const router = useRouter();
   const pathname = usePathname();
-  const [places, setPlaces] = useState<PlaceIndex[]>(initialPlaces);
+  const [places, setPlaces] = useState<PlaceIndex[]>(initialResult.places);
+  const [total, setTotal] = useState(initialResult.total);
+  const [nextCursor, setNextCursor] = useState<string | null>(initialResult.nextCursor ?? null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [filters, setFilters] = useState<SearchFilters>({});
   const [showMobileFilters, setShowMobileFilters] = useState(false);
-  const [visibleCount, setVisibleCount] = useState(ITEMS_PER_PAGE);
+  // Every match (not just the current page) for the map view
+  const [mapPlaces, setMapPlaces] = useState<PlaceIndex[] | null>(null);
   const loaderRef = useRef<HTMLDivElement>(null);
   const initialLoad = useRef(true);
+  // Incremented per filter change so stale responses are ignored
+  const requestId = useRef(0);
+  const mapRequestId = useRef(0);
+  // Analytics event for the current search, so result clicks can be attributed
+  const searchEventId = useRef<string | null>(null);
+  const lastRecordedSearch = useRef<string | null>(null);
+  // Pending URL update while the search box is being typed in
+  const queryTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
 
-  const visiblePlaces = places.slice(0, visibleCount);
-  const hasMore = visibleCount < places.length;
+  const view: PlacesView = searchParams.get('view') === 'map' ? 'map' : 'list';
+  const hasMore = nextCursor !== null;
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || isLoadingMore) return;
+    const currentRequest = requestId.current;
+    setIsLoadingMore(true);
+    try {
+      const results = await fetchSearchPage(filters, nextCursor, ITEMS_PER_PAGE, { groupBranches: true });
+      if (currentRequest !== requestId.current) return;
+      setPlaces((prev) => [...prev, ...results.places]);
+      setNextCursor(results.nextCursor ?? null);
+    } catch (error) {
+      console.info('[places] Failed to load more places:', error);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [filters, nextCursor, isLoadingMore]);
 
   // Intersection observer for infinite scroll
   const handleObserver = useCallback(
     (entries: IntersectionObserverEntry[]) => {
       const [entry] = entries;
       if (entry.isIntersecting && hasMore) {
-        setVisibleCount((prev) => Math.min(prev + ITEMS_PER_PAGE, places.length));
+        loadMore();
       }
     },
-    [hasMore, places.length]
+    [hasMore, loadMore]
   );
 
   useEffect(() => {
@@ -52,26 +87,17 @@ export function PlacesContent({ initialPlaces }: PlacesContentProps) {
 
   useEffect(() => {
     // Get filters from URL
-    const query = searchParams.get('q') || '';
-    const cuisines = searchParams.get('cuisines')?.split(',').filter(Boolean) || [];
-    const amenities = searchParams.get('amenities')?.split(',').filter(Boolean) || [];
-    const prices = searchParams.get('prices')?.split(',').filter(Boolean) || [];
-    const favoritesOnly = searchParams.get('favorites') === 'true';
-
-    const hasFilters = query || cuisines.length > 0 || amenities.length > 0 || prices.length > 0 || favoritesOnly;
-
-    const newFilters: SearchFilters = {
-      query: query || undefined,
-      cuisineTypes: cuisines.length > 0 ? cuisines : undefined,
-      amenities: amenities.length > 0 ? amenities : undefined,
-      priceRanges: prices.length > 0 ? (prices as any[]) : undefined,
-      favoritesOnly: favoritesOnly || undefined,
-    };
+    const newFilters = searchParamsToFilters(searchParams);
 
-    setFilters(newFilters);
+    // Keep text typed since this URL was pushed
+    setFilters((prev) => (queryTimer.current ? { ...newFilters, query: prev.query } : newFilters));
+
+    if (searchParams.get('view') === 'map') {
+      loadMapPlaces(newFilters);
+    }
 
     // On first load with no filters, use server-provided data
-    if (initialLoad.current && !hasFilters) {
+    if (initialLoad.current && !hasActiveFilters(newFilters)) {
       initialLoad.current = false;
       return;
     }
@@ -80,49 +106,97 @@ export function PlacesContent({ initialPlaces }: PlacesContentProps) {
     applyFilters(newFilters);
   }, [searchParams]);
 
-  const applyFilters = async (newFilters: SearchFilters) => {
-    const results = await searchPlaces(newFilters);
-    setPlaces(results.places);
-  };
+  useEffect(() => () => {
+    if (queryTimer.current) clearTimeout(queryTimer.current);
+  }, []);
 
-  const updateURL = (newFilters: SearchFilters) => {
-    const params = new URLSearchParams();
+  const applyFilters = async (newFilters: SearchFilters) => {
+    const currentRequest = ++requestId.current;
+    try {
+      const results = await fetchSearchPage(newFilters, null, ITEMS_PER_PAGE, { groupBranches: true });
+      if (currentRequest !== requestId.current) return;
+      setPlaces(results.places);
+      setTotal(results.total);
+      setNextCursor(results.nextCursor ?? null);
 
-    if (newFilters.query) {
-      params.set('q', newFilters.query);
-    }
-    if (newFilters.cuisineTypes && newFilters.cuisineTypes.length > 0) {
-      params.set('cuisines', newFilters.cuisineTypes.join(','));
-    }
-    if (newFilters.amenities && newFilters.amenities.length > 0) {
-      params.set('amenities', newFilters.amenities.join(','));
+      // Record for search analytics; re-sorting the same results isn't a new search
+      const searchKey = filtersToSearchParams({ ...newFilters, sort: undefined }).toString();
+      if (searchKey !== lastRecordedSearch.current) {
+        lastRecordedSearch.current = searchKey;
+        searchEventId.current = null;
+        const eventId = searchKey ? await recordSearch(newFilters, results.total, 'places') : null;
+        if (currentRequest === requestId.current) searchEventId.current = eventId;
+      }
+    } catch (error) {
+      console.info('[places] Search failed:', error);
     }
-    if (newFilters.priceRanges && newFilters.priceRanges.length > 0) {
-      params.set('prices', newFilters.priceRanges.join(','));
+  };
+
+  const handlePlaceOpen = (place: PlaceIndex, position: number) => {
+    if (searchEventId.current) {
+      recordSearchClick(searchEventId.current, place.id, position);
     }
-    if (newFilters.favoritesOnly) {
-      params.set('favorites', 'true');
+  };
+
+  const loadMapPlaces = async (newFilters: SearchFilters) => {
+    const currentRequest = ++mapRequestId.current;
+    try {
+      const results = await fetchAllSearchResults(newFilters);
+      if (currentRequest !== mapRequestId.current) return;
+      setMapPlaces(results.places);
+    } catch (error) {
+      console.info('[places] Map search failed:', error);
     }
+  };
 
+  const buildURL = (newFilters: SearchFilters, newView: PlacesView) => {
+    const params = filtersToSearchParams(newFilters);
+    if (newView === 'map') params.set('view', 'map');
     const queryString = params.toString();
-    const newURL = queryString ? `${pathname}?${queryString}` : pathname;
-    router.push(newURL, { scroll: false });
+    return queryString ? `${pathname}?${queryString}` : pathname;
   };
 
+  const updateURL = (newFilters: SearchFilters) => {
+    router.push(buildURL(newFilters, view), { scroll: false });
+  };
+
+  const handleViewChange = (newView: PlacesView) => {
+    router.push(buildURL(filters, newView), { scroll: false });
+  };
+
+  const handleSortChange = (sort: SearchSort) => {
+    handleFiltersChange({ ...filters, sort: sort === 'relevance' ? undefined : sort });
+  };
+
+  const handleSearchArea = (bounds: GeoBounds) => {
+    handleFiltersChange({ ...filters, bounds });
+  };
+
+  // Results load from the URL (see the searchParams effect). Typing in the
+  // search box updates it once input settles, so each keystroke isn't a
+  // search of its own.
   const handleFiltersChange = (newFilters: SearchFilters) => {
+    const isTyping = (newFilters.query ?? '') !== (filters.query ?? '');
     setFilters(newFilters);
-    applyFilters(newFilters);
-    updateURL(newFilters);
-    setVisibleCount(ITEMS_PER_PAGE);
+    if (queryTimer.current) clearTimeout(queryTimer.current);
+    queryTimer.current = null;
+
+    if (isTyping) {
+      queryTimer.current = setTimeout(() => {
+        queryTimer.current = null;
+        updateURL(newFilters);
+      }, 300);
+    } else {
+      updateURL(newFilters);
+    }
   };
 
-  const clearFilters = async () => {
+  const clearFilters = () => {
     const clearedFilters: SearchFilters = {};
     setFilters(clearedFilters);
-    const all = await getAllPlaces();
-    setPlaces(all);
-    setVisibleCount(ITEMS_PER_PAGE);
-    router.push(pathname, { scroll: false });
+    if (queryTimer.current) clearTimeout(queryTimer.current);
+    queryTimer.current = null;
+    router.push(buildURL(clearedFilters, view), { scroll: false });
   };
 
   return (
@@ -192,8 +266,46 @@ export function PlacesContent({ initialPlaces }: PlacesContentProps) {
           )}
 
           {/* Results Grid */}
-          <div className="flex-1">
-            {places.length === 0 ? (
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center justify-between gap-4 mb-5">
+              <p className="text-sm text-muted-foreground">
+                {total} {total === 1 ? 'place' : 'places'}
+              </p>
+              <div className="flex items-center gap-2">
+                {hasActiveFilters({ ...filters, sort: undefined }) && <SaveSearchButton filters={filters} />}
+                {view === 'list' && (
+                  <SortSelect
+                    value={filters.sort}
+                    onValueChange={handleSortChange}
+                    hasLocation={!!filters.near}
+                  />
+                )}
+                <ViewToggle view={view} onViewChange={handleViewChange} />
+              </div>
+            </div>
+
+            {view === 'list' && <DishResults query={filters.query} />}
+
+            {view === 'map' ? (
+              mapPlaces === null ? (
+                <div className="h-[70vh] rounded-2xl bg-muted animate-pulse" />
+              ) : (
+                <>
+                  <DynamicPlacesMap
+                    places={mapPlaces}
+                    bounds={filters.bounds}
+                    near={filters.near}
+                    onSearchArea={handleSearchArea}
+                    className="h-[70vh]"
+                  />
+                  <MissingCoordinatesList
+                    places={mapPlaces.filter(
+                      (place) => place.latitude === undefined || place.longitude === undefined
+                    )}
+                  />
+                </>
+              )
+            ) : places.length === 0 ? (
               <div className="text-center py-20">
                 <div className="mb-4">
                   <Search className="w-16 h-16 text-muted-foreground/30 mx-auto" />
@@ -208,10 +320,10 @@ export function PlacesContent({ initialPlaces }: PlacesContentProps) {
             ) : (
               <>
               <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-5">
-                {visiblePlaces.map((place, index) => (
+                {places.map((place, index) => (
                   <React.Fragment key={place.id}>
-                    <PlaceCard place={place} />
-                    {(index + 1) % AD_INTERVAL === 0 && index < visiblePlaces.length - 1 && (
+                    <PlaceCard place={place} onOpen={() => handlePlaceOpen(place, index)} />
+                    {(index + 1) % AD_INTERVAL === 0 && index < places.length - 1 && (
                       <div className="col-span-full">
                         <AdUnit
                           slot="4326037632"
@@ -230,9 +342,9 @@ export function PlacesContent({ initialPlaces }: PlacesContentProps) {
                 </div>
               )}
 
-              {!hasMore && places.length > ITEMS_PER_PAGE && (
+              {!hasMore && total > ITEMS_PER_PAGE && (
                 <p className="text-center text-sm text-muted-foreground py-6">
-                  Showing all {places.length} places
+                  Showing all {total} places
                 </p>
               )}
               </>
@@ -1,10 +1,12 @@
 import { MetadataRoute } from 'next';
 import { getAllPlaces } from '@/lib/places-server';
+import { getAllBrands } from '@/lib/brands-server';
 import { getAllCategories } from '@/lib/categories';
+import { isPlaceClosed } from '@/lib/place-status';
 
 export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
   const baseUrl = 'https://whereinmaginhawa.com';
-  const places = await getAllPlaces();
+  const [places, brands] = await Promise.all([getAllPlaces(), getAllBrands()]);
   const categories = getAllCategories();
 
   // Static pages
@@ -31,13 +33,21 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
     priority: category.priority,
   }));
 
-  // Dynamic place pages
-  const placePages: MetadataRoute.Sitemap = places.map((place) => ({
+  // Dynamic place pages (closed places keep their page but leave the sitemap)
+  const placePages: MetadataRoute.Sitemap = places.filter((place) => !isPlaceClosed(place)).map((place) => ({
     url: `${baseUrl}/places/${place.slug}`,
     lastModified: new Date(place.updatedAt),
     changeFrequency: 'weekly' as const,
     priority: 0.7,
   }));
 
-  return [...staticPages, ...categoryPages, ...placePages];
+  // Brand pages listing a chain's branches
+  const brandPages: MetadataRoute.Sitemap = brands.map((brand) => ({
+    url: `${baseUrl}/brands/${brand.slug}`,
+    lastModified: new Date(brand.updatedAt),
+    changeFrequency: 'weekly' as const,
+    priority: 0.6,
+  }));
+
+  return [...staticPages, ...categoryPages, ...placePages, ...brandPages];
 }
@@ -1,10 +1,12 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { Check, X, DollarSign, Utensils, Wifi, Search, Heart, Plus } from 'lucide-react';
+import { useState, useEffect, useMemo } from 'react';
+import { Check, X, DollarSign, Utensils, Wifi, Search, Heart, Plus, Clock, Navigation, LocateFixed, Map as MapIcon } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import type { SearchFilters, PriceRange } from '@/types/place';
-import { getAllCuisineTypes, getAllAmenities } from '@/lib/places';
+import type { SearchFilters, SearchFacets, FacetCount, PriceRange, GeoPoint } from '@/types/place';
+import { getAllCuisineTypes, getAllAmenities, fetchSearchFacets } from '@/lib/places';
+import { filtersToSearchParams, searchParamsToFilters } from '@/lib/search-params';
+import { LANDMARKS, RADIUS_OPTIONS, formatGeoPoint } from '@/lib/geo';
 
 const PRICE_RANGES: Array<{ label: string; value: PriceRange; symbol: string }> = [
   { label: 'Budget', value: '$', symbol: '$' },
@@ -12,6 +14,9 @@ const PRICE_RANGES: Array<{ label: string; value: PriceRange; symbol: string }>
   { label: 'Upscale', value: '$$$', symbol: '$$$' },
 ];
 
+const CUISINE_PREVIEW_COUNT = 20;
+const AMENITY_PREVIEW_COUNT = 15;
+
 const formatAmenityLabel = (amenity: string) => {
   return amenity
     .split('-')
@@ -19,6 +24,31 @@ const formatAmenityLabel = (amenity: string) => {
     .join(' ');
 };
 
+const formatCuisineLabel = (cuisine: string) => cuisine.charAt(0).toUpperCase() + cuisine.slice(1);
+
+interface FacetOption {
+  value: string;
+  count?: number;  // Undefined until facet counts have loaded
+}
+
+/**
+ * Merge known filter values with their facet counts, most frequent first.
+ * Selected values are always kept so they can be deselected.
+ */
+function toFacetOptions(
+  values: string[],
+  counts: FacetCount[] | undefined,
+  selected: string[] = []
+): FacetOption[] {
+  const all = Array.from(new Set([...values, ...selected]));
+  if (!counts) return all.map((value) => ({ value }));
+
+  const countByValue = new Map(counts.map((c) => [c.value, c.count]));
+  return all
+    .map((value) => ({ value, count: countByValue.get(value) ?? 0 }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
 interface PlaceFiltersProps {
   filters: SearchFilters;
   onFiltersChange: (filters: SearchFilters) => void;
@@ -31,21 +61,53 @@ export function PlaceFilters({
   onClearFilters,
 }: PlaceFiltersProps) {
   const [cuisineTypes, setCuisineTypes] = useState<string[]>([]);
-  const [amenities, setAmenities] = useState<{ label: string; value: string }[]>([]);
+  const [amenities, setAmenities] = useState<string[]>([]);
+  const [facets, setFacets] = useState<SearchFacets | null>(null);
+  const [showAllCuisines, setShowAllCuisines] = useState(false);
+  const [showAllAmenities, setShowAllAmenities] = useState(false);
+  const [isLocating, setIsLocating] = useState(false);
+  const [locationError, setLocationError] = useState<string | null>(null);
 
   useEffect(() => {
-    getAllCuisineTypes().then((types) => {
-      setCuisineTypes(
-        types.map((c) => c.charAt(0).toUpperCase() + c.slice(1)).slice(0, 20)
-      );
-    });
-    getAllAmenities().then((list) => {
-      setAmenities(
-        list.map((a) => ({ label: formatAmenityLabel(a), value: a })).slice(0, 15)
-      );
-    });
+    getAllCuisineTypes().then(setCuisineTypes);
+    getAllAmenities().then(setAmenities);
   }, []);
 
+  // Refetch counts only when a filter that affects matching changes
+  const facetKey = filtersToSearchParams({ ...filters, sort: undefined }).toString();
+  const facetFilters = useMemo(
+    () => searchParamsToFilters(new URLSearchParams(facetKey)),
+    [facetKey]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    // Debounced so typing in the search box doesn't refetch per keystroke
+    const timer = setTimeout(() => {
+      fetchSearchFacets(facetFilters)
+        .then((result) => {
+          if (!cancelled) setFacets(result);
+        })
+        .catch((error) => console.info('[place-filters] Failed to load facet counts:', error));
+    }, 250);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [facetFilters]);
+
+  const cuisineOptions = toFacetOptions(cuisineTypes, facets?.cuisineTypes, filters.cuisineTypes);
+  const amenityOptions = toFacetOptions(amenities, facets?.amenities, filters.amenities);
+  const priceCounts = facets
+    ? new Map(facets.priceRanges.map((c) => [c.value, c.count]))
+    : null;
+  const visibleCuisines = showAllCuisines
+    ? cuisineOptions
+    : cuisineOptions.slice(0, CUISINE_PREVIEW_COUNT);
+  const visibleAmenities = showAllAmenities
+    ? amenityOptions
+    : amenityOptions.slice(0, AMENITY_PREVIEW_COUNT);
+
   const toggleCuisine = (cuisine: string) => {
     const currentCuisines = filters.cuisineTypes || [];
     const newCuisines = currentCuisines.includes(cuisine)
@@ -89,9 +151,67 @@ export function PlaceFilters({
     });
   };
 
+  const toggleOpenNow = () => {
+    onFiltersChange({
+      ...filters,
+      openNow: !filters.openNow || undefined,
+    });
+  };
+
+  const setNear = (near: GeoPoint | undefined) => {
+    onFiltersChange({
+      ...filters,
+      near,
+      radiusMeters: near ? filters.radiusMeters : undefined,
+      // Default to nearest-first when a location is first picked
+      sort: near ? (filters.near ? filters.sort : 'distance') : filters.sort === 'distance' ? undefined : filters.sort,
+    });
+  };
+
+  const locateUser = () => {
+    if (!navigator.geolocation) {
+      setLocationError('Location is not supported by your browser.');
+      return;
+    }
+    setIsLocating(true);
+    setLocationError(null);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setIsLocating(false);
+        setNear({
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+        });
+      },
+      () => {
+        setIsLocating(false);
+        setLocationError('Could not get your location.');
+      },
+      { enableHighAccuracy: true, timeout: 10_000 }
+    );
+  };
+
+  const setRadius = (meters: number | undefined) => {
+    onFiltersChange({ ...filters, radiusMeters: meters });
+  };
+
+  const toggleSortByDistance = () => {
+    onFiltersChange({
+      ...filters,
+      sort: filters.sort === 'distance' ? undefined : 'distance',
+    });
+  };
+
+  const nearLabel = filters.near
+    ? LANDMARKS.find((l) => formatGeoPoint(l.point) === formatGeoPoint(filters.near!))?.label ?? 'Your location'
+    : null;
+
   const hasActiveFilters =
     filters.query ||
     filters.favoritesOnly ||
+    filters.openNow ||
+    filters.near ||
+    filters.bounds ||
     (filters.cuisineTypes && filters.cuisineTypes.length > 0) ||
     (filters.priceRanges && filters.priceRanges.length > 0) ||
     (filters.amenities && filters.amenities.length > 0);
@@ -141,6 +261,30 @@ export function PlaceFilters({
         )}
       </button>
 
+      {/* Open Now Toggle */}
+      <button
+        onClick={toggleOpenNow}
+        className={`w-full flex items-center justify-between px-4 py-3 rounded-lg transition-all ${
+          filters.openNow
+            ? 'bg-green-50 border-2 border-green-600 text-green-700'
+            : 'bg-white border border-gray-200 hover:border-green-600 hover:bg-green-50/50'
+        }`}
+      >
+        <div className="flex items-center gap-2">
+          <Clock
+            className={`w-5 h-5 transition-colors ${
+              filters.openNow ? 'text-green-600' : 'text-gray-600'
+            }`}
+          />
+          <span className="text-sm font-medium">
+            {filters.openNow ? 'Showing Open Now' : 'Open Now'}
+          </span>
+        </div>
+        {filters.openNow && (
+          <Check className="w-5 h-5 text-green-600" />
+        )}
+      </button>
+
       {/* Add New Place Button */}
       <a
         href="https://forms.gle/XxUuNUtXYJDsucQv6"
@@ -171,6 +315,104 @@ export function PlaceFilters({
         )}
       </div>
 
+      {/* Near */}
+      <div className="space-y-3">
+        <div className="flex items-center gap-2">
+          <Navigation className="w-4 h-4 text-gray-500" />
+          <h3 className="text-sm font-semibold text-gray-900">Near</h3>
+        </div>
+
+        {filters.near ? (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between px-3 py-2.5 rounded-lg bg-primary/5 border border-primary">
+              <span className="text-sm font-medium text-gray-900">{nearLabel}</span>
+              <button
+                onClick={() => setNear(undefined)}
+                className="text-gray-500 hover:text-primary"
+                aria-label="Clear location"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {[{ label: 'Any distance', meters: undefined }, ...RADIUS_OPTIONS].map((option) => {
+                const isSelected = filters.radiusMeters === option.meters;
+                return (
+                  <button
+                    key={option.label}
+                    onClick={() => setRadius(option.meters)}
+                    className={`px-3 py-1.5 rounded-full text-sm font-medium transition-all ${
+                      isSelected
+                        ? 'bg-primary text-primary-foreground'
+                        : 'bg-white border border-gray-200 text-gray-700 hover:border-primary hover:bg-primary/5'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                );
+              })}
+            </div>
+
+            <button
+              onClick={toggleSortByDistance}
+              className="w-full flex items-center gap-3 px-3 py-2 rounded-lg bg-white border border-gray-200 text-gray-700 hover:border-primary hover:bg-primary/5 transition-all text-left"
+            >
+              <div
+                className={`w-4 h-4 rounded border-2 flex items-center justify-center shrink-0 transition-colors ${
+                  filters.sort === 'distance' ? 'bg-primary border-primary' : 'border-gray-300'
+                }`}
+              >
+                {filters.sort === 'distance' && <Check className="w-3 h-3 text-primary-foreground" />}
+              </div>
+              <span className="text-sm font-medium">Sort by distance</span>
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <button
+              onClick={locateUser}
+              disabled={isLocating}
+              className="w-full flex items-center gap-2 px-3 py-2.5 rounded-lg bg-white border border-gray-200 hover:border-primary hover:bg-primary/5 transition-all text-sm font-medium text-gray-700 disabled:opacity-60"
+            >
+              <LocateFixed className="w-4 h-4" />
+              {isLocating ? 'Locating...' : 'Use my location'}
+            </button>
+            <div className="flex flex-wrap gap-2">
+              {LANDMARKS.map((landmark) => (
+                <button
+                  key={landmark.label}
+                  onClick={() => setNear(landmark.point)}
+                  className="px-3 py-1.5 rounded-full text-sm font-medium bg-white border border-gray-200 text-gray-700 hover:border-primary hover:bg-primary/5 transition-all"
+                >
+                  {landmark.label}
+                </button>
+              ))}
+            </div>
+            {locationError && (
+              <p className="text-xs text-red-600">{locationError}</p>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Map Area */}
+      {filters.bounds && (
+        <div className="flex items-center justify-between px-3 py-2.5 rounded-lg bg-primary/5 border border-primary">
+          <div className="flex items-center gap-2">
+            <MapIcon className="w-4 h-4 text-primary" />
+            <span className="text-sm font-medium text-gray-900">Within map area</span>
+          </div>
+          <button
+            onClick={() => onFiltersChange({ ...filters, bounds: undefined })}
+            className="text-gray-500 hover:text-primary"
+            aria-label="Clear map area"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
       {/* Price Range */}
       <div className="space-y-3">
         <div className="flex items-center gap-2">
@@ -180,17 +422,26 @@ export function PlaceFilters({
         <div className="space-y-2">
           {PRICE_RANGES.map((price) => {
             const isSelected = filters.priceRanges?.includes(price.value);
+            const count = priceCounts ? priceCounts.get(price.value) ?? 0 : undefined;
             return (
               <button
                 key={price.value}
                 onClick={() => togglePriceRange(price.value)}
-                className={`w-full flex items-center justify-between px-3 py-2.5 rounded-lg transition-all ${
+                disabled={count === 0 && !isSelected}
+                className={`w-full flex items-center justify-between px-3 py-2.5 rounded-lg transition-all disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:border-gray-200 disabled:hover:bg-white ${
                   isSelected
                     ? 'bg-primary text-primary-foreground'
                     : 'bg-white border border-gray-200 hover:border-primary hover:bg-primary/5'
                 }`}
               >
-                <span className="text-sm font-medium">{price.label}</span>
+                <span className="text-sm font-medium">
+                  {price.label}
+                  {count !== undefined && (
+                    <span className={`ml-1.5 text-xs ${isSelected ? 'text-primary-foreground/80' : 'text-gray-400'}`}>
+                      {count}
+                    </span>
+                  )}
+                </span>
                 <span className={`text-sm font-bold ${isSelected ? 'text-primary-foreground' : 'text-green-600'}`}>
                   {price.symbol}
                 </span>
@@ -207,25 +458,37 @@ export function PlaceFilters({
           <h3 className="text-sm font-semibold text-gray-900">Cuisine Type</h3>
         </div>
         <div className="flex flex-wrap gap-2">
-          {cuisineTypes.map((cuisine) => {
-            const isSelected = filters.cuisineTypes?.includes(
-              cuisine.toLowerCase()
-            );
+          {visibleCuisines.map((cuisine) => {
+            const isSelected = filters.cuisineTypes?.includes(cuisine.value);
             return (
               <button
-                key={cuisine}
-                onClick={() => toggleCuisine(cuisine.toLowerCase())}
-                className={`px-3 py-1.5 rounded-full text-sm font-medium transition-all ${
+                key={cuisine.value}
+                onClick={() => toggleCuisine(cuisine.value)}
+                disabled={cuisine.count === 0 && !isSelected}
+                className={`px-3 py-1.5 rounded-full text-sm font-medium transition-all disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:border-gray-200 disabled:hover:bg-white ${
                   isSelected
                     ? 'bg-primary text-primary-foreground'
                     : 'bg-white border border-gray-200 text-gray-700 hover:border-primary hover:bg-primary/5'
                 }`}
               >
-                {cuisine}
+                {formatCuisineLabel(cuisine.value)}
+                {cuisine.count !== undefined && (
+                  <span className={`ml-1 text-xs ${isSelected ? 'text-primary-foreground/80' : 'text-gray-400'}`}>
+                    {cuisine.count}
+                  </span>
+                )}
               </button>
             );
           })}
         </div>
+        {cuisineOptions.length > CUISINE_PREVIEW_COUNT && (
+          <button
+            onClick={() => setShowAllCuisines(!showAllCuisines)}
+            className="text-sm font-medium text-primary hover:underline"
+          >
+            {showAllCuisines ? 'Show less' : `Show all ${cuisineOptions.length}`}
+          </button>
+        )}
       </div>
 
       {/* Amenities */}
@@ -235,13 +498,14 @@ export function PlaceFilters({
           <h3 className="text-sm font-semibold text-gray-900">Amenities</h3>
         </div>
         <div className="space-y-1.5">
-          {amenities.map((amenity) => {
+          {visibleAmenities.map((amenity) => {
             const isSelected = filters.amenities?.includes(amenity.value);
             return (
               <button
                 key={amenity.value}
                 onClick={() => toggleAmenity(amenity.value)}
-                className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg transition-all text-left ${
+                disabled={amenity.count === 0 && !isSelected}
+                className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg transition-all text-left disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:border-gray-200 disabled:hover:bg-white ${
                   isSelected
                     ? 'bg-primary/5 border border-primary text-gray-900'
                     : 'bg-white border border-gray-200 text-gray-700 hover:border-primary hover:bg-primary/5'
@@ -256,11 +520,22 @@ export function PlaceFilters({
                 >
                   {isSelected && <Check className="w-3 h-3 text-primary-foreground" />}
                 </div>
-                <span className="text-sm font-medium">{amenity.label}</span>
+                <span className="text-sm font-medium flex-1">{formatAmenityLabel(amenity.value)}</span>
+                {amenity.count !== undefined && (
+                  <span className="text-xs text-gray-400">{amenity.count}</span>
+                )}
               </button>
             );
           })}
         </div>
+        {amenityOptions.length > AMENITY_PREVIEW_COUNT && (
+          <button
+            onClick={() => setShowAllAmenities(!showAllAmenities)}
+            className="text-sm font-medium text-primary hover:underline"
+          >
+            {showAllAmenities ? 'Show less' : `Show all ${amenityOptions.length}`}
+          </button>
+        )}
       </div>
     </div>
   );
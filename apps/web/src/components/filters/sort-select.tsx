@@ -0,0 +1,41 @@
+'use client';
+
+import { ArrowUpDown } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { SORT_OPTIONS } from '@/lib/sort';
+import type { SearchSort } from '@/types/place';
+
+interface SortSelectProps {
+  value: SearchSort | undefined;
+  onValueChange: (sort: SearchSort) => void;
+  /** Distance sort needs a location; it's disabled without one */
+  hasLocation?: boolean;
+}
+
+export function SortSelect({ value, onValueChange, hasLocation = false }: SortSelectProps) {
+  return (
+    <Select value={value ?? 'relevance'} onValueChange={(v) => onValueChange(v as SearchSort)}>
+      <SelectTrigger size="sm" className="rounded-full bg-card" aria-label="Sort by">
+        <ArrowUpDown className="w-4 h-4" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent align="end" position="popper">
+        {SORT_OPTIONS.map((option) => (
+          <SelectItem
+            key={option.value}
+            value={option.value}
+            disabled={option.value === 'distance' && !hasLocation}
+          >
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,14 @@
+'use client';
+
+import dynamic from 'next/dynamic';
+
+/**
+ * LocationPickerMap loaded on the client only (Leaflet needs `window`)
+ */
+export const DynamicLocationPickerMap = dynamic(
+  () => import('./location-picker-map').then((mod) => mod.LocationPickerMap),
+  {
+    ssr: false,
+    loading: () => <div className="h-72 rounded-xl bg-muted animate-pulse" />,
+  }
+);
@@ -0,0 +1,14 @@
+'use client';
+
+import dynamic from 'next/dynamic';
+
+/**
+ * PlacesMap loaded on the client only (Leaflet needs `window`)
+ */
+export const DynamicPlacesMap = dynamic(
+  () => import('./places-map').then((mod) => mod.PlacesMap),
+  {
+    ssr: false,
+    loading: () => <div className="h-[70vh] rounded-2xl bg-muted animate-pulse" />,
+  }
+);
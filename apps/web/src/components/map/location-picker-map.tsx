@@ -0,0 +1,104 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import {
+  MAP_TILE_URL,
+  MAP_TILE_ATTRIBUTION,
+  MAP_MAX_ZOOM,
+  MAP_DEFAULT_CENTER,
+  NEIGHBORHOOD_BOUNDARY,
+} from '@/lib/map-config';
+import { cn } from '@/lib/utils';
+import type { GeoPoint } from '@/types/place';
+
+export interface LocationPickerMapProps {
+  value?: GeoPoint;
+  onChange: (point: GeoPoint) => void;
+  className?: string;
+}
+
+const pinIcon = L.divIcon({
+  html: '<div class="w-6 h-6 rounded-full bg-primary border-4 border-white shadow-md"></div>',
+  className: '',
+  iconSize: [24, 24],
+  iconAnchor: [12, 12],
+});
+
+/** Close enough to place a pin on the right building */
+const PICKER_ZOOM = 18;
+
+function toGeoPoint(latLng: L.LatLng): GeoPoint {
+  return { latitude: Number(latLng.lat.toFixed(6)), longitude: Number(latLng.lng.toFixed(6)) };
+}
+
+/**
+ * Leaflet map for placing a single pin, by clicking or dragging.
+ * Outlines the neighborhood boundary. Must be loaded client-side only
+ * (see DynamicLocationPickerMap).
+ */
+export function LocationPickerMap({ value, onChange, className }: LocationPickerMapProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const markerRef = useRef<L.Marker | null>(null);
+  const onChangeRef = useRef(onChange);
+
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  }, [onChange]);
+
+  // Create the map once
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const map = L.map(containerRef.current, {
+      center: [MAP_DEFAULT_CENTER.latitude, MAP_DEFAULT_CENTER.longitude],
+      zoom: PICKER_ZOOM - 2,
+      maxZoom: MAP_MAX_ZOOM,
+    });
+    L.tileLayer(MAP_TILE_URL, { attribution: MAP_TILE_ATTRIBUTION, maxZoom: MAP_MAX_ZOOM }).addTo(map);
+    L.polygon(
+      NEIGHBORHOOD_BOUNDARY.map((point) => [point.latitude, point.longitude] as L.LatLngTuple),
+      { color: '#f97316', weight: 2, dashArray: '6 6', fill: false, interactive: false }
+    ).addTo(map);
+    map.on('click', (event: L.LeafletMouseEvent) => onChangeRef.current(toGeoPoint(event.latlng)));
+    mapRef.current = map;
+
+    return () => {
+      map.remove();
+      mapRef.current = null;
+      markerRef.current = null;
+    };
+  }, []);
+
+  // Keep the pin in sync with the value, and bring it into view
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+
+    if (!value) {
+      markerRef.current?.remove();
+      markerRef.current = null;
+      return;
+    }
+
+    const latLng = L.latLng(value.latitude, value.longitude);
+    if (markerRef.current) {
+      markerRef.current.setLatLng(latLng);
+    } else {
+      markerRef.current = L.marker(latLng, { icon: pinIcon, draggable: true, keyboard: true, title: 'Place location' })
+        .on('dragend', (event) => onChangeRef.current(toGeoPoint((event.target as L.Marker).getLatLng())))
+        .addTo(map);
+    }
+    if (!map.getBounds().contains(latLng)) {
+      map.setView(latLng, Math.max(map.getZoom(), PICKER_ZOOM));
+    }
+  }, [value]);
+
+  return (
+    <div className={cn('relative rounded-xl overflow-hidden bg-muted', className)}>
+      <div ref={containerRef} className="absolute inset-0 z-0" />
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import Link from 'next/link';
+import { MapPinOff, Edit3 } from 'lucide-react';
+import type { PlaceIndex } from '@/types/place';
+
+interface MissingCoordinatesListProps {
+  places: PlaceIndex[];
+}
+
+/**
+ * Places that can't be plotted on the map, with a shortcut to suggest a location
+ */
+export function MissingCoordinatesList({ places }: MissingCoordinatesListProps) {
+  if (places.length === 0) return null;
+
+  return (
+    <div className="mt-6 bg-card rounded-2xl p-5">
+      <div className="flex items-center gap-2 mb-1">
+        <MapPinOff className="w-4 h-4 text-muted-foreground" />
+        <h3 className="text-sm font-semibold text-foreground">
+          Not on the map ({places.length})
+        </h3>
+      </div>
+      <p className="text-xs text-muted-foreground mb-4">
+        These places are missing coordinates. Know where they are? Suggest a location.
+      </p>
+      <ul className="divide-y divide-border">
+        {places.map((place) => (
+          <li key={place.id} className="flex items-center justify-between gap-3 py-2">
+            <div className="min-w-0">
+              <Link
+                href={`/places/${place.slug}`}
+                className="text-sm font-medium text-foreground hover:text-primary truncate block"
+              >
+                {place.name}
+              </Link>
+              <p className="text-xs text-muted-foreground truncate">{place.address}</p>
+            </div>
+            <Link
+              href={`/places/${place.slug}/edit`}
+              className="shrink-0 inline-flex items-center gap-1 text-xs font-medium text-primary hover:underline"
+            >
+              <Edit3 className="w-3 h-3" />
+              Add location
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import L from 'leaflet';
+import Supercluster from 'supercluster';
+import { Search } from 'lucide-react';
+import 'leaflet/dist/leaflet.css';
+import { PlaceCard } from '@/components/place/place-card';
+import { Button } from '@/components/ui/button';
+import {
+  MAP_TILE_URL,
+  MAP_TILE_ATTRIBUTION,
+  MAP_MAX_ZOOM,
+  MAP_DEFAULT_CENTER,
+  MAP_DEFAULT_ZOOM,
+} from '@/lib/map-config';
+import { cn } from '@/lib/utils';
+import type { GeoBounds, GeoPoint, PlaceIndex } from '@/types/place';
+
+export interface PlacesMapProps {
+  places: PlaceIndex[];
+  /** Active map-area filter; the map opens on it when set */
+  bounds?: GeoBounds;
+  /** User location, shown as a dot */
+  near?: GeoPoint;
+  /** Called with the visible area when the user asks to search it */
+  onSearchArea?: (bounds: GeoBounds) => void;
+  className?: string;
+}
+
+type PlaceProperties = { placeId: string };
+
+const clusterIcon = (count: number) =>
+  L.divIcon({
+    html: `<div class="w-10 h-10 rounded-full bg-primary text-primary-foreground border-4 border-white shadow-md flex items-center justify-center text-sm font-bold">${count}</div>`,
+    className: '',
+    iconSize: [40, 40],
+    iconAnchor: [20, 20],
+  });
+
+const placeIcon = L.divIcon({
+  html: '<div class="w-5 h-5 rounded-full bg-primary border-[3px] border-white shadow-md"></div>',
+  className: '',
+  iconSize: [20, 20],
+  iconAnchor: [10, 10],
+  popupAnchor: [0, -10],
+});
+
+function toGeoBounds(bounds: L.LatLngBounds): GeoBounds {
+  return {
+    south: bounds.getSouth(),
+    west: bounds.getWest(),
+    north: bounds.getNorth(),
+    east: bounds.getEast(),
+  };
+}
+
+/**
+ * Leaflet map that plots places with clustering.
+ * Must be loaded client-side only (see DynamicPlacesMap).
+ */
+export function PlacesMap({ places, bounds, near, onSearchArea, className }: PlacesMapProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const markersRef = useRef<L.LayerGroup | null>(null);
+  // True while the map is moved by code rather than the user
+  const programmaticMove = useRef(false);
+  const [viewVersion, setViewVersion] = useState(0);
+  const [hasMoved, setHasMoved] = useState(false);
+  const [popup, setPopup] = useState<{ place: PlaceIndex; container: HTMLElement } | null>(null);
+
+  const placesById = useMemo(() => new Map(places.map((p) => [p.id, p])), [places]);
+
+  const index = useMemo(() => {
+    const cluster = new Supercluster<PlaceProperties>({ radius: 50, maxZoom: MAP_MAX_ZOOM - 1 });
+    cluster.load(
+      places
+        .filter((p) => p.latitude !== undefined && p.longitude !== undefined)
+        .map((p) => ({
+          type: 'Feature' as const,
+          properties: { placeId: p.id },
+          geometry: { type: 'Point' as const, coordinates: [p.longitude!, p.latitude!] },
+        }))
+    );
+    return cluster;
+  }, [places]);
+
+  // Create the map once
+  useEffect(() => {
+    if (!containerRef.current) return;
+
+    const map = L.map(containerRef.current, {
+      center: [MAP_DEFAULT_CENTER.latitude, MAP_DEFAULT_CENTER.longitude],
+      zoom: MAP_DEFAULT_ZOOM,
+      maxZoom: MAP_MAX_ZOOM,
+    });
+    L.tileLayer(MAP_TILE_URL, { attribution: MAP_TILE_ATTRIBUTION, maxZoom: MAP_MAX_ZOOM }).addTo(map);
+    markersRef.current = L.layerGroup().addTo(map);
+    mapRef.current = map;
+
+    map.on('moveend', () => {
+      setViewVersion((v) => v + 1);
+      if (programmaticMove.current) {
+        programmaticMove.current = false;
+      } else {
+        setHasMoved(true);
+      }
+    });
+    map.on('popupclose', () => setPopup(null));
+
+    return () => {
+      map.remove();
+      mapRef.current = null;
+      markersRef.current = null;
+    };
+  }, []);
+
+  // Frame the active area filter, or all plotted places
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+
+    let target: L.LatLngBounds | null = null;
+    if (bounds) {
+      target = L.latLngBounds([bounds.south, bounds.west], [bounds.north, bounds.east]);
+    } else {
+      const points = places
+        .filter((p) => p.latitude !== undefined && p.longitude !== undefined)
+        .map((p) => L.latLng(p.latitude!, p.longitude!));
+      if (points.length > 0) target = L.latLngBounds(points);
+    }
+
+    if (target && target.isValid()) {
+      programmaticMove.current = true;
+      map.fitBounds(target, { padding: [40, 40], maxZoom: 18 });
+    }
+  }, [bounds, places]);
+
+  // Render clusters and pins for the current view
+  useEffect(() => {
+    const map = mapRef.current;
+    const layer = markersRef.current;
+    if (!map || !layer) return;
+
+    layer.clearLayers();
+    const view = map.getBounds();
+    const clusters = index.getClusters(
+      [view.getWest(), view.getSouth(), view.getEast(), view.getNorth()],
+      Math.round(map.getZoom())
+    );
+
+    for (const feature of clusters) {
+      const [lng, lat] = feature.geometry.coordinates;
+      const props = feature.properties as Supercluster.ClusterProperties | PlaceProperties;
+
+      if ('cluster' in props && props.cluster) {
+        const clusterId = props.cluster_id;
+        L.marker([lat, lng], { icon: clusterIcon(props.point_count) })
+          .on('click', () => {
+            programmaticMove.current = true;
+            map.setView([lat, lng], Math.min(index.getClusterExpansionZoom(clusterId), MAP_MAX_ZOOM));
+          })
+          .addTo(layer);
+        continue;
+      }
+
+      const place = placesById.get((props as PlaceProperties).placeId);
+      if (!place) continue;
+
+      L.marker([lat, lng], { icon: placeIcon, title: place.name })
+        .on('click', () => {
+          const container = document.createElement('div');
+          programmaticMove.current = true;
+          L.popup({ minWidth: 260, maxWidth: 280, className: 'place-map-popup' })
+            .setLatLng([lat, lng])
+            .setContent(container)
+            .openOn(map);
+          setPopup({ place, container });
+        })
+        .addTo(layer);
+    }
+
+    if (near) {
+      L.circleMarker([near.latitude, near.longitude], {
+        radius: 8,
+        color: '#ffffff',
+        weight: 3,
+        fillColor: '#2563eb',
+        fillOpacity: 1,
+      }).addTo(layer);
+    }
+  }, [index, placesById, near, viewVersion]);
+
+  const handleSearchArea = () => {
+    const map = mapRef.current;
+    if (!map || !onSearchArea) return;
+    setHasMoved(false);
+    onSearchArea(toGeoBounds(map.getBounds()));
+  };
+
+  return (
+    <div className={cn('relative rounded-2xl overflow-hidden bg-muted', className)}>
+      <div ref={containerRef} className="absolute inset-0 z-0" />
+
+      {onSearchArea && hasMoved && (
+        <div className="absolute top-3 left-1/2 -translate-x-1/2 z-[1000]">
+          <Button size="sm" onClick={handleSearchArea} className="shadow-md gap-2">
+            <Search className="w-4 h-4" />
+            Search this area
+          </Button>
+        </div>
+      )}
+
+      {popup && createPortal(<PlaceCard place={popup.place} />, popup.container)}
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+'use client';
+
+import { List, Map as MapIcon } from 'lucide-react';
+
+export type PlacesView = 'list' | 'map';
+
+interface ViewToggleProps {
+  view: PlacesView;
+  onViewChange: (view: PlacesView) => void;
+}
+
+const OPTIONS: Array<{ value: PlacesView; label: string; icon: typeof List }> = [
+  { value: 'list', label: 'List', icon: List },
+  { value: 'map', label: 'Map', icon: MapIcon },
+];
+
+export function ViewToggle({ view, onViewChange }: ViewToggleProps) {
+  return (
+    <div className="inline-flex rounded-full bg-card border border-border p-1" role="group" aria-label="View">
+      {OPTIONS.map((option) => {
+        const Icon = option.icon;
+        const isSelected = view === option.value;
+        return (
+          <button
+            key={option.value}
+            onClick={() => onViewChange(option.value)}
+            aria-pressed={isSelected}
+            className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full text-sm font-medium transition-all ${
+              isSelected
+                ? 'bg-primary text-primary-foreground'
+                : 'text-muted-foreground hover:text-foreground'
+            }`}
+          >
+            <Icon className="w-4 h-4" />
+            {option.label}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -20,6 +20,7 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { useAuth } from '@/components/auth/auth-provider';
+import { CommandPalette } from '@/components/search/command-palette';
 
 const categories = [
   { label: 'Cafe', href: '/places?cuisines=cafe' },
@@ -70,167 +71,171 @@ export function Navbar() {
           </div>
 
           {/* Right side */}
-          <div className="hidden md:flex items-center gap-2">
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={() => router.push('/add-place')}
-              className="gap-1.5 text-muted-foreground hover:text-foreground"
-            >
-              <Plus className="w-4 h-4" />
-              Add Place
-            </Button>
+          <div className="flex items-center gap-2">
+            <CommandPalette />
+
+            <div className="hidden md:flex items-center gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => router.push('/add-place')}
+                className="gap-1.5 text-muted-foreground hover:text-foreground"
+              >
+                <Plus className="w-4 h-4" />
+                Add Place
+              </Button>
 
-            {!isLoading && (
-              <>
-                {user ? (
-                  <DropdownMenu>
-                    <DropdownMenuTrigger asChild>
-                      <Button variant="outline" size="icon" className="rounded-full w-9 h-9">
-                        <span className="text-sm font-bold">
-                          {profile?.display_name?.charAt(0)?.toUpperCase() || user.email?.charAt(0)?.toUpperCase() || 'U'}
-                        </span>
-                      </Button>
-                    </DropdownMenuTrigger>
-                    <DropdownMenuContent align="end" className="w-48">
-                      <div className="px-2 py-1.5 text-sm text-muted-foreground truncate">
-                        {profile?.display_name || user.email}
-                      </div>
-                      <DropdownMenuSeparator />
-                      <DropdownMenuItem onClick={() => router.push('/dashboard')}>
-                        <LayoutDashboard className="w-4 h-4 mr-2" />
-                        Dashboard
-                      </DropdownMenuItem>
-                      {profile?.role === 'admin' && (
-                        <DropdownMenuItem onClick={() => router.push('/admin')}>
-                          <Shield className="w-4 h-4 mr-2" />
-                          Admin
+              {!isLoading && (
+                <>
+                  {user ? (
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="outline" size="icon" className="rounded-full w-9 h-9">
+                          <span className="text-sm font-bold">
+                            {profile?.display_name?.charAt(0)?.toUpperCase() || user.email?.charAt(0)?.toUpperCase() || 'U'}
+                          </span>
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end" className="w-48">
+                        <div className="px-2 py-1.5 text-sm text-muted-foreground truncate">
+                          {profile?.display_name || user.email}
+                        </div>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem onClick={() => router.push('/dashboard')}>
+                          <LayoutDashboard className="w-4 h-4 mr-2" />
+                          Dashboard
                         </DropdownMenuItem>
-                      )}
-                      <DropdownMenuSeparator />
-                      <DropdownMenuItem onClick={signOut} className="text-destructive focus:text-destructive">
-                        <LogOut className="w-4 h-4 mr-2" />
-                        Log Out
-                      </DropdownMenuItem>
-                    </DropdownMenuContent>
-                  </DropdownMenu>
-                ) : (
-                  <Button
-                    size="sm"
-                    onClick={() => router.push('/auth/login')}
-                    className="rounded-full px-5"
-                  >
-                    Sign In
-                  </Button>
-                )}
-              </>
-            )}
-          </div>
+                        {profile?.role === 'admin' && (
+                          <DropdownMenuItem onClick={() => router.push('/admin')}>
+                            <Shield className="w-4 h-4 mr-2" />
+                            Admin
+                          </DropdownMenuItem>
+                        )}
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem onClick={signOut} className="text-destructive focus:text-destructive">
+                          <LogOut className="w-4 h-4 mr-2" />
+                          Log Out
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  ) : (
+                    <Button
+                      size="sm"
+                      onClick={() => router.push('/auth/login')}
+                      className="rounded-full px-5"
+                    >
+                      Sign In
+                    </Button>
+                  )}
+                </>
+              )}
+            </div>
 
-          {/* Mobile Menu */}
-          <div className="md:hidden" suppressHydrationWarning>
-            <Sheet open={open} onOpenChange={setOpen}>
-              <SheetTrigger asChild>
-                <Button variant="ghost" size="icon" suppressHydrationWarning>
-                  <Menu className="h-5 w-5" />
-                  <span className="sr-only">Toggle menu</span>
-                </Button>
-              </SheetTrigger>
-              <SheetContent side="left" className="w-72">
-                <SheetHeader>
-                  <SheetTitle className="text-left">Menu</SheetTitle>
-                </SheetHeader>
-                <div className="flex flex-col gap-1 mt-6">
-                  <Link
-                    href="/places"
-                    onClick={() => setOpen(false)}
-                    className="px-3 py-2.5 rounded-lg text-sm font-medium text-foreground hover:bg-muted transition-colors"
-                  >
-                    Browse All
-                  </Link>
-                  {categories.map((cat) => (
+            {/* Mobile Menu */}
+            <div className="md:hidden" suppressHydrationWarning>
+              <Sheet open={open} onOpenChange={setOpen}>
+                <SheetTrigger asChild>
+                  <Button variant="ghost" size="icon" suppressHydrationWarning>
+                    <Menu className="h-5 w-5" />
+                    <span className="sr-only">Toggle menu</span>
+                  </Button>
+                </SheetTrigger>
+                <SheetContent side="left" className="w-72">
+                  <SheetHeader>
+                    <SheetTitle className="text-left">Menu</SheetTitle>
+                  </SheetHeader>
+                  <div className="flex flex-col gap-1 mt-6">
                     <Link
-                      key={cat.label}
-                      href={cat.href}
+                      href="/places"
                       onClick={() => setOpen(false)}
-                      className="px-3 py-2.5 rounded-lg text-sm font-medium text-muted-foreground hover:text-foreground hover:bg-muted transition-colors"
+                      className="px-3 py-2.5 rounded-lg text-sm font-medium text-foreground hover:bg-muted transition-colors"
                     >
-                      {cat.label}
+                      Browse All
                     </Link>
-                  ))}
+                    {categories.map((cat) => (
+                      <Link
+                        key={cat.label}
+                        href={cat.href}
+                        onClick={() => setOpen(false)}
+                        className="px-3 py-2.5 rounded-lg text-sm font-medium text-muted-foreground hover:text-foreground hover:bg-muted transition-colors"
+                      >
+                        {cat.label}
+                      </Link>
+                    ))}
 
-                  <div className="border-t border-border my-3" />
+                    <div className="border-t border-border my-3" />
 
-                  <Link
-                    href="/add-place"
-                    onClick={() => setOpen(false)}
-                    className="px-3 py-2.5 rounded-lg text-sm font-medium text-muted-foreground hover:text-foreground hover:bg-muted transition-colors flex items-center gap-2"
-                  >
-                    <Plus className="w-4 h-4" />
-                    Add a New Place
-                  </Link>
+                    <Link
+                      href="/add-place"
+                      onClick={() => setOpen(false)}
+                      className="px-3 py-2.5 rounded-lg text-sm font-medium text-muted-foreground hover:text-foreground hover:bg-muted transition-colors flex items-center gap-2"
+                    >
+                      <Plus className="w-4 h-4" />
+                      Add a New Place
+                    </Link>
 
-                  {!isLoading && (
-                    <>
-                      <div className="border-t border-border my-3" />
-                      {user ? (
-                        <>
-                          <div className="flex items-center gap-2 px-3 py-2">
-                            <div className="w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center">
-                              <User className="w-4 h-4 text-primary" />
+                    {!isLoading && (
+                      <>
+                        <div className="border-t border-border my-3" />
+                        {user ? (
+                          <>
+                            <div className="flex items-center gap-2 px-3 py-2">
+                              <div className="w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center">
+                                <User className="w-4 h-4 text-primary" />
+                              </div>
+                              <span className="text-sm font-medium truncate">
+                                {profile?.display_name || user.email}
+                              </span>
                             </div>
-                            <span className="text-sm font-medium truncate">
-                              {profile?.display_name || user.email}
-                            </span>
-                          </div>
-                          <Link
-                            href="/dashboard"
-                            onClick={() => setOpen(false)}
-                            className="px-3 py-2.5 rounded-lg text-sm font-medium text-muted-foreground hover:text-foreground hover:bg-muted transition-colors flex items-center gap-2"
-                          >
-                            <LayoutDashboard className="w-4 h-4" />
-                            Dashboard
-                          </Link>
-                          {profile?.role === 'admin' && (
                             <Link
-                              href="/admin"
+                              href="/dashboard"
                               onClick={() => setOpen(false)}
                               className="px-3 py-2.5 rounded-lg text-sm font-medium text-muted-foreground hover:text-foreground hover:bg-muted transition-colors flex items-center gap-2"
                             >
-                              <Shield className="w-4 h-4" />
-                              Admin
+                              <LayoutDashboard className="w-4 h-4" />
+                              Dashboard
                             </Link>
-                          )}
-                          <button
-                            onClick={() => { setOpen(false); signOut(); }}
-                            className="px-3 py-2.5 rounded-lg text-sm font-medium text-destructive hover:bg-destructive/5 transition-colors flex items-center gap-2 w-full text-left"
-                          >
-                            <LogOut className="w-4 h-4" />
-                            Log Out
-                          </button>
-                        </>
-                      ) : (
-                        <div className="flex flex-col gap-2 px-3">
-                          <Button
-                            onClick={() => { setOpen(false); router.push('/auth/login'); }}
-                            className="w-full rounded-full"
-                          >
-                            Sign In
-                          </Button>
-                          <Button
-                            variant="outline"
-                            onClick={() => { setOpen(false); router.push('/auth/signup'); }}
-                            className="w-full rounded-full"
-                          >
-                            Create Account
-                          </Button>
-                        </div>
-                      )}
-                    </>
-                  )}
-                </div>
-              </SheetContent>
-            </Sheet>
+                            {profile?.role === 'admin' && (
+                              <Link
+                                href="/admin"
+                                onClick={() => setOpen(false)}
+                                className="px-3 py-2.5 rounded-lg text-sm font-medium text-muted-foreground hover:text-foreground hover:bg-muted transition-colors flex items-center gap-2"
+                              >
+                                <Shield className="w-4 h-4" />
+                                Admin
+                              </Link>
+                            )}
+                            <button
+                              onClick={() => { setOpen(false); signOut(); }}
+                              className="px-3 py-2.5 rounded-lg text-sm font-medium text-destructive hover:bg-destructive/5 transition-colors flex items-center gap-2 w-full text-left"
+                            >
+                              <LogOut className="w-4 h-4" />
+                              Log Out
+                            </button>
+                          </>
+                        ) : (
+                          <div className="flex flex-col gap-2 px-3">
+                            <Button
+                              onClick={() => { setOpen(false); router.push('/auth/login'); }}
+                              className="w-full rounded-full"
+                            >
+                              Sign In
+                            </Button>
+                            <Button
+                              variant="outline"
+                              onClick={() => { setOpen(false); router.push('/auth/signup'); }}
+                              className="w-full rounded-full"
+                            >
+                              Create Account
+                            </Button>
+                          </div>
+                        )}
+                      </>
+                    )}
+                  </div>
+                </SheetContent>
+              </Sheet>
+            </div>
           </div>
         </div>
       </div>
@@ -7,17 +7,27 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { TagInput } from '@/components/ui/tag-input';
 import { ImageUploadField } from '@/components/ui/image-upload-field';
+import { OperatingHoursEditor, type HoursDraft, defaultHoursDraft, hoursDraftToOperatingHours } from '@/components/place/operating-hours-editor';
+import { PlaceLinksEditor } from '@/components/place/place-links-editor';
+import { LocationPinField } from '@/components/place/location-pin-field';
 import { csrfFetch } from '@/lib/csrf-client';
+import { tagSlugsFor } from '@/lib/tags';
+import { arePlaceLinksValid, compactPlaceLinks } from '@/lib/place-links';
+import { isInNeighborhood } from '@/lib/neighborhood';
+import { PAYMENT_METHODS } from '@/lib/place-schema';
+import { useTagTaxonomy } from '@/hooks/use-tag-taxonomy';
 import { toast } from 'sonner';
-import type { PriceRange } from '@/types/place';
+import type { GeoPoint, PlaceLinks, PriceRange } from '@/types/place';
 
 interface FormData {
   name: string;
   description: string;
   address: string;
+  location?: GeoPoint;
   phone: string;
   email: string;
   website: string;
+  links: PlaceLinks;
   coverImageUrl: string;
   logoUrl: string;
   priceRange: PriceRange;
@@ -26,13 +36,7 @@ interface FormData {
   tags: string[];
   amenities: string[];
   paymentMethods: string[];
-  mondayOpen: string; mondayClose: string; mondayClosed: boolean;
-  tuesdayOpen: string; tuesdayClose: string; tuesdayClosed: boolean;
-  wednesdayOpen: string; wednesdayClose: string; wednesdayClosed: boolean;
-  thursdayOpen: string; thursdayClose: string; thursdayClosed: boolean;
-  fridayOpen: string; fridayClose: string; fridayClosed: boolean;
-  saturdayOpen: string; saturdayClose: string; saturdayClosed: boolean;
-  sundayOpen: string; sundayClose: string; sundayClosed: boolean;
+  hours: HoursDraft;
   contributorName: string;
   contributorEmail: string;
   contributorGithub: string;
@@ -64,10 +68,7 @@ const amenitiesSuggestions = [
   'delivery', 'takeout', 'power-outlets', 'wheelchair-accessible',
   'smoking-area', 'alcohol-served', 'live-music'
 ];
-const paymentSuggestions = [
-  'cash', 'gcash', 'paymaya', 'credit-card', 'debit-card',
-  'bank-transfer', 'maya', 'grab-pay'
-];
+const paymentSuggestions = [...PAYMENT_METHODS];
 
 const steps = [
   { id: 'basics', label: 'Basics', icon: Utensils },
@@ -81,16 +82,10 @@ const steps = [
 export function AddPlaceForm({ onSuccess, onCancel, defaultContributor }: AddPlaceFormProps) {
   const [currentStep, setCurrentStep] = useState(0);
   const [formData, setFormData] = useState<FormData>({
-    name: '', description: '', address: '', phone: '', email: '', website: '',
+    name: '', description: '', address: '', phone: '', email: '', website: '', links: {},
     coverImageUrl: '', logoUrl: '',
     priceRange: '$$', cuisineTypes: [], specialties: [], tags: [], amenities: [], paymentMethods: [],
-    mondayOpen: '10:00', mondayClose: '22:00', mondayClosed: false,
-    tuesdayOpen: '10:00', tuesdayClose: '22:00', tuesdayClosed: false,
-    wednesdayOpen: '10:00', wednesdayClose: '22:00', wednesdayClosed: false,
-    thursdayOpen: '10:00', thursdayClose: '22:00', thursdayClosed: false,
-    fridayOpen: '10:00', fridayClose: '23:00', fridayClosed: false,
-    saturdayOpen: '10:00', saturdayClose: '23:00', saturdayClosed: false,
-    sundayOpen: '10:00', sundayClose: '22:00', sundayClosed: false,
+    hours: defaultHoursDraft(),
     contributorName: defaultContributor?.name ?? '',
     contributorEmail: defaultContributor?.email ?? '',
     contributorGithub: '',
@@ -113,7 +108,8 @@ export function AddPlaceForm({ onSuccess, onCancel, defaultContributor }: AddPla
   const stepValidation: Record<number, () => boolean> = {
     0: () => formData.name.trim().length > 0 && formData.description.trim().length >= 10 && formData.cuisineTypes.length > 0,
     1: () => true, // Photos are optional
-    2: () => formData.address.trim().length > 0,
+    2: () => formData.address.trim().length > 0 && arePlaceLinksValid(formData.links)
+      && (!formData.location || isInNeighborhood(formData.location)),
     3: () => true, // Hours have defaults
     4: () => true, // Tags optional
     5: () => formData.contributorName.trim().length > 0,
@@ -134,19 +130,14 @@ export function AddPlaceForm({ onSuccess, onCancel, defaultContributor }: AddPla
     if (!isCurrentStepValid) return;
     setIsSubmitting(true);
     try {
-      const days = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
-      const operatingHours: Record<string, { open?: string; close?: string; closed?: boolean }> = {};
-      for (const day of days) {
-        const closed = formData[`${day}Closed` as keyof FormData] as boolean;
-        operatingHours[day] = closed
-          ? { closed: true }
-          : { open: (formData[`${day}Open` as keyof FormData] as string) || '10:00', close: (formData[`${day}Close` as keyof FormData] as string) || '22:00' };
-      }
+      const operatingHours = hoursDraftToOperatingHours(formData.hours);
 
       const response = await csrfFetch('/api/places/submit', {
         body: JSON.stringify({
           name: formData.name, description: formData.description, address: formData.address,
           phone: formData.phone || undefined, email: formData.email || undefined, website: formData.website || undefined,
+          links: compactPlaceLinks(formData.links),
+          latitude: formData.location?.latitude, longitude: formData.location?.longitude,
           coverImageUrl: formData.coverImageUrl || undefined, logoUrl: formData.logoUrl || undefined,
           photosUrls: [], operatingHours, priceRange: formData.priceRange,
           paymentMethods: formData.paymentMethods, cuisineTypes: formData.cuisineTypes,
@@ -254,10 +245,10 @@ export function AddPlaceForm({ onSuccess, onCancel, defaultContributor }: AddPla
               <StepPhotos formData={formData} setFormData={setFormData} slug={slug} />
             )}
             {currentStep === 2 && (
-              <StepLocation formData={formData} handleChange={handleChange} />
+              <StepLocation formData={formData} handleChange={handleChange} setFormData={setFormData} />
             )}
             {currentStep === 3 && (
-              <StepHours formData={formData} handleChange={handleChange} />
+              <StepHours formData={formData} setFormData={setFormData} />
             )}
             {currentStep === 4 && (
               <StepDetails formData={formData} setFormData={setFormData} />
@@ -348,6 +339,8 @@ function StepHeader({ icon: Icon, label, title, description }: { icon: typeof Ca
 }
 
 function StepBasics({ formData, handleChange, setFormData }: StepProps) {
+  const taxonomy = useTagTaxonomy();
+
   return (
     <div>
       <StepHeader icon={Utensils} label="Step 1" title="Tell us the basics" description="Start with the essentials about the place." />
@@ -393,7 +386,7 @@ function StepBasics({ formData, handleChange, setFormData }: StepProps) {
           <label className="block text-sm font-medium mb-2">
             Cuisine Types <span className="text-destructive">*</span>
           </label>
-          <TagInput value={formData.cuisineTypes} onChange={(tags) => setFormData!((p) => ({ ...p, cuisineTypes: tags }))} placeholder="e.g., Filipino, Japanese" suggestions={cuisineSuggestions} />
+          <TagInput value={formData.cuisineTypes} onChange={(tags) => setFormData!((p) => ({ ...p, cuisineTypes: tags }))} placeholder="e.g., Filipino, Japanese" suggestions={cuisineSuggestions} canonical={taxonomy ? tagSlugsFor(taxonomy, ['cuisine', 'dietary']) : undefined} aliases={taxonomy?.aliases} />
         </div>
 
         <div>
@@ -435,7 +428,7 @@ function StepPhotos({ formData, setFormData, slug }: StepProps) {
   );
 }
 
-function StepLocation({ formData, handleChange }: StepProps) {
+function StepLocation({ formData, handleChange, setFormData }: StepProps) {
   return (
     <div>
       <StepHeader icon={MapPin} label="Step 3" title="Where can we find it?" description="Add the address and contact details." />
@@ -446,6 +439,11 @@ function StepLocation({ formData, handleChange }: StepProps) {
           </label>
           <Input id="address" name="address" value={formData.address} onChange={handleChange} placeholder="123 Maginhawa St." />
         </div>
+        <LocationPinField
+          address={formData.address}
+          value={formData.location}
+          onChange={(location) => setFormData?.((prev) => ({ ...prev, location }))}
+        />
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <div>
             <label htmlFor="phone" className="block text-sm font-medium mb-1">Phone Number</label>
@@ -457,53 +455,48 @@ function StepLocation({ formData, handleChange }: StepProps) {
           </div>
         </div>
         <div>
-          <label htmlFor="website" className="block text-sm font-medium mb-1">Website or Facebook Page</label>
+          <label htmlFor="website" className="block text-sm font-medium mb-1">Website</label>
           <Input id="website" name="website" type="url" value={formData.website} onChange={handleChange} placeholder="https://" />
         </div>
+        <div>
+          <h3 className="text-sm font-medium mb-1">Social, delivery and reservation links</h3>
+          <p className="text-xs text-muted-foreground mb-3">Optional. Paste the place&apos;s own page on each platform.</p>
+          <PlaceLinksEditor
+            value={formData.links}
+            onChange={(links) => setFormData?.((prev) => ({ ...prev, links }))}
+          />
+        </div>
       </div>
     </div>
   );
 }
 
-function StepHours({ formData, handleChange }: StepProps) {
+function StepHours({ formData, setFormData }: StepProps) {
   return (
     <div>
-      <StepHeader icon={Clock} label="Step 4" title="Operating hours" description="When is this place open? Check 'Closed' for rest days." />
-      <div className="space-y-2">
-        {['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'].map((day) => {
-          const open = `${day}Open` as keyof FormData;
-          const close = `${day}Close` as keyof FormData;
-          const closed = `${day}Closed` as keyof FormData;
-          return (
-            <div key={day} className="flex items-center gap-3 py-1.5">
-              <span className="w-20 text-sm font-medium capitalize">{day.slice(0, 3)}</span>
-              <Input type="time" name={open} value={formData[open] as string} onChange={handleChange} disabled={formData[closed] as boolean} className="w-28 text-sm" />
-              <span className="text-xs text-muted-foreground">to</span>
-              <Input type="time" name={close} value={formData[close] as string} onChange={handleChange} disabled={formData[closed] as boolean} className="w-28 text-sm" />
-              <label className="flex items-center gap-1.5 ml-2 cursor-pointer">
-                <input type="checkbox" name={closed} checked={formData[closed] as boolean} onChange={handleChange} className="rounded" />
-                <span className="text-xs text-muted-foreground">Closed</span>
-              </label>
-            </div>
-          );
-        })}
-      </div>
+      <StepHeader icon={Clock} label="Step 4" title="Operating hours" description="When is this place open? Check 'Closed' for rest days and use 'Add hours' for split shifts." />
+      <OperatingHoursEditor
+        value={formData.hours}
+        onChange={(hours) => setFormData?.((prev) => ({ ...prev, hours }))}
+      />
     </div>
   );
 }
 
 function StepDetails({ formData, setFormData }: StepProps) {
+  const taxonomy = useTagTaxonomy();
+
   return (
     <div>
       <StepHeader icon={CreditCard} label="Step 5" title="Tags, amenities & payment" description="Help people find this place with the right filters." />
       <div className="space-y-4">
         <div>
           <label className="block text-sm font-medium mb-2">Tags</label>
-          <TagInput value={formData.tags} onChange={(tags) => setFormData!((p) => ({ ...p, tags }))} placeholder="e.g., casual, cozy" suggestions={tagsSuggestions} />
+          <TagInput value={formData.tags} onChange={(tags) => setFormData!((p) => ({ ...p, tags }))} placeholder="e.g., casual, cozy" suggestions={tagsSuggestions} canonical={taxonomy ? tagSlugsFor(taxonomy, ['atmosphere', 'dietary']) : undefined} aliases={taxonomy?.aliases} />
         </div>
         <div>
           <label className="block text-sm font-medium mb-2">Amenities</label>
-          <TagInput value={formData.amenities} onChange={(tags) => setFormData!((p) => ({ ...p, amenities: tags }))} placeholder="e.g., wifi, parking" suggestions={amenitiesSuggestions} />
+          <TagInput value={formData.amenities} onChange={(tags) => setFormData!((p) => ({ ...p, amenities: tags }))} placeholder="e.g., wifi, parking" suggestions={amenitiesSuggestions} canonical={taxonomy ? tagSlugsFor(taxonomy, ['amenity', 'service']) : undefined} aliases={taxonomy?.aliases} />
         </div>
         <div>
           <label className="block text-sm font-medium mb-2">Payment Methods</label>
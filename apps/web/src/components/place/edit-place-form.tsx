@@ -7,17 +7,27 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { TagInput } from '@/components/ui/tag-input';
 import { ImageUploadField } from '@/components/ui/image-upload-field';
+import { OperatingHoursEditor, type HoursDraft, hoursDraftFromOperatingHours, hoursDraftToOperatingHours } from '@/components/place/operating-hours-editor';
+import { PlaceLinksEditor } from '@/components/place/place-links-editor';
+import { LocationPinField } from '@/components/place/location-pin-field';
 import { csrfFetch } from '@/lib/csrf-client';
+import { tagSlugsFor } from '@/lib/tags';
+import { arePlaceLinksValid, compactPlaceLinks } from '@/lib/place-links';
+import { isInNeighborhood } from '@/lib/neighborhood';
+import { PAYMENT_METHODS } from '@/lib/place-schema';
+import { useTagTaxonomy } from '@/hooks/use-tag-taxonomy';
 import { toast } from 'sonner';
-import type { PriceRange, Place } from '@/types/place';
+import type { GeoPoint, PriceRange, Place, PlaceLinks } from '@/types/place';
 
 interface FormData {
   name: string;
   description: string;
   address: string;
+  location?: GeoPoint;
   phone: string;
   email: string;
   website: string;
+  links: PlaceLinks;
   coverImageUrl: string;
   logoUrl: string;
   priceRange: PriceRange;
@@ -26,13 +36,7 @@ interface FormData {
   tags: string[];
   amenities: string[];
   paymentMethods: string[];
-  mondayOpen: string; mondayClose: string; mondayClosed: boolean;
-  tuesdayOpen: string; tuesdayClose: string; tuesdayClosed: boolean;
-  wednesdayOpen: string; wednesdayClose: string; wednesdayClosed: boolean;
-  thursdayOpen: string; thursdayClose: string; thursdayClosed: boolean;
-  fridayOpen: string; fridayClose: string; fridayClosed: boolean;
-  saturdayOpen: string; saturdayClose: string; saturdayClosed: boolean;
-  sundayOpen: string; sundayClose: string; sundayClosed: boolean;
+  hours: HoursDraft;
   contributorName: string;
   contributorEmail: string;
   contributorGithub: string;
@@ -65,10 +69,7 @@ const amenitiesSuggestions = [
   'delivery', 'takeout', 'power-outlets', 'wheelchair-accessible',
   'smoking-area', 'alcohol-served', 'live-music'
 ];
-const paymentSuggestions = [
-  'cash', 'gcash', 'paymaya', 'credit-card', 'debit-card',
-  'bank-transfer', 'maya', 'grab-pay'
-];
+const paymentSuggestions = [...PAYMENT_METHODS];
 
 const steps = [
   { id: 'basics', label: 'Basics', icon: Utensils },
@@ -84,9 +85,13 @@ function getInitialFormData(place: Place, defaultContributor?: { name: string; e
     name: place.name,
     description: place.description,
     address: place.address,
+    location: place.latitude !== undefined && place.longitude !== undefined
+      ? { latitude: place.latitude, longitude: place.longitude }
+      : undefined,
     phone: place.phone || '',
     email: place.email || '',
     website: place.website || '',
+    links: place.links ?? {},
     coverImageUrl: place.coverImageUrl || '',
     logoUrl: place.logoUrl || '',
     priceRange: place.priceRange,
@@ -95,27 +100,7 @@ function getInitialFormData(place: Place, defaultContributor?: { name: string; e
     tags: place.tags,
     amenities: place.amenities,
     paymentMethods: place.paymentMethods,
-    mondayOpen: place.operatingHours.monday?.open || '10:00',
-    mondayClose: place.operatingHours.monday?.close || '22:00',
-    mondayClosed: place.operatingHours.monday?.closed || false,
-    tuesdayOpen: place.operatingHours.tuesday?.open || '10:00',
-    tuesdayClose: place.operatingHours.tuesday?.close || '22:00',
-    tuesdayClosed: place.operatingHours.tuesday?.closed || false,
-    wednesdayOpen: place.operatingHours.wednesday?.open || '10:00',
-    wednesdayClose: place.operatingHours.wednesday?.close || '22:00',
-    wednesdayClosed: place.operatingHours.wednesday?.closed || false,
-    thursdayOpen: place.operatingHours.thursday?.open || '10:00',
-    thursdayClose: place.operatingHours.thursday?.close || '22:00',
-    thursdayClosed: place.operatingHours.thursday?.closed || false,
-    fridayOpen: place.operatingHours.friday?.open || '10:00',
-    fridayClose: place.operatingHours.friday?.close || '23:00',
-    fridayClosed: place.operatingHours.friday?.closed || false,
-    saturdayOpen: place.operatingHours.saturday?.open || '10:00',
-    saturdayClose: place.operatingHours.saturday?.close || '23:00',
-    saturdayClosed: place.operatingHours.saturday?.closed || false,
-    sundayOpen: place.operatingHours.sunday?.open || '10:00',
-    sundayClose: place.operatingHours.sunday?.close || '22:00',
-    sundayClosed: place.operatingHours.sunday?.closed || false,
+    hours: hoursDraftFromOperatingHours(place.operatingHours),
     contributorName: defaultContributor?.name ?? '',
     contributorEmail: defaultContributor?.email ?? '',
     contributorGithub: '',
@@ -140,10 +125,16 @@ export function EditPlaceForm({ place, onSuccess, onCancel, defaultContributor }
     }
   };
 
+  // Only a moved pin is checked and sent, so places already pinned outside
+  // the boundary can still be edited
+  const { location } = formData;
+  const pinMoved = location?.latitude !== place.latitude || location?.longitude !== place.longitude;
+
   const stepValidation: Record<number, () => boolean> = {
     0: () => formData.name.trim().length > 0 && formData.description.trim().length >= 10 && formData.cuisineTypes.length > 0,
     1: () => true,
-    2: () => formData.address.trim().length > 0,
+    2: () => formData.address.trim().length > 0 && arePlaceLinksValid(formData.links)
+      && (!pinMoved || !location || isInNeighborhood(location)),
     3: () => true,
     4: () => true,
     5: () => formData.contributorName.trim().length > 0,
@@ -164,14 +155,7 @@ export function EditPlaceForm({ place, onSuccess, onCancel, defaultContributor }
     if (!isCurrentStepValid) return;
     setIsSubmitting(true);
     try {
-      const days = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
-      const operatingHours: Record<string, { open?: string; close?: string; closed?: boolean }> = {};
-      for (const day of days) {
-        const closed = formData[`${day}Closed` as keyof FormData] as boolean;
-        operatingHours[day] = closed
-          ? { closed: true }
-          : { open: (formData[`${day}Open` as keyof FormData] as string) || '10:00', close: (formData[`${day}Close` as keyof FormData] as string) || '22:00' };
-      }
+      const operatingHours = hoursDraftToOperatingHours(formData.hours);
 
       const payload = {
         placeId: place.id,
@@ -179,11 +163,12 @@ export function EditPlaceForm({ place, onSuccess, onCancel, defaultContributor }
         slug: place.slug,
         name: formData.name, description: formData.description, address: formData.address,
         phone: formData.phone || undefined, email: formData.email || undefined, website: formData.website || undefined,
+        links: compactPlaceLinks(formData.links),
         coverImageUrl: formData.coverImageUrl || undefined, logoUrl: formData.logoUrl || undefined,
         photosUrls: place.photosUrls || [], operatingHours, priceRange: formData.priceRange,
         paymentMethods: formData.paymentMethods, cuisineTypes: formData.cuisineTypes,
         specialties: formData.specialties, tags: formData.tags, amenities: formData.amenities,
-        latitude: place.latitude, longitude: place.longitude,
+        ...(pinMoved && location ? { latitude: location.latitude, longitude: location.longitude } : {}),
         contributorName: formData.contributorName || undefined,
         contributorEmail: formData.contributorEmail || undefined,
         contributorGithub: formData.contributorGithub || undefined,
@@ -274,8 +259,8 @@ export function EditPlaceForm({ place, onSuccess, onCancel, defaultContributor }
           >
             {currentStep === 0 && <StepBasics formData={formData} handleChange={handleChange} setFormData={setFormData} />}
             {currentStep === 1 && <StepPhotos formData={formData} setFormData={setFormData} slug={place.slug} />}
-            {currentStep === 2 && <StepLocation formData={formData} handleChange={handleChange} />}
-            {currentStep === 3 && <StepHours formData={formData} handleChange={handleChange} />}
+            {currentStep === 2 && <StepLocation formData={formData} handleChange={handleChange} setFormData={setFormData} />}
+            {currentStep === 3 && <StepHours formData={formData} setFormData={setFormData} />}
             {currentStep === 4 && <StepDetails formData={formData} setFormData={setFormData} />}
             {currentStep === 5 && <StepContributor formData={formData} handleChange={handleChange} />}
           </motion.div>
@@ -343,6 +328,8 @@ function StepHeader({ icon: Icon, label, title, description }: { icon: typeof Ca
 }
 
 function StepBasics({ formData, handleChange, setFormData }: StepProps) {
+  const taxonomy = useTagTaxonomy();
+
   return (
     <div>
       <StepHeader icon={Utensils} label="Step 1" title="Basic information" description="Update the essentials about this place." />
@@ -369,7 +356,7 @@ function StepBasics({ formData, handleChange, setFormData }: StepProps) {
         </div>
         <div>
           <label className="block text-sm font-medium mb-2">Cuisine Types <span className="text-destructive">*</span></label>
-          <TagInput value={formData.cuisineTypes} onChange={(tags) => setFormData!((p) => ({ ...p, cuisineTypes: tags }))} placeholder="e.g., Filipino, Japanese" suggestions={cuisineSuggestions} />
+          <TagInput value={formData.cuisineTypes} onChange={(tags) => setFormData!((p) => ({ ...p, cuisineTypes: tags }))} placeholder="e.g., Filipino, Japanese" suggestions={cuisineSuggestions} canonical={taxonomy ? tagSlugsFor(taxonomy, ['cuisine', 'dietary']) : undefined} aliases={taxonomy?.aliases} />
         </div>
         <div>
           <label className="block text-sm font-medium mb-2">Specialties / Signature Dishes</label>
@@ -392,7 +379,7 @@ function StepPhotos({ formData, setFormData, slug }: StepProps) {
   );
 }
 
-function StepLocation({ formData, handleChange }: StepProps) {
+function StepLocation({ formData, handleChange, setFormData }: StepProps) {
   return (
     <div>
       <StepHeader icon={MapPin} label="Step 3" title="Location & contact" description="Update address and contact details." />
@@ -401,6 +388,12 @@ function StepLocation({ formData, handleChange }: StepProps) {
           <label htmlFor="address" className="block text-sm font-medium mb-1">Street Address <span className="text-destructive">*</span></label>
           <Input id="address" name="address" value={formData.address} onChange={handleChange} placeholder="123 Maginhawa St." />
         </div>
+        <LocationPinField
+          address={formData.address}
+          value={formData.location}
+          onChange={(location) => setFormData?.((prev) => ({ ...prev, location }))}
+          clearable={false}
+        />
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <div>
             <label htmlFor="phone" className="block text-sm font-medium mb-1">Phone Number</label>
@@ -412,53 +405,48 @@ function StepLocation({ formData, handleChange }: StepProps) {
           </div>
         </div>
         <div>
-          <label htmlFor="website" className="block text-sm font-medium mb-1">Website or Facebook Page</label>
+          <label htmlFor="website" className="block text-sm font-medium mb-1">Website</label>
           <Input id="website" name="website" type="url" value={formData.website} onChange={handleChange} placeholder="https://" />
         </div>
+        <div>
+          <h3 className="text-sm font-medium mb-1">Social, delivery and reservation links</h3>
+          <p className="text-xs text-muted-foreground mb-3">Paste the place&apos;s own page on each platform. Clear a field to remove the link.</p>
+          <PlaceLinksEditor
+            value={formData.links}
+            onChange={(links) => setFormData?.((prev) => ({ ...prev, links }))}
+          />
+        </div>
       </div>
     </div>
   );
 }
 
-function StepHours({ formData, handleChange }: StepProps) {
+function StepHours({ formData, setFormData }: StepProps) {
   return (
     <div>
-      <StepHeader icon={Clock} label="Step 4" title="Operating hours" description="Update when this place is open." />
-      <div className="space-y-2">
-        {['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'].map((day) => {
-          const open = `${day}Open` as keyof FormData;
-          const close = `${day}Close` as keyof FormData;
-          const closed = `${day}Closed` as keyof FormData;
-          return (
-            <div key={day} className="flex items-center gap-3 py-1.5">
-              <span className="w-20 text-sm font-medium capitalize">{day.slice(0, 3)}</span>
-              <Input type="time" name={open} value={formData[open] as string} onChange={handleChange} disabled={formData[closed] as boolean} className="w-28 text-sm" />
-              <span className="text-xs text-muted-foreground">to</span>
-              <Input type="time" name={close} value={formData[close] as string} onChange={handleChange} disabled={formData[closed] as boolean} className="w-28 text-sm" />
-              <label className="flex items-center gap-1.5 ml-2 cursor-pointer">
-                <input type="checkbox" name={closed} checked={formData[closed] as boolean} onChange={handleChange} className="rounded" />
-                <span className="text-xs text-muted-foreground">Closed</span>
-              </label>
-            </div>
-          );
-        })}
-      </div>
+      <StepHeader icon={Clock} label="Step 4" title="Operating hours" description="Update when this place is open. Use 'Add hours' for split shifts." />
+      <OperatingHoursEditor
+        value={formData.hours}
+        onChange={(hours) => setFormData?.((prev) => ({ ...prev, hours }))}
+      />
     </div>
   );
 }
 
 function StepDetails({ formData, setFormData }: StepProps) {
+  const taxonomy = useTagTaxonomy();
+
   return (
     <div>
       <StepHeader icon={CreditCard} label="Step 5" title="Tags, amenities & payment" description="Help people find this place with the right filters." />
       <div className="space-y-4">
         <div>
           <label className="block text-sm font-medium mb-2">Tags</label>
-          <TagInput value={formData.tags} onChange={(tags) => setFormData!((p) => ({ ...p, tags }))} placeholder="e.g., casual, cozy" suggestions={tagsSuggestions} />
+          <TagInput value={formData.tags} onChange={(tags) => setFormData!((p) => ({ ...p, tags }))} placeholder="e.g., casual, cozy" suggestions={tagsSuggestions} canonical={taxonomy ? tagSlugsFor(taxonomy, ['atmosphere', 'dietary']) : undefined} aliases={taxonomy?.aliases} />
         </div>
         <div>
           <label className="block text-sm font-medium mb-2">Amenities</label>
-          <TagInput value={formData.amenities} onChange={(tags) => setFormData!((p) => ({ ...p, amenities: tags }))} placeholder="e.g., wifi, parking" suggestions={amenitiesSuggestions} />
+          <TagInput value={formData.amenities} onChange={(tags) => setFormData!((p) => ({ ...p, amenities: tags }))} placeholder="e.g., wifi, parking" suggestions={amenitiesSuggestions} canonical={taxonomy ? tagSlugsFor(taxonomy, ['amenity', 'service']) : undefined} aliases={taxonomy?.aliases} />
         </div>
         <div>
           <label className="block text-sm font-medium mb-2">Payment Methods</label>
@@ -0,0 +1,414 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import Image from 'next/image';
+import { Check, Eye, EyeOff, GripVertical, Images, Pencil, Star, Trash2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  DndContext,
+  KeyboardSensor,
+  PointerSensor,
+  closestCenter,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+} from '@dnd-kit/core';
+import {
+  SortableContext,
+  arrayMove,
+  rectSortingStrategy,
+  sortableKeyboardCoordinates,
+  useSortable,
+} from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { uploadGalleryPhoto } from './photo-upload-dialog';
+import { createClient as createBrowserClient } from '@/lib/supabase/client';
+import { dbRowToPlacePhoto } from '@/lib/supabase/mappers';
+import { csrfFetch } from '@/lib/csrf-client';
+import { MAX_PLACE_PHOTOS, getPhotoCredit } from '@/lib/photos';
+import type { PlacePhoto } from '@/types/place';
+
+interface GalleryEditorProps {
+  placeId: string;
+  placeSlug: string;
+  placeName: string;
+  coverImageUrl?: string;
+}
+
+interface PhotoTileProps {
+  photo: PlacePhoto;
+  isCover: boolean;
+  isBusy: boolean;
+  onEdit: () => void;
+  onCover: () => void;
+  onToggle: () => void;
+  onDelete: () => void;
+}
+
+function PhotoTile({ photo, isCover, isBusy, onEdit, onCover, onToggle, onDelete }: PhotoTileProps) {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
+    id: photo.id,
+    disabled: photo.status !== 'visible',
+  });
+  const credit = getPhotoCredit(photo);
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{ transform: CSS.Transform.toString(transform), transition }}
+      className={`rounded-lg border border-border bg-card overflow-hidden ${isDragging ? 'z-10 shadow-lg' : ''}`}
+    >
+      <div className="relative aspect-square bg-muted">
+        <Image
+          src={photo.url}
+          unoptimized
+          alt={photo.altText || photo.caption || 'Gallery photo'}
+          fill
+          sizes="200px"
+          className={`object-cover ${photo.status === 'hidden' ? 'opacity-40 grayscale' : ''}`}
+        />
+        {photo.status === 'visible' && (
+          <button
+            type="button"
+            {...attributes}
+            {...listeners}
+            className="absolute left-1.5 top-1.5 rounded-md bg-white/90 p-1 text-gray-600 shadow-sm cursor-grab active:cursor-grabbing"
+            aria-label="Drag to reorder"
+          >
+            <GripVertical className="w-4 h-4" />
+          </button>
+        )}
+        {isCover && (
+          <Badge className="absolute right-1.5 top-1.5 text-[10px] bg-honey text-white hover:bg-honey">Cover</Badge>
+        )}
+        {photo.status === 'hidden' && (
+          <Badge variant="outline" className="absolute right-1.5 bottom-1.5 text-[10px] bg-white">Hidden</Badge>
+        )}
+        {photo.status === 'pending' && (
+          <Badge variant="outline" className="absolute right-1.5 bottom-1.5 text-[10px] bg-white text-honey border-honey/30">Pending</Badge>
+        )}
+      </div>
+      <div className="p-2">
+        <p className="text-xs text-gray-700 truncate">{photo.caption || <span className="text-gray-400">No caption</span>}</p>
+        {credit && <p className="text-[10px] text-gray-400 truncate">{credit}</p>}
+        <div className="flex items-center justify-between mt-1.5 -mx-1">
+          <Button size="icon" variant="ghost" className="h-7 w-7" onClick={onEdit} aria-label="Edit caption and alt text">
+            <Pencil className="w-3.5 h-3.5" />
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            className={`h-7 w-7 ${isCover ? 'text-honey' : ''}`}
+            onClick={onCover}
+            disabled={isBusy || isCover || photo.status !== 'visible'}
+            aria-label="Use as cover photo"
+          >
+            <Star className="w-3.5 h-3.5" />
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-7 w-7"
+            onClick={onToggle}
+            disabled={isBusy}
+            aria-label={photo.status === 'visible' ? 'Hide photo' : photo.status === 'pending' ? 'Approve photo' : 'Show photo'}
+          >
+            {photo.status === 'visible'
+              ? <EyeOff className="w-3.5 h-3.5" />
+              : photo.status === 'pending'
+                ? <Check className="w-3.5 h-3.5 text-emerald" />
+                : <Eye className="w-3.5 h-3.5" />}
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-7 w-7 text-destructive hover:text-destructive"
+            onClick={onDelete}
+            disabled={isBusy}
+            aria-label="Delete photo"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Gallery manager for place owners and admins: upload, caption, drag to
+ * reorder, pick the cover, approve visitors' photos and hide or delete
+ * photos. Saves immediately
+ * through /api/places/[id]/photos.
+ */
+export function GalleryEditor({ placeId, placeSlug, placeName, coverImageUrl }: GalleryEditorProps) {
+  const [photos, setPhotos] = useState<PlacePhoto[]>([]);
+  const [coverUrl, setCoverUrl] = useState(coverImageUrl);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUploading, setIsUploading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<PlacePhoto | null>(null);
+  const [draft, setDraft] = useState({ caption: '', altText: '' });
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+  );
+
+  const loadPhotos = useCallback(async () => {
+    const supabase = createBrowserClient();
+    const { data } = await supabase
+      .from('place_photos')
+      .select('*, profiles(display_name)')
+      .eq('place_id', placeId)
+      .order('sort_order')
+      .order('created_at');
+
+    setPhotos((data ?? []).map(dbRowToPlacePhoto));
+    setIsLoading(false);
+  }, [placeId]);
+
+  useEffect(() => { loadPhotos(); }, [loadPhotos]);
+
+  const visible = photos.filter((photo) => photo.status === 'visible');
+  const pending = photos.filter((photo) => photo.status === 'pending');
+  const hidden = photos.filter((photo) => photo.status === 'hidden');
+
+  const request = async (url: string, method: string, body?: object) => {
+    const res = await csrfFetch(url, {
+      method,
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const data = await res.json();
+    if (!res.ok || !data.success) {
+      toast.error(data.error || 'Failed to update the gallery.');
+      return false;
+    }
+    toast.success(data.message);
+    return true;
+  };
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    if (photos.length + files.length > MAX_PLACE_PHOTOS) {
+      toast.error(`A gallery can have at most ${MAX_PLACE_PHOTOS} photos.`);
+      return;
+    }
+
+    setIsUploading(true);
+    let added = 0;
+    try {
+      for (const file of Array.from(files)) {
+        if (await uploadGalleryPhoto(placeId, placeSlug, file)) added++;
+      }
+      if (added > 0) toast.success(`Added ${added} photo${added !== 1 ? 's' : ''}.`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to upload photo.');
+    } finally {
+      setIsUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+      loadPhotos();
+    }
+  };
+
+  const handleDragEnd = async ({ active, over }: DragEndEvent) => {
+    if (!over || active.id === over.id) return;
+
+    const from = visible.findIndex((photo) => photo.id === active.id);
+    const to = visible.findIndex((photo) => photo.id === over.id);
+    if (from < 0 || to < 0) return;
+
+    const reordered = arrayMove(visible, from, to);
+    setPhotos([...reordered, ...pending, ...hidden]);
+
+    const saved = await request(`/api/places/${placeId}/photos`, 'PATCH', {
+      order: reordered.map((photo) => photo.id),
+    });
+    if (!saved) loadPhotos();
+  };
+
+  const handleCover = async (photo: PlacePhoto) => {
+    setBusyId(photo.id);
+    try {
+      if (await request(`/api/places/${placeId}/photos`, 'PATCH', { coverPhotoId: photo.id })) {
+        setCoverUrl(photo.url);
+      }
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleToggle = async (photo: PlacePhoto) => {
+    setBusyId(photo.id);
+    try {
+      const status = photo.status === 'visible' ? 'hidden' : 'visible';
+      if (await request(`/api/places/${placeId}/photos/${photo.id}`, 'PATCH', { status })) loadPhotos();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (photo: PlacePhoto) => {
+    if (!confirm('Delete this photo from the gallery?')) return;
+    setBusyId(photo.id);
+    try {
+      if (await request(`/api/places/${placeId}/photos/${photo.id}`, 'DELETE')) loadPhotos();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const openEditor = (photo: PlacePhoto) => {
+    setDraft({ caption: photo.caption ?? '', altText: photo.altText ?? '' });
+    setEditing(photo);
+  };
+
+  const handleSaveDetails = async () => {
+    if (!editing) return;
+    setBusyId(editing.id);
+    try {
+      if (await request(`/api/places/${placeId}/photos/${editing.id}`, 'PATCH', draft)) {
+        setEditing(null);
+        loadPhotos();
+      }
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const renderTile = (photo: PlacePhoto) => (
+    <PhotoTile
+      key={photo.id}
+      photo={photo}
+      isCover={photo.url === coverUrl}
+      isBusy={busyId === photo.id}
+      onEdit={() => openEditor(photo)}
+      onCover={() => handleCover(photo)}
+      onToggle={() => handleToggle(photo)}
+      onDelete={() => handleDelete(photo)}
+    />
+  );
+
+  return (
+    <Card className="mt-8">
+      <CardHeader className="flex flex-row items-center justify-between gap-2">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Images className="w-5 h-5" />
+            Photo Gallery
+          </CardTitle>
+          <p className="text-sm text-gray-500 mt-1">
+            Drag photos to reorder them and star one to use it as the cover of {placeName}.
+          </p>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="image/jpeg,image/png,image/webp"
+          multiple
+          className="hidden"
+          onChange={(e) => handleFiles(e.target.files)}
+        />
+        <Button
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isUploading}
+          className="gap-1.5 shrink-0"
+        >
+          <Upload className="w-4 h-4" />
+          {isUploading ? 'Uploading...' : 'Upload photos'}
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <p className="text-sm text-gray-500 py-6 text-center">Loading photos...</p>
+        ) : photos.length === 0 ? (
+          <p className="text-sm text-gray-500 py-6 text-center">
+            No photos yet. Upload photos of the food, the menu and the space.
+          </p>
+        ) : (
+          <>
+            <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+              <SortableContext items={visible.map((photo) => photo.id)} strategy={rectSortingStrategy}>
+                <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
+                  {visible.map(renderTile)}
+                </div>
+              </SortableContext>
+            </DndContext>
+
+            {pending.length > 0 && (
+              <div>
+                <h3 className="text-sm font-semibold text-gray-700 mb-2">Waiting for approval ({pending.length})</h3>
+                <p className="text-xs text-gray-500 mb-2">
+                  Photos from visitors. Approve them to add them to the gallery, or delete them.
+                </p>
+                <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
+                  {pending.map(renderTile)}
+                </div>
+              </div>
+            )}
+
+            {hidden.length > 0 && (
+              <div>
+                <h3 className="text-sm font-semibold text-gray-700 mb-2">Hidden ({hidden.length})</h3>
+                <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
+                  {hidden.map(renderTile)}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit photo</DialogTitle>
+            <DialogDescription>
+              The caption is shown in the gallery; alt text describes the photo for screen readers.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <label htmlFor="photo-caption" className="block text-sm font-medium mb-1">Caption</label>
+              <Input
+                id="photo-caption"
+                value={draft.caption}
+                onChange={(e) => setDraft({ ...draft, caption: e.target.value })}
+                maxLength={200}
+              />
+            </div>
+            <div>
+              <label htmlFor="photo-alt" className="block text-sm font-medium mb-1">Alt text</label>
+              <Input
+                id="photo-alt"
+                value={draft.altText}
+                onChange={(e) => setDraft({ ...draft, altText: e.target.value })}
+                maxLength={200}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button onClick={handleSaveDetails} disabled={busyId !== null}>
+              {busyId ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,204 @@
+'use client';
+
+import { useState } from 'react';
+import { CalendarX2, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { csrfFetch } from '@/lib/csrf-client';
+import { formatHoursOverrideDates, formatTime, getManilaDate } from '@/lib/hours';
+import type { HoursOverride } from '@/types/place';
+
+interface HoursOverridesEditorProps {
+  placeId: string;
+  initialOverrides: HoursOverride[];
+}
+
+const emptyDraft = {
+  startDate: '',
+  endDate: '',
+  closed: true,
+  open: '10:00',
+  close: '22:00',
+  note: '',
+};
+
+/**
+ * Special hours editor for place owners and admins
+ * Dated exceptions (holidays, renovations) replace the weekly hours on the
+ * days they cover. Changes are saved immediately.
+ */
+export function HoursOverridesEditor({ placeId, initialOverrides }: HoursOverridesEditorProps) {
+  const [overrides, setOverrides] = useState<HoursOverride[]>(initialOverrides);
+  const [draft, setDraft] = useState(emptyDraft);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const today = getManilaDate();
+
+  const save = async (next: HoursOverride[]) => {
+    setIsSaving(true);
+    try {
+      const res = await csrfFetch(`/api/places/${placeId}/hours-overrides`, {
+        method: 'PUT',
+        body: JSON.stringify({ hoursOverrides: next }),
+      });
+      const data = await res.json();
+      if (!res.ok || !data.success) {
+        toast.error(data.error || 'Failed to update special hours.');
+        return false;
+      }
+      setOverrides(data.hoursOverrides);
+      toast.success(data.message);
+      return true;
+    } catch {
+      toast.error('Something went wrong');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!draft.startDate) {
+      toast.error('Pick a start date.');
+      return;
+    }
+    if (draft.endDate && draft.endDate < draft.startDate) {
+      toast.error('End date must be on or after the start date.');
+      return;
+    }
+
+    const override: HoursOverride = {
+      startDate: draft.startDate,
+      ...(draft.endDate && { endDate: draft.endDate }),
+      ...(draft.closed ? { closed: true } : { open: draft.open, close: draft.close }),
+      ...(draft.note.trim() && { note: draft.note.trim() }),
+    };
+
+    if (await save([...overrides, override])) {
+      setDraft(emptyDraft);
+    }
+  };
+
+  const handleRemove = (index: number) => {
+    save(overrides.filter((_, i) => i !== index));
+  };
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarX2 className="w-5 h-5" />
+          Special Hours
+        </CardTitle>
+        <p className="text-sm text-gray-500 mt-1">
+          Holidays, renovations and other dates when your usual hours don&apos;t apply.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {overrides.length === 0 ? (
+          <p className="text-sm text-gray-500">No special hours set.</p>
+        ) : (
+          <div className="rounded-lg border border-border divide-y divide-border">
+            {overrides.map((override, index) => {
+              const isPast = (override.endDate || override.startDate) < today;
+              return (
+                <div
+                  key={`${override.startDate}-${index}`}
+                  className={`flex items-center gap-3 px-3 py-2 ${isPast ? 'opacity-50' : ''}`}
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium text-gray-900">
+                      {formatHoursOverrideDates(override)}
+                      {isPast && <span className="ml-2 text-xs text-gray-500">(past)</span>}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {override.closed
+                        ? 'Closed'
+                        : `${formatTime(override.open!)} - ${formatTime(override.close!)}`}
+                      {override.note && ` · ${override.note}`}
+                    </div>
+                  </div>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => handleRemove(index)}
+                    disabled={isSaving}
+                    className="text-destructive hover:text-destructive"
+                    aria-label={`Remove special hours for ${formatHoursOverrideDates(override)}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="override-start" className="block text-sm font-medium mb-1">From *</label>
+              <Input
+                id="override-start"
+                type="date"
+                min={today}
+                value={draft.startDate}
+                onChange={(e) => setDraft({ ...draft, startDate: e.target.value })}
+              />
+            </div>
+            <div>
+              <label htmlFor="override-end" className="block text-sm font-medium mb-1">Until</label>
+              <Input
+                id="override-end"
+                type="date"
+                min={draft.startDate || today}
+                value={draft.endDate}
+                onChange={(e) => setDraft({ ...draft, endDate: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="flex items-center gap-3 flex-wrap">
+            <label className="flex items-center gap-1.5 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={draft.closed}
+                onChange={(e) => setDraft({ ...draft, closed: e.target.checked })}
+                className="rounded"
+              />
+              <span className="text-sm">Closed</span>
+            </label>
+            <Input
+              type="time"
+              value={draft.open}
+              onChange={(e) => setDraft({ ...draft, open: e.target.value })}
+              disabled={draft.closed}
+              className="w-28 text-sm"
+              aria-label="Opens at"
+            />
+            <span className="text-xs text-muted-foreground">to</span>
+            <Input
+              type="time"
+              value={draft.close}
+              onChange={(e) => setDraft({ ...draft, close: e.target.value })}
+              disabled={draft.closed}
+              className="w-28 text-sm"
+              aria-label="Closes at"
+            />
+          </div>
+          <Input
+            value={draft.note}
+            onChange={(e) => setDraft({ ...draft, note: e.target.value })}
+            placeholder="Note, e.g., Holy Week, Closed for renovation"
+            maxLength={100}
+          />
+          <Button size="sm" onClick={handleAdd} disabled={isSaving} className="gap-1.5">
+            <Plus className="w-4 h-4" />
+            Add special hours
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
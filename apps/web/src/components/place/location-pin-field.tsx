@@ -0,0 +1,81 @@
+'use client';
+
+import { useMemo } from 'react';
+import { MapPin, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { DynamicLocationPickerMap } from '@/components/map/dynamic-location-picker-map';
+import { suggestPins } from '@/lib/gazetteer';
+import { isInNeighborhood, OUTSIDE_NEIGHBORHOOD_MESSAGE } from '@/lib/neighborhood';
+import type { GeoPoint } from '@/types/place';
+
+interface LocationPinFieldProps {
+  /** Street address, used to suggest where the pin goes */
+  address: string;
+  value?: GeoPoint;
+  onChange: (point: GeoPoint | undefined) => void;
+  /** Show a button to remove the pin */
+  clearable?: boolean;
+}
+
+/**
+ * Map pin for a place's coordinates, with pin suggestions from the address.
+ * Pins outside the neighborhood boundary are flagged; the API rejects them.
+ */
+export function LocationPinField({ address, value, onChange, clearable = true }: LocationPinFieldProps) {
+  const suggestions = useMemo(() => suggestPins(address), [address]);
+  const isOutside = value !== undefined && !isInNeighborhood(value);
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium mb-1">Map pin</h3>
+      <p className="text-xs text-muted-foreground mb-3">
+        Optional. Click the map or drag the pin to the entrance.
+      </p>
+
+      {suggestions.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mb-3">
+          <span className="text-xs text-muted-foreground">From the address:</span>
+          {suggestions.map((suggestion) => (
+            <Button
+              key={suggestion.label}
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={() => onChange(suggestion.point)}
+              className="h-7 gap-1 text-xs"
+            >
+              <MapPin className="w-3 h-3" />
+              {suggestion.label}
+              {suggestion.approximate && <span className="text-muted-foreground">(approx.)</span>}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      <DynamicLocationPickerMap value={value} onChange={onChange} className="h-72" />
+
+      <div className="flex items-center gap-2 mt-2 min-h-7">
+        {value ? (
+          <>
+            <span className="text-xs text-muted-foreground tabular-nums">
+              {value.latitude.toFixed(5)}, {value.longitude.toFixed(5)}
+            </span>
+            {clearable && (
+              <Button type="button" size="sm" variant="ghost" onClick={() => onChange(undefined)} className="h-7 gap-1 text-xs">
+                <X className="w-3 h-3" />
+                Clear pin
+              </Button>
+            )}
+          </>
+        ) : (
+          <span className="text-xs text-muted-foreground">No pin yet.</span>
+        )}
+      </div>
+      {isOutside && (
+        <p className="text-xs text-destructive mt-1">
+          {OUTSIDE_NEIGHBORHOOD_MESSAGE}. Move it inside the dashed line.
+        </p>
+      )}
+    </div>
+  );
+}
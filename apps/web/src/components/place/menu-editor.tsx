@@ -0,0 +1,370 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Image from 'next/image';
+import { Plus, Pencil, Trash2, UtensilsCrossed } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ImageUploadField } from '@/components/ui/image-upload-field';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { createClient as createBrowserClient } from '@/lib/supabase/client';
+import { dbRowToMenuItem } from '@/lib/supabase/mappers';
+import { csrfFetch } from '@/lib/csrf-client';
+import { DIETARY_FLAGS, formatPeso, groupMenuItems } from '@/lib/menu';
+import type { DietaryFlag, MenuItem } from '@/types/place';
+
+interface MenuEditorProps {
+  placeId: string;
+  placeSlug: string;
+}
+
+interface MenuItemDraft {
+  name: string;
+  description: string;
+  price: string;
+  category: string;
+  photoUrl: string;
+  dietaryFlags: DietaryFlag[];
+  isAvailable: boolean;
+}
+
+const emptyDraft: MenuItemDraft = {
+  name: '',
+  description: '',
+  price: '',
+  category: '',
+  photoUrl: '',
+  dietaryFlags: [],
+  isAvailable: true,
+};
+
+function toDraft(item: MenuItem): MenuItemDraft {
+  return {
+    name: item.name,
+    description: item.description ?? '',
+    price: item.price !== undefined ? String(item.price) : '',
+    category: item.category ?? '',
+    photoUrl: item.photoUrl ?? '',
+    dietaryFlags: item.dietaryFlags,
+    isAvailable: item.isAvailable,
+  };
+}
+
+/**
+ * Menu editor for place owners and admins
+ * Saves each item immediately through /api/places/[id]/menu.
+ */
+export function MenuEditor({ placeId, placeSlug }: MenuEditorProps) {
+  const [items, setItems] = useState<MenuItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editing, setEditing] = useState<MenuItem | 'new' | null>(null);
+  const [draft, setDraft] = useState<MenuItemDraft>(emptyDraft);
+  const [isSaving, setIsSaving] = useState(false);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  const loadMenu = useCallback(async () => {
+    const supabase = createBrowserClient();
+    const { data } = await supabase
+      .from('menu_items')
+      .select('*')
+      .eq('place_id', placeId)
+      .order('category', { nullsFirst: false })
+      .order('sort_order')
+      .order('name');
+
+    setItems((data ?? []).map(dbRowToMenuItem));
+    setIsLoading(false);
+  }, [placeId]);
+
+  useEffect(() => { loadMenu(); }, [loadMenu]);
+
+  const categories = Array.from(
+    new Set(items.map((item) => item.category).filter((category): category is string => !!category))
+  );
+
+  const openEditor = (item: MenuItem | 'new') => {
+    setDraft(item === 'new' ? emptyDraft : toDraft(item));
+    setEditing(item);
+  };
+
+  const request = async (url: string, method: string, body?: object) => {
+    const res = await csrfFetch(url, {
+      method,
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const data = await res.json();
+    if (!res.ok || !data.success) {
+      toast.error(data.error || 'Failed to update menu.');
+      return false;
+    }
+    toast.success(data.message);
+    return true;
+  };
+
+  const handleSave = async () => {
+    const price = draft.price.trim() === '' ? null : Number(draft.price);
+    if (price !== null && (Number.isNaN(price) || price < 0)) {
+      toast.error('Enter a valid price in pesos.');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const body = {
+        name: draft.name,
+        description: draft.description,
+        price,
+        category: draft.category,
+        photoUrl: draft.photoUrl,
+        dietaryFlags: draft.dietaryFlags,
+        isAvailable: draft.isAvailable,
+      };
+      const saved = editing === 'new'
+        ? await request(`/api/places/${placeId}/menu`, 'POST', body)
+        : await request(`/api/places/${placeId}/menu/${editing!.id}`, 'PATCH', body);
+
+      if (saved) {
+        setEditing(null);
+        loadMenu();
+      }
+    } catch {
+      toast.error('Something went wrong');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleItemAction = async (item: MenuItem, action: 'toggle' | 'delete') => {
+    if (action === 'delete' && !confirm(`Remove ${item.name} from the menu?`)) return;
+
+    setProcessingId(item.id);
+    try {
+      const url = `/api/places/${placeId}/menu/${item.id}`;
+      const done = action === 'delete'
+        ? await request(url, 'DELETE')
+        : await request(url, 'PATCH', { isAvailable: !item.isAvailable });
+      if (done) loadMenu();
+    } catch {
+      toast.error('Something went wrong');
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const toggleFlag = (flag: DietaryFlag, checked: boolean) => {
+    setDraft((prev) => ({
+      ...prev,
+      dietaryFlags: checked
+        ? [...prev.dietaryFlags, flag]
+        : prev.dietaryFlags.filter((f) => f !== flag),
+    }));
+  };
+
+  return (
+    <Card className="mt-8">
+      <CardHeader className="flex flex-row items-center justify-between gap-2">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <UtensilsCrossed className="w-5 h-5" />
+            Menu
+          </CardTitle>
+          <p className="text-sm text-gray-500 mt-1">
+            Menu changes are saved immediately and show up in dish search.
+          </p>
+        </div>
+        <Button size="sm" onClick={() => openEditor('new')} className="gap-1.5 shrink-0">
+          <Plus className="w-4 h-4" />
+          Add item
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-gray-500 py-6 text-center">Loading menu...</p>
+        ) : items.length === 0 ? (
+          <p className="text-sm text-gray-500 py-6 text-center">
+            No menu items yet. Add your dishes and drinks so people can find them.
+          </p>
+        ) : (
+          <div className="space-y-6">
+            {groupMenuItems(items).map(([category, categoryItems]) => (
+              <div key={category}>
+                <h3 className="text-sm font-semibold text-gray-700 mb-2">{category}</h3>
+                <div className="rounded-lg border border-border divide-y divide-border">
+                  {categoryItems.map((item) => (
+                    <div key={item.id} className="flex items-center gap-3 px-3 py-2">
+                      {item.photoUrl ? (
+                        <Image
+                          src={item.photoUrl}
+                          unoptimized
+                          alt={item.name}
+                          width={40}
+                          height={40}
+                          className="w-10 h-10 rounded-md object-cover shrink-0"
+                        />
+                      ) : (
+                        <div className="w-10 h-10 rounded-md bg-muted shrink-0" />
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className={`text-sm font-medium truncate ${item.isAvailable ? 'text-gray-900' : 'text-gray-400 line-through'}`}>
+                            {item.name}
+                          </span>
+                          {!item.isAvailable && (
+                            <Badge variant="outline" className="text-[10px]">Unavailable</Badge>
+                          )}
+                        </div>
+                        {item.dietaryFlags.length > 0 && (
+                          <div className="text-xs text-gray-500 capitalize">
+                            {item.dietaryFlags.map((flag) => flag.replace(/-/g, ' ')).join(' · ')}
+                          </div>
+                        )}
+                      </div>
+                      <span className="text-sm text-gray-700 shrink-0">
+                        {item.price !== undefined ? formatPeso(item.price) : '—'}
+                      </span>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleItemAction(item, 'toggle')}
+                        disabled={processingId === item.id}
+                        className="text-xs"
+                      >
+                        {item.isAvailable ? 'Mark unavailable' : 'Mark available'}
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => openEditor(item)}
+                        aria-label={`Edit ${item.name}`}
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => handleItemAction(item, 'delete')}
+                        disabled={processingId === item.id}
+                        className="text-destructive hover:text-destructive"
+                        aria-label={`Delete ${item.name}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing === 'new' ? 'Add menu item' : 'Edit menu item'}</DialogTitle>
+            <DialogDescription>Prices are in Philippine pesos. Leave the price blank if it varies.</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div>
+              <label htmlFor="menu-item-name" className="block text-sm font-medium mb-1">Name *</label>
+              <Input
+                id="menu-item-name"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="e.g., Pork Sisig"
+                maxLength={100}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label htmlFor="menu-item-price" className="block text-sm font-medium mb-1">Price (₱)</label>
+                <Input
+                  id="menu-item-price"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  inputMode="decimal"
+                  value={draft.price}
+                  onChange={(e) => setDraft({ ...draft, price: e.target.value })}
+                  placeholder="180"
+                />
+              </div>
+              <div>
+                <label htmlFor="menu-item-category" className="block text-sm font-medium mb-1">Category</label>
+                <Input
+                  id="menu-item-category"
+                  list="menu-categories"
+                  value={draft.category}
+                  onChange={(e) => setDraft({ ...draft, category: e.target.value })}
+                  placeholder="e.g., Rice Meals"
+                  maxLength={60}
+                />
+                <datalist id="menu-categories">
+                  {categories.map((category) => <option key={category} value={category} />)}
+                </datalist>
+              </div>
+            </div>
+            <div>
+              <label htmlFor="menu-item-description" className="block text-sm font-medium mb-1">Description</label>
+              <textarea
+                id="menu-item-description"
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                rows={2}
+                maxLength={500}
+                className="w-full rounded-lg border border-input bg-transparent px-3 py-2 text-sm outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] resize-none"
+              />
+            </div>
+            <div>
+              <span className="block text-sm font-medium mb-2">Dietary</span>
+              <div className="flex flex-wrap gap-x-4 gap-y-2">
+                {DIETARY_FLAGS.map((flag) => (
+                  <label key={flag.value} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={draft.dietaryFlags.includes(flag.value)}
+                      onCheckedChange={(checked) => toggleFlag(flag.value, checked === true)}
+                    />
+                    {flag.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <ImageUploadField
+              type="menu"
+              slug={placeSlug}
+              value={draft.photoUrl}
+              onChange={(url) => setDraft({ ...draft, photoUrl: url })}
+              label="Photo"
+            />
+            <label className="flex items-center gap-2 text-sm cursor-pointer">
+              <Checkbox
+                checked={draft.isAvailable}
+                onCheckedChange={(checked) => setDraft({ ...draft, isAvailable: checked === true })}
+              />
+              Currently available
+            </label>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={isSaving || !draft.name.trim()}>
+              {isSaving ? 'Saving...' : 'Save item'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,59 @@
+'use client';
+
+import { Clock } from 'lucide-react';
+import { useNow } from '@/hooks/use-now';
+import { getOpenStatus, formatOpenStatus } from '@/lib/hours';
+import { getEffectiveStatus, getPlaceStatusLabel } from '@/lib/place-status';
+import { cn } from '@/lib/utils';
+import type { HoursOverride, OperatingHours, PlaceStatus } from '@/types/place';
+
+interface OpenStatusBadgeProps {
+  hours: OperatingHours | undefined;
+  overrides?: HoursOverride[];
+  placeStatus?: PlaceStatus;
+  statusEffectiveDate?: string;
+  className?: string;
+}
+
+/**
+ * Open/closed pill evaluated in Manila time on the client.
+ * Closed and coming-soon places show their status instead of today's hours.
+ * Renders nothing on the server and for places without hours.
+ */
+export function OpenStatusBadge({ hours, overrides, placeStatus, statusEffectiveDate, className }: OpenStatusBadgeProps) {
+  const now = useNow();
+  if (!now) return null;
+
+  const lifecycle = getEffectiveStatus({ status: placeStatus, statusEffectiveDate }, now);
+  if (lifecycle !== 'active') {
+    return (
+      <span
+        className={cn(
+          'inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium',
+          lifecycle === 'coming_soon' ? 'bg-blue-100 text-blue-700' : 'bg-red-100 text-red-700',
+          className
+        )}
+      >
+        <Clock className="w-3 h-3" />
+        {getPlaceStatusLabel(lifecycle)}
+      </span>
+    );
+  }
+
+  const status = getOpenStatus(hours, now, overrides);
+  if (status.unknown) return null;
+
+  return (
+    <span
+      title={status.note}
+      className={cn(
+        'inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium',
+        status.isOpen ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-600',
+        className
+      )}
+    >
+      <Clock className="w-3 h-3" />
+      {formatOpenStatus(status)}
+    </span>
+  );
+}
@@ -0,0 +1,157 @@
+'use client';
+
+import { Copy, Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { getDayIntervals, isClosedValue, toDayEntry } from '@/lib/hours';
+import type { DayOfWeek, OperatingHours, TimeInterval } from '@/types/place';
+
+export type HoursDraft = Record<DayOfWeek, { closed: boolean; intervals: TimeInterval[] }>;
+
+const WEEK: DayOfWeek[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+const WEEKDAYS: DayOfWeek[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'];
+const MAX_INTERVALS = 6;
+
+function defaultInterval(day: DayOfWeek): TimeInterval {
+  return { open: '10:00', close: day === 'friday' || day === 'saturday' ? '23:00' : '22:00' };
+}
+
+export function defaultHoursDraft(): HoursDraft {
+  return Object.fromEntries(
+    WEEK.map((day) => [day, { closed: false, intervals: [defaultInterval(day)] }])
+  ) as HoursDraft;
+}
+
+/**
+ * Editable copy of a place's hours. Days without hours get the default interval.
+ */
+export function hoursDraftFromOperatingHours(hours: OperatingHours): HoursDraft {
+  return Object.fromEntries(
+    WEEK.map((day) => {
+      const entry = hours[day];
+      const intervals = getDayIntervals(entry);
+      return [day, {
+        closed: !!entry && isClosedValue(entry.closed),
+        intervals: intervals.length > 0 ? intervals : [defaultInterval(day)],
+      }];
+    })
+  ) as HoursDraft;
+}
+
+export function hoursDraftToOperatingHours(draft: HoursDraft): OperatingHours {
+  return Object.fromEntries(
+    WEEK.map((day) => [day, toDayEntry(draft[day].intervals, draft[day].closed)])
+  );
+}
+
+interface OperatingHoursEditorProps {
+  value: HoursDraft;
+  onChange: (value: HoursDraft) => void;
+}
+
+/**
+ * Weekly hours editor with split shifts (several intervals per day)
+ * and copying one day's hours to every weekday.
+ */
+export function OperatingHoursEditor({ value, onChange }: OperatingHoursEditorProps) {
+  const updateDay = (day: DayOfWeek, update: Partial<HoursDraft[DayOfWeek]>) => {
+    onChange({ ...value, [day]: { ...value[day], ...update } });
+  };
+
+  const updateInterval = (day: DayOfWeek, index: number, field: keyof TimeInterval, time: string) => {
+    updateDay(day, {
+      intervals: value[day].intervals.map((interval, i) =>
+        i === index ? { ...interval, [field]: time } : interval
+      ),
+    });
+  };
+
+  const copyToWeekdays = (day: DayOfWeek) => {
+    const next = { ...value };
+    for (const weekday of WEEKDAYS) {
+      next[weekday] = { closed: value[day].closed, intervals: value[day].intervals.map((i) => ({ ...i })) };
+    }
+    onChange(next);
+  };
+
+  return (
+    <div className="divide-y divide-border">
+      {WEEK.map((day) => {
+        const { closed, intervals } = value[day];
+        return (
+          <div key={day} className="flex items-start gap-3 py-2.5">
+            <span className="w-12 pt-2 text-sm font-medium capitalize">{day.slice(0, 3)}</span>
+            <div className="flex-1 space-y-1.5">
+              {intervals.map((interval, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    type="time"
+                    value={interval.open}
+                    onChange={(e) => updateInterval(day, index, 'open', e.target.value)}
+                    disabled={closed}
+                    className="w-28 text-sm"
+                    aria-label={`${day} opens`}
+                  />
+                  <span className="text-xs text-muted-foreground">to</span>
+                  <Input
+                    type="time"
+                    value={interval.close}
+                    onChange={(e) => updateInterval(day, index, 'close', e.target.value)}
+                    disabled={closed}
+                    className="w-28 text-sm"
+                    aria-label={`${day} closes`}
+                  />
+                  {intervals.length > 1 && (
+                    <Button
+                      type="button"
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => updateDay(day, { intervals: intervals.filter((_, i) => i !== index) })}
+                      disabled={closed}
+                      className="h-8 w-8"
+                      aria-label={`Remove ${day} interval`}
+                    >
+                      <X className="w-3.5 h-3.5" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+              <div className="flex items-center gap-3 flex-wrap">
+                <label className="flex items-center gap-1.5 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={closed}
+                    onChange={(e) => updateDay(day, { closed: e.target.checked })}
+                    className="rounded"
+                  />
+                  <span className="text-xs text-muted-foreground">Closed</span>
+                </label>
+                {!closed && intervals.length < MAX_INTERVALS && (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      const last = intervals[intervals.length - 1];
+                      updateDay(day, { intervals: [...intervals, { open: last.close, close: last.close }] });
+                    }}
+                    className="flex items-center gap-1 text-xs text-primary hover:underline"
+                  >
+                    <Plus className="w-3 h-3" />
+                    Add hours
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => copyToWeekdays(day)}
+                  className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+                >
+                  <Copy className="w-3 h-3" />
+                  Copy to all weekdays
+                </button>
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
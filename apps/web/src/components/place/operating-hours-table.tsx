@@ -0,0 +1,86 @@
+'use client';
+
+import { useNow } from '@/hooks/use-now';
+import {
+  DAYS_OF_WEEK,
+  findHoursOverride,
+  formatDayHours,
+  formatHoursOverrideDates,
+  getDayIntervals,
+  getManilaDate,
+  getManilaTime,
+  getUpcomingHoursOverrides,
+  isClosedValue,
+} from '@/lib/hours';
+import type { HoursOverride, OperatingHours } from '@/types/place';
+
+interface OperatingHoursTableProps {
+  hours: OperatingHours;
+  overrides?: HoursOverride[];
+}
+
+function formatEntry(entry: OperatingHours[string] | HoursOverride) {
+  return isClosedValue(entry.closed) || getDayIntervals(entry).length === 0
+    ? <span className="text-red-600 font-medium">Closed</span>
+    : <span className="text-gray-600 text-right">{formatDayHours(entry)}</span>;
+}
+
+/**
+ * Weekly hours with this week's special hours applied
+ * Overrides depend on today's date, so they're only shown on the client
+ * (the weekly schedule renders on the server as before).
+ */
+export function OperatingHoursTable({ hours, overrides }: OperatingHoursTableProps) {
+  const now = useNow();
+
+  // Override for each weekday's next occurrence (today through 6 days out)
+  const weekOverrides = new Map<string, HoursOverride>();
+  if (now && overrides?.length) {
+    const todayIndex = DAYS_OF_WEEK.indexOf(getManilaTime(now).day);
+    for (let offset = 0; offset < 7; offset++) {
+      const override = findHoursOverride(overrides, getManilaDate(now, offset));
+      if (override) weekOverrides.set(DAYS_OF_WEEK[(todayIndex + offset) % 7], override);
+    }
+  }
+  const upcoming = now ? getUpcomingHoursOverrides(overrides, now) : [];
+
+  return (
+    <>
+      <div className="space-y-2">
+        {Object.entries(hours).map(([day, entry]) => {
+          const override = weekOverrides.get(day);
+          return (
+            <div key={day} className="flex justify-between items-center py-2">
+              <span className="font-medium capitalize text-gray-700">{day}</span>
+              {override ? (
+                <span className="text-right">
+                  <span className="block text-sm text-gray-400 line-through">{formatEntry(entry)}</span>
+                  {formatEntry(override)}
+                </span>
+              ) : (
+                formatEntry(entry)
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {upcoming.length > 0 && (
+        <div className="mt-4 rounded-lg bg-amber-50 border border-amber-200 p-3">
+          <h3 className="text-sm font-semibold text-amber-900 mb-2">Special hours</h3>
+          <ul className="space-y-1.5">
+            {upcoming.map((override, index) => (
+              <li key={`${override.startDate}-${index}`} className="flex justify-between gap-3 text-sm">
+                <span className="text-amber-900">
+                  {formatHoursOverrideDates(override)}
+                  {override.note && <span className="text-amber-700"> · {override.note}</span>}
+                </span>
+                {formatEntry(override)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </>
+  );
+}
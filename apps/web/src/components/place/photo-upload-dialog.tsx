@@ -0,0 +1,172 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { csrfFetch } from '@/lib/csrf-client';
+import { compressCoverImage, isValidImageSize, isValidImageType, uploadImageToBlob } from '@/lib/image-utils';
+import type { PlacePhoto } from '@/types/place';
+
+/**
+ * Compress and upload an image, then add it to the place's gallery.
+ * Returns the new photo, or null after showing the error.
+ */
+export async function uploadGalleryPhoto(
+  placeId: string,
+  placeSlug: string,
+  file: File,
+  details: { caption?: string; altText?: string } = {}
+): Promise<PlacePhoto | null> {
+  if (!isValidImageType(file)) {
+    toast.error(`${file.name}: only JPEG, PNG and WebP images are allowed.`);
+    return null;
+  }
+  if (!isValidImageSize(file, 10)) {
+    toast.error(`${file.name}: the maximum size is 10MB.`);
+    return null;
+  }
+
+  const compressed = await compressCoverImage(file);
+  const url = await uploadImageToBlob(compressed, 'gallery', placeSlug);
+
+  const res = await csrfFetch(`/api/places/${placeId}/photos`, {
+    body: JSON.stringify({ url, ...details }),
+  });
+  const data = await res.json();
+  if (!res.ok || !data.success) {
+    toast.error(data.error || 'Failed to add photo.');
+    return null;
+  }
+  return data.photo as PlacePhoto;
+}
+
+interface PhotoUploadDialogProps {
+  placeId: string;
+  placeSlug: string;
+  placeName: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onUploaded: (photo: PlacePhoto) => void;
+}
+
+/**
+ * Add one photo with a caption and alt text
+ */
+export function PhotoUploadDialog({
+  placeId,
+  placeSlug,
+  placeName,
+  open,
+  onOpenChange,
+  onUploaded,
+}: PhotoUploadDialogProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [caption, setCaption] = useState('');
+  const [altText, setAltText] = useState('');
+  const [isUploading, setIsUploading] = useState(false);
+
+  const selectFile = (next: File | null) => {
+    if (previewUrl) URL.revokeObjectURL(previewUrl);
+    setFile(next);
+    setPreviewUrl(next ? URL.createObjectURL(next) : null);
+  };
+
+  const reset = () => {
+    selectFile(null);
+    setCaption('');
+    setAltText('');
+  };
+
+  const handleUpload = async () => {
+    if (!file) return;
+    setIsUploading(true);
+    try {
+      const photo = await uploadGalleryPhoto(placeId, placeSlug, file, { caption, altText });
+      if (photo) {
+        toast.success(photo.status === 'pending'
+          ? 'Thanks! Your photo will show up once it is approved.'
+          : 'Thanks! Your photo was added.');
+        onUploaded(photo);
+        reset();
+        onOpenChange(false);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to upload photo.');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => { if (!next) reset(); onOpenChange(next); }}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Add a photo of {placeName}</DialogTitle>
+          <DialogDescription>
+            Share a photo you took. It will be credited to your display name.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <label htmlFor="gallery-photo-file" className="block text-sm font-medium mb-1">Photo *</label>
+            <Input
+              id="gallery-photo-file"
+              type="file"
+              accept="image/jpeg,image/png,image/webp"
+              onChange={(e) => selectFile(e.target.files?.[0] ?? null)}
+            />
+            {previewUrl && (
+              <Image
+                src={previewUrl}
+                alt="Selected photo"
+                width={800}
+                height={224}
+                className="mt-3 max-h-56 w-full rounded-md object-cover"
+                unoptimized
+              />
+            )}
+          </div>
+          <div>
+            <label htmlFor="gallery-photo-caption" className="block text-sm font-medium mb-1">Caption</label>
+            <Input
+              id="gallery-photo-caption"
+              value={caption}
+              onChange={(e) => setCaption(e.target.value)}
+              placeholder="e.g., The second-floor study area"
+              maxLength={200}
+            />
+          </div>
+          <div>
+            <label htmlFor="gallery-photo-alt" className="block text-sm font-medium mb-1">Alt text</label>
+            <Input
+              id="gallery-photo-alt"
+              value={altText}
+              onChange={(e) => setAltText(e.target.value)}
+              placeholder="Describe the photo for screen readers"
+              maxLength={200}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleUpload} disabled={!file || isUploading}>
+            {isUploading ? 'Uploading...' : 'Add photo'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
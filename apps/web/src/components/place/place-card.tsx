@@ -2,19 +2,27 @@
 
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
-import { MapPin, Heart, Star, Image as ImageIcon } from 'lucide-react';
+import { MapPin, Heart, Star, Footprints, ChevronDown, Image as ImageIcon } from 'lucide-react';
 import { PlaceImage } from './place-image';
 import { VerifiedBadge } from './verified-badge';
+import { OpenStatusBadge } from './open-status-badge';
+import { formatWalkingDistance } from '@/lib/geo';
+import { formatBranchCount } from '@/lib/brands';
+import { formatRating, formatReviewCount } from '@/lib/reviews';
+import { csrfFetch } from '@/lib/csrf-client';
 import type { PlaceIndex } from '@/types/place';
 
 interface PlaceCardProps {
   place: PlaceIndex;
+  /** Called when the card is followed to the place page (not on favorite toggles) */
+  onOpen?: () => void;
 }
 
 const FAVORITES_KEY = 'whereinmaginhawa_favorites';
 
-export function PlaceCard({ place }: PlaceCardProps) {
+export function PlaceCard({ place, onOpen }: PlaceCardProps) {
   const [isFavorite, setIsFavorite] = useState(false);
+  const rating = formatRating(place.rating, place.reviewCount);
 
   useEffect(() => {
     const stored = localStorage.getItem(FAVORITES_KEY);
@@ -27,15 +35,21 @@ export function PlaceCard({ place }: PlaceCardProps) {
     e.stopPropagation();
     const stored = localStorage.getItem(FAVORITES_KEY);
     const favorites: string[] = stored ? JSON.parse(stored) : [];
-    const newFavorites = favorites.includes(place.id)
-      ? favorites.filter((id) => id !== place.id)
-      : [...favorites, place.id];
-    setIsFavorite(!favorites.includes(place.id));
+    const favorited = !favorites.includes(place.id);
+    const newFavorites = favorited
+      ? [...favorites, place.id]
+      : favorites.filter((id) => id !== place.id);
+    setIsFavorite(favorited);
     localStorage.setItem(FAVORITES_KEY, JSON.stringify(newFavorites));
+
+    // Count towards "Most favorited"; the local favorite is saved either way
+    csrfFetch(`/api/places/${place.id}/favorite`, {
+      body: JSON.stringify({ favorited }),
+    }).catch((error) => console.info('[place-card] Failed to sync favorite:', error));
   };
 
-  return (
-    <Link href={`/places/${place.slug}`} className="group block">
+  const card = (
+    <Link href={`/places/${place.slug}`} onClick={onOpen} className="group block flex-1">
       <article className="bg-card rounded-2xl overflow-hidden transition-all duration-300 hover:shadow-lg hover:shadow-black/5 h-full flex flex-col">
         {/* Image */}
         <div className="relative aspect-[4/3] bg-muted overflow-hidden">
@@ -77,10 +91,15 @@ export function PlaceCard({ place }: PlaceCardProps) {
         <div className="p-4 flex-1 flex flex-col gap-2.5">
           {/* Rating + Price */}
           <div className="flex items-center justify-between">
-            <div className="flex items-center gap-1">
-              <Star className="w-4 h-4 fill-amber-400 text-amber-400" />
-              <span className="text-sm font-semibold text-foreground">4.0</span>
-            </div>
+            {rating ? (
+              <div className="flex items-center gap-1" aria-label={`Rated ${rating} from ${formatReviewCount(place.reviewCount ?? 0)}`}>
+                <Star className="w-4 h-4 fill-amber-400 text-amber-400" />
+                <span className="text-sm font-semibold text-foreground">{rating}</span>
+                <span className="text-xs text-muted-foreground">({place.reviewCount})</span>
+              </div>
+            ) : (
+              <span className="text-xs text-muted-foreground">No reviews yet</span>
+            )}
             <span className="text-sm font-bold text-emerald-700">{place.priceRange}</span>
           </div>
 
@@ -94,6 +113,15 @@ export function PlaceCard({ place }: PlaceCardProps) {
             )}
           </h3>
 
+          {/* Open status */}
+          <OpenStatusBadge
+            hours={place.operatingHours}
+            overrides={place.hoursOverrides}
+            placeStatus={place.status}
+            statusEffectiveDate={place.statusEffectiveDate}
+            className="self-start"
+          />
+
           {/* Description */}
           <p className="text-sm text-muted-foreground line-clamp-2 leading-relaxed">
             {place.description}
@@ -104,8 +132,71 @@ export function PlaceCard({ place }: PlaceCardProps) {
             <MapPin className="w-3.5 h-3.5 shrink-0" />
             <span className="line-clamp-1">{place.address}</span>
           </div>
+          {place.distanceMeters !== undefined && (
+            <div className="flex items-center gap-1.5 text-xs font-medium text-foreground">
+              <Footprints className="w-3.5 h-3.5 shrink-0" />
+              <span>{formatWalkingDistance(place.distanceMeters)}</span>
+            </div>
+          )}
         </div>
       </article>
     </Link>
   );
+
+  if (!place.branches?.length) return card;
+
+  return (
+    <div className="h-full flex flex-col gap-2">
+      {card}
+      <BranchExpander place={place} branches={place.branches} />
+    </div>
+  );
+}
+
+/**
+ * "2 branches nearby" toggle under a chain's card in grouped search results
+ */
+function BranchExpander({ place, branches }: { place: PlaceIndex; branches: PlaceIndex[] }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const nearby = place.distanceMeters !== undefined;
+
+  return (
+    <div className="bg-card rounded-2xl px-4 py-2.5">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        className="w-full flex items-center justify-between gap-2 text-sm font-medium text-primary"
+        aria-expanded={isOpen}
+      >
+        {formatBranchCount(branches.length, nearby)}
+        <ChevronDown className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <ul className="mt-2 divide-y divide-border">
+          {branches.map((branch) => (
+            <li key={branch.id}>
+              <Link href={`/places/${branch.slug}`} className="block py-2 group">
+                <div className="text-sm font-medium text-foreground group-hover:text-primary line-clamp-1">{branch.name}</div>
+                <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                  <MapPin className="w-3 h-3 shrink-0" />
+                  <span className="line-clamp-1">{branch.address}</span>
+                </div>
+                {branch.distanceMeters !== undefined && (
+                  <div className="text-xs text-foreground mt-0.5">{formatWalkingDistance(branch.distanceMeters)}</div>
+                )}
+              </Link>
+            </li>
+          ))}
+          {place.brand && (
+            <li>
+              <Link href={`/brands/${place.brand.slug}`} className="block py-2 text-xs font-medium text-muted-foreground hover:text-primary">
+                All {place.brand.name} branches
+              </Link>
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
 }
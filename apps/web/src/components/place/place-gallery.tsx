@@ -0,0 +1,192 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { Camera, ChevronLeft, ChevronRight, Images, X } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from '@/components/ui/dialog';
+import { useAuth } from '@/components/auth/auth-provider';
+import { PhotoUploadDialog } from './photo-upload-dialog';
+import { ReportButton } from './report-button';
+import { getPhotoAlt, getPhotoCredit } from '@/lib/photos';
+import type { PlacePhoto } from '@/types/place';
+
+interface PlaceGalleryProps {
+  placeId: string;
+  placeSlug: string;
+  placeName: string;
+  photos: PlacePhoto[];
+}
+
+/** Thumbnails shown before "+N more" */
+const PREVIEW_COUNT = 6;
+
+/**
+ * Photo grid with a lightbox on the place page. Signed-in visitors can
+ * add their own photos, which show up once the owner or an admin approves
+ * them.
+ */
+export function PlaceGallery({ placeId, placeSlug, placeName, photos: initialPhotos }: PlaceGalleryProps) {
+  const { user } = useAuth();
+  const [photos, setPhotos] = useState(initialPhotos);
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const [isUploadOpen, setIsUploadOpen] = useState(false);
+
+  const current = openIndex !== null ? photos[openIndex] : undefined;
+  const hidden = photos.length - PREVIEW_COUNT;
+
+  const step = (delta: number) => {
+    setOpenIndex((index) => index === null ? null : (index + delta + photos.length) % photos.length);
+  };
+
+  const addPhotoButton = user ? (
+    <Button size="sm" variant="outline" onClick={() => setIsUploadOpen(true)} className="gap-1.5 ml-auto">
+      <Camera className="w-4 h-4" />
+      Add photo
+    </Button>
+  ) : (
+    <Button size="sm" variant="outline" asChild className="gap-1.5 ml-auto">
+      <Link href={`/auth/login?redirect=${encodeURIComponent(`/places/${placeSlug}`)}`}>
+        <Camera className="w-4 h-4" />
+        Add photo
+      </Link>
+    </Button>
+  );
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Images className="w-5 h-5" />
+          Photos
+          {photos.length > 0 && <span className="text-sm font-normal text-gray-500">{photos.length}</span>}
+          {addPhotoButton}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {photos.length === 0 ? (
+          <p className="text-sm text-gray-500">No photos yet. Been here? Add the first one.</p>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+            {photos.slice(0, PREVIEW_COUNT).map((photo, index) => (
+              <button
+                key={photo.id}
+                type="button"
+                onClick={() => setOpenIndex(index)}
+                className="relative aspect-square overflow-hidden rounded-lg bg-muted focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+                aria-label={`Open photo ${index + 1} of ${photos.length}`}
+              >
+                <Image
+                  src={photo.url}
+                  unoptimized
+                  alt={getPhotoAlt(photo, placeName)}
+                  fill
+                  sizes="(min-width: 640px) 33vw, 50vw"
+                  className="object-cover transition-transform duration-300 hover:scale-105"
+                />
+                {index === PREVIEW_COUNT - 1 && hidden > 0 && (
+                  <span className="absolute inset-0 flex items-center justify-center bg-black/50 text-lg font-semibold text-white">
+                    +{hidden} more
+                  </span>
+                )}
+              </button>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={current !== undefined} onOpenChange={(open) => !open && setOpenIndex(null)}>
+        <DialogContent
+          className="max-w-4xl border-none bg-black/95 p-0 text-white sm:rounded-xl"
+          onKeyDown={(e) => {
+            if (e.key === 'ArrowLeft') step(-1);
+            if (e.key === 'ArrowRight') step(1);
+          }}
+        >
+          {current && (
+            <div className="relative">
+              <DialogTitle className="sr-only">
+                Photo {openIndex! + 1} of {photos.length} of {placeName}
+              </DialogTitle>
+              <DialogDescription className="sr-only">{getPhotoAlt(current, placeName)}</DialogDescription>
+
+              <div className="relative h-[70vh] w-full">
+                <Image
+                  src={current.url}
+                  unoptimized
+                  alt={getPhotoAlt(current, placeName)}
+                  fill
+                  sizes="(min-width: 896px) 896px, 100vw"
+                  className="object-contain"
+                />
+              </div>
+
+              {photos.length > 1 && (
+                <>
+                  <Button
+                    size="icon"
+                    variant="secondary"
+                    onClick={() => step(-1)}
+                    className="absolute left-3 top-1/2 -translate-y-1/2 rounded-full bg-white/80 hover:bg-white"
+                    aria-label="Previous photo"
+                  >
+                    <ChevronLeft className="w-5 h-5" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="secondary"
+                    onClick={() => step(1)}
+                    className="absolute right-3 top-1/2 -translate-y-1/2 rounded-full bg-white/80 hover:bg-white"
+                    aria-label="Next photo"
+                  >
+                    <ChevronRight className="w-5 h-5" />
+                  </Button>
+                </>
+              )}
+
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => setOpenIndex(null)}
+                className="absolute right-3 top-3 rounded-full text-white hover:bg-white/10 hover:text-white"
+                aria-label="Close"
+              >
+                <X className="w-5 h-5" />
+              </Button>
+
+              <div className="flex items-end justify-between gap-4 px-5 py-4">
+                <div className="min-w-0">
+                  {current.caption && <p className="text-sm">{current.caption}</p>}
+                  {getPhotoCredit(current) && (
+                    <p className="text-xs text-white/60 mt-0.5">{getPhotoCredit(current)}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <ReportButton
+                    targetType="photo"
+                    targetId={current.id}
+                    className="text-white/60 hover:bg-white/10 hover:text-white"
+                  />
+                  <span className="text-xs text-white/60">
+                    {openIndex! + 1} / {photos.length}
+                  </span>
+                </div>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <PhotoUploadDialog
+        placeId={placeId}
+        placeSlug={placeSlug}
+        placeName={placeName}
+        open={isUploadOpen}
+        onOpenChange={setIsUploadOpen}
+        onUploaded={(photo) => photo.status === 'visible' && setPhotos((prev) => [...prev, photo])}
+      />
+    </Card>
+  );
+}
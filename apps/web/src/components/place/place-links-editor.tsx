@@ -0,0 +1,50 @@
+'use client';
+
+import { Input } from '@/components/ui/input';
+import { PLACE_LINK_KEYS, PLACE_LINK_PLATFORMS, isPlatformUrl } from '@/lib/place-links';
+import { PLACE_LINK_ICONS } from './place-links';
+import type { PlaceLinks } from '@/types/place';
+
+interface PlaceLinksEditorProps {
+  value: PlaceLinks;
+  onChange: (links: PlaceLinks) => void;
+  idPrefix?: string;
+}
+
+/**
+ * One URL field per platform, flagged inline when the URL isn't on that
+ * platform. The API runs the same check.
+ */
+export function PlaceLinksEditor({ value, onChange, idPrefix = 'link' }: PlaceLinksEditorProps) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {PLACE_LINK_KEYS.map((platform) => {
+        const { label, placeholder } = PLACE_LINK_PLATFORMS[platform];
+        const Icon = PLACE_LINK_ICONS[platform];
+        const url = value[platform] ?? '';
+        const invalid = url.trim() !== '' && !isPlatformUrl(platform, url.trim());
+        const id = `${idPrefix}-${platform}`;
+
+        return (
+          <div key={platform}>
+            <label htmlFor={id} className="flex items-center gap-1.5 text-sm font-medium mb-1">
+              <Icon className="w-4 h-4 text-gray-500" />
+              {label}
+            </label>
+            <Input
+              id={id}
+              type="url"
+              value={url}
+              onChange={(e) => onChange({ ...value, [platform]: e.target.value })}
+              placeholder={placeholder}
+              aria-invalid={invalid}
+            />
+            {invalid && (
+              <p className="text-xs text-destructive mt-1">Must be a link to a {label} page.</p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
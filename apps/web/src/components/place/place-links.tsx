@@ -0,0 +1,47 @@
+import { Bike, CalendarCheck, Facebook, Instagram, Music2, ShoppingBag, type LucideIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { getPlaceLinks } from '@/lib/place-links';
+import type { PlaceLinkPlatform, PlaceLinks as PlaceLinksValue } from '@/types/place';
+
+export const PLACE_LINK_ICONS: Record<PlaceLinkPlatform, LucideIcon> = {
+  facebook: Facebook,
+  instagram: Instagram,
+  tiktok: Music2,
+  grabfood: Bike,
+  foodpanda: ShoppingBag,
+  reservation: CalendarCheck,
+};
+
+interface PlaceLinksProps {
+  placeName: string;
+  links?: PlaceLinksValue;
+}
+
+/**
+ * Icon buttons for a place's social, delivery and reservation pages
+ */
+export function PlaceLinks({ placeName, links }: PlaceLinksProps) {
+  const items = getPlaceLinks(links);
+  if (items.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {items.map(({ platform, label, url }) => {
+        const Icon = PLACE_LINK_ICONS[platform];
+        return (
+          <Button key={platform} variant="outline" size="icon" asChild className="rounded-full">
+            <a
+              href={url}
+              target="_blank"
+              rel="noopener noreferrer"
+              title={label}
+              aria-label={`${placeName} on ${label}`}
+            >
+              <Icon className="w-4 h-4" />
+            </a>
+          </Button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { UtensilsCrossed } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { PlaceImage } from '@/components/place/place-image';
+import { formatPeso, groupMenuItems } from '@/lib/menu';
+import type { MenuItem } from '@/types/place';
+
+interface PlaceMenuProps {
+  items: MenuItem[];
+}
+
+export function PlaceMenu({ items }: PlaceMenuProps) {
+  if (items.length === 0) return null;
+
+  return (
+    <Card className="shadow-sm" id="menu">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UtensilsCrossed className="w-5 h-5" />
+          Menu
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {groupMenuItems(items).map(([category, categoryItems]) => (
+          <div key={category}>
+            <h3 className="text-sm font-semibold text-gray-700 mb-2">{category}</h3>
+            <div className="divide-y divide-gray-100">
+              {categoryItems.map((item) => (
+                <div
+                  key={item.id}
+                  className={`flex items-start gap-3 py-3 ${item.isAvailable ? '' : 'opacity-50'}`}
+                >
+                  {item.photoUrl && (
+                    <PlaceImage
+                      src={item.photoUrl}
+                      alt={item.name}
+                      className="w-16 h-16 rounded-lg object-cover shrink-0"
+                    />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-baseline justify-between gap-3">
+                      <span className="font-medium text-gray-900">{item.name}</span>
+                      {item.price !== undefined && (
+                        <span className="text-gray-700 shrink-0">{formatPeso(item.price)}</span>
+                      )}
+                    </div>
+                    {item.description && (
+                      <p className="text-sm text-gray-500 mt-0.5">{item.description}</p>
+                    )}
+                    {(item.dietaryFlags.length > 0 || !item.isAvailable) && (
+                      <div className="flex gap-1.5 flex-wrap mt-1.5">
+                        {!item.isAvailable && (
+                          <Badge variant="outline" className="text-xs">Unavailable</Badge>
+                        )}
+                        {item.dietaryFlags.map((flag) => (
+                          <Badge key={flag} variant="secondary" className="text-xs capitalize">
+                            {flag.replace(/-/g, ' ')}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
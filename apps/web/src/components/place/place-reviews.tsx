@@ -0,0 +1,219 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { ArrowUpDown, MessageSquare, PenLine } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAuth } from '@/components/auth/auth-provider';
+import { StarRating } from './star-rating';
+import { ReviewFormDialog } from './review-form-dialog';
+import { ReportButton } from './report-button';
+import { REVIEW_SORT_OPTIONS, formatRating, formatReviewCount, formatReviewDate } from '@/lib/reviews';
+import type { PlaceReview, ReviewSort } from '@/types/place';
+
+interface PlaceReviewsProps {
+  placeId: string;
+  placeSlug: string;
+  placeName: string;
+  rating?: number;
+  /** First page of reviews, newest first */
+  reviews: PlaceReview[];
+  total: number;
+}
+
+/**
+ * Reviews on the place page: the rating, a sortable list, and a form for
+ * signed-in visitors to write or edit their own review
+ */
+export function PlaceReviews({ placeId, placeSlug, placeName, rating: initialRating, reviews: initialReviews, total: initialTotal }: PlaceReviewsProps) {
+  const { user } = useAuth();
+  const [reviews, setReviews] = useState(initialReviews);
+  const [total, setTotal] = useState(initialTotal);
+  const [rating, setRating] = useState(initialRating);
+  const [sort, setSort] = useState<ReviewSort>('newest');
+  const [ownReview, setOwnReview] = useState<PlaceReview | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+
+  const load = async (nextSort: ReviewSort, offset = 0) => {
+    setIsLoading(true);
+    try {
+      const res = await fetch(`/api/places/${placeId}/reviews?sort=${nextSort}&offset=${offset}`);
+      const data = await res.json();
+      if (!res.ok || !data.success) {
+        toast.error(data.error || 'Failed to load reviews.');
+        return;
+      }
+      setReviews((prev) => (offset === 0 ? data.reviews : [...prev, ...data.reviews]));
+      setTotal(data.total);
+      setRating(data.rating ?? undefined);
+      setOwnReview(data.ownReview);
+    } catch {
+      toast.error('Failed to load reviews.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // The user's own review isn't part of the server-rendered page
+  useEffect(() => {
+    if (user) load(sort);
+    else setOwnReview(null);
+  }, [user?.id]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const changeSort = (nextSort: ReviewSort) => {
+    setSort(nextSort);
+    load(nextSort);
+  };
+
+  const loginHref = `/auth/login?redirect=${encodeURIComponent(`/places/${placeSlug}`)}`;
+  // A hidden review can't be edited, deleted or replaced
+  const writeButton = ownReview?.status === 'hidden' ? null : user ? (
+    <Button size="sm" variant="outline" onClick={() => setIsFormOpen(true)} className="gap-1.5 ml-auto">
+      <PenLine className="w-4 h-4" />
+      {ownReview ? 'Edit your review' : 'Write a review'}
+    </Button>
+  ) : (
+    <Button size="sm" variant="outline" asChild className="gap-1.5 ml-auto">
+      <Link href={loginHref}>
+        <PenLine className="w-4 h-4" />
+        Write a review
+      </Link>
+    </Button>
+  );
+
+  const shownRating = formatRating(rating, total);
+
+  return (
+    <Card className="shadow-sm" id="reviews">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquare className="w-5 h-5" />
+          Reviews
+          {writeButton}
+        </CardTitle>
+        {shownRating && rating !== undefined && (
+          <div className="flex items-center gap-2 pt-1">
+            <span className="text-2xl font-bold">{shownRating}</span>
+            <StarRating value={rating} />
+            <span className="text-sm text-gray-500">{formatReviewCount(total)}</span>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {ownReview?.status === 'hidden' && (
+          <p className="rounded-md bg-amber-50 px-3 py-2 text-sm text-amber-800">
+            Your review was hidden by a moderator and is only visible to you. It can no longer be edited or deleted.
+          </p>
+        )}
+
+        {total === 0 ? (
+          <p className="text-sm text-gray-500">No reviews yet. Been here? Be the first to review it.</p>
+        ) : (
+          <>
+            <div className="flex justify-end">
+              <Select value={sort} onValueChange={(v) => changeSort(v as ReviewSort)}>
+                <SelectTrigger size="sm" className="rounded-full bg-card" aria-label="Sort reviews by">
+                  <ArrowUpDown className="w-4 h-4" />
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent align="end" position="popper">
+                  {REVIEW_SORT_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="divide-y divide-border">
+              {reviews.map((review) => (
+                <ReviewItem key={review.id} review={review} placeName={placeName} isOwn={review.userId === user?.id} />
+              ))}
+            </div>
+
+            {reviews.length < total && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => load(sort, reviews.length)}
+                disabled={isLoading}
+                className="w-full"
+              >
+                {isLoading ? 'Loading...' : `Show more reviews (${total - reviews.length} more)`}
+              </Button>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      {user && (
+        <ReviewFormDialog
+          key={ownReview ? `${ownReview.id}-${ownReview.updatedAt}` : 'new'}
+          placeId={placeId}
+          placeSlug={placeSlug}
+          placeName={placeName}
+          review={ownReview ?? undefined}
+          open={isFormOpen}
+          onOpenChange={setIsFormOpen}
+          onSaved={() => load(sort)}
+          onDeleted={() => load(sort)}
+        />
+      )}
+    </Card>
+  );
+}
+
+function ReviewItem({ review, placeName, isOwn }: { review: PlaceReview; placeName: string; isOwn: boolean }) {
+  const author = review.authorName || 'Anonymous';
+
+  return (
+    <article className="py-4 first:pt-0 last:pb-0">
+      <div className="flex items-center gap-2 flex-wrap">
+        <span className="font-medium text-sm">{author}</span>
+        {isOwn && <span className="text-xs text-gray-500">(you)</span>}
+        <StarRating value={review.rating} starClassName="w-3.5 h-3.5" />
+        <span className="text-xs text-gray-500 ml-auto">
+          {formatReviewDate(review.createdAt)}
+          {review.updatedAt.slice(0, 10) !== review.createdAt.slice(0, 10) && ' (edited)'}
+        </span>
+      </div>
+      {review.visitedOn && (
+        <p className="text-xs text-gray-500 mt-0.5">Visited {formatReviewDate(review.visitedOn)}</p>
+      )}
+      <p className="text-sm text-gray-700 mt-2 whitespace-pre-line">{review.body}</p>
+      {review.photoUrls.length > 0 && (
+        <div className="flex gap-2 mt-3">
+          {review.photoUrls.map((url, index) => (
+            <a key={url} href={url} target="_blank" rel="noopener noreferrer" className="relative w-20 h-20 overflow-hidden rounded-md bg-muted">
+              <Image
+                src={url}
+                unoptimized
+                alt={`Photo ${index + 1} from ${author}'s review of ${placeName}`}
+                fill
+                sizes="80px"
+                className="object-cover"
+              />
+            </a>
+          ))}
+        </div>
+      )}
+      {!isOwn && (
+        <div className="flex justify-end mt-1">
+          <ReportButton targetType="review" targetId={review.id} />
+        </div>
+      )}
+    </article>
+  );
+}
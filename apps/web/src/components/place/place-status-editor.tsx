@@ -0,0 +1,117 @@
+'use client';
+
+import { useState } from 'react';
+import { Store } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { csrfFetch } from '@/lib/csrf-client';
+import { PLACE_STATUSES } from '@/lib/place-status';
+import type { PlaceStatus } from '@/types/place';
+
+interface PlaceStatusEditorProps {
+  placeId: string;
+  initialStatus: PlaceStatus;
+  initialEffectiveDate?: string;
+}
+
+const DATE_LABELS: Record<PlaceStatus, string> = {
+  active: '',
+  temporarily_closed: 'Closed from',
+  permanently_closed: 'Closed from',
+  coming_soon: 'Opening on',
+};
+
+/**
+ * Lifecycle status editor for place owners and admins
+ * Closed places leave search results but keep their page with a notice.
+ */
+export function PlaceStatusEditor({ placeId, initialStatus, initialEffectiveDate }: PlaceStatusEditorProps) {
+  const [status, setStatus] = useState<PlaceStatus>(initialStatus);
+  const [effectiveDate, setEffectiveDate] = useState(initialEffectiveDate ?? '');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    if (status === 'permanently_closed' && !confirm('Mark this place as permanently closed? It will be hidden from search.')) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const res = await csrfFetch(`/api/places/${placeId}/status`, {
+        method: 'PUT',
+        body: JSON.stringify({ status, statusEffectiveDate: effectiveDate || null }),
+      });
+      const data = await res.json();
+      if (!res.ok || !data.success) {
+        toast.error(data.error || 'Failed to update status.');
+        return;
+      }
+      setEffectiveDate(data.statusEffectiveDate ?? '');
+      toast.success(data.message);
+    } catch {
+      toast.error('Something went wrong');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Store className="w-5 h-5" />
+          Business Status
+        </CardTitle>
+        <p className="text-sm text-gray-500 mt-1">
+          Closed places are hidden from search. Their page stays up with a notice.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {PLACE_STATUSES.map((option) => (
+            <label
+              key={option.value}
+              className={`flex items-center gap-2 rounded-lg border px-3 py-2 text-sm cursor-pointer ${
+                status === option.value ? 'border-primary bg-primary/5' : 'border-border'
+              }`}
+            >
+              <input
+                type="radio"
+                name="place-status"
+                checked={status === option.value}
+                onChange={() => setStatus(option.value)}
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+
+        {status !== 'active' && (
+          <div>
+            <label htmlFor="status-date" className="block text-sm font-medium mb-1">
+              {DATE_LABELS[status]}
+            </label>
+            <Input
+              id="status-date"
+              type="date"
+              value={effectiveDate}
+              onChange={(e) => setEffectiveDate(e.target.value)}
+              className="w-48"
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              {status === 'coming_soon'
+                ? 'Optional. From this date the place is listed as open.'
+                : 'Optional. Until this date the place is listed as open.'}
+            </p>
+          </div>
+        )}
+
+        <Button size="sm" onClick={handleSave} disabled={isSaving}>
+          {isSaving ? 'Saving...' : 'Save status'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,55 @@
+import { CalendarClock, DoorClosed } from 'lucide-react';
+import { formatStatusDate, getEffectiveStatus } from '@/lib/place-status';
+import type { Place } from '@/types/place';
+
+interface PlaceStatusNoticeProps {
+  place: Pick<Place, 'name' | 'status' | 'statusEffectiveDate'>;
+}
+
+/**
+ * Banner for places that are closed, coming soon or closing on a set date.
+ * Renders nothing for active places.
+ */
+export function PlaceStatusNotice({ place }: PlaceStatusNoticeProps) {
+  const status = place.status ?? 'active';
+  if (status === 'active') return null;
+
+  const effective = getEffectiveStatus(place);
+  const date = place.statusEffectiveDate ? formatStatusDate(place.statusEffectiveDate) : undefined;
+
+  let title: string;
+  let message: string;
+  let tone: string;
+  if (effective === 'permanently_closed') {
+    title = 'Permanently closed';
+    message = `${place.name} has closed for good${date ? ` as of ${date}` : ''}. Details are kept here for reference.`;
+    tone = 'bg-red-50 border-red-200 text-red-900';
+  } else if (effective === 'temporarily_closed') {
+    title = 'Temporarily closed';
+    message = `${place.name} is temporarily closed${date ? ` since ${date}` : ''}. Check their social pages before visiting.`;
+    tone = 'bg-amber-50 border-amber-200 text-amber-900';
+  } else if (effective === 'coming_soon') {
+    title = 'Coming soon';
+    message = `${place.name} hasn't opened yet${date ? `. Opening on ${date}` : ''}.`;
+    tone = 'bg-blue-50 border-blue-200 text-blue-900';
+  } else if (status !== 'coming_soon' && date) {
+    // Closure announced for a future date
+    title = status === 'permanently_closed' ? 'Closing for good' : 'Closing temporarily';
+    message = `${place.name} will close on ${date}.`;
+    tone = 'bg-amber-50 border-amber-200 text-amber-900';
+  } else {
+    return null;
+  }
+
+  const Icon = effective === 'coming_soon' ? CalendarClock : DoorClosed;
+
+  return (
+    <div role="status" className={`flex items-start gap-3 rounded-lg border p-4 ${tone}`}>
+      <Icon className="w-5 h-5 mt-0.5 shrink-0" />
+      <div>
+        <p className="font-semibold">{title}</p>
+        <p className="text-sm opacity-90">{message}</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
+import { Flag } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useAuth } from '@/components/auth/auth-provider';
+import { csrfFetch } from '@/lib/csrf-client';
+import { REPORT_REASONS, REPORT_TARGET_LABELS } from '@/lib/reports';
+import { cn } from '@/lib/utils';
+import type { ReportReason, ReportTargetType } from '@/types/place';
+
+interface ReportButtonProps {
+  targetType: ReportTargetType;
+  /** Review or photo ID, or the place ID for a description */
+  targetId: string;
+  className?: string;
+}
+
+/**
+ * Small "Report" link that opens a dialog for flagging content to the
+ * admins. Signed-out visitors are sent to log in first.
+ */
+export function ReportButton({ targetType, targetId, className }: ReportButtonProps) {
+  const { user } = useAuth();
+  const pathname = usePathname();
+  const [isOpen, setIsOpen] = useState(false);
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState('');
+  const [isSending, setIsSending] = useState(false);
+
+  const label = REPORT_TARGET_LABELS[targetType].toLowerCase();
+  const buttonClass = cn('h-7 gap-1 px-2 text-xs text-muted-foreground hover:text-foreground', className);
+
+  if (!user) {
+    return (
+      <Button size="sm" variant="ghost" asChild className={buttonClass}>
+        <Link href={`/auth/login?redirect=${encodeURIComponent(pathname)}`} aria-label={`Report this ${label}`}>
+          <Flag className="w-3 h-3" />
+          Report
+        </Link>
+      </Button>
+    );
+  }
+
+  const handleSend = async () => {
+    if (!reason) return;
+    setIsSending(true);
+    try {
+      const res = await csrfFetch('/api/reports', {
+        body: JSON.stringify({ targetType, targetId, reason, details }),
+      });
+      const data = await res.json();
+      if (!res.ok || !data.success) {
+        toast.error(data.error || 'Failed to send report.');
+        return;
+      }
+      toast.success(data.message);
+      setIsOpen(false);
+      setReason(null);
+      setDetails('');
+    } catch {
+      toast.error('An error occurred.');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        size="sm"
+        variant="ghost"
+        onClick={() => setIsOpen(true)}
+        className={buttonClass}
+        aria-label={`Report this ${label}`}
+      >
+        <Flag className="w-3 h-3" />
+        Report
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Report this {label}</DialogTitle>
+            <DialogDescription>
+              An admin will look at it and hide it if it breaks the rules.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2" role="radiogroup" aria-label="Reason">
+            {REPORT_REASONS.map((option) => (
+              <label
+                key={option.value}
+                className={cn(
+                  'flex cursor-pointer items-start gap-3 rounded-md border px-3 py-2',
+                  reason === option.value ? 'border-primary bg-primary/5' : 'border-border hover:bg-muted'
+                )}
+              >
+                <input
+                  type="radio"
+                  name={`report-reason-${targetId}`}
+                  value={option.value}
+                  checked={reason === option.value}
+                  onChange={() => setReason(option.value)}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="block text-sm font-medium">{option.label}</span>
+                  <span className="block text-xs text-muted-foreground">{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          <div>
+            <label htmlFor={`report-details-${targetId}`} className="block text-sm font-medium mb-1">
+              Details <span className="font-normal text-muted-foreground">(optional)</span>
+            </label>
+            <textarea
+              id={`report-details-${targetId}`}
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              rows={3}
+              maxLength={500}
+              placeholder="Anything that helps us check it"
+              className="w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsOpen(false)}>Cancel</Button>
+            <Button onClick={handleSend} disabled={!reason || isSending}>
+              {isSending ? 'Sending...' : 'Send report'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,228 @@
+'use client';
+
+import { useState } from 'react';
+import Image from 'next/image';
+import { ImagePlus, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { StarRatingInput } from './star-rating';
+import { csrfFetch } from '@/lib/csrf-client';
+import { compressCoverImage, isValidImageSize, isValidImageType, uploadImageToBlob } from '@/lib/image-utils';
+import { getManilaDate } from '@/lib/hours';
+import { MAX_REVIEW_PHOTOS } from '@/lib/reviews';
+import type { PlaceReview } from '@/types/place';
+
+interface ReviewFormDialogProps {
+  placeId: string;
+  placeSlug: string;
+  placeName: string;
+  /** The user's current review; the form edits it instead of posting a new one */
+  review?: PlaceReview;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (review: PlaceReview) => void;
+  onDeleted: () => void;
+}
+
+/**
+ * Write or edit your review of a place: stars, text, visit date and photos
+ */
+export function ReviewFormDialog({
+  placeId,
+  placeSlug,
+  placeName,
+  review,
+  open,
+  onOpenChange,
+  onSaved,
+  onDeleted,
+}: ReviewFormDialogProps) {
+  const [rating, setRating] = useState(review?.rating ?? 0);
+  const [body, setBody] = useState(review?.body ?? '');
+  const [visitedOn, setVisitedOn] = useState(review?.visitedOn ?? '');
+  const [photoUrls, setPhotoUrls] = useState<string[]>(review?.photoUrls ?? []);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const today = getManilaDate();
+
+  const addPhotos = async (files: File[]) => {
+    const room = MAX_REVIEW_PHOTOS - photoUrls.length;
+    if (files.length > room) {
+      toast.error(`A review can have at most ${MAX_REVIEW_PHOTOS} photos.`);
+    }
+
+    setIsUploading(true);
+    try {
+      for (const file of files.slice(0, room)) {
+        if (!isValidImageType(file)) {
+          toast.error(`${file.name}: only JPEG, PNG and WebP images are allowed.`);
+          continue;
+        }
+        if (!isValidImageSize(file, 10)) {
+          toast.error(`${file.name}: the maximum size is 10MB.`);
+          continue;
+        }
+        const compressed = await compressCoverImage(file);
+        const url = await uploadImageToBlob(compressed, 'review', placeSlug);
+        setPhotoUrls((prev) => [...prev, url]);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to upload photo.');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const res = await csrfFetch(`/api/places/${placeId}/reviews`, {
+        method: review ? 'PATCH' : 'POST',
+        body: JSON.stringify({ rating, body, visitedOn, photoUrls }),
+      });
+      const data = await res.json();
+      if (!res.ok || !data.success) {
+        const details = data.details as Record<string, { _errors?: string[] }> | undefined;
+        const firstError = details && Object.values(details).flatMap((field) => field?._errors ?? [])[0];
+        toast.error(firstError || data.error || 'Failed to save review.');
+        return;
+      }
+      toast.success(data.message);
+      onSaved(data.review as PlaceReview);
+      onOpenChange(false);
+    } catch {
+      toast.error('An error occurred.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm('Delete your review? This cannot be undone.')) return;
+    setIsSaving(true);
+    try {
+      const res = await csrfFetch(`/api/places/${placeId}/reviews`, { method: 'DELETE' });
+      const data = await res.json();
+      if (!res.ok || !data.success) {
+        toast.error(data.error || 'Failed to delete review.');
+        return;
+      }
+      toast.success(data.message);
+      onDeleted();
+      onOpenChange(false);
+    } catch {
+      toast.error('An error occurred.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{review ? 'Edit your review' : `Review ${placeName}`}</DialogTitle>
+          <DialogDescription>
+            Share what you ordered and how it was. Your review shows your display name.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <label htmlFor="review-rating" className="block text-sm font-medium mb-1">Rating *</label>
+            <StarRatingInput id="review-rating" value={rating} onChange={setRating} />
+          </div>
+          <div>
+            <label htmlFor="review-body" className="block text-sm font-medium mb-1">Review *</label>
+            <textarea
+              id="review-body"
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              placeholder="What did you order? How was the food, service and vibe?"
+              rows={5}
+              maxLength={2000}
+              className="w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+            />
+            <p className="text-xs text-muted-foreground mt-1">{body.trim().length}/2000, at least 10 characters</p>
+          </div>
+          <div>
+            <label htmlFor="review-visited-on" className="block text-sm font-medium mb-1">Date of visit</label>
+            <Input
+              id="review-visited-on"
+              type="date"
+              value={visitedOn}
+              max={today}
+              onChange={(e) => setVisitedOn(e.target.value)}
+              className="w-48"
+            />
+          </div>
+          <div>
+            <label htmlFor="review-photos" className="block text-sm font-medium mb-1">
+              Photos <span className="font-normal text-muted-foreground">(up to {MAX_REVIEW_PHOTOS})</span>
+            </label>
+            {photoUrls.length > 0 && (
+              <div className="grid grid-cols-4 gap-2 mb-2">
+                {photoUrls.map((url) => (
+                  <div key={url} className="relative aspect-square overflow-hidden rounded-md bg-muted">
+                    <Image src={url} alt="Review photo" fill sizes="96px" unoptimized className="object-cover" />
+                    <button
+                      type="button"
+                      onClick={() => setPhotoUrls((prev) => prev.filter((other) => other !== url))}
+                      className="absolute right-1 top-1 rounded-full bg-black/60 p-0.5 text-white hover:bg-black/80"
+                      aria-label="Remove photo"
+                    >
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+            {photoUrls.length < MAX_REVIEW_PHOTOS && (
+              <label
+                htmlFor="review-photos"
+                className="inline-flex cursor-pointer items-center gap-1.5 rounded-md border border-input px-3 py-1.5 text-sm hover:bg-accent"
+              >
+                <ImagePlus className="w-4 h-4" />
+                {isUploading ? 'Uploading...' : 'Add photos'}
+                <input
+                  id="review-photos"
+                  type="file"
+                  accept="image/jpeg,image/png,image/webp"
+                  multiple
+                  disabled={isUploading}
+                  onChange={(e) => {
+                    addPhotos(Array.from(e.target.files ?? []));
+                    e.target.value = '';
+                  }}
+                  className="sr-only"
+                />
+              </label>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          {review && (
+            <Button variant="ghost" onClick={handleDelete} disabled={isSaving} className="text-destructive hover:text-destructive sm:mr-auto">
+              Delete review
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={rating === 0 || body.trim().length < 10 || isUploading || isSaving}>
+            {isSaving ? 'Saving...' : review ? 'Save changes' : 'Post review'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
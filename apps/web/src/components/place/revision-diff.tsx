@@ -0,0 +1,118 @@
+import { DAYS_OF_WEEK, formatDayHours, isClosedValue } from '@/lib/hours';
+import { getRevisionFieldLabel } from '@/lib/revisions';
+import type { OperatingHours, RevisionFieldChange } from '@/types/place';
+
+interface RevisionDiffProps {
+  changes: RevisionFieldChange[];
+}
+
+function formatScalar(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '(empty)';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'object') return JSON.stringify(value, null, 2);
+  return String(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+function formatHoursEntry(entry: OperatingHours[string] | undefined): string {
+  if (!entry) return '(not set)';
+  return isClosedValue(entry.closed) ? 'Closed' : formatDayHours(entry) || 'Closed';
+}
+
+/** Added and removed items of a list field */
+function ListDiff({ old, next }: { old: string[]; next: string[] }) {
+  const removed = old.filter((item) => !next.includes(item));
+  const added = next.filter((item) => !old.includes(item));
+  const kept = next.length - added.length;
+
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {removed.map((item) => (
+        <span key={`-${item}`} className="rounded bg-red-50 px-1.5 py-0.5 text-xs text-red-700 line-through break-all">
+          {item}
+        </span>
+      ))}
+      {added.map((item) => (
+        <span key={`+${item}`} className="rounded bg-emerald-50 px-1.5 py-0.5 text-xs text-emerald-700 break-all">
+          + {item}
+        </span>
+      ))}
+      {removed.length === 0 && added.length === 0 && (
+        <span className="text-xs text-gray-500">Reordered</span>
+      )}
+      {kept > 0 && <span className="text-xs text-gray-400">{kept} unchanged</span>}
+    </div>
+  );
+}
+
+/** Weekly hours, only the days that changed */
+function HoursDiff({ old, next }: { old: OperatingHours; next: OperatingHours }) {
+  const days = DAYS_OF_WEEK.filter(
+    (day) => formatHoursEntry(old[day]) !== formatHoursEntry(next[day])
+  );
+
+  return (
+    <div className="space-y-1">
+      {days.map((day) => (
+        <div key={day} className="flex flex-wrap items-baseline gap-2 text-xs">
+          <span className="w-20 font-medium capitalize text-gray-700">{day}</span>
+          <span className="text-red-700 line-through">{formatHoursEntry(old[day])}</span>
+          <span className="text-emerald-700">{formatHoursEntry(next[day])}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function ValueDiff({ change }: { change: RevisionFieldChange }) {
+  if (change.field === 'operating_hours') {
+    return (
+      <HoursDiff
+        old={(change.old ?? {}) as OperatingHours}
+        next={(change.new ?? {}) as OperatingHours}
+      />
+    );
+  }
+
+  if ((change.old === null || isStringArray(change.old)) && isStringArray(change.new)) {
+    return <ListDiff old={(change.old as string[] | null) ?? []} next={change.new} />;
+  }
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+      <div className="rounded-md border border-red-100 bg-red-50 p-2">
+        <p className="text-[10px] font-medium uppercase text-red-400 mb-0.5">Before</p>
+        <p className="text-xs text-red-700 whitespace-pre-wrap break-words">{formatScalar(change.old)}</p>
+      </div>
+      <div className="rounded-md border border-emerald-100 bg-emerald-50 p-2">
+        <p className="text-[10px] font-medium uppercase text-emerald-500 mb-0.5">After</p>
+        <p className="text-xs text-emerald-700 whitespace-pre-wrap break-words">{formatScalar(change.new)}</p>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Field-by-field view of what a revision changed
+ */
+export function RevisionDiff({ changes }: RevisionDiffProps) {
+  if (changes.length === 0) {
+    return <p className="text-xs text-gray-500">No visible changes.</p>;
+  }
+
+  return (
+    <div className="divide-y divide-gray-100">
+      {changes.map((change) => (
+        <div key={change.field} className="py-2.5 first:pt-0 last:pb-0">
+          <p className="text-xs font-medium uppercase tracking-wider text-gray-500 mb-1.5">
+            {getRevisionFieldLabel(change.field)}
+          </p>
+          <ValueDiff change={change} />
+        </div>
+      ))}
+    </div>
+  );
+}
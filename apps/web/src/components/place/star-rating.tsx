@@ -0,0 +1,65 @@
+'use client';
+
+import { useState } from 'react';
+import { Star } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+const STARS = [1, 2, 3, 4, 5];
+
+interface StarRatingProps {
+  /** 0-5; halves and up round to the next star */
+  value: number;
+  className?: string;
+  starClassName?: string;
+}
+
+/**
+ * Read-only row of five stars
+ */
+export function StarRating({ value, className, starClassName = 'w-4 h-4' }: StarRatingProps) {
+  const filled = Math.round(value);
+  return (
+    <span className={cn('inline-flex items-center gap-0.5', className)} role="img" aria-label={`${value} out of 5 stars`}>
+      {STARS.map((star) => (
+        <Star
+          key={star}
+          className={cn(starClassName, star <= filled ? 'fill-amber-400 text-amber-400' : 'text-gray-300')}
+          aria-hidden
+        />
+      ))}
+    </span>
+  );
+}
+
+interface StarRatingInputProps {
+  value: number;
+  onChange: (value: number) => void;
+  id?: string;
+}
+
+/**
+ * Five star buttons for picking a 1-5 rating
+ */
+export function StarRatingInput({ value, onChange, id }: StarRatingInputProps) {
+  const [hovered, setHovered] = useState(0);
+  const shown = hovered || value;
+
+  return (
+    <div id={id} className="flex items-center gap-1" role="radiogroup" aria-label="Rating" onMouseLeave={() => setHovered(0)}>
+      {STARS.map((star) => (
+        <button
+          key={star}
+          type="button"
+          role="radio"
+          aria-checked={value === star}
+          aria-label={`${star} ${star === 1 ? 'star' : 'stars'}`}
+          onClick={() => onChange(star)}
+          onMouseEnter={() => setHovered(star)}
+          className="rounded p-0.5 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+        >
+          <Star className={cn('w-7 h-7 transition-colors', star <= shown ? 'fill-amber-400 text-amber-400' : 'text-gray-300')} />
+        </button>
+      ))}
+    </div>
+  );
+}
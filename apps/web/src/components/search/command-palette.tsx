@@ -0,0 +1,284 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  Search,
+  Store,
+  Clock,
+  Plus,
+  LayoutDashboard,
+  BellRing,
+  Heart,
+  LogIn,
+  Shield,
+  FileText,
+  MessageSquare,
+  Tags,
+  BarChart3,
+  Languages,
+  Flag,
+  Network,
+  X,
+} from 'lucide-react';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut,
+} from '@/components/ui/command';
+import { CategoryIcon } from '@/components/ui/category-icon';
+import { useAuth } from '@/components/auth/auth-provider';
+import { CATEGORIES } from '@/lib/categories';
+import { getAutocompleteSuggestions } from '@/lib/places';
+import { addRecentSearch, clearRecentSearches, getRecentSearches } from '@/lib/recent-searches';
+import { cn } from '@/lib/utils';
+import type { PlaceIndex } from '@/types/place';
+
+const adminShortcuts = [
+  { href: '/admin/submissions', label: 'Pending submissions', icon: FileText },
+  { href: '/admin/suggestions', label: 'Pending suggestions', icon: MessageSquare },
+  { href: '/admin/claims', label: 'Pending claims', icon: Shield },
+  { href: '/admin/reports', label: 'Open reports', icon: Flag },
+  { href: '/admin/places', label: 'Manage places', icon: Store },
+  { href: '/admin/brands', label: 'Manage brands', icon: Network },
+  { href: '/admin/tags', label: 'Review tags', icon: Tags },
+  { href: '/admin/synonyms', label: 'Search synonyms', icon: Languages },
+  { href: '/admin/search', label: 'Search analytics', icon: BarChart3 },
+];
+
+interface CommandPaletteProps {
+  className?: string;
+}
+
+/**
+ * Global search and navigation, opened with Ctrl/⌘+K or the navbar button
+ */
+export function CommandPalette({ className }: CommandPaletteProps) {
+  const router = useRouter();
+  const { user, profile } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [places, setPlaces] = useState<PlaceIndex[]>([]);
+  const [recentSearches, setRecentSearches] = useState<string[]>([]);
+  // Incremented per search so a slow earlier response can't overwrite newer results
+  const requestId = useRef(0);
+
+  useEffect(() => {
+    function handleKeyDown(e: KeyboardEvent) {
+      if (e.key.toLowerCase() === 'k' && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setOpen((prev) => !prev);
+      }
+    }
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Debounce place search (same matching as the search bar, synonyms included)
+  useEffect(() => {
+    const currentRequest = ++requestId.current;
+    const timer = setTimeout(async () => {
+      if (query.trim()) {
+        const results = await getAutocompleteSuggestions(query);
+        if (currentRequest === requestId.current) setPlaces(results.places);
+      } else {
+        setPlaces([]);
+      }
+    }, 150);
+
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next) {
+      setRecentSearches(getRecentSearches());
+    } else {
+      setQuery('');
+    }
+  };
+
+  const go = (href: string) => {
+    handleOpenChange(false);
+    router.push(href);
+  };
+
+  const search = (searchQuery: string) => {
+    addRecentSearch(searchQuery);
+    go(`/places?q=${encodeURIComponent(searchQuery.trim())}`);
+  };
+
+  const trimmedQuery = query.trim();
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => handleOpenChange(true)}
+        className={cn(
+          'flex items-center gap-2 h-9 rounded-full border border-border bg-muted/50 px-3 text-sm text-muted-foreground hover:bg-muted hover:text-foreground transition-colors',
+          className
+        )}
+      >
+        <Search className="w-4 h-4" />
+        <span className="hidden lg:inline">Search...</span>
+        <kbd className="hidden lg:inline-flex items-center gap-0.5 rounded border border-border bg-background px-1.5 font-mono text-[10px] font-medium">
+          <span className="text-xs">⌘</span>K
+        </kbd>
+        <span className="sr-only">Open search</span>
+      </button>
+
+      <CommandDialog
+        open={open}
+        onOpenChange={handleOpenChange}
+        title="Search Where in Maginhawa"
+        description="Search places, categories and actions"
+      >
+        <CommandInput
+          value={query}
+          onValueChange={setQuery}
+          placeholder="Search places, cravings, categories..."
+        />
+        <CommandList className="max-h-[400px]">
+          <CommandEmpty>No results found.</CommandEmpty>
+
+          {trimmedQuery && (
+            <CommandGroup forceMount>
+              <CommandItem forceMount value={`search:${trimmedQuery}`} onSelect={() => search(trimmedQuery)}>
+                <Search />
+                Search for &ldquo;{trimmedQuery}&rdquo;
+              </CommandItem>
+            </CommandGroup>
+          )}
+
+          {!trimmedQuery && recentSearches.length > 0 && (
+            <CommandGroup heading="Recent searches">
+              {recentSearches.map((recent) => (
+                <CommandItem key={recent} value={`recent:${recent}`} onSelect={() => search(recent)}>
+                  <Clock />
+                  {recent}
+                </CommandItem>
+              ))}
+              <CommandItem
+                value="recent:clear"
+                onSelect={() => {
+                  clearRecentSearches();
+                  setRecentSearches([]);
+                }}
+                className="text-muted-foreground"
+              >
+                <X />
+                Clear recent searches
+              </CommandItem>
+            </CommandGroup>
+          )}
+
+          {/* Already matched with Fuse and synonyms, so skip cmdk's own filtering */}
+          {places.length > 0 && (
+            <CommandGroup heading="Places" forceMount>
+              {places.map((place) => (
+                <CommandItem
+                  key={place.id}
+                  forceMount
+                  value={`place:${place.id}`}
+                  onSelect={() => {
+                    addRecentSearch(trimmedQuery);
+                    go(`/places/${place.slug}`);
+                  }}
+                >
+                  <Store />
+                  <div className="flex-1 min-w-0">
+                    <div className="truncate">{place.name}</div>
+                    {place.cuisineTypes.length > 0 && (
+                      <div className="text-xs text-muted-foreground truncate capitalize">
+                        {place.cuisineTypes.slice(0, 3).join(', ')}
+                      </div>
+                    )}
+                  </div>
+                  <CommandShortcut>{place.priceRange}</CommandShortcut>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+
+          <CommandGroup heading="Categories">
+            {CATEGORIES.map((category) => (
+              <CommandItem
+                key={category.slug}
+                value={category.heading}
+                keywords={category.keywords}
+                onSelect={() => go(`/${category.slug}`)}
+              >
+                <CategoryIcon name={category.icon} />
+                {category.heading}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+
+          <CommandSeparator />
+
+          <CommandGroup heading="Actions">
+            <CommandItem value="Browse all places" keywords={['explore']} onSelect={() => go('/places')}>
+              <Search />
+              Browse all places
+            </CommandItem>
+            <CommandItem value="Add a place" keywords={['new', 'submit']} onSelect={() => go('/add-place')}>
+              <Plus />
+              Add a place
+            </CommandItem>
+            <CommandItem value="Favorites" keywords={['saved', 'liked']} onSelect={() => go('/places?favorites=true')}>
+              <Heart />
+              Favorites
+            </CommandItem>
+            {user ? (
+              <>
+                <CommandItem value="Open dashboard" keywords={['my places', 'account']} onSelect={() => go('/dashboard')}>
+                  <LayoutDashboard />
+                  Open dashboard
+                </CommandItem>
+                <CommandItem value="Saved searches" keywords={['alerts', 'notifications']} onSelect={() => go('/dashboard/saved-searches')}>
+                  <BellRing />
+                  Saved searches
+                </CommandItem>
+              </>
+            ) : (
+              <CommandItem value="Sign in" keywords={['login', 'log in']} onSelect={() => go('/auth/login')}>
+                <LogIn />
+                Sign in
+              </CommandItem>
+            )}
+          </CommandGroup>
+
+          {profile?.role === 'admin' && (
+            <>
+              <CommandSeparator />
+              <CommandGroup heading="Admin">
+                <CommandItem value="Admin overview" onSelect={() => go('/admin')}>
+                  <Shield />
+                  Admin overview
+                </CommandItem>
+                {adminShortcuts.map((shortcut) => (
+                  <CommandItem
+                    key={shortcut.href}
+                    value={shortcut.label}
+                    keywords={['admin']}
+                    onSelect={() => go(shortcut.href)}
+                  >
+                    <shortcut.icon />
+                    {shortcut.label}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </>
+          )}
+        </CommandList>
+      </CommandDialog>
+    </>
+  );
+}
@@ -0,0 +1,70 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { UtensilsCrossed } from 'lucide-react';
+import { fetchDishResults } from '@/lib/places';
+import { formatPeso } from '@/lib/menu';
+import type { DishResult } from '@/types/place';
+
+interface DishResultsProps {
+  query?: string;
+}
+
+/**
+ * Matching dishes from place menus, shown above place results
+ * Renders nothing when no menu item matches the query.
+ */
+export function DishResults({ query }: DishResultsProps) {
+  const trimmed = query?.trim() ?? '';
+  // Results are keyed by query so stale dishes never show for a new search
+  const [result, setResult] = useState<{ query: string; dishes: DishResult[] }>({ query: '', dishes: [] });
+
+  useEffect(() => {
+    if (!trimmed) return;
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      fetchDishResults(trimmed)
+        .then((items) => {
+          if (!cancelled) setResult({ query: trimmed, dishes: items });
+        })
+        .catch((error) => console.info('[dish-results] Dish search failed:', error));
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [trimmed]);
+
+  const dishes = result.query === trimmed ? result.dishes : [];
+  if (dishes.length === 0) return null;
+
+  return (
+    <section className="mb-6 rounded-2xl bg-card p-5">
+      <h2 className="flex items-center gap-2 text-sm font-semibold text-gray-800 mb-3">
+        <UtensilsCrossed className="w-4 h-4" />
+        Dishes
+      </h2>
+      <ul className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {dishes.map((dish) => (
+          <li key={dish.id}>
+            <Link
+              href={`/places/${dish.placeSlug}#menu`}
+              className="flex items-center justify-between gap-3 rounded-lg px-3 py-2 hover:bg-muted transition-colors"
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900 truncate">{dish.name}</p>
+                <p className="text-xs text-muted-foreground truncate">{dish.placeName}</p>
+              </div>
+              {dish.price !== undefined && (
+                <span className="text-sm text-gray-700 shrink-0">{formatPeso(dish.price)}</span>
+              )}
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
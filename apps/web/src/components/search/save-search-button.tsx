@@ -0,0 +1,132 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { usePathname, useSearchParams } from 'next/navigation';
+import { BellPlus } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useAuth } from '@/components/auth/auth-provider';
+import { csrfFetch } from '@/lib/csrf-client';
+import { filtersToSearchParams } from '@/lib/search-params';
+import { describeFilters } from '@/lib/saved-searches';
+import type { SearchFilters } from '@/types/place';
+
+interface SaveSearchButtonProps {
+  filters: SearchFilters;
+}
+
+export function SaveSearchButton({ filters }: SaveSearchButtonProps) {
+  const { user } = useAuth();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [alertsEnabled, setAlertsEnabled] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  if (!user) {
+    const current = `${pathname}?${searchParams.toString()}`;
+    return (
+      <Button variant="outline" size="sm" asChild className="gap-1.5">
+        <Link href={`/auth/login?redirect=${encodeURIComponent(current)}`}>
+          <BellPlus className="w-4 h-4" />
+          Save search
+        </Link>
+      </Button>
+    );
+  }
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setName(describeFilters(filters));
+      setAlertsEnabled(true);
+    }
+    setOpen(nextOpen);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const res = await csrfFetch('/api/saved-searches', {
+        body: JSON.stringify({
+          name: name.trim(),
+          params: filtersToSearchParams(filters).toString(),
+          alertsEnabled,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok || !data.success) {
+        toast.error(data.error || 'Failed to save search.');
+        return;
+      }
+      toast.success('Search saved', {
+        description: alertsEnabled
+          ? "We'll let you know on your dashboard when new places match."
+          : 'Find it anytime on your dashboard.',
+      });
+      setOpen(false);
+    } catch {
+      toast.error('Something went wrong');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => handleOpenChange(true)} className="gap-1.5">
+        <BellPlus className="w-4 h-4" />
+        Save search
+      </Button>
+
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Save this search</DialogTitle>
+            <DialogDescription>{describeFilters(filters)}</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div>
+              <label htmlFor="saved-search-name" className="block text-sm font-medium mb-1">Name</label>
+              <Input
+                id="saved-search-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={80}
+              />
+            </div>
+            <label className="flex items-start gap-2 text-sm cursor-pointer">
+              <Checkbox
+                checked={alertsEnabled}
+                onCheckedChange={(checked) => setAlertsEnabled(checked === true)}
+                className="mt-0.5"
+              />
+              <span>
+                Notify me when new places matching this search are added
+              </span>
+            </label>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={isSaving || !name.trim()}>
+              {isSaving ? 'Saving...' : 'Save search'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
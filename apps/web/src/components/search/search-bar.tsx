@@ -6,7 +6,8 @@ import { Search, X } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
-import { getAutocompleteSuggestions } from '@/lib/places';
+import { getAutocompleteSuggestions, recordSearch, recordSearchClick } from '@/lib/places';
+import { addRecentSearch } from '@/lib/recent-searches';
 import type { PlaceIndex } from '@/types/place';
 
 export function SearchBar() {
@@ -63,11 +64,20 @@ export function SearchBar() {
   const handleSearch = (searchQuery?: string) => {
     const finalQuery = searchQuery || query;
     if (finalQuery.trim()) {
+      addRecentSearch(finalQuery);
       router.push(`/places?q=${encodeURIComponent(finalQuery.trim())}`);
       setIsOpen(false);
     }
   };
 
+  // Picking a place straight from the dropdown never reaches /places, so record it here
+  const handlePlaceSelect = (place: PlaceIndex, position: number) => {
+    recordSearch({ query: query.trim() }, suggestions.places.length, 'search-bar').then((eventId) => {
+      if (eventId) recordSearchClick(eventId, place.id, position);
+    });
+    router.push(`/places/${place.slug}`);
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
       handleSearch();
@@ -137,10 +147,10 @@ export function SearchBar() {
                   Places
                 </div>
                 <div className="space-y-2">
-                  {suggestions.places.map((place) => (
+                  {suggestions.places.map((place, index) => (
                     <button
                       key={place.id}
-                      onClick={() => router.push(`/places/${place.slug}`)}
+                      onClick={() => handlePlaceSelect(place, index)}
                       className="w-full text-left p-3 rounded-lg hover:bg-gray-50 transition-colors group"
                     >
                       <div className="font-medium text-gray-900 group-hover:text-orange-600 transition-colors">
@@ -1,4 +1,17 @@
-import type { Place } from '@/types/place';
+import { getDayIntervals, isClosedValue } from '@/lib/hours';
+import { getPlaceLinks } from '@/lib/place-links';
+import type { Place, PlaceReview } from '@/types/place';
+
+/**
+ * JSON for an inline ld+json script. <, > and & are escaped so user text
+ * (reviews, names) can't close the script tag.
+ */
+function serializeJsonLd(data: unknown): string {
+  return JSON.stringify(data)
+    .replace(/</g, '\\u003c')
+    .replace(/>/g, '\\u003e')
+    .replace(/&/g, '\\u0026');
+}
 
 export function WebsiteStructuredData() {
   const structuredData = {
@@ -20,12 +33,18 @@ export function WebsiteStructuredData() {
   return (
     <script
       type="application/ld+json"
-      dangerouslySetInnerHTML={{ __html: JSON.stringify(structuredData) }}
+      dangerouslySetInnerHTML={{ __html: serializeJsonLd(structuredData) }}
     />
   );
 }
 
-export function LocalBusinessStructuredData({ place }: { place: Place }) {
+/** Reviews included in the Restaurant markup */
+const MAX_STRUCTURED_REVIEWS = 5;
+
+export function LocalBusinessStructuredData({ place, reviews = [] }: { place: Place; reviews?: PlaceReview[] }) {
+  // The place's own pages on social, delivery and reservation platforms
+  const sameAs = getPlaceLinks(place.links).map((link) => link.url);
+
   const structuredData = {
     '@context': 'https://schema.org',
     '@type': 'Restaurant',
@@ -42,22 +61,44 @@ export function LocalBusinessStructuredData({ place }: { place: Place }) {
     ...(place.phone && { telephone: place.phone }),
     ...(place.email && { email: place.email }),
     ...(place.website && { url: place.website }),
-    ...(place.coverImageUrl && { image: place.coverImageUrl }),
+    ...(sameAs.length > 0 && { sameAs }),
+    ...((place.coverImageUrl || place.photosUrls.length > 0) && {
+      image: [place.coverImageUrl, ...place.photosUrls].filter(Boolean),
+    }),
+    ...(place.brand && {
+      parentOrganization: {
+        '@type': 'Organization',
+        name: place.brand.name,
+        url: `https://whereinmaginhawa.com/brands/${place.brand.slug}`,
+      },
+    }),
     priceRange: place.priceRange,
     servesCuisine: place.cuisineTypes,
     paymentAccepted: place.paymentMethods.join(', '),
-    openingHoursSpecification: Object.entries(place.operatingHours).map(
-      ([day, hours]) => ({
+    // One specification per interval, so split shifts list each shift
+    openingHoursSpecification: Object.entries(place.operatingHours).flatMap(([day, hours]) => {
+      const dayOfWeek = day.charAt(0).toUpperCase() + day.slice(1);
+      const intervals = isClosedValue(hours.closed) ? [] : getDayIntervals(hours);
+      if (intervals.length === 0) {
+        return [{ '@type': 'OpeningHoursSpecification', dayOfWeek }];
+      }
+      return intervals.map((interval) => ({
+        '@type': 'OpeningHoursSpecification',
+        dayOfWeek,
+        opens: interval.open,
+        closes: interval.close,
+      }));
+    }),
+    ...(place.hoursOverrides?.length && {
+      // Closed dates are expressed as opening and closing at midnight
+      specialOpeningHoursSpecification: place.hoursOverrides.map((override) => ({
         '@type': 'OpeningHoursSpecification',
-        dayOfWeek: day.charAt(0).toUpperCase() + day.slice(1),
-        ...(hours.closed
-          ? {}
-          : {
-              opens: hours.open,
-              closes: hours.close,
-            }),
-      })
-    ),
+        validFrom: override.startDate,
+        validThrough: override.endDate || override.startDate,
+        opens: isClosedValue(override.closed) ? '00:00' : override.open,
+        closes: isClosedValue(override.closed) ? '00:00' : override.close,
+      })),
+    }),
     ...(place.latitude &&
       place.longitude && {
         geo: {
@@ -66,19 +107,35 @@ export function LocalBusinessStructuredData({ place }: { place: Place }) {
           longitude: place.longitude,
         },
       }),
-    ...(place.rating && {
+    ...(place.rating && place.reviewCount && {
       aggregateRating: {
         '@type': 'AggregateRating',
         ratingValue: place.rating,
-        reviewCount: place.reviewCount || 0,
+        bestRating: 5,
+        worstRating: 1,
+        reviewCount: place.reviewCount,
       },
     }),
+    ...(reviews.length > 0 && {
+      review: reviews.slice(0, MAX_STRUCTURED_REVIEWS).map((review) => ({
+        '@type': 'Review',
+        author: { '@type': 'Person', name: review.authorName || 'Anonymous' },
+        datePublished: review.createdAt.slice(0, 10),
+        reviewBody: review.body,
+        reviewRating: {
+          '@type': 'Rating',
+          ratingValue: review.rating,
+          bestRating: 5,
+          worstRating: 1,
+        },
+      })),
+    }),
   };
 
   return (
     <script
       type="application/ld+json"
-      dangerouslySetInnerHTML={{ __html: JSON.stringify(structuredData) }}
+      dangerouslySetInnerHTML={{ __html: serializeJsonLd(structuredData) }}
     />
   );
 }
@@ -102,7 +159,7 @@ export function BreadcrumbStructuredData({
   return (
     <script
       type="application/ld+json"
-      dangerouslySetInnerHTML={{ __html: JSON.stringify(structuredData) }}
+      dangerouslySetInnerHTML={{ __html: serializeJsonLd(structuredData) }}
     />
   );
 }
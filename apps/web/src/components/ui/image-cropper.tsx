@@ -15,7 +15,7 @@ interface ImageCropperProps {
   onCancel: () => void;
   open: boolean;
   fileName?: string;
-  type: 'profile' | 'cover';
+  type: 'profile' | 'cover' | 'menu';
 }
 
 export function ImageCropper({
@@ -64,13 +64,13 @@ export function ImageCropper({
     }
   };
 
-  const cropShapeLabel = type === 'profile' ? 'square (1:1)' : 'rectangular (16:9)';
+  const cropShapeLabel = type === 'cover' ? 'rectangular (16:9)' : 'square (1:1)';
 
   return (
     <Dialog open={open} onOpenChange={(open) => !open && onCancel()}>
       <DialogContent className="max-w-4xl h-[90vh] flex flex-col">
         <DialogHeader>
-          <DialogTitle>Crop {type === 'profile' ? 'Profile' : 'Cover'} Image</DialogTitle>
+          <DialogTitle>Crop {type === 'profile' ? 'Profile' : type === 'cover' ? 'Cover' : 'Menu'} Image</DialogTitle>
           <p className="text-sm text-muted-foreground">
             Adjust the crop area to {cropShapeLabel} format
           </p>
@@ -13,7 +13,7 @@ import {
 } from '@/lib/image-utils';
 
 interface ImageUploadFieldProps {
-  type: 'profile' | 'cover';
+  type: 'profile' | 'cover' | 'menu';
   value?: string;
   onChange: (url: string) => void;
   slug: string;
@@ -30,7 +30,7 @@ export function ImageUploadField({
   slug,
   label,
   description,
-  aspect = type === 'profile' ? 1 : 16 / 9,
+  aspect = type === 'cover' ? 16 / 9 : 1,
   required = false,
 }: ImageUploadFieldProps) {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
@@ -71,9 +71,9 @@ export function ImageUploadField({
       // Step 1: Compress the cropped image
       setUploadProgress('Compressing image...');
       const compressedFile =
-        type === 'profile'
-          ? await compressProfileImage(croppedFile)
-          : await compressCoverImage(croppedFile);
+        type === 'cover'
+          ? await compressCoverImage(croppedFile)
+          : await compressProfileImage(croppedFile);
 
       console.info(`Compression complete: ${(compressedFile.size / 1024).toFixed(2)}KB`);
 
@@ -167,7 +167,7 @@ export function ImageUploadField({
                   JPEG, PNG, or WebP (max 10MB)
                 </p>
                 <p className="text-xs text-muted-foreground mt-1">
-                  Recommended: {type === 'profile' ? '800x800px' : '1920x1080px'}
+                  Recommended: {type === 'cover' ? '1920x1080px' : '800x800px'}
                 </p>
               </div>
             </div>
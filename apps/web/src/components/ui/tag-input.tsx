@@ -1,7 +1,9 @@
 'use client';
 
 import { useState, KeyboardEvent } from 'react';
-import { X } from 'lucide-react';
+import { Plus, X } from 'lucide-react';
+import { normalizeTagList, slugifyTag } from '@/lib/tags';
+import { cn } from '@/lib/utils';
 import { Badge } from './badge';
 import { Input } from './input';
 
@@ -10,30 +12,69 @@ interface TagInputProps {
   onChange: (tags: string[]) => void;
   placeholder?: string;
   suggestions?: string[];
+  /**
+   * Canonical tag slugs. When set, typed values are resolved through `aliases`
+   * and only canonical tags can be added directly; anything else has to be
+   * proposed explicitly and is shown as pending review.
+   */
+  canonical?: string[];
+  aliases?: Record<string, string>;
 }
 
-export function TagInput({ value, onChange, placeholder, suggestions = [] }: TagInputProps) {
+export function TagInput({ value, onChange, placeholder, suggestions = [], canonical, aliases = {} }: TagInputProps) {
   const [inputValue, setInputValue] = useState('');
   const [showSuggestions, setShowSuggestions] = useState(false);
   const [isFocused, setIsFocused] = useState(false);
 
   const addTag = (tag: string) => {
-    const trimmedTag = tag.trim().toLowerCase();
+    const trimmedTag = canonical ? normalizeTagList([tag], aliases)[0] : tag.trim().toLowerCase();
     if (trimmedTag && !value.includes(trimmedTag)) {
       onChange([...value, trimmedTag]);
     }
     setInputValue('');
   };
 
+  const isProposed = (tag: string) => canonical !== undefined && !canonical.includes(tag);
+
   const removeTag = (tagToRemove: string) => {
     onChange(value.filter((tag) => tag !== tagToRemove));
   };
 
+  const availableSuggestions = (canonical ?? suggestions).filter(
+    (suggestion) => !value.includes(suggestion.toLowerCase())
+  );
+
+  // Canonical tags are slugs, so match "group friendly" against "group-friendly"
+  const needle = canonical ? slugifyTag(inputValue) : inputValue.toLowerCase();
+  const matchingSuggestions = needle
+    ? availableSuggestions.filter((suggestion) =>
+        suggestion.toLowerCase().includes(needle)
+      )
+    : availableSuggestions;
+
+  // Typing an alias ("al fresco") suggests its canonical tag first
+  const resolvedInput = canonical ? normalizeTagList([inputValue], aliases)[0] : undefined;
+  const filteredSuggestions =
+    resolvedInput && availableSuggestions.includes(resolvedInput) && !matchingSuggestions.includes(resolvedInput)
+      ? [resolvedInput, ...matchingSuggestions]
+      : matchingSuggestions;
+
+  // A typed value that isn't canonical even after alias resolution can only be proposed
+  const proposal =
+    canonical && resolvedInput && !canonical.includes(resolvedInput) && !value.includes(resolvedInput)
+      ? resolvedInput
+      : null;
+
   const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
     if (e.key === 'Enter' || e.key === ',') {
       e.preventDefault();
-      if (inputValue.trim()) {
+      if (!inputValue.trim()) return;
+      if (!canonical) {
         addTag(inputValue);
+      } else if (resolvedInput && canonical.includes(resolvedInput)) {
+        addTag(resolvedInput);
+      } else if (filteredSuggestions.length > 0) {
+        addTag(filteredSuggestions[0]);
       }
     } else if (e.key === 'Backspace' && !inputValue && value.length > 0) {
       removeTag(value[value.length - 1]);
@@ -44,16 +85,6 @@ export function TagInput({ value, onChange, placeholder, suggestions = [] }: Tag
     addTag(suggestion);
   };
 
-  const availableSuggestions = suggestions.filter(
-    (suggestion) => !value.includes(suggestion.toLowerCase())
-  );
-
-  const filteredSuggestions = inputValue
-    ? availableSuggestions.filter((suggestion) =>
-        suggestion.toLowerCase().includes(inputValue.toLowerCase())
-      )
-    : availableSuggestions;
-
   return (
     <div className="relative">
       <div className="min-h-10 w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-xs flex flex-wrap gap-2 items-center focus-within:border-ring focus-within:ring-ring/50 focus-within:ring-[3px]">
@@ -61,7 +92,11 @@ export function TagInput({ value, onChange, placeholder, suggestions = [] }: Tag
           <Badge
             key={tag}
             variant="secondary"
-            className="gap-1 pr-1 bg-primary/10 text-primary hover:bg-primary/20"
+            className={cn(
+              'gap-1 pr-1 bg-primary/10 text-primary hover:bg-primary/20',
+              isProposed(tag) && 'border-dashed border-primary/40 bg-transparent'
+            )}
+            title={isProposed(tag) ? 'Proposed tag, pending review' : undefined}
           >
             {tag}
             <button
@@ -96,8 +131,18 @@ export function TagInput({ value, onChange, placeholder, suggestions = [] }: Tag
       </div>
 
       {/* Suggestions dropdown */}
-      {showSuggestions && filteredSuggestions.length > 0 && (
+      {showSuggestions && (filteredSuggestions.length > 0 || proposal) && (
         <div className="absolute z-10 w-full mt-1 bg-white border border-input rounded-md shadow-lg max-h-60 overflow-auto">
+          {proposal && (
+            <button
+              type="button"
+              onClick={() => addTag(proposal)}
+              className="flex w-full items-center gap-2 px-5 py-2 text-left text-sm text-muted-foreground hover:bg-primary/10 border-b border-input"
+            >
+              <Plus className="w-3.5 h-3.5" />
+              Propose &ldquo;{proposal}&rdquo; as a new tag
+            </button>
+          )}
           <div className="grid grid-cols-2 sm:grid-cols-3 gap-1 p-2">
             {filteredSuggestions.map((suggestion) => (
               <button
@@ -114,7 +159,9 @@ export function TagInput({ value, onChange, placeholder, suggestions = [] }: Tag
       )}
 
       <p className="text-xs text-muted-foreground mt-1">
-        Click a suggestion below or type and press Enter. Click × to remove.
+        {canonical
+          ? 'Pick a suggestion or type and press Enter. New tags are reviewed before they appear in filters.'
+          : 'Click a suggestion below or type and press Enter. Click × to remove.'}
       </p>
     </div>
   );
@@ -0,0 +1,26 @@
+import * as React from "react"
+
+const TICK_MS = 60_000
+
+function subscribe(onChange: () => void) {
+  const id = window.setInterval(onChange, TICK_MS)
+  return () => window.clearInterval(id)
+}
+
+function getSnapshot() {
+  return Math.floor(Date.now() / TICK_MS)
+}
+
+function getServerSnapshot() {
+  return null
+}
+
+/**
+ * Current time, refreshed every minute on the client.
+ * Returns null during server rendering so time-dependent UI
+ * (e.g. open/closed status) is never baked into cached HTML.
+ */
+export function useNow(): Date | null {
+  const minute = React.useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot)
+  return minute === null ? null : new Date(minute * TICK_MS)
+}
@@ -0,0 +1,39 @@
+import * as React from "react"
+import type { TagTaxonomy } from "@/types/place"
+
+let cached: Promise<TagTaxonomy | null> | null = null
+
+function fetchTaxonomy(): Promise<TagTaxonomy | null> {
+  if (!cached) {
+    cached = fetch("/api/tags")
+      .then((res) => res.json())
+      .then((data) => (data.success ? { tags: data.tags, aliases: data.aliases } : null))
+      .catch(() => null)
+      .then((taxonomy) => {
+        // Retry on the next mount if the request failed
+        if (!taxonomy) cached = null
+        return taxonomy
+      })
+  }
+  return cached
+}
+
+/**
+ * Canonical tags and aliases, fetched once per page load.
+ * Returns null until loaded (or if the request failed).
+ */
+export function useTagTaxonomy(): TagTaxonomy | null {
+  const [taxonomy, setTaxonomy] = React.useState<TagTaxonomy | null>(null)
+
+  React.useEffect(() => {
+    let active = true
+    fetchTaxonomy().then((result) => {
+      if (active) setTaxonomy(result)
+    })
+    return () => {
+      active = false
+    }
+  }, [])
+
+  return taxonomy
+}
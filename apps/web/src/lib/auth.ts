@@ -107,3 +107,37 @@ export async function isOwnerOfPlace(userId: string, placeId: string): Promise<b
   if (error || !data) return false;
   return data.claimed_by === userId;
 }
+
+/**
+ * Check if a user may manage a place's data directly: its owner or an admin
+ */
+export async function canManagePlace(userId: string, placeId: string): Promise<boolean> {
+  const profile = await getProfile();
+  if (profile?.id === userId && profile.role === 'admin') return true;
+  return isOwnerOfPlace(userId, placeId);
+}
+
+/**
+ * Whether a user has been banned from posting reviews, photos and reports
+ */
+export async function isBanned(userId: string): Promise<boolean> {
+  const supabase = await createClient();
+  const { data } = await supabase
+    .from('user_bans')
+    .select('user_id')
+    .eq('user_id', userId)
+    .maybeSingle();
+  return data !== null;
+}
+
+/**
+ * Reject posts from banned users.
+ * Returns a 403 response if the user is banned, or null if they may post.
+ */
+export async function requireNotBanned(userId: string): Promise<NextResponse | null> {
+  if (!(await isBanned(userId))) return null;
+  return NextResponse.json(
+    { success: false, error: 'Your account can no longer post reviews, photos or reports.' },
+    { status: 403 }
+  );
+}
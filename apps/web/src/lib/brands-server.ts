@@ -0,0 +1,54 @@
+import { unstable_cache } from 'next/cache';
+import { createAdminClient } from '@/lib/supabase/admin';
+import { createClient } from '@/lib/supabase/server';
+import { dbRowToBrand, dbRowToPlaceIndex } from '@/lib/supabase/mappers';
+import type { Brand, PlaceIndex } from '@/types/place';
+
+/**
+ * All brands, for the sitemap and static params - server-side with caching
+ */
+export const getAllBrands = unstable_cache(
+  async (): Promise<Brand[]> => {
+    const supabase = createAdminClient();
+    const { data, error } = await supabase
+      .from('brands')
+      .select('*')
+      .order('name');
+
+    if (error) {
+      console.info('[brands-server] Error fetching brands:', error.message);
+      return [];
+    }
+
+    return (data ?? []).map(dbRowToBrand);
+  },
+  ['all-brands'],
+  { revalidate: 60, tags: ['brands'] }
+);
+
+/**
+ * A brand and all of its branches, sorted by name - server-side
+ */
+export async function getBrandBySlug(
+  slug: string
+): Promise<{ brand: Brand; branches: PlaceIndex[] } | undefined> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('brands')
+    .select('*, places(*)')
+    .eq('slug', slug)
+    .maybeSingle();
+
+  if (error || !data) {
+    if (error) console.info(`[brands-server] Failed to load brand: ${slug}`, error.message);
+    return undefined;
+  }
+
+  const { places, ...row } = data;
+  return {
+    brand: dbRowToBrand(row),
+    branches: places
+      .map((place) => dbRowToPlaceIndex({ ...place, brands: row }))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+  };
+}
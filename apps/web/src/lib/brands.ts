@@ -0,0 +1,25 @@
+import { z } from 'zod';
+
+/**
+ * A brand as created or edited by admins. The slug defaults to one made
+ * from the name.
+ */
+export const brandSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  slug: z.string().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Use lowercase letters, numbers and dashes').optional(),
+  description: z.string().trim().max(1000).optional().or(z.literal('')),
+  logoUrl: z.string().url('Invalid logo URL').optional().or(z.literal('')),
+  website: z.string().url('Invalid URL format').optional().or(z.literal('')),
+});
+
+/** Edits to a brand; every field is optional */
+export const updateBrandSchema = brandSchema.partial();
+
+/**
+ * Label for a chain's other branches in search results,
+ * e.g. "2 branches nearby" or "1 more branch"
+ */
+export function formatBranchCount(count: number, nearby: boolean): string {
+  const branches = count === 1 ? 'branch' : 'branches';
+  return nearby ? `${count} ${branches} nearby` : `${count} more ${branches}`;
+}
@@ -0,0 +1,16 @@
+import { RESTORABLE_FIELDS } from '@/lib/revisions';
+
+/**
+ * Fields an admin picks between when merging two places. The survivor
+ * keeps its own slug; the retired slug redirects to it.
+ */
+export const MERGEABLE_FIELDS = [...RESTORABLE_FIELDS, 'verified', 'claimed_by'] as const;
+
+export type MergeableField = (typeof MERGEABLE_FIELDS)[number];
+
+/** Score from find_duplicate_places at or above which a match is called likely */
+export const LIKELY_DUPLICATE_SCORE = 0.75;
+
+export function formatDuplicateScore(score: number): string {
+  return `${Math.round(score * 100)}% match`;
+}
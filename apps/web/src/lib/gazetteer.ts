@@ -0,0 +1,140 @@
+import type { GeoPoint } from '@/types/place';
+
+/**
+ * A small local gazetteer for turning Maginhawa/Teachers Village addresses
+ * into map pins, without calling an external geocoder.
+ */
+
+interface GazetteerStreet {
+  name: string;
+  /** Spellings matched in addresses, lowercase without periods */
+  aliases: string[];
+  /** Used when the address has no house number */
+  center: GeoPoint;
+  /** Known house numbers in ascending order; numbers in between are interpolated */
+  numbers?: Array<{ number: number; point: GeoPoint }>;
+}
+
+export interface PinSuggestion {
+  label: string;
+  point: GeoPoint;
+  /** The street matched but the house number didn't, so the pin needs checking */
+  approximate: boolean;
+}
+
+const STREETS: GazetteerStreet[] = [
+  {
+    name: 'Maginhawa St',
+    aliases: ['maginhawa'],
+    center: { latitude: 14.6428, longitude: 121.0638 },
+    numbers: [
+      { number: 1, point: { latitude: 14.6433, longitude: 121.0585 } },
+      { number: 91, point: { latitude: 14.6431, longitude: 121.0593 } },
+      { number: 118, point: { latitude: 14.6422, longitude: 121.0622 } },
+      { number: 131, point: { latitude: 14.6426, longitude: 121.0631 } },
+      { number: 142, point: { latitude: 14.6428, longitude: 121.0638 } },
+      { number: 149, point: { latitude: 14.643, longitude: 121.0644 } },
+      { number: 154, point: { latitude: 14.6418, longitude: 121.0653 } },
+      { number: 162, point: { latitude: 14.6422, longitude: 121.066 } },
+      { number: 170, point: { latitude: 14.6425, longitude: 121.0669 } },
+      { number: 179, point: { latitude: 14.6428, longitude: 121.0676 } },
+      { number: 185, point: { latitude: 14.6431, longitude: 121.0687 } },
+    ],
+  },
+  {
+    name: 'Malingap St',
+    aliases: ['malingap'],
+    center: { latitude: 14.6445, longitude: 121.0635 },
+    numbers: [
+      { number: 33, point: { latitude: 14.6445, longitude: 121.0635 } },
+      { number: 41, point: { latitude: 14.6398, longitude: 121.0612 } },
+      { number: 47, point: { latitude: 14.6401, longitude: 121.0615 } },
+    ],
+  },
+  {
+    name: 'Magiting St',
+    aliases: ['magiting'],
+    center: { latitude: 14.6421, longitude: 121.0655 },
+    numbers: [{ number: 44, point: { latitude: 14.6419, longitude: 121.065 } }],
+  },
+  {
+    name: 'Maalalahanin St',
+    aliases: ['maalalahanin'],
+    center: { latitude: 14.6416, longitude: 121.0654 },
+    numbers: [{ number: 45, point: { latitude: 14.6416, longitude: 121.0654 } }],
+  },
+  {
+    name: 'Matahimik St',
+    aliases: ['matahimik'],
+    center: { latitude: 14.6417, longitude: 121.0656 },
+  },
+  {
+    name: 'V. Luna Ext',
+    aliases: ['v luna', 'vluna'],
+    center: { latitude: 14.6434, longitude: 121.0696 },
+    numbers: [{ number: 107, point: { latitude: 14.6434, longitude: 121.0696 } }],
+  },
+];
+
+function normalizeAddress(address: string): string {
+  return address.toLowerCase().replace(/[.,]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Position of a house number along a street. Numbers past either end are
+ * clamped to it.
+ */
+function interpolate(
+  numbers: NonNullable<GazetteerStreet['numbers']>,
+  houseNumber: number
+): { point: GeoPoint; inRange: boolean } {
+  const first = numbers[0];
+  const last = numbers[numbers.length - 1];
+  if (houseNumber <= first.number) return { point: first.point, inRange: houseNumber === first.number };
+  if (houseNumber >= last.number) return { point: last.point, inRange: houseNumber === last.number };
+
+  const upper = numbers.findIndex((entry) => entry.number >= houseNumber);
+  const a = numbers[upper - 1];
+  const b = numbers[upper];
+  const t = (houseNumber - a.number) / (b.number - a.number);
+  return {
+    point: {
+      latitude: Number((a.point.latitude + (b.point.latitude - a.point.latitude) * t).toFixed(6)),
+      longitude: Number((a.point.longitude + (b.point.longitude - a.point.longitude) * t).toFixed(6)),
+    },
+    inRange: true,
+  };
+}
+
+/**
+ * Pin suggestions for an address, one per street it mentions,
+ * e.g. "154 Maginhawa St." or "Malingap corner Maginhawa"
+ */
+export function suggestPins(address: string): PinSuggestion[] {
+  const normalized = normalizeAddress(address);
+  if (!normalized) return [];
+
+  const suggestions: PinSuggestion[] = [];
+  for (const street of STREETS) {
+    const alias = street.aliases.find((a) => new RegExp(`\\b${escapeRegExp(a)}\\b`).test(normalized));
+    if (!alias) continue;
+
+    // "164A Maginhawa", "79 A Maginhawa"
+    const match = normalized.match(new RegExp(`(\\d+)\\s*[a-z]?\\s+${escapeRegExp(alias)}\\b`));
+    const houseNumber = match ? Number(match[1]) : undefined;
+
+    if (houseNumber !== undefined && street.numbers?.length) {
+      const { point, inRange } = interpolate(street.numbers, houseNumber);
+      suggestions.push({ label: `${houseNumber} ${street.name}`, point, approximate: !inRange });
+    } else {
+      suggestions.push({ label: street.name, point: street.center, approximate: true });
+    }
+  }
+
+  // Numbered matches first
+  return suggestions.sort((a, b) => Number(a.approximate) - Number(b.approximate));
+}
@@ -0,0 +1,145 @@
+import type { GeoBounds, GeoPoint } from '@/types/place';
+
+/**
+ * Geo helpers for "near me" search
+ */
+
+const EARTH_RADIUS_METERS = 6_371_000;
+
+/** Average walking pace used for walking-time estimates (~4.8 km/h) */
+const WALKING_METERS_PER_MINUTE = 80;
+
+/**
+ * Well-known starting points around Maginhawa, used as quick "dropped pins"
+ */
+export const LANDMARKS: Array<{ label: string; point: GeoPoint }> = [
+  { label: 'UP Diliman', point: { latitude: 14.6549, longitude: 121.0645 } },
+  { label: 'Teachers Village', point: { latitude: 14.6437, longitude: 121.0632 } },
+];
+
+/**
+ * Radius presets expressed as walking time
+ */
+export const RADIUS_OPTIONS: Array<{ label: string; meters: number }> = [
+  { label: '5 min walk', meters: 5 * WALKING_METERS_PER_MINUTE },
+  { label: '10 min walk', meters: 10 * WALKING_METERS_PER_MINUTE },
+  { label: '15 min walk', meters: 15 * WALKING_METERS_PER_MINUTE },
+];
+
+/**
+ * Great-circle distance between two points in meters (haversine)
+ * Mirrors distance_meters() in the database.
+ */
+export function distanceMeters(a: GeoPoint, b: GeoPoint): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.latitude - a.latitude);
+  const dLng = toRad(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Distance from a point to a place, or undefined if the place has no coordinates
+ */
+export function distanceToPlace(
+  from: GeoPoint,
+  place: { latitude?: number; longitude?: number }
+): number | undefined {
+  if (place.latitude === undefined || place.longitude === undefined) return undefined;
+  return distanceMeters(from, { latitude: place.latitude, longitude: place.longitude });
+}
+
+/**
+ * Format a distance as walking distance, e.g. "350 m · 5 min walk"
+ */
+export function formatWalkingDistance(meters: number): string {
+  const minutes = Math.max(1, Math.round(meters / WALKING_METERS_PER_MINUTE));
+  const distance = meters < 1000 ? `${Math.round(meters / 10) * 10} m` : `${(meters / 1000).toFixed(1)} km`;
+  return `${distance} · ${minutes} min walk`;
+}
+
+/**
+ * Parse "lat,lng" into a GeoPoint. Returns undefined for invalid input.
+ */
+export function parseGeoPoint(value: string | null | undefined): GeoPoint | undefined {
+  if (!value) return undefined;
+  const [lat, lng] = value.split(',').map(Number);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return undefined;
+  if (lat < -90 || lat > 90 || lng < -180 || lng > 180) return undefined;
+  return { latitude: lat, longitude: lng };
+}
+
+/**
+ * Serialize a GeoPoint as "lat,lng", rounded to ~10 m
+ */
+export function formatGeoPoint(point: GeoPoint): string {
+  return `${point.latitude.toFixed(4)},${point.longitude.toFixed(4)}`;
+}
+
+/**
+ * Check whether a place falls inside map bounds. Places without coordinates never do.
+ */
+export function isWithinBounds(
+  bounds: GeoBounds,
+  place: { latitude?: number; longitude?: number }
+): boolean {
+  if (place.latitude === undefined || place.longitude === undefined) return false;
+  return (
+    place.latitude >= bounds.south &&
+    place.latitude <= bounds.north &&
+    place.longitude >= bounds.west &&
+    place.longitude <= bounds.east
+  );
+}
+
+/**
+ * Parse "south,west,north,east" into GeoBounds. Returns undefined for invalid input.
+ */
+export function parseGeoBounds(value: string | null | undefined): GeoBounds | undefined {
+  if (!value) return undefined;
+  const parts = value.split(',').map(Number);
+  if (parts.length !== 4 || parts.some((n) => !Number.isFinite(n))) return undefined;
+  const [south, west, north, east] = parts;
+  if (south > north || west > east) return undefined;
+  return { south, west, north, east };
+}
+
+/**
+ * Serialize GeoBounds as "south,west,north,east", rounded to ~10 m
+ */
+export function formatGeoBounds(bounds: GeoBounds): string {
+  return [bounds.south, bounds.west, bounds.north, bounds.east].map((n) => n.toFixed(4)).join(',');
+}
+
+/**
+ * Check whether a point falls inside a polygon (ray casting). Edges are
+ * treated as straight lines in lat/lng, which is fine at neighborhood scale.
+ */
+export function isWithinPolygon(point: GeoPoint, polygon: GeoPoint[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (
+      a.latitude > point.latitude !== b.latitude > point.latitude &&
+      point.longitude <
+        ((b.longitude - a.longitude) * (point.latitude - a.latitude)) / (b.latitude - a.latitude) + a.longitude
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Parse "lat,lng;lat,lng;..." into a polygon. Returns undefined unless
+ * there are at least three valid points.
+ */
+export function parseGeoPolygon(value: string | null | undefined): GeoPoint[] | undefined {
+  if (!value) return undefined;
+  const points = value.split(';').map((pair) => parseGeoPoint(pair.trim()));
+  if (points.length < 3 || points.some((point) => !point)) return undefined;
+  return points as GeoPoint[];
+}
@@ -0,0 +1,307 @@
+import type { DayOfWeek, HoursOverride, OperatingHours, TimeInterval } from '@/types/place';
+
+/**
+ * Operating hours engine
+ * Evaluates OperatingHours in Asia/Manila time (UTC+8, no DST) regardless of
+ * the timezone of the server or browser running the code.
+ */
+
+const MANILA_OFFSET_MS = 8 * 60 * 60 * 1000;
+const MINUTES_PER_DAY = 24 * 60;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export const DAYS_OF_WEEK: DayOfWeek[] = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+];
+
+export interface OpenStatus {
+  isOpen: boolean;
+  /** "HH:MM" the place closes at, when currently open */
+  closesAt?: string;
+  /** "HH:MM" the place next opens at, when currently closed */
+  opensAt?: string;
+  /** Day the place next opens, when currently closed */
+  opensOn?: DayOfWeek;
+  /** True when the next opening is later today */
+  opensToday?: boolean;
+  /** True when the next opening is tomorrow */
+  opensTomorrow?: boolean;
+  /** True when there are no hours at all for this place */
+  unknown?: boolean;
+  /** Note of the hours override in effect today, e.g. "Holy Week" */
+  note?: string;
+}
+
+interface Interval {
+  open: number;
+  close: number;
+}
+
+/** A weekly day entry or an override; both share closed/open/close */
+interface DayEntry {
+  closed?: unknown;
+  open?: string;
+  close?: string;
+  intervals?: TimeInterval[];
+}
+
+/**
+ * Interpret the `closed` flag of a day entry.
+ * Data files use any truthy value (true, 1, "yes", etc.), so strings like
+ * "false" or "no" are the only values treated as not closed.
+ */
+export function isClosedValue(closed: unknown): boolean {
+  if (typeof closed === 'string') {
+    const normalized = closed.trim().toLowerCase();
+    return !['', 'false', 'no', '0', 'open'].includes(normalized);
+  }
+  return !!closed;
+}
+
+/**
+ * Parse "HH:MM" into minutes since midnight. Returns null for invalid input.
+ */
+function parseTime(time: string | undefined): number | null {
+  if (!time) return null;
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 24 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+/**
+ * Get the "HH:MM" intervals listed for a day entry, ignoring `closed`.
+ * Reads split shifts from `intervals` and single-interval (legacy) entries
+ * from open/close.
+ */
+export function getDayIntervals(entry: DayEntry | undefined): TimeInterval[] {
+  if (!entry) return [];
+  if (Array.isArray(entry.intervals) && entry.intervals.length > 0) return entry.intervals;
+  if (entry.open && entry.close) return [{ open: entry.open, close: entry.close }];
+  return [];
+}
+
+/**
+ * Get the opening intervals of a day entry in minutes since that day's
+ * midnight, earliest first. Closing times at or before the opening time roll
+ * over past midnight, e.g. 18:00-02:00 becomes 1080-1560. Equal times mean
+ * open 24 hours.
+ */
+function getIntervals(entry: DayEntry | undefined): Interval[] {
+  if (!entry || isClosedValue(entry.closed)) return [];
+
+  const intervals: Interval[] = [];
+  for (const interval of getDayIntervals(entry)) {
+    const open = parseTime(interval.open);
+    const close = parseTime(interval.close);
+    if (open === null || close === null) continue;
+    intervals.push({ open, close: close <= open ? close + MINUTES_PER_DAY : close });
+  }
+  return intervals.sort((a, b) => a.open - b.open);
+}
+
+/**
+ * Get the current day of week and minutes since midnight in Manila
+ */
+export function getManilaTime(date: Date = new Date()): { day: DayOfWeek; minutes: number } {
+  const manila = new Date(date.getTime() + MANILA_OFFSET_MS);
+  return {
+    day: DAYS_OF_WEEK[manila.getUTCDay()],
+    minutes: manila.getUTCHours() * 60 + manila.getUTCMinutes(),
+  };
+}
+
+/**
+ * Get the Manila date ("YYYY-MM-DD") `offsetDays` days from the given moment
+ */
+export function getManilaDate(date: Date = new Date(), offsetDays = 0): string {
+  return new Date(date.getTime() + MANILA_OFFSET_MS + offsetDays * MS_PER_DAY)
+    .toISOString()
+    .slice(0, 10);
+}
+
+/**
+ * Find the override covering a Manila date ("YYYY-MM-DD").
+ * Later overrides win when ranges overlap.
+ */
+export function findHoursOverride(
+  overrides: HoursOverride[] | undefined,
+  dateKey: string
+): HoursOverride | undefined {
+  if (!overrides) return undefined;
+  for (let i = overrides.length - 1; i >= 0; i--) {
+    const override = overrides[i];
+    if (dateKey >= override.startDate && dateKey <= (override.endDate || override.startDate)) {
+      return override;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Overrides that haven't ended yet as of the given moment, soonest first
+ */
+export function getUpcomingHoursOverrides(
+  overrides: HoursOverride[] | undefined,
+  date: Date = new Date()
+): HoursOverride[] {
+  const today = getManilaDate(date);
+  return (overrides ?? [])
+    .filter((override) => (override.endDate || override.startDate) >= today)
+    .sort((a, b) => a.startDate.localeCompare(b.startDate));
+}
+
+function toTimeString(minutes: number): string {
+  const normalized = minutes % MINUTES_PER_DAY;
+  const h = Math.floor(normalized / 60);
+  const m = normalized % 60;
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
+}
+
+/**
+ * Check whether a place has any usable hours defined
+ */
+export function hasOperatingHours(hours: OperatingHours | undefined): boolean {
+  if (!hours) return false;
+  return DAYS_OF_WEEK.some((day) => hours[day] !== undefined);
+}
+
+/**
+ * Compute the open/closed status of a place at a given moment (default: now)
+ * Dated overrides replace the weekly hours on the days they cover.
+ */
+export function getOpenStatus(
+  hours: OperatingHours | undefined,
+  date: Date = new Date(),
+  overrides?: HoursOverride[]
+): OpenStatus {
+  if (!hours || !hasOperatingHours(hours)) {
+    return { isOpen: false, unknown: true };
+  }
+
+  const { day, minutes } = getManilaTime(date);
+  const todayIndex = DAYS_OF_WEEK.indexOf(day);
+  const intervalsOn = (offset: number) => {
+    const override = findHoursOverride(overrides, getManilaDate(date, offset));
+    return getIntervals(override ?? hours[DAYS_OF_WEEK[(todayIndex + offset + 7) % 7]]);
+  };
+  const note = findHoursOverride(overrides, getManilaDate(date))?.note || undefined;
+
+  // Yesterday's last interval may still be running past midnight
+  const overnight = intervalsOn(-1).find((interval) => minutes + MINUTES_PER_DAY < interval.close);
+  if (overnight) {
+    return { isOpen: true, closesAt: toTimeString(overnight.close), note };
+  }
+
+  const today = intervalsOn(0);
+  const current = today.find((interval) => minutes >= interval.open && minutes < interval.close);
+  if (current) {
+    return { isOpen: true, closesAt: toTimeString(current.close), note };
+  }
+
+  // Closed: find the next opening, later today (e.g. after a lunch break) or within the coming week
+  const laterToday = today.find((interval) => minutes < interval.open);
+  if (laterToday) {
+    return { isOpen: false, opensAt: toTimeString(laterToday.open), opensOn: day, opensToday: true, note };
+  }
+
+  for (let offset = 1; offset <= 7; offset++) {
+    const [next] = intervalsOn(offset);
+    if (next) {
+      return {
+        isOpen: false,
+        opensAt: toTimeString(next.open),
+        opensOn: DAYS_OF_WEEK[(todayIndex + offset) % 7],
+        opensTomorrow: offset === 1,
+        note,
+      };
+    }
+  }
+
+  return { isOpen: false, note };
+}
+
+/**
+ * Convenience check used by search filters
+ */
+export function isOpenNow(
+  hours: OperatingHours | undefined,
+  date: Date = new Date(),
+  overrides?: HoursOverride[]
+): boolean {
+  return getOpenStatus(hours, date, overrides).isOpen;
+}
+
+/**
+ * Format "HH:MM" (24-hour) as "h:MM AM/PM"
+ */
+export function formatTime(time: string): string {
+  const [hours, minutes] = time.split(':');
+  const hour = parseInt(hours) % 24;
+  const ampm = hour >= 12 ? 'PM' : 'AM';
+  const displayHour = hour % 12 || 12;
+  return `${displayHour}:${minutes} ${ampm}`;
+}
+
+/**
+ * Human-readable label for an OpenStatus, e.g. "Open · Closes 2:00 AM"
+ */
+export function formatOpenStatus(status: OpenStatus): string {
+  if (status.unknown) return 'Hours not available';
+  if (status.isOpen) {
+    return status.closesAt ? `Open · Closes ${formatTime(status.closesAt)}` : 'Open now';
+  }
+  if (!status.opensAt || !status.opensOn) return status.note ? `Closed · ${status.note}` : 'Closed';
+  if (status.opensToday) return `Closed · Opens ${formatTime(status.opensAt)}`;
+  if (status.opensTomorrow) return `Closed · Opens tomorrow ${formatTime(status.opensAt)}`;
+  const dayName = status.opensOn.charAt(0).toUpperCase() + status.opensOn.slice(1, 3);
+  return `Closed · Opens ${dayName} ${formatTime(status.opensAt)}`;
+}
+
+/**
+ * Format an override's dates, e.g. "Mar 25, 2027" or "Mar 25 – Mar 28, 2027"
+ */
+export function formatHoursOverrideDates(override: HoursOverride): string {
+  const format = (dateKey: string, withYear: boolean) =>
+    new Date(`${dateKey}T00:00:00Z`).toLocaleDateString('en-PH', {
+      month: 'short',
+      day: 'numeric',
+      ...(withYear && { year: 'numeric' }),
+      timeZone: 'UTC',
+    });
+
+  const end = override.endDate || override.startDate;
+  if (end === override.startDate) return format(override.startDate, true);
+  const sameYear = end.slice(0, 4) === override.startDate.slice(0, 4);
+  return `${format(override.startDate, !sameYear)} – ${format(end, true)}`;
+}
+
+/**
+ * Build a day entry from a list of intervals. A single interval keeps the
+ * plain open/close shape so older readers of the data still understand it.
+ */
+export function toDayEntry(intervals: TimeInterval[], closed = false): OperatingHours[string] {
+  if (closed || intervals.length === 0) return { closed: true };
+  if (intervals.length === 1) return { open: intervals[0].open, close: intervals[0].close };
+  return { intervals: [...intervals].sort((a, b) => a.open.localeCompare(b.open)) };
+}
+
+/**
+ * Format every interval of a day entry, e.g. "11:00 AM - 2:00 PM, 5:00 PM - 10:00 PM"
+ */
+export function formatDayHours(entry: DayEntry | undefined): string {
+  const intervals = getDayIntervals(entry);
+  if (!entry || isClosedValue(entry.closed) || intervals.length === 0) return 'Closed';
+  return [...intervals]
+    .sort((a, b) => a.open.localeCompare(b.open))
+    .map((interval) => `${formatTime(interval.open)} - ${formatTime(interval.close)}`)
+    .join(', ');
+}
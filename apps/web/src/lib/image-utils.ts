@@ -163,7 +163,7 @@ export function isValidImageSize(file: File, maxSizeMB: number = 10): boolean {
  */
 export async function uploadImageToBlob(
   file: File,
-  type: 'profile' | 'cover',
+  type: 'profile' | 'cover' | 'menu' | 'gallery' | 'review',
   slug: string
 ): Promise<string> {
   const formData = new FormData();
@@ -0,0 +1,35 @@
+import type { GeoPoint } from '@/types/place';
+import { parseGeoPolygon } from '@/lib/geo';
+
+/**
+ * Map configuration
+ * Tiles default to OpenStreetMap. Point NEXT_PUBLIC_MAP_TILE_URL at a locally
+ * served tile set (e.g. http://localhost:8080/tile/{z}/{x}/{y}.png) in development.
+ */
+export const MAP_TILE_URL =
+  process.env.NEXT_PUBLIC_MAP_TILE_URL || 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+
+export const MAP_TILE_ATTRIBUTION =
+  process.env.NEXT_PUBLIC_MAP_TILE_ATTRIBUTION ||
+  '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+export const MAP_MAX_ZOOM = 19;
+
+/** Maginhawa Street, Teachers Village */
+export const MAP_DEFAULT_CENTER: GeoPoint = { latitude: 14.6463, longitude: 121.0597 };
+
+export const MAP_DEFAULT_ZOOM = 16;
+
+/**
+ * The area listings must be in: Teachers Village, UP Village and Sikatuna
+ * Village. Override with NEXT_PUBLIC_NEIGHBORHOOD_BOUNDARY as "lat,lng"
+ * corners separated by ";".
+ */
+export const NEIGHBORHOOD_BOUNDARY: GeoPoint[] =
+  parseGeoPolygon(process.env.NEXT_PUBLIC_NEIGHBORHOOD_BOUNDARY) ?? [
+    { latitude: 14.656, longitude: 121.056 },
+    { latitude: 14.656, longitude: 121.07 },
+    { latitude: 14.644, longitude: 121.076 },
+    { latitude: 14.634, longitude: 121.072 },
+    { latitude: 14.634, longitude: 121.056 },
+  ];
@@ -0,0 +1,98 @@
+import { z } from 'zod';
+import type { DietaryFlag, MenuItem } from '@/types/place';
+
+export const DIETARY_FLAGS: { value: DietaryFlag; label: string }[] = [
+  { value: 'vegetarian', label: 'Vegetarian' },
+  { value: 'vegan', label: 'Vegan' },
+  { value: 'halal', label: 'Halal' },
+  { value: 'gluten-free', label: 'Gluten-free' },
+  { value: 'spicy', label: 'Spicy' },
+];
+
+/**
+ * Menu item fields accepted by /api/places/[id]/menu (all optional on update)
+ */
+export const menuItemSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().trim().max(500).optional(),
+  price: z.number().min(0).max(100000).nullable().optional(),
+  category: z.string().trim().max(60).optional(),
+  photoUrl: z.string().url().optional().or(z.literal('')),
+  dietaryFlags: z.array(z.enum(['vegetarian', 'vegan', 'halal', 'gluten-free', 'spicy'])).optional(),
+  isAvailable: z.boolean().optional(),
+  sortOrder: z.number().int().min(0).max(10000).optional(),
+});
+
+export type MenuItemInput = z.infer<typeof menuItemSchema>;
+
+/** Heading for menu items without a category */
+export const UNCATEGORIZED_MENU = 'Other';
+
+/**
+ * Format a PHP price, e.g. 180 -> "₱180", 95.5 -> "₱95.50"
+ */
+export function formatPeso(price: number): string {
+  return `₱${price.toLocaleString('en-PH', {
+    minimumFractionDigits: Number.isInteger(price) ? 0 : 2,
+    maximumFractionDigits: 2,
+  })}`;
+}
+
+/**
+ * Group menu items by category, keeping the order items arrive in
+ */
+export function groupMenuItems(items: MenuItem[]): [string, MenuItem[]][] {
+  const groups = new Map<string, MenuItem[]>();
+  for (const item of items) {
+    const category = item.category?.trim() || UNCATEGORIZED_MENU;
+    if (!groups.has(category)) groups.set(category, []);
+    groups.get(category)!.push(item);
+  }
+  return Array.from(groups.entries());
+}
+
+export interface DishQuery {
+  query: string;
+  minPrice?: number;
+  maxPrice?: number;
+}
+
+// "₱200", "P200", "php 1,000", "200 pesos"
+const PRICE = String.raw`(?:₱|php\s*|p)?\s*(\d[\d,]*(?:\.\d+)?)(?:\s*(?:pesos?|php))?`;
+const PRICE_RANGE = new RegExp(String.raw`(?:^|\s)${PRICE}\s*(?:-|to)\s*${PRICE}(?=\s|$)`, 'i');
+const MAX_PRICE = new RegExp(String.raw`(?:^|\s)(?:under|below|less than|cheaper than|up to|max|<=?)\s*${PRICE}(?=\s|$)`, 'i');
+const MIN_PRICE = new RegExp(String.raw`(?:^|\s)(?:over|above|more than|at least|min|>=?)\s*${PRICE}(?=\s|$)`, 'i');
+
+function toPrice(value: string): number {
+  return Number(value.replace(/,/g, ''));
+}
+
+/**
+ * Split a dish search into the dish and an optional price limit:
+ * "sisig under ₱200" -> { query: "sisig", maxPrice: 200 }
+ */
+export function parseDishQuery(input: string): DishQuery {
+  let query = input;
+  const result: Omit<DishQuery, 'query'> = {};
+
+  const range = query.match(PRICE_RANGE);
+  if (range) {
+    const [low, high] = [toPrice(range[1]), toPrice(range[2])].sort((a, b) => a - b);
+    result.minPrice = low;
+    result.maxPrice = high;
+    query = query.replace(range[0], ' ');
+  } else {
+    const max = query.match(MAX_PRICE);
+    if (max) {
+      result.maxPrice = toPrice(max[1]);
+      query = query.replace(max[0], ' ');
+    }
+    const min = query.match(MIN_PRICE);
+    if (min) {
+      result.minPrice = toPrice(min[1]);
+      query = query.replace(min[0], ' ');
+    }
+  }
+
+  return { query: query.replace(/\s+/g, ' ').trim(), ...result };
+}
@@ -0,0 +1,40 @@
+import type { z } from 'zod';
+import { isWithinPolygon } from '@/lib/geo';
+import { NEIGHBORHOOD_BOUNDARY } from '@/lib/map-config';
+import type { GeoPoint } from '@/types/place';
+
+export const OUTSIDE_NEIGHBORHOOD_MESSAGE = 'Pin is outside the Maginhawa area';
+
+/**
+ * Whether a pin is inside the neighborhood boundary
+ */
+export function isInNeighborhood(point: GeoPoint): boolean {
+  return isWithinPolygon(point, NEIGHBORHOOD_BOUNDARY);
+}
+
+/**
+ * superRefine check for place schemas: latitude and longitude come as a
+ * pair, and the pin must be inside the neighborhood boundary. Null clears
+ * both where the schema allows it.
+ */
+export function checkPlaceCoordinates(
+  value: { latitude?: number | null; longitude?: number | null },
+  ctx: z.RefinementCtx
+) {
+  const { latitude, longitude } = value;
+  const hasLatitude = latitude !== undefined && latitude !== null;
+  const hasLongitude = longitude !== undefined && longitude !== null;
+
+  if (hasLatitude !== hasLongitude) {
+    ctx.addIssue({
+      code: 'custom',
+      path: [hasLatitude ? 'longitude' : 'latitude'],
+      message: 'Latitude and longitude must be set together',
+    });
+    return;
+  }
+
+  if (hasLatitude && hasLongitude && !isInNeighborhood({ latitude, longitude })) {
+    ctx.addIssue({ code: 'custom', path: ['latitude'], message: OUTSIDE_NEIGHBORHOOD_MESSAGE });
+  }
+}
@@ -0,0 +1,42 @@
+import { z } from 'zod';
+import type { PlacePhoto } from '@/types/place';
+
+/** Gallery size limit per place, hidden photos included */
+export const MAX_PLACE_PHOTOS = 40;
+
+/**
+ * A new gallery photo for /api/places/[id]/photos. The image itself is
+ * uploaded first through /api/upload-image with type "gallery".
+ */
+export const photoSchema = z.object({
+  url: z.string().url(),
+  caption: z.string().trim().max(200).optional(),
+  altText: z.string().trim().max(200).optional(),
+});
+
+/** Per-photo edits by the place owner or an admin; "visible" approves a pending photo */
+export const updatePhotoSchema = z.object({
+  caption: z.string().trim().max(200).optional(),
+  altText: z.string().trim().max(200).optional(),
+  status: z.enum(['visible', 'hidden']).optional(),
+});
+
+/** Gallery order (visible photos, first to last) and the cover photo */
+export const gallerySchema = z.object({
+  order: z.array(z.string().uuid()).max(MAX_PLACE_PHOTOS).optional(),
+  coverPhotoId: z.string().uuid().nullable().optional(),
+});
+
+/**
+ * Alt text for a gallery photo, falling back to the caption
+ */
+export function getPhotoAlt(photo: PlacePhoto, placeName: string): string {
+  return photo.altText || photo.caption || `Photo of ${placeName}`;
+}
+
+/**
+ * Attribution line, e.g. "Photo by Ana"
+ */
+export function getPhotoCredit(photo: PlacePhoto): string | undefined {
+  return photo.uploaderName ? `Photo by ${photo.uploaderName}` : undefined;
+}
@@ -0,0 +1,124 @@
+import { z } from 'zod';
+import type { PlaceLinkPlatform, PlaceLinks } from '@/types/place';
+
+interface PlaceLinkPlatformInfo {
+  label: string;
+  placeholder: string;
+  /** Accepted domains, subdomains included. Empty means any website. */
+  domains: string[];
+}
+
+/** Display order on the place page and in the forms */
+export const PLACE_LINK_PLATFORMS: Record<PlaceLinkPlatform, PlaceLinkPlatformInfo> = {
+  facebook: {
+    label: 'Facebook',
+    placeholder: 'https://facebook.com/yourpage',
+    domains: ['facebook.com', 'fb.com', 'fb.me'],
+  },
+  instagram: {
+    label: 'Instagram',
+    placeholder: 'https://instagram.com/yourhandle',
+    domains: ['instagram.com', 'instagr.am'],
+  },
+  tiktok: {
+    label: 'TikTok',
+    placeholder: 'https://tiktok.com/@yourhandle',
+    domains: ['tiktok.com'],
+  },
+  grabfood: {
+    label: 'GrabFood',
+    placeholder: 'https://food.grab.com/ph/en/restaurant/...',
+    domains: ['grab.com'],
+  },
+  foodpanda: {
+    label: 'foodpanda',
+    placeholder: 'https://www.foodpanda.ph/restaurant/...',
+    domains: ['foodpanda.ph', 'foodpanda.com', 'foodpanda.page.link'],
+  },
+  reservation: {
+    label: 'Reservations',
+    placeholder: 'https://',
+    domains: [],
+  },
+};
+
+export const PLACE_LINK_KEYS = Object.keys(PLACE_LINK_PLATFORMS) as PlaceLinkPlatform[];
+
+/**
+ * Whether a URL points to the platform. Platform links must go to a
+ * page on the platform, not just its home page.
+ */
+export function isPlatformUrl(platform: PlaceLinkPlatform, value: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return false;
+
+  const { domains } = PLACE_LINK_PLATFORMS[platform];
+  if (domains.length === 0) return true;
+
+  const host = url.hostname.toLowerCase();
+  const onPlatform = domains.some((domain) => host === domain || host.endsWith(`.${domain}`));
+  return onPlatform && url.pathname.replace(/\/+$/, '') !== '';
+}
+
+function platformUrlSchema(platform: PlaceLinkPlatform) {
+  const { label } = PLACE_LINK_PLATFORMS[platform];
+  return z
+    .string()
+    .trim()
+    .url('Invalid URL format')
+    .refine((value) => isPlatformUrl(platform, value), `Must be a link to a ${label} page`)
+    .optional()
+    .or(z.literal(''));
+}
+
+/**
+ * Per-platform links as submitted by the forms. Blank fields are dropped,
+ * so the parsed value is what gets stored in places.links.
+ */
+export const placeLinksSchema = z
+  .object({
+    facebook: platformUrlSchema('facebook'),
+    instagram: platformUrlSchema('instagram'),
+    tiktok: platformUrlSchema('tiktok'),
+    grabfood: platformUrlSchema('grabfood'),
+    foodpanda: platformUrlSchema('foodpanda'),
+    reservation: platformUrlSchema('reservation'),
+  })
+  .transform((links) => compactPlaceLinks(links));
+
+/**
+ * Whether every filled-in link is on its platform (for form validation)
+ */
+export function arePlaceLinksValid(links: PlaceLinks): boolean {
+  return PLACE_LINK_KEYS.every((key) => {
+    const url = links[key]?.trim();
+    return !url || isPlatformUrl(key, url);
+  });
+}
+
+/**
+ * Drop blank and unknown entries
+ */
+export function compactPlaceLinks(links: Record<string, string | undefined> | undefined): PlaceLinks {
+  const result: PlaceLinks = {};
+  for (const key of PLACE_LINK_KEYS) {
+    const url = links?.[key]?.trim();
+    if (url) result[key] = url;
+  }
+  return result;
+}
+
+/**
+ * Filled-in links in display order
+ */
+export function getPlaceLinks(links: PlaceLinks | undefined): { platform: PlaceLinkPlatform; label: string; url: string }[] {
+  return PLACE_LINK_KEYS.flatMap((platform) => {
+    const url = links?.[platform];
+    return url ? [{ platform, label: PLACE_LINK_PLATFORMS[platform].label, url }] : [];
+  });
+}
@@ -0,0 +1,237 @@
+import { z } from 'zod';
+import { isClosedValue } from '@/lib/hours';
+import { placeLinksSchema } from '@/lib/place-links';
+import { checkPlaceCoordinates } from '@/lib/neighborhood';
+import type { PaymentMethod, PriceRange } from '@/types/place';
+
+/**
+ * Place validation shared by the API routes and scripts/validate-place.ts.
+ * Fields are camelCase as in Place; mapPlaceFieldsToDb in
+ * lib/supabase/mappers.ts turns parsed fields into places columns.
+ */
+
+export const PRICE_RANGES = ['$', '$$', '$$$', '$$$$'] as const satisfies readonly PriceRange[];
+
+export const PAYMENT_METHODS = [
+  'cash', 'gcash', 'paymaya', 'credit-card', 'debit-card', 'bank-transfer', 'grab-pay',
+] as const satisfies readonly PaymentMethod[];
+
+/** Other spellings found in submissions and place files */
+const PAYMENT_METHOD_ALIASES: Record<string, PaymentMethod> = {
+  maya: 'paymaya',
+  grabpay: 'grab-pay',
+};
+
+/**
+ * "Bank Transfer" → "bank-transfer", "maya" → "paymaya". Unknown values are
+ * left for the enum check to reject.
+ */
+export function normalizePaymentMethod(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  const slug = value.trim().toLowerCase().replace(/[\s_]+/g, '-');
+  return PAYMENT_METHOD_ALIASES[slug] ?? slug;
+}
+
+/**
+ * Checks payment methods sent for an existing place. Values the place
+ * already lists are kept as they are, including ones from before the list
+ * was enforced; new values are normalized and must be PAYMENT_METHODS.
+ */
+export function checkPaymentMethods(
+  methods: readonly string[],
+  current: readonly string[] | null | undefined
+): { methods: string[]; unknown: string[] } {
+  const kept: string[] = [];
+  const unknown: string[] = [];
+  for (const method of methods) {
+    if (current?.includes(method)) {
+      kept.push(method);
+      continue;
+    }
+    const normalized = normalizePaymentMethod(method);
+    if ((PAYMENT_METHODS as readonly unknown[]).includes(normalized)) kept.push(normalized as string);
+    else unknown.push(method);
+  }
+  return { methods: [...new Set(kept)], unknown };
+}
+
+/** Error text for values checkPaymentMethods rejected */
+export function unknownPaymentMethodsMessage(unknown: readonly string[]): string {
+  const listed = unknown.map((method) => `"${method}"`).join(', ');
+  return `Unknown payment method ${listed}. Payment method must be one of: ${PAYMENT_METHODS.join(', ')}`;
+}
+
+const timeSchema = z.string().regex(/^\d{2}:\d{2}$/, 'Time must be in HH:MM format');
+const timeIntervalSchema = z.object({ open: timeSchema, close: timeSchema });
+
+// Older place files mark closed days with "yes", 1, etc.; they're read the
+// same way lib/hours reads them and stored as booleans
+const closedSchema = z.preprocess(
+  (value) => (value === undefined ? undefined : isClosedValue(value)),
+  z.boolean().optional()
+);
+
+/** Some place files write a closed day as { open: "closed", close: "closed" } */
+function normalizeClosedTimes(day: unknown): unknown {
+  if (typeof day !== 'object' || day === null) return day;
+  const { open } = day as { open?: unknown };
+  return typeof open === 'string' && open.trim().toLowerCase() === 'closed' ? { closed: true } : day;
+}
+
+/**
+ * A day is closed, open from `open` to `close`, or open for each of
+ * `intervals` (split shifts)
+ */
+const dayHoursSchema = z.preprocess(
+  normalizeClosedTimes,
+  z
+    .object({
+      closed: closedSchema,
+      open: timeSchema.optional(),
+      close: timeSchema.optional(),
+      intervals: z.array(timeIntervalSchema).max(6).optional(),
+    })
+    .refine(
+      (day) => day.closed || (day.intervals?.length ?? 0) > 0 || (day.open !== undefined && day.close !== undefined),
+      'Give open and close times, intervals, or mark the day closed'
+    )
+);
+
+export const operatingHoursSchema = z.record(z.string(), dayHoursSchema);
+
+/** Payment methods for a new place, where every value is new input */
+export const paymentMethodsSchema = z.array(
+  z.preprocess(
+    normalizePaymentMethod,
+    z.enum(PAYMENT_METHODS, { message: `Payment method must be one of: ${PAYMENT_METHODS.join(', ')}` })
+  )
+);
+
+/**
+ * Payment methods for an existing place, checked against what it already
+ * lists with checkPaymentMethods once the place is loaded
+ */
+const existingPaymentMethodsSchema = z.array(z.string().trim().min(1));
+
+export const slugSchema = z
+  .string()
+  .min(1, 'Slug is required')
+  .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Use lowercase letters, numbers and dashes');
+
+/**
+ * Fields a place form edits. No defaults here: partial updates must leave
+ * omitted fields alone.
+ */
+const placeFieldsSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  description: z.string().min(10, 'Description must be at least 10 characters'),
+  address: z.string().min(1, 'Address is required'),
+  phone: z.string().optional(),
+  email: z.string().email('Invalid email format').optional().or(z.literal('')),
+  website: z.string().url('Invalid URL format').optional().or(z.literal('')),
+  links: placeLinksSchema.optional(),
+  logoUrl: z.string().url('Invalid logo URL').optional().or(z.literal('')),
+  coverImageUrl: z.string().url('Invalid cover image URL').optional().or(z.literal('')),
+  photosUrls: z.array(z.string().url('Invalid photo URL')),
+  operatingHours: operatingHoursSchema,
+  priceRange: z.enum(PRICE_RANGES, { message: 'Price range must be $, $$, $$$, or $$$$' }),
+  paymentMethods: paymentMethodsSchema,
+  tags: z.array(z.string()),
+  amenities: z.array(z.string()),
+  cuisineTypes: z.array(z.string()).min(1, 'At least one cuisine type is required'),
+  specialties: z.array(z.string()),
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional(),
+});
+
+/** Lists a form may leave out when creating or suggesting */
+const listDefaults = {
+  links: placeLinksSchema.default({}),
+  photosUrls: placeFieldsSchema.shape.photosUrls.default([]),
+  paymentMethods: paymentMethodsSchema.default([]),
+  tags: z.array(z.string()).default([]),
+  amenities: z.array(z.string()).default([]),
+  specialties: z.array(z.string()).default([]),
+};
+
+/** A new place from the public form (POST /api/places/submit) */
+export const createPlaceSchema = placeFieldsSchema
+  .extend(listDefaults)
+  .extend({
+    contributorName: z.string().min(1, 'Contributor name is required'),
+    contributorEmail: z.string().email('Invalid email format').optional().or(z.literal('')),
+    contributorGithub: z.string().optional(),
+  })
+  .superRefine(checkPlaceCoordinates);
+
+/**
+ * Suggested edits to a listed place (POST /api/suggestions). Links and pin
+ * may be omitted to keep the current ones.
+ */
+export const suggestPlaceSchema = placeFieldsSchema
+  .extend(listDefaults)
+  .extend({
+    placeId: z.string().uuid('Valid place UUID required'),
+    links: placeLinksSchema.optional(),
+    paymentMethods: existingPaymentMethodsSchema.default([]),
+    contributorName: z.string().min(1, 'Contributor name is required'),
+    contributorEmail: z.string().email('Invalid email format').optional().or(z.literal('')),
+  })
+  .superRefine(checkPlaceCoordinates);
+
+/** An owner's direct edit (PUT /api/owner/places/[id]); every field is optional */
+export const updatePlaceSchema = placeFieldsSchema
+  .partial()
+  .extend({ paymentMethods: existingPaymentMethodsSchema.optional() })
+  .superRefine(checkPlaceCoordinates);
+
+/**
+ * An admin edit (PUT /api/admin/places/[id]). Admins can also change the
+ * slug, lifecycle, ownership and brand, and clear the pin with null.
+ */
+export const adminUpdatePlaceSchema = placeFieldsSchema
+  .partial()
+  .extend({
+    slug: slugSchema.optional(),
+    paymentMethods: existingPaymentMethodsSchema.optional(),
+    latitude: placeFieldsSchema.shape.latitude.nullable(),
+    longitude: placeFieldsSchema.shape.longitude.nullable(),
+    verified: z.boolean().optional(),
+    claimedBy: z.string().uuid().optional().nullable(),
+    brandId: z.string().uuid().optional().nullable(),
+    status: z.enum(['active', 'temporarily_closed', 'permanently_closed', 'coming_soon']).optional(),
+    statusEffectiveDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional().nullable(),
+  })
+  .superRefine(checkPlaceCoordinates);
+
+const contributorSchema = z.object({
+  name: z.string().min(1, 'Contributor name is required'),
+  email: z.string().email('Invalid email format').optional(),
+  github: z.string().optional(),
+  contributedAt: z.string().datetime('Invalid contribution timestamp'),
+  action: z.enum(['created', 'updated', 'verified']),
+});
+
+/**
+ * A place file in apps/web/src/data/places. The neighborhood boundary
+ * isn't checked here: a few listed places sit outside it. Payment methods
+ * outside PAYMENT_METHODS are existing data, so scripts/validate-place.ts
+ * reports them as warnings instead of failing the file.
+ */
+export const placeFileSchema = placeFieldsSchema.extend({
+  paymentMethods: existingPaymentMethodsSchema,
+  id: z.string().uuid('ID must be a valid UUID (e.g., 550e8400-e29b-41d4-a716-446655440000)'),
+  slug: slugSchema,
+  createdAt: z.string().datetime('Invalid createdAt timestamp'),
+  updatedAt: z.string().datetime('Invalid updatedAt timestamp'),
+  createdBy: z.string().min(1, 'Creator name is required'),
+  contributors: z.array(contributorSchema).optional(),
+  rating: z.number().min(0).max(5).optional(),
+  reviewCount: z.number().int().min(0).optional(),
+  verified: z.boolean().optional(),
+});
+
+export type CreatePlaceInput = z.infer<typeof createPlaceSchema>;
+export type SuggestPlaceInput = z.infer<typeof suggestPlaceSchema>;
+export type UpdatePlaceInput = z.infer<typeof updatePlaceSchema>;
+export type AdminUpdatePlaceInput = z.infer<typeof adminUpdatePlaceSchema>;
@@ -0,0 +1,65 @@
+import { z } from 'zod';
+import { getManilaDate } from '@/lib/hours';
+import type { PlaceStatus } from '@/types/place';
+
+export const PLACE_STATUSES: { value: PlaceStatus; label: string }[] = [
+  { value: 'active', label: 'Open for business' },
+  { value: 'temporarily_closed', label: 'Temporarily closed' },
+  { value: 'permanently_closed', label: 'Permanently closed' },
+  { value: 'coming_soon', label: 'Coming soon' },
+];
+
+/**
+ * Status fields accepted by /api/places/[id]/status and the admin place editor
+ */
+export const placeStatusSchema = z.object({
+  status: z.enum(['active', 'temporarily_closed', 'permanently_closed', 'coming_soon']),
+  statusEffectiveDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable().optional(),
+});
+
+export function getPlaceStatusLabel(status: PlaceStatus): string {
+  return PLACE_STATUSES.find((s) => s.value === status)?.label ?? status;
+}
+
+/**
+ * Status in effect on the given date (Manila time)
+ * A closure with a future effective date leaves the place active until then;
+ * a coming-soon place becomes active on its opening date.
+ * Mirrors place_effective_status() in the database.
+ */
+export function getEffectiveStatus(
+  place: { status?: PlaceStatus; statusEffectiveDate?: string },
+  date: Date = new Date()
+): PlaceStatus {
+  const status = place.status ?? 'active';
+  if (!place.statusEffectiveDate || status === 'active') return status;
+
+  const today = getManilaDate(date);
+  if (status === 'coming_soon') {
+    return place.statusEffectiveDate <= today ? 'active' : status;
+  }
+  return place.statusEffectiveDate > today ? 'active' : status;
+}
+
+/**
+ * Format a status date, e.g. "Mar 25, 2027"
+ */
+export function formatStatusDate(dateKey: string): string {
+  return new Date(`${dateKey}T00:00:00Z`).toLocaleDateString('en-PH', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+/**
+ * Whether the place is closed (temporarily or for good) on the given date
+ */
+export function isPlaceClosed(
+  place: { status?: PlaceStatus; statusEffectiveDate?: string },
+  date: Date = new Date()
+): boolean {
+  const status = getEffectiveStatus(place, date);
+  return status === 'temporarily_closed' || status === 'permanently_closed';
+}
@@ -1,8 +1,10 @@
 import { unstable_cache } from 'next/cache';
 import { createAdminClient } from '@/lib/supabase/admin';
 import { createClient } from '@/lib/supabase/server';
-import { dbRowToPlace, dbRowToPlaceIndex } from '@/lib/supabase/mappers';
-import type { Place, PlaceIndex } from '@/types/place';
+import { dbRowToMenuItem, dbRowToPlace, dbRowToPlaceIndex, dbRowToPlacePhoto, dbRowToPlaceReview, dbRowToPlaceRevision } from '@/lib/supabase/mappers';
+import { withRevisionChanges } from '@/lib/revisions';
+import { REVIEWS_PAGE_SIZE, getReviewOrder } from '@/lib/reviews';
+import type { MenuItem, Place, PlaceIndex, PlacePhoto, PlaceReview, ReviewSort, RevisionFieldChange, RevisionSource } from '@/types/place';
 
 /**
  * Get all places (index data only) from Supabase - server-side with caching
@@ -13,7 +15,7 @@ export const getAllPlaces = unstable_cache(
     const supabase = createAdminClient();
     const { data, error } = await supabase
       .from('places')
-      .select('*')
+      .select('*, brands(*)')
       .order('name');
 
     if (error) {
@@ -29,12 +31,13 @@ export const getAllPlaces = unstable_cache(
 
 /**
  * Get a single place by slug (full data) - server-side
+ * Includes the place's brand, if it belongs to a chain.
  */
 export async function getPlaceBySlug(slug: string): Promise<Place | undefined> {
   const supabase = await createClient();
   const { data, error } = await supabase
     .from('places')
-    .select('*')
+    .select('*, brands(*)')
     .eq('slug', slug)
     .single();
 
@@ -102,3 +105,105 @@ export async function getPlaceById(id: string): Promise<Place | undefined> {
 
   return place;
 }
+
+/**
+ * Get a place's menu, ordered for display - server-side
+ */
+export async function getMenuItems(placeId: string): Promise<MenuItem[]> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('menu_items')
+    .select('*')
+    .eq('place_id', placeId)
+    .order('category', { nullsFirst: false })
+    .order('sort_order')
+    .order('name');
+
+  if (error) {
+    console.info(`[places-server] Failed to load menu for place: ${placeId}`, error.message);
+    return [];
+  }
+
+  return (data ?? []).map(dbRowToMenuItem);
+}
+
+/**
+ * A place's visible gallery photos in display order - server-side
+ */
+export async function getPlacePhotos(placeId: string): Promise<PlacePhoto[]> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('place_photos')
+    .select('*, profiles(display_name)')
+    .eq('place_id', placeId)
+    .eq('status', 'visible')
+    .order('sort_order')
+    .order('created_at');
+
+  if (error) {
+    console.info(`[places-server] Failed to load photos for place: ${placeId}`, error.message);
+    return [];
+  }
+
+  return (data ?? []).map(dbRowToPlacePhoto);
+}
+
+/**
+ * A page of a place's visible reviews with the total count - server-side
+ */
+export async function getPlaceReviews(
+  placeId: string,
+  sort: ReviewSort = 'newest',
+  offset = 0
+): Promise<{ reviews: PlaceReview[]; total: number }> {
+  const supabase = await createClient();
+  let query = supabase
+    .from('place_reviews')
+    .select('*, profiles(display_name, avatar_url)', { count: 'exact' })
+    .eq('place_id', placeId)
+    .eq('status', 'visible');
+
+  for (const { column, ascending } of getReviewOrder(sort)) {
+    query = query.order(column, { ascending });
+  }
+
+  const { data, count, error } = await query
+    .order('id')
+    .range(offset, offset + REVIEWS_PAGE_SIZE - 1);
+
+  if (error) {
+    console.info(`[places-server] Failed to load reviews for place: ${placeId}`, error.message);
+    return { reviews: [], total: 0 };
+  }
+
+  return { reviews: (data ?? []).map(dbRowToPlaceReview), total: count ?? 0 };
+}
+
+/**
+ * Public edit history of a place, newest first - server-side
+ * Revisions are admin-only in the database, so this reads them with the
+ * admin client and returns only the dates, sources and public field changes
+ * (no editor identities or owner accounts).
+ */
+export async function getPlaceHistory(
+  placeId: string,
+  limit = 50
+): Promise<{ id: string; source: RevisionSource; createdAt: string; changes: RevisionFieldChange[] }[]> {
+  const supabase = createAdminClient();
+  const { data, error } = await supabase
+    .from('place_revisions')
+    .select('*')
+    .eq('place_id', placeId)
+    .order('created_at', { ascending: false })
+    .limit(limit + 1);
+
+  if (error) {
+    console.info(`[places-server] Failed to load history for place: ${placeId}`, error.message);
+    return [];
+  }
+
+  return withRevisionChanges((data ?? []).map(dbRowToPlaceRevision))
+    .slice(0, limit)
+    .filter((revision) => revision.changes.length > 0)
+    .map(({ id, source, createdAt, changes }) => ({ id, source, createdAt, changes }));
+}
@@ -1,7 +1,11 @@
 import Fuse, { type IFuseOptions } from 'fuse.js';
 import { createClient } from '@/lib/supabase/client';
 import { dbRowToPlace, dbRowToPlaceIndex } from '@/lib/supabase/mappers';
-import type { Place, PlaceIndex, SearchFilters, SearchResult } from '@/types/place';
+import { isPlaceClosed } from '@/lib/place-status';
+import { filtersToSearchParams } from '@/lib/search-params';
+import { csrfFetch } from '@/lib/csrf-client';
+import { buildSynonymDictionary, querySynonyms, toFuseQuery, type SynonymDictionary } from '@/lib/synonyms';
+import type { DishResult, Place, PlaceIndex, SearchFacets, SearchFilters, SearchResult } from '@/types/place';
 
 /**
  * Client-side cache for PlaceIndex data
@@ -36,8 +40,37 @@ export async function getAllPlaces(): Promise<PlaceIndex[]> {
   return cachedPlaces;
 }
 
+let cachedSynonyms: SynonymDictionary | null = null;
+let synonymsTimestamp = 0;
+
+/**
+ * Get the Filipino/Taglish search synonym dictionary from Supabase
+ * Cached like getAllPlaces so admin edits show up within the TTL.
+ */
+export async function getSearchSynonyms(): Promise<SynonymDictionary> {
+  const now = Date.now();
+  if (cachedSynonyms && now - synonymsTimestamp < CACHE_TTL) {
+    return cachedSynonyms;
+  }
+
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .from('search_synonyms')
+    .select('term, synonyms');
+
+  if (error) {
+    console.info('[places] Error fetching search synonyms:', error.message);
+    return cachedSynonyms ?? {};
+  }
+
+  cachedSynonyms = buildSynonymDictionary(data ?? []);
+  synonymsTimestamp = now;
+  return cachedSynonyms;
+}
+
 /**
  * Get a single place by slug (full data) - client-side
+ * Former slugs of renamed places resolve to the place as well.
  */
 export async function getPlaceBySlug(slug: string): Promise<Place | undefined> {
   const supabase = createClient();
@@ -45,10 +78,18 @@ export async function getPlaceBySlug(slug: string): Promise<Place | undefined> {
     .from('places')
     .select('*')
     .eq('slug', slug)
-    .single();
+    .maybeSingle();
+
+  if (data) return dbRowToPlace(data);
+  if (error) return undefined;
+
+  const { data: former } = await supabase
+    .from('place_slugs')
+    .select('places(*)')
+    .eq('slug', slug)
+    .maybeSingle();
 
-  if (error || !data) return undefined;
-  return dbRowToPlace(data);
+  return former?.places ? dbRowToPlace(former.places) : undefined;
 }
 
 /**
@@ -65,78 +106,146 @@ const fuseOptions: IFuseOptions<PlaceIndex> = {
   ],
   threshold: 0.4,
   includeScore: true,
-  useExtendedSearch: true,
 };
 
 /**
- * Search places with advanced filtering
- * Uses Fuse.js for fuzzy text search on Supabase-sourced data
+ * Fuzzy-search places, expanded with Filipino/English synonyms. Extended
+ * search (for the OR'd variants) is only on when the query was expanded;
+ * those variants are punctuation-free, so typed text like "!" or "^" is
+ * never read as a Fuse operator.
  */
-export async function searchPlaces(filters: SearchFilters): Promise<SearchResult> {
-  let results = await getAllPlaces();
+function fuzzySearchPlaces(places: PlaceIndex[], query: string, synonyms: SynonymDictionary) {
+  const fuseQuery = toFuseQuery(query, synonyms);
+  const options = fuseQuery === query ? fuseOptions : { ...fuseOptions, useExtendedSearch: true };
+  return new Fuse(places, options).search(fuseQuery);
+}
 
-  // Text search using Fuse.js
-  if (filters.query && filters.query.trim() !== '') {
-    const fuse = new Fuse(results, fuseOptions);
-    const searchResults = fuse.search(filters.query);
-    results = searchResults.map((result) => result.item);
+/**
+ * URL params for /api/search endpoints
+ * Favorites are stored in the browser, so their IDs are sent along.
+ */
+function searchRequestParams(filters: SearchFilters): URLSearchParams {
+  const params = filtersToSearchParams(filters);
+  if (filters.favoritesOnly) {
+    const FAVORITES_KEY = 'whereinmaginhawa_favorites';
+    const stored = typeof window !== 'undefined' ? localStorage.getItem(FAVORITES_KEY) : null;
+    const favorites: string[] = stored ? JSON.parse(stored) : [];
+    params.set('ids', favorites.join(','));
   }
+  return params;
+}
 
-  // Filter by keywords (searches across tags, amenities, cuisineTypes, and specialties)
-  if (filters.keywords && filters.keywords.length > 0) {
-    results = results.filter((place) =>
-      filters.keywords!.some((keyword) =>
-        place.tags.includes(keyword) ||
-        place.amenities.includes(keyword) ||
-        place.cuisineTypes.includes(keyword) ||
-        place.specialties.includes(keyword)
-      )
-    );
-  }
+/**
+ * Fetch one page of server-side search results from /api/search
+ * Pass the previous result's nextCursor to load the following page, and
+ * groupBranches to list each chain once with its other branches attached.
+ */
+export async function fetchSearchPage(
+  filters: SearchFilters,
+  cursor?: string | null,
+  limit?: number,
+  options: { groupBranches?: boolean } = {}
+): Promise<SearchResult> {
+  const params = searchRequestParams(filters);
+  if (cursor) params.set('cursor', cursor);
+  if (limit) params.set('limit', String(limit));
+  if (options.groupBranches) params.set('group', 'branches');
 
-  // Filter by tags
-  if (filters.tags && filters.tags.length > 0) {
-    results = results.filter((place) =>
-      filters.tags!.some((tag) => place.tags.includes(tag))
-    );
+  const res = await fetch(`/api/search?${params.toString()}`);
+  const data = await res.json();
+  if (!res.ok || !data.success) {
+    throw new Error(data.error || 'Search failed');
   }
 
-  // Filter by amenities
-  if (filters.amenities && filters.amenities.length > 0) {
-    results = results.filter((place) =>
-      filters.amenities!.every((amenity) => place.amenities.includes(amenity))
-    );
+  return {
+    places: data.places,
+    total: data.total,
+    filters,
+    nextCursor: data.nextCursor ?? null,
+  };
+}
+
+/**
+ * Fetch every server-side search result by following cursors
+ * Used by the map view, which plots all matches rather than one page.
+ */
+export async function fetchAllSearchResults(filters: SearchFilters): Promise<SearchResult> {
+  const PAGE_SIZE = 100;
+  const MAX_PAGES = 20;
+
+  let result = await fetchSearchPage(filters, null, PAGE_SIZE);
+  const places = [...result.places];
+  for (let page = 1; result.nextCursor && page < MAX_PAGES; page++) {
+    result = await fetchSearchPage(filters, result.nextCursor, PAGE_SIZE);
+    places.push(...result.places);
   }
 
-  // Filter by cuisine types
-  if (filters.cuisineTypes && filters.cuisineTypes.length > 0) {
-    results = results.filter((place) =>
-      filters.cuisineTypes!.some((cuisine) =>
-        place.cuisineTypes.includes(cuisine)
-      )
-    );
+  return {
+    places,
+    total: result.total,
+    filters,
+    nextCursor: null,
+  };
+}
+
+/**
+ * Fetch facet counts (places per cuisine, amenity and price range)
+ * for the given filters from /api/search/facets
+ */
+export async function fetchSearchFacets(filters: SearchFilters): Promise<SearchFacets> {
+  const res = await fetch(`/api/search/facets?${searchRequestParams(filters).toString()}`);
+  const data = await res.json();
+  if (!res.ok || !data.success) {
+    throw new Error(data.error || 'Search failed');
   }
+  return data.facets;
+}
 
-  // Filter by price range
-  if (filters.priceRanges && filters.priceRanges.length > 0) {
-    results = results.filter((place) =>
-      filters.priceRanges!.includes(place.priceRange)
-    );
+/**
+ * Fetch menu items matching a dish query from /api/search/dishes
+ * Price limits in the query ("sisig under ₱200") are applied to menu prices.
+ */
+export async function fetchDishResults(query: string, limit = 6): Promise<DishResult[]> {
+  const params = new URLSearchParams({ q: query, limit: String(limit) });
+  const res = await fetch(`/api/search/dishes?${params.toString()}`);
+  const data = await res.json();
+  if (!res.ok || !data.success) {
+    throw new Error(data.error || 'Search failed');
   }
+  return data.items;
+}
 
-  // Filter by favorites
-  if (filters.favoritesOnly) {
-    const FAVORITES_KEY = 'whereinmaginhawa_favorites';
-    const stored = typeof window !== 'undefined' ? localStorage.getItem(FAVORITES_KEY) : null;
-    const favorites: string[] = stored ? JSON.parse(stored) : [];
-    results = results.filter((place) => favorites.includes(place.id));
+/**
+ * Record an anonymized search for the admin search analytics page
+ * Returns the event ID to pass to recordSearchClick, or null if it wasn't recorded.
+ */
+export async function recordSearch(
+  filters: SearchFilters,
+  resultCount: number,
+  source: 'places' | 'search-bar'
+): Promise<string | null> {
+  try {
+    const res = await csrfFetch('/api/search/events', {
+      body: JSON.stringify({ params: filtersToSearchParams(filters).toString(), resultCount, source }),
+      keepalive: true,
+    });
+    const data = await res.json();
+    return data.success ? data.eventId : null;
+  } catch (error) {
+    console.info('[places] Failed to record search:', error);
+    return null;
   }
+}
 
-  return {
-    places: results,
-    total: results.length,
-    filters,
-  };
+/**
+ * Record which result was clicked from a recorded search
+ * Fire-and-forget; uses keepalive so it survives the navigation to the place page.
+ */
+export function recordSearchClick(eventId: string, placeId: string, position: number): void {
+  csrfFetch(`/api/search/events/${eventId}/click`, {
+    body: JSON.stringify({ placeId, position }),
+    keepalive: true,
+  }).catch((error) => console.info('[places] Failed to record search click:', error));
 }
 
 /**
@@ -194,30 +303,28 @@ export async function getAutocompleteSuggestions(query: string): Promise<{
     };
   }
 
-  const lowerQuery = query.toLowerCase();
-  const allPlaces = await getAllPlaces();
+  const now = new Date();
+  const allPlaces = (await getAllPlaces()).filter((place) => !isPlaceClosed(place, now));
+  const synonyms = await getSearchSynonyms();
+
+  // "kape" also suggests the coffee/cafe tags
+  const needles = [query.toLowerCase(), ...querySynonyms(query, synonyms)];
+  const matches = (value: string) => needles.some((needle) => value.toLowerCase().includes(needle));
 
   // Search places
-  const fuse = new Fuse(allPlaces, fuseOptions);
-  const placeResults = fuse.search(query).slice(0, 5);
+  const placeResults = fuzzySearchPlaces(allPlaces, query, synonyms).slice(0, 5);
 
   // Filter tags
   const allTags = await getAllTags();
-  const matchingTags = allTags
-    .filter((tag) => tag.toLowerCase().includes(lowerQuery))
-    .slice(0, 5);
+  const matchingTags = allTags.filter(matches).slice(0, 5);
 
   // Filter amenities
   const allAmenities = await getAllAmenities();
-  const matchingAmenities = allAmenities
-    .filter((amenity) => amenity.toLowerCase().includes(lowerQuery))
-    .slice(0, 5);
+  const matchingAmenities = allAmenities.filter(matches).slice(0, 5);
 
   // Filter cuisines
   const allCuisines = await getAllCuisineTypes();
-  const matchingCuisines = allCuisines
-    .filter((cuisine) => cuisine.toLowerCase().includes(lowerQuery))
-    .slice(0, 5);
+  const matchingCuisines = allCuisines.filter(matches).slice(0, 5);
 
   return {
     places: placeResults.map((r) => r.item),
@@ -6,6 +6,7 @@
  * For very high traffic, consider Upstash Redis.
  */
 
+import type { NextRequest } from 'next/server';
 import { createAdminClient } from '@/lib/supabase/admin';
 
 interface RateLimitConfig {
@@ -35,6 +36,18 @@ function checkMemoryFallback(identifier: string, config: RateLimitConfig): boole
   return true;
 }
 
+/**
+ * Client IP for per-visitor rate limits: the first x-forwarded-for hop,
+ * then x-real-ip
+ */
+export function getClientIP(request: NextRequest): string {
+  const forwarded = request.headers.get('x-forwarded-for');
+  if (forwarded) return forwarded.split(',')[0].trim();
+  const realIP = request.headers.get('x-real-ip');
+  if (realIP) return realIP;
+  return 'unknown';
+}
+
 /**
  * Check if a request is within rate limits.
  * Uses Supabase RPC for atomic check, falls back to in-memory.
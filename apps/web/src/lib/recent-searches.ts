@@ -0,0 +1,37 @@
+const RECENT_SEARCHES_KEY = 'whereinmaginhawa_recent_searches';
+const MAX_RECENT_SEARCHES = 5;
+
+/**
+ * Recent search queries from this browser, newest first
+ */
+export function getRecentSearches(): string[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = localStorage.getItem(RECENT_SEARCHES_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Remember a search query, moving it to the top if already present
+ */
+export function addRecentSearch(query: string): void {
+  const trimmed = query.trim();
+  if (!trimmed || typeof window === 'undefined') return;
+
+  const recent = getRecentSearches().filter((q) => q.toLowerCase() !== trimmed.toLowerCase());
+  localStorage.setItem(
+    RECENT_SEARCHES_KEY,
+    JSON.stringify([trimmed, ...recent].slice(0, MAX_RECENT_SEARCHES))
+  );
+}
+
+/**
+ * Forget all recent searches
+ */
+export function clearRecentSearches(): void {
+  if (typeof window === 'undefined') return;
+  localStorage.removeItem(RECENT_SEARCHES_KEY);
+}
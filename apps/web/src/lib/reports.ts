@@ -0,0 +1,35 @@
+import { z } from 'zod';
+import type { ReportReason, ReportTargetType } from '@/types/place';
+
+export const REPORT_REASONS: Array<{ value: ReportReason; label: string; description: string }> = [
+  { value: 'spam', label: 'Spam', description: 'Ads, links or repeated posts' },
+  { value: 'offensive', label: 'Offensive', description: 'Hateful, abusive or explicit' },
+  { value: 'wrong_place', label: 'Wrong place', description: 'About a different place' },
+  { value: 'privacy', label: 'Privacy', description: 'Shows personal information or people without consent' },
+];
+
+export const REPORT_TARGET_LABELS: Record<ReportTargetType, string> = {
+  review: 'Review',
+  photo: 'Photo',
+  description: 'Description',
+};
+
+/**
+ * A report for POST /api/reports. `targetId` is the review or photo ID, or
+ * the place ID for a description.
+ */
+export const reportSchema = z.object({
+  targetType: z.enum(['review', 'photo', 'description']),
+  targetId: z.string().uuid(),
+  reason: z.enum(['spam', 'offensive', 'wrong_place', 'privacy'], { message: 'Pick a reason' }),
+  details: z.string().trim().max(500).optional(),
+});
+
+/** Admin actions on a report (see moderate_report) */
+export const moderateReportSchema = z.object({
+  action: z.enum(['hide', 'restore', 'ban']),
+});
+
+export function getReportReasonLabel(reason: ReportReason): string {
+  return REPORT_REASONS.find((option) => option.value === reason)?.label ?? reason;
+}
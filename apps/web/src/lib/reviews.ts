@@ -0,0 +1,78 @@
+import { z } from 'zod';
+import { getManilaDate } from '@/lib/hours';
+import type { ReviewSort } from '@/types/place';
+
+/** Photos a review can carry */
+export const MAX_REVIEW_PHOTOS = 4;
+
+/** Reviews loaded per page on the place page */
+export const REVIEWS_PAGE_SIZE = 10;
+
+export const REVIEW_SORT_OPTIONS: Array<{ value: ReviewSort; label: string }> = [
+  { value: 'newest', label: 'Newest' },
+  { value: 'oldest', label: 'Oldest' },
+  { value: 'highest', label: 'Highest rated' },
+  { value: 'lowest', label: 'Lowest rated' },
+];
+
+/** Unknown sorts fall back to newest */
+export const reviewSortSchema = z.enum(['newest', 'oldest', 'highest', 'lowest']).catch('newest');
+
+/**
+ * A review for /api/places/[id]/reviews. Photos are uploaded first through
+ * /api/upload-image with type "review".
+ */
+export const reviewSchema = z.object({
+  rating: z.number().int().min(1, 'Pick a rating from 1 to 5 stars').max(5, 'Pick a rating from 1 to 5 stars'),
+  body: z.string().trim().min(10, 'Review must be at least 10 characters').max(2000),
+  photoUrls: z.array(z.string().url()).max(MAX_REVIEW_PHOTOS).default([]),
+  visitedOn: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Visit date must be YYYY-MM-DD')
+    .refine((date) => date <= getManilaDate(), 'Visit date cannot be in the future')
+    .optional()
+    .or(z.literal('')),
+});
+
+/**
+ * place_reviews ordering for a sort; ties go to the newer review
+ */
+export function getReviewOrder(sort: ReviewSort): { column: 'created_at' | 'rating'; ascending: boolean }[] {
+  switch (sort) {
+    case 'oldest':
+      return [{ column: 'created_at', ascending: true }];
+    case 'highest':
+      return [{ column: 'rating', ascending: false }, { column: 'created_at', ascending: false }];
+    case 'lowest':
+      return [{ column: 'rating', ascending: true }, { column: 'created_at', ascending: false }];
+    default:
+      return [{ column: 'created_at', ascending: false }];
+  }
+}
+
+/**
+ * "4.5" for a rating, or undefined when the place has no reviews
+ */
+export function formatRating(rating: number | undefined, reviewCount: number | undefined): string | undefined {
+  return rating !== undefined && (reviewCount ?? 0) > 0 ? rating.toFixed(1) : undefined;
+}
+
+/**
+ * "1 review", "12 reviews"
+ */
+export function formatReviewCount(count: number): string {
+  return `${count} ${count === 1 ? 'review' : 'reviews'}`;
+}
+
+/**
+ * Format a review or visit date, e.g. "Mar 25, 2027". Takes a
+ * "YYYY-MM-DD" date or an ISO timestamp.
+ */
+export function formatReviewDate(date: string): string {
+  return new Date(`${date.slice(0, 10)}T00:00:00Z`).toLocaleDateString('en-PH', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
@@ -0,0 +1,138 @@
+import type { PlaceRevision, RevisionFieldChange, RevisionSource } from '@/types/place';
+
+/**
+ * Request header that labels a write to `places` with its source route.
+ * The place_revisions trigger reads it from PostgREST's request.headers:
+ *
+ *   supabase.from('places').update(...).eq('id', id).setHeader(REVISION_SOURCE_HEADER, 'owner_edit')
+ */
+export const REVISION_SOURCE_HEADER = 'x-revision-source';
+
+export const REVISION_SOURCES: Record<RevisionSource, string> = {
+  baseline: 'Initial version',
+  created: 'Place added',
+  admin_edit: 'Admin edit',
+  owner_edit: 'Owner edit',
+  suggestion: 'Approved suggestion',
+  submission: 'Approved submission',
+  claim: 'Ownership claim',
+  special_hours: 'Special hours',
+  status: 'Status change',
+  restore: 'Restored version',
+  merge: 'Merged duplicate',
+  photos: 'Photo gallery',
+  moderation: 'Moderation',
+  other: 'Other change',
+};
+
+export const REVISION_FIELD_LABELS: Record<string, string> = {
+  name: 'Name',
+  slug: 'URL slug',
+  description: 'Description',
+  address: 'Address',
+  phone: 'Phone',
+  email: 'Email',
+  website: 'Website',
+  links: 'Links',
+  logo_url: 'Logo',
+  cover_image_url: 'Cover image',
+  photos_urls: 'Photos',
+  operating_hours: 'Operating hours',
+  hours_overrides: 'Special hours',
+  status: 'Status',
+  status_effective_date: 'Status date',
+  price_range: 'Price range',
+  payment_methods: 'Payment methods',
+  tags: 'Tags',
+  amenities: 'Amenities',
+  cuisine_types: 'Cuisine types',
+  specialties: 'Specialties',
+  latitude: 'Latitude',
+  longitude: 'Longitude',
+  verified: 'Verified',
+  claimed_by: 'Owner account',
+  brand_id: 'Brand',
+  created_by: 'Created by',
+};
+
+/**
+ * Place content a revision can be restored to. Ownership, verification
+ * and the slug are left alone so a restore can't undo a claim or break links.
+ */
+export const RESTORABLE_FIELDS = [
+  'name',
+  'description',
+  'address',
+  'phone',
+  'email',
+  'website',
+  'links',
+  'logo_url',
+  'cover_image_url',
+  'photos_urls',
+  'operating_hours',
+  'hours_overrides',
+  'status',
+  'status_effective_date',
+  'price_range',
+  'payment_methods',
+  'tags',
+  'amenities',
+  'cuisine_types',
+  'specialties',
+  'latitude',
+  'longitude',
+] as const;
+
+/** Fields that identify people; left out of the public history */
+const PRIVATE_FIELDS = new Set(['claimed_by', 'created_by']);
+
+/** Row metadata that never shows up as a change */
+const META_FIELDS = new Set(['id', 'created_at', 'updated_at', 'favorite_count', 'rating', 'review_count']);
+
+export function getRevisionFieldLabel(field: string): string {
+  return REVISION_FIELD_LABELS[field] ?? field.replace(/_/g, ' ');
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Field-by-field changes between two snapshots. With no previous snapshot
+ * (the first revision) every filled-in field counts as added.
+ */
+export function diffSnapshots(
+  previous: Record<string, unknown> | undefined,
+  next: Record<string, unknown>,
+  options: { includePrivate?: boolean } = {}
+): RevisionFieldChange[] {
+  const fields = new Set([...Object.keys(previous ?? {}), ...Object.keys(next)]);
+  const changes: RevisionFieldChange[] = [];
+
+  for (const field of fields) {
+    if (META_FIELDS.has(field)) continue;
+    if (!options.includePrivate && PRIVATE_FIELDS.has(field)) continue;
+    if (isEqual(previous?.[field], next[field])) continue;
+    if (!previous && (next[field] === null || next[field] === '')) continue;
+    changes.push({ field, old: previous?.[field] ?? null, new: next[field] ?? null });
+  }
+
+  // Keep the order of the labels above, unknown fields last
+  const order = Object.keys(REVISION_FIELD_LABELS);
+  const rank = (field: string) => (order.includes(field) ? order.indexOf(field) : order.length);
+  return changes.sort((a, b) => rank(a.field) - rank(b.field));
+}
+
+/**
+ * Pair each revision (newest first) with the changes it made
+ */
+export function withRevisionChanges<T extends PlaceRevision>(
+  revisions: T[],
+  options: { includePrivate?: boolean } = {}
+): (T & { changes: RevisionFieldChange[] })[] {
+  return revisions.map((revision, index) => ({
+    ...revision,
+    changes: diffSnapshots(revisions[index + 1]?.snapshot, revision.snapshot, options),
+  }));
+}
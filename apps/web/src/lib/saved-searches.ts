@@ -0,0 +1,43 @@
+import type { SearchFilters } from '@/types/place';
+
+/**
+ * Saved searches
+ * Logged-in users can save SearchFilters from /places and get a dashboard
+ * notification when an approved submission matches (notify_saved_search_matches).
+ */
+
+export const MAX_SAVED_SEARCHES = 20;
+
+function readable(values: string[]): string {
+  return values.map((value) => value.replace(/-/g, ' ')).join(' or ');
+}
+
+/**
+ * Short human-readable summary, e.g. "$ · cafe · with wifi · open now"
+ * Used as the default name when saving and as the subtitle on the dashboard.
+ */
+export function describeFilters(filters: SearchFilters): string {
+  const parts: string[] = [];
+
+  if (filters.query) parts.push(`“${filters.query}”`);
+  if (filters.priceRanges?.length) parts.push(filters.priceRanges.join('/'));
+  if (filters.cuisineTypes?.length) parts.push(readable(filters.cuisineTypes));
+  if (filters.keywords?.length) parts.push(readable(filters.keywords));
+  if (filters.tags?.length) parts.push(readable(filters.tags));
+  if (filters.amenities?.length) {
+    parts.push(`with ${filters.amenities.map((a) => a.replace(/-/g, ' ')).join(' & ')}`);
+  }
+  if (filters.openNow) parts.push('open now');
+  if (filters.near) {
+    const radius = filters.radiusMeters;
+    parts.push(
+      !radius ? 'near a location'
+        : radius < 1000 ? `within ${Math.round(radius)} m`
+          : `within ${(radius / 1000).toFixed(1)} km`
+    );
+  }
+  if (filters.bounds) parts.push('in map area');
+  if (filters.favoritesOnly) parts.push('favorites');
+
+  return parts.join(' · ') || 'All places';
+}
@@ -0,0 +1,48 @@
+import type { SearchFilters } from '@/types/place';
+
+/**
+ * Search analytics helpers for /api/search/events
+ * Events are stored without user, session or IP, so anything identifying
+ * has to be stripped here before it reaches the search_events table.
+ */
+
+const MAX_QUERY_LENGTH = 100;
+
+/**
+ * Normalize a query for grouping ("  Milk TEA " and "milk tea" count as one)
+ * and scrub emails and phone numbers people sometimes paste into search.
+ */
+export function anonymizeQuery(query: string | undefined): string | null {
+  const normalized = (query ?? '')
+    .toLowerCase()
+    .replace(/[^\s@]+@[^\s@]+/g, '[email]')
+    .replace(/\+?\d[\d\s-]{6,}\d/g, '[number]')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_QUERY_LENGTH);
+  return normalized || null;
+}
+
+/**
+ * Applied filters as stored in search_events.filters
+ * Location filters are reduced to flags: coordinates and map bounds are never stored.
+ */
+export function summarizeFilters(filters: SearchFilters): Record<string, string[] | string | number | boolean> {
+  const summary: Record<string, string[] | string | number | boolean> = {};
+
+  if (filters.keywords) summary.keywords = filters.keywords;
+  if (filters.tags) summary.tags = filters.tags;
+  if (filters.cuisineTypes) summary.cuisines = filters.cuisineTypes;
+  if (filters.amenities) summary.amenities = filters.amenities;
+  if (filters.priceRanges) summary.prices = filters.priceRanges;
+  if (filters.favoritesOnly) summary.favorites = true;
+  if (filters.openNow) summary.open = true;
+  if (filters.near) {
+    summary.near = true;
+    if (filters.radiusMeters) summary.radius = Math.round(filters.radiusMeters);
+  }
+  if (filters.bounds) summary.bbox = true;
+  if (filters.sort) summary.sort = filters.sort;
+
+  return summary;
+}
@@ -0,0 +1,94 @@
+import { parseGeoPoint, formatGeoPoint, parseGeoBounds, formatGeoBounds } from '@/lib/geo';
+import { isSearchSort } from '@/lib/sort';
+import type { PriceRange, SearchFilters } from '@/types/place';
+
+const PRICE_RANGES: PriceRange[] = ['$', '$$', '$$$', '$$$$'];
+
+interface ReadableParams {
+  get(name: string): string | null;
+}
+
+function readList(params: ReadableParams, name: string): string[] | undefined {
+  const list = params.get(name)?.split(',').map((v) => v.trim()).filter(Boolean) ?? [];
+  return list.length > 0 ? list : undefined;
+}
+
+/**
+ * Parse SearchFilters from URL search params
+ * Shared by /places (browser URL) and /api/search (request URL)
+ */
+export function searchParamsToFilters(params: ReadableParams): SearchFilters {
+  const prices = readList(params, 'prices')?.filter((p): p is PriceRange =>
+    PRICE_RANGES.includes(p as PriceRange)
+  );
+  const radius = Number(params.get('radius')) || undefined;
+  const sort = params.get('sort');
+
+  return {
+    query: params.get('q')?.trim() || undefined,
+    keywords: readList(params, 'keywords'),
+    tags: readList(params, 'tags'),
+    cuisineTypes: readList(params, 'cuisines'),
+    amenities: readList(params, 'amenities'),
+    priceRanges: prices && prices.length > 0 ? prices : undefined,
+    favoritesOnly: params.get('favorites') === 'true' || undefined,
+    openNow: params.get('open') === 'now' || undefined,
+    near: parseGeoPoint(params.get('near')),
+    radiusMeters: radius && radius > 0 ? radius : undefined,
+    bounds: parseGeoBounds(params.get('bbox')),
+    sort: isSearchSort(sort) && sort !== 'relevance' ? sort : undefined,
+  };
+}
+
+/**
+ * Serialize SearchFilters to URL search params (inverse of searchParamsToFilters)
+ */
+export function filtersToSearchParams(filters: SearchFilters): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (filters.query) {
+    params.set('q', filters.query);
+  }
+  if (filters.keywords && filters.keywords.length > 0) {
+    params.set('keywords', filters.keywords.join(','));
+  }
+  if (filters.tags && filters.tags.length > 0) {
+    params.set('tags', filters.tags.join(','));
+  }
+  if (filters.cuisineTypes && filters.cuisineTypes.length > 0) {
+    params.set('cuisines', filters.cuisineTypes.join(','));
+  }
+  if (filters.amenities && filters.amenities.length > 0) {
+    params.set('amenities', filters.amenities.join(','));
+  }
+  if (filters.priceRanges && filters.priceRanges.length > 0) {
+    params.set('prices', filters.priceRanges.join(','));
+  }
+  if (filters.favoritesOnly) {
+    params.set('favorites', 'true');
+  }
+  if (filters.openNow) {
+    params.set('open', 'now');
+  }
+  if (filters.near) {
+    params.set('near', formatGeoPoint(filters.near));
+    if (filters.radiusMeters) {
+      params.set('radius', String(Math.round(filters.radiusMeters)));
+    }
+  }
+  if (filters.bounds) {
+    params.set('bbox', formatGeoBounds(filters.bounds));
+  }
+  if (filters.sort && filters.sort !== 'relevance') {
+    params.set('sort', filters.sort);
+  }
+
+  return params;
+}
+
+/**
+ * Check whether any filter is active
+ */
+export function hasActiveFilters(filters: SearchFilters): boolean {
+  return filtersToSearchParams(filters).toString() !== '';
+}
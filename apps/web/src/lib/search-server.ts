@@ -0,0 +1,182 @@
+import { createAdminClient } from '@/lib/supabase/admin';
+import { dbRowToPlaceIndex } from '@/lib/supabase/mappers';
+import type { FacetCount, SearchFacets, SearchFilters, SearchResult } from '@/types/place';
+
+export const SEARCH_PAGE_SIZE = 24;
+// search_places returns at most 100 rows and each page asks for one extra
+// row to detect a next page
+export const SEARCH_MAX_PAGE_SIZE = 99;
+
+interface SearchOptions {
+  cursor?: string | null;
+  limit?: number;
+  /** Restrict results to these place IDs (used for favoritesOnly) */
+  placeIds?: string[];
+  /** Collapse branches of the same brand into one result (list view) */
+  groupBranches?: boolean;
+}
+
+interface SearchCursor {
+  key: number;
+  name: string;
+  id: string;
+}
+
+function encodeCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify([cursor.key, cursor.name, cursor.id])).toString('base64url');
+}
+
+/**
+ * Decode an opaque cursor. Returns null for malformed input.
+ */
+export function decodeCursor(value: string): SearchCursor | null {
+  try {
+    const [key, name, id] = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (typeof key !== 'number' || typeof name !== 'string' || typeof id !== 'string') return null;
+    return { key, name, id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * RPC arguments shared by search_places and search_place_facets
+ */
+function filterArgs(filters: SearchFilters, placeIds?: string[]) {
+  return {
+    p_query: filters.query ?? null,
+    p_keywords: filters.keywords ?? null,
+    p_tags: filters.tags ?? null,
+    p_amenities: filters.amenities ?? null,
+    p_cuisine_types: filters.cuisineTypes ?? null,
+    p_price_ranges: filters.priceRanges ?? null,
+    p_open_now: filters.openNow ?? false,
+    p_place_ids: filters.favoritesOnly ? placeIds ?? null : null,
+    p_latitude: filters.near?.latitude ?? null,
+    p_longitude: filters.near?.longitude ?? null,
+    p_radius_meters: filters.near ? filters.radiusMeters ?? null : null,
+    p_south: filters.bounds?.south ?? null,
+    p_west: filters.bounds?.west ?? null,
+    p_north: filters.bounds?.north ?? null,
+    p_east: filters.bounds?.east ?? null,
+  };
+}
+
+/**
+ * Add the surviving place of any merged-away favorite. Favorites are stored
+ * in the browser by ID, so IDs of retired duplicates keep arriving here.
+ */
+async function withMergedPlaceIds(placeIds: string[]): Promise<string[]> {
+  const supabase = createAdminClient();
+  const { data, error } = await supabase
+    .from('place_merges')
+    .select('survivor_id')
+    .in('retired_id', placeIds);
+
+  if (error) {
+    console.info('[search-server] Error resolving merged places:', error.message);
+    return placeIds;
+  }
+
+  return [...new Set([...placeIds, ...(data ?? []).map((row) => row.survivor_id)])];
+}
+
+/**
+ * Search places in Postgres via the search_places RPC
+ * Ranks with ts_rank on places.search_vector, falls back to trigram matching
+ * for typos, optionally filters/sorts by distance from `near`, and returns
+ * one cursor-paginated page of results. With groupBranches, each chain
+ * shows up once, carrying its other matching branches.
+ * Uses admin client (no cookies) so it can be used from cached server components.
+ */
+export async function searchPlacesServer(
+  filters: SearchFilters,
+  options: SearchOptions = {}
+): Promise<SearchResult> {
+  const limit = Math.min(Math.max(options.limit ?? SEARCH_PAGE_SIZE, 1), SEARCH_MAX_PAGE_SIZE);
+  const after = options.cursor ? decodeCursor(options.cursor) : null;
+
+  // Favorites live in the browser; without IDs there is nothing to match
+  if (filters.favoritesOnly && (!options.placeIds || options.placeIds.length === 0)) {
+    return { places: [], total: 0, filters, nextCursor: null };
+  }
+
+  const placeIds = filters.favoritesOnly ? await withMergedPlaceIds(options.placeIds!) : undefined;
+  const supabase = createAdminClient();
+  const { data, error } = await supabase.rpc('search_places', {
+    ...filterArgs(filters, placeIds),
+    p_sort: filters.sort ?? 'relevance',
+    // Fetch one extra row to know whether another page exists
+    p_limit: limit + 1,
+    p_after_key: after?.key ?? null,
+    p_after_name: after?.name ?? null,
+    p_after_id: after?.id ?? null,
+    p_group_branches: options.groupBranches ?? false,
+  });
+
+  if (error) {
+    console.info('[search-server] Error searching places:', error.message);
+    throw new Error('Search failed');
+  }
+
+  const rows = data ?? [];
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+
+  return {
+    places: page.map((row) => ({
+      ...dbRowToPlaceIndex({ ...row.place, brands: row.brand }),
+      distanceMeters: row.distance ?? undefined,
+      ...(row.branches.length > 0 && {
+        branches: row.branches.map((branch) => ({
+          ...dbRowToPlaceIndex({ ...branch.place, brands: row.brand }),
+          distanceMeters: branch.distance ?? undefined,
+        })),
+      }),
+    })),
+    total: rows.length > 0 ? Number(rows[0].total) : 0,
+    filters,
+    nextCursor: rows.length > limit && last
+      ? encodeCursor({ key: last.sort_key, name: last.place.name, id: last.place.id })
+      : null,
+  };
+}
+
+/**
+ * Count matching places per cuisine, amenity and price range
+ * via the search_place_facets RPC, which matches exactly like search_places.
+ */
+export async function searchFacetsServer(
+  filters: SearchFilters,
+  options: Pick<SearchOptions, 'placeIds'> = {}
+): Promise<SearchFacets> {
+  const facets: SearchFacets = { cuisineTypes: [], amenities: [], priceRanges: [] };
+
+  if (filters.favoritesOnly && (!options.placeIds || options.placeIds.length === 0)) {
+    return facets;
+  }
+
+  const placeIds = filters.favoritesOnly ? await withMergedPlaceIds(options.placeIds!) : undefined;
+  const supabase = createAdminClient();
+  const { data, error } = await supabase.rpc(
+    'search_place_facets',
+    filterArgs(filters, placeIds)
+  );
+
+  if (error) {
+    console.info('[search-server] Error counting facets:', error.message);
+    throw new Error('Search failed');
+  }
+
+  const keys = { cuisine: 'cuisineTypes', amenity: 'amenities', price: 'priceRanges' } as const;
+  for (const row of data ?? []) {
+    facets[keys[row.facet]].push({ value: row.value, count: Number(row.count) });
+  }
+
+  const byCount = (a: FacetCount, b: FacetCount) => b.count - a.count || a.value.localeCompare(b.value);
+  facets.cuisineTypes.sort(byCount);
+  facets.amenities.sort(byCount);
+  facets.priceRanges.sort(byCount);
+
+  return facets;
+}
@@ -0,0 +1,59 @@
+import { createAdminClient } from '@/lib/supabase/admin';
+
+/**
+ * Generate a URL-friendly slug from a name
+ */
+export function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .trim()
+    .replace(/[^\w\s-]/g, '')
+    .replace(/\s+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * First free slug for a name ("kape-co", "kape-co-2", ...). Slugs that
+ * belonged to other places count as taken so their old links keep working.
+ * Pass placeId when renaming so the place can keep its own slugs.
+ */
+export async function getUniquePlaceSlug(nameOrSlug: string, placeId?: string): Promise<string> {
+  const admin = createAdminClient();
+  const { data, error } = await admin.rpc('unique_place_slug', {
+    p_base: slugify(nameOrSlug),
+    p_place_id: placeId ?? null,
+  });
+
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+/**
+ * Current slug of a place that used to be at the given slug, if any
+ */
+export async function resolveFormerSlug(slug: string): Promise<string | undefined> {
+  const admin = createAdminClient();
+  const { data } = await admin
+    .from('place_slugs')
+    .select('places(slug)')
+    .eq('slug', slug)
+    .maybeSingle();
+
+  return (data?.places as { slug: string } | null)?.slug ?? undefined;
+}
+
+/**
+ * New slug for a place being renamed, or undefined when the name is unchanged
+ */
+export async function getRenamedSlug(placeId: string, name: string): Promise<string | undefined> {
+  const admin = createAdminClient();
+  const { data } = await admin
+    .from('places')
+    .select('name')
+    .eq('id', placeId)
+    .maybeSingle();
+
+  if (!data || data.name === name) return undefined;
+  return getUniquePlaceSlug(name, placeId);
+}
@@ -0,0 +1,69 @@
+import type { PlaceIndex, SearchSort } from '@/types/place';
+
+/**
+ * Sort orders for search results
+ * Mirrors the sort_key computed by the search_places RPC so client-side
+ * lists (category pages) and server-side search (/api/search) order results
+ * the same way.
+ */
+
+export const SORT_OPTIONS: Array<{ value: SearchSort; label: string }> = [
+  { value: 'relevance', label: 'Relevance' },
+  { value: 'name', label: 'Name (A–Z)' },
+  { value: 'newest', label: 'Newest' },
+  { value: 'updated', label: 'Recently updated' },
+  { value: 'price', label: 'Price: low to high' },
+  { value: 'distance', label: 'Distance' },
+  { value: 'favorites', label: 'Most favorited' },
+];
+
+export function isSearchSort(value: string | null | undefined): value is SearchSort {
+  return SORT_OPTIONS.some((option) => option.value === value);
+}
+
+function timestamp(value: string | undefined): number {
+  const time = value ? Date.parse(value) : NaN;
+  return Number.isNaN(time) ? 0 : time;
+}
+
+/**
+ * Sort key for a place; lower sorts first. Returns null when the order
+ * should stay as given (relevance, or distance without a location).
+ */
+function sortKey(place: PlaceIndex, sort: SearchSort): number | null {
+  switch (sort) {
+    case 'name':
+      return 0;
+    case 'newest':
+      return -timestamp(place.createdAt);
+    case 'updated':
+      return -timestamp(place.updatedAt);
+    case 'price':
+      return place.priceRange.length;
+    case 'favorites':
+      return -(place.favoriteCount ?? 0);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Order places by the given sort, breaking ties by name then id.
+ * `relevance` keeps the incoming order (Fuse score, or name when there is no
+ * query). `distance` expects distanceMeters to be set; places without it go last.
+ */
+export function sortPlaces(places: PlaceIndex[], sort: SearchSort | undefined): PlaceIndex[] {
+  if (!sort || sort === 'relevance') return places;
+
+  const byName = (a: PlaceIndex, b: PlaceIndex) =>
+    a.name.localeCompare(b.name) || a.id.localeCompare(b.id);
+
+  if (sort === 'distance') {
+    if (!places.some((place) => place.distanceMeters !== undefined)) return places;
+    return [...places].sort(
+      (a, b) => (a.distanceMeters ?? Infinity) - (b.distanceMeters ?? Infinity) || byName(a, b)
+    );
+  }
+
+  return [...places].sort((a, b) => sortKey(a, sort)! - sortKey(b, sort)! || byName(a, b));
+}
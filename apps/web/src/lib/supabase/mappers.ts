@@ -1,13 +1,23 @@
-import type { Place, PlaceIndex, OperatingHours, PriceRange, PaymentMethod } from '@/types/place';
-import type { Database } from '@/types/database';
+import type { Brand, Place, PlaceIndex, OperatingHours, HoursOverride, PriceRange, PaymentMethod, PlaceStatus, PlaceLinks, MenuItem, DietaryFlag, PlacePhoto, PhotoStatus, PlaceReview, ReviewStatus, PlaceRevision, RevisionSource } from '@/types/place';
+import type { Database, Json } from '@/types/database';
 
 type PlaceRow = Database['public']['Tables']['places']['Row'];
 type PlaceInsert = Database['public']['Tables']['places']['Insert'];
+type MenuItemRow = Database['public']['Tables']['menu_items']['Row'];
+type PlaceRevisionRow = Database['public']['Tables']['place_revisions']['Row'];
+type PlacePhotoRow = Database['public']['Tables']['place_photos']['Row'];
+type PlaceReviewRow = Database['public']['Tables']['place_reviews']['Row'];
+type BrandRow = Database['public']['Tables']['brands']['Row'];
+
+/** A places row, optionally with its brand joined via `brands(*)` */
+type PlaceRowWithBrand = PlaceRow & { brands?: BrandRow | null };
 
 /**
  * Maps a Supabase DB row (snake_case) to a Place object (camelCase)
+ * With the brand joined, the brand's logo and website fill in for a
+ * branch that has none.
  */
-export function dbRowToPlace(row: PlaceRow): Place {
+export function dbRowToPlace(row: PlaceRowWithBrand): Place {
   return {
     id: row.id,
     name: row.name,
@@ -16,11 +26,13 @@ export function dbRowToPlace(row: PlaceRow): Place {
     address: row.address,
     phone: row.phone ?? undefined,
     email: row.email ?? undefined,
-    website: row.website ?? undefined,
-    logoUrl: row.logo_url ?? undefined,
+    website: row.website ?? row.brands?.website ?? undefined,
+    links: (row.links ?? {}) as PlaceLinks,
+    logoUrl: row.logo_url ?? row.brands?.logo_url ?? undefined,
     coverImageUrl: row.cover_image_url ?? undefined,
     photosUrls: row.photos_urls ?? [],
     operatingHours: row.operating_hours as OperatingHours,
+    hoursOverrides: (row.hours_overrides ?? []) as unknown as HoursOverride[],
     priceRange: row.price_range as PriceRange,
     paymentMethods: (row.payment_methods ?? []) as PaymentMethod[],
     tags: row.tags ?? [],
@@ -33,36 +45,101 @@ export function dbRowToPlace(row: PlaceRow): Place {
     updatedAt: row.updated_at,
     createdBy: row.created_by ?? undefined,
     rating: row.rating ? Number(row.rating) : undefined,
-    reviewCount: row.review_count ?? undefined,
+    reviewCount: row.review_count,
     verified: row.verified ?? undefined,
     claimedBy: row.claimed_by ?? undefined,
+    favoriteCount: row.favorite_count ?? undefined,
+    status: row.status as PlaceStatus,
+    statusEffectiveDate: row.status_effective_date ?? undefined,
+    brandId: row.brand_id ?? undefined,
+    brand: row.brands ? dbRowToBrand(row.brands) : undefined,
   };
 }
 
 /**
  * Maps a Supabase DB row to a lightweight PlaceIndex for list views/search
+ * (brand handling as in dbRowToPlace)
  */
-export function dbRowToPlaceIndex(row: PlaceRow): PlaceIndex {
+export function dbRowToPlaceIndex(row: PlaceRowWithBrand): PlaceIndex {
   return {
     id: row.id,
     name: row.name,
     slug: row.slug,
     description: row.description,
     address: row.address,
-    logoUrl: row.logo_url ?? undefined,
+    logoUrl: row.logo_url ?? row.brands?.logo_url ?? undefined,
     coverImageUrl: row.cover_image_url ?? undefined,
     priceRange: row.price_range as PriceRange,
     tags: row.tags ?? [],
     amenities: row.amenities ?? [],
     cuisineTypes: row.cuisine_types ?? [],
     specialties: row.specialties ?? [],
+    operatingHours: (row.operating_hours ?? {}) as OperatingHours,
+    hoursOverrides: (row.hours_overrides ?? []) as unknown as HoursOverride[],
+    latitude: row.latitude ? Number(row.latitude) : undefined,
+    longitude: row.longitude ? Number(row.longitude) : undefined,
+    createdAt: row.created_at,
     updatedAt: row.updated_at,
     createdBy: row.created_by ?? undefined,
     verified: row.verified ?? undefined,
     claimedBy: row.claimed_by ?? undefined,
+    favoriteCount: row.favorite_count ?? undefined,
+    rating: row.rating ? Number(row.rating) : undefined,
+    reviewCount: row.review_count,
+    status: row.status as PlaceStatus,
+    statusEffectiveDate: row.status_effective_date ?? undefined,
+    brandId: row.brand_id ?? undefined,
+    brand: row.brands ? dbRowToBrand(row.brands) : undefined,
   };
 }
 
+/**
+ * places columns for the Place fields the API accepts
+ */
+export const PLACE_COLUMNS = {
+  name: 'name',
+  slug: 'slug',
+  description: 'description',
+  address: 'address',
+  phone: 'phone',
+  email: 'email',
+  website: 'website',
+  links: 'links',
+  logoUrl: 'logo_url',
+  coverImageUrl: 'cover_image_url',
+  photosUrls: 'photos_urls',
+  operatingHours: 'operating_hours',
+  priceRange: 'price_range',
+  paymentMethods: 'payment_methods',
+  tags: 'tags',
+  amenities: 'amenities',
+  cuisineTypes: 'cuisine_types',
+  specialties: 'specialties',
+  latitude: 'latitude',
+  longitude: 'longitude',
+  verified: 'verified',
+  claimedBy: 'claimed_by',
+  brandId: 'brand_id',
+  status: 'status',
+  statusEffectiveDate: 'status_effective_date',
+} as const satisfies Partial<Record<keyof Place, keyof PlaceInsert>>;
+
+export type PlaceField = keyof typeof PLACE_COLUMNS;
+
+/**
+ * Maps parsed place fields (see lib/place-schema) to places columns.
+ * Only fields that are present are mapped, so the result works for partial
+ * updates; blank strings become null.
+ */
+export function mapPlaceFieldsToDb(fields: Partial<Record<PlaceField, unknown>>): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+  for (const [field, column] of Object.entries(PLACE_COLUMNS)) {
+    const value = fields[field as PlaceField];
+    if (value !== undefined) row[column] = value === '' ? null : value;
+  }
+  return row;
+}
+
 /**
  * Maps a camelCase Place object to snake_case for DB inserts/updates
  */
@@ -76,10 +153,12 @@ export function placeToDbRow(place: Place): PlaceInsert {
     phone: place.phone ?? null,
     email: place.email ?? null,
     website: place.website ?? null,
+    links: place.links ?? {},
     logo_url: place.logoUrl ?? null,
     cover_image_url: place.coverImageUrl ?? null,
     photos_urls: place.photosUrls,
     operating_hours: place.operatingHours,
+    hours_overrides: (place.hoursOverrides ?? []) as unknown as Json,
     price_range: place.priceRange,
     payment_methods: place.paymentMethods,
     tags: place.tags,
@@ -92,8 +171,104 @@ export function placeToDbRow(place: Place): PlaceInsert {
     updated_at: place.updatedAt,
     created_by: place.createdBy ?? null,
     rating: place.rating ?? null,
-    review_count: place.reviewCount ?? null,
+    review_count: place.reviewCount ?? 0,
     verified: place.verified ?? null,
     claimed_by: place.claimedBy ?? null,
+    status: place.status,
+    status_effective_date: place.statusEffectiveDate ?? null,
+    brand_id: place.brandId ?? null,
+  };
+}
+
+/**
+ * Maps a brands row to a Brand
+ */
+export function dbRowToBrand(row: BrandRow): Brand {
+  return {
+    id: row.id,
+    name: row.name,
+    slug: row.slug,
+    description: row.description ?? undefined,
+    logoUrl: row.logo_url ?? undefined,
+    website: row.website ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Maps a menu_items row to a MenuItem
+ */
+export function dbRowToMenuItem(row: MenuItemRow): MenuItem {
+  return {
+    id: row.id,
+    placeId: row.place_id,
+    name: row.name,
+    description: row.description ?? undefined,
+    price: row.price !== null ? Number(row.price) : undefined,
+    category: row.category ?? undefined,
+    photoUrl: row.photo_url ?? undefined,
+    dietaryFlags: (row.dietary_flags ?? []) as DietaryFlag[],
+    isAvailable: row.is_available,
+    sortOrder: row.sort_order,
+  };
+}
+
+/**
+ * Maps a place_photos row to a PlacePhoto. Pass the row with
+ * `profiles(display_name)` joined to fill in the uploader's name.
+ */
+export function dbRowToPlacePhoto(
+  row: PlacePhotoRow & { profiles?: { display_name: string | null } | null }
+): PlacePhoto {
+  return {
+    id: row.id,
+    placeId: row.place_id,
+    url: row.url,
+    caption: row.caption ?? undefined,
+    altText: row.alt_text ?? undefined,
+    sortOrder: row.sort_order,
+    status: row.status as PhotoStatus,
+    uploadedBy: row.uploaded_by ?? undefined,
+    uploaderName: row.profiles?.display_name ?? undefined,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Maps a place_reviews row to a PlaceReview. Pass the row with
+ * `profiles(display_name, avatar_url)` joined to fill in the author.
+ */
+export function dbRowToPlaceReview(
+  row: PlaceReviewRow & { profiles?: { display_name: string | null; avatar_url: string | null } | null }
+): PlaceReview {
+  return {
+    id: row.id,
+    placeId: row.place_id,
+    userId: row.user_id,
+    authorName: row.profiles?.display_name ?? undefined,
+    authorAvatarUrl: row.profiles?.avatar_url ?? undefined,
+    rating: row.rating,
+    body: row.body,
+    photoUrls: row.photo_urls ?? [],
+    visitedOn: row.visited_on ?? undefined,
+    status: row.status as ReviewStatus,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Maps a place_revisions row to a PlaceRevision
+ */
+export function dbRowToPlaceRevision(row: PlaceRevisionRow): PlaceRevision {
+  return {
+    id: row.id,
+    placeId: row.place_id,
+    snapshot: (row.snapshot ?? {}) as Record<string, unknown>,
+    changedFields: row.changed_fields ?? [],
+    source: row.source as RevisionSource,
+    changedBy: row.changed_by ?? undefined,
+    createdAt: row.created_at,
   };
 }
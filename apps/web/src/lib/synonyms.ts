@@ -0,0 +1,79 @@
+/**
+ * Filipino/Taglish query expansion for client-side search.
+ * Mirrors search_ts_query() in Postgres: a search word matching a dictionary
+ * term or one of its synonyms also matches every other word in that entry.
+ */
+
+export interface SearchSynonym {
+  term: string;
+  synonyms: string[];
+}
+
+/** Search word -> alternative words and phrases (excluding the word itself) */
+export type SynonymDictionary = Record<string, string[]>;
+
+/** Cap on OR'd query variants so long queries don't blow up Fuse */
+const MAX_QUERY_VARIANTS = 32;
+
+/**
+ * Split text into lowercase search words, dropping punctuation
+ */
+export function searchWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+/**
+ * Index dictionary entries by every single-word term and synonym
+ */
+export function buildSynonymDictionary(entries: SearchSynonym[]): SynonymDictionary {
+  const groups: Record<string, Set<string>> = {};
+
+  for (const entry of entries) {
+    const group = [entry.term, ...entry.synonyms].map((word) => searchWords(word).join(' '));
+    for (const word of group) {
+      if (word.includes(' ')) continue;
+      groups[word] ??= new Set();
+      group.forEach((alternative) => groups[word].add(alternative));
+    }
+  }
+
+  const dictionary: SynonymDictionary = {};
+  for (const [word, alternatives] of Object.entries(groups)) {
+    alternatives.delete(word);
+    dictionary[word] = Array.from(alternatives);
+  }
+  return dictionary;
+}
+
+/**
+ * Dictionary alternatives for the words in a query, e.g. "kape" -> ["coffee", "cafe"]
+ */
+export function querySynonyms(query: string, dictionary: SynonymDictionary): string[] {
+  return Array.from(new Set(searchWords(query).flatMap((word) => dictionary[word] ?? [])));
+}
+
+/**
+ * Expand a query into a Fuse.js extended search string.
+ * Fuse ORs `|`-separated groups of space-separated (AND) words, so each
+ * combination of alternatives becomes one group:
+ * "kape malapit" -> "kape malapit | coffee malapit | cafe malapit".
+ * Queries without dictionary words are returned unchanged.
+ */
+export function toFuseQuery(query: string, dictionary: SynonymDictionary): string {
+  const words = searchWords(query);
+  if (!words.some((word) => dictionary[word])) return query;
+
+  let variants: string[][] = [[]];
+  for (const word of words) {
+    const alternatives = [word, ...(dictionary[word] ?? [])];
+    variants = variants
+      .flatMap((variant) => alternatives.map((alternative) => [...variant, alternative]))
+      .slice(0, MAX_QUERY_VARIANTS);
+  }
+
+  return variants.map((variant) => variant.join(' ')).join(' | ');
+}
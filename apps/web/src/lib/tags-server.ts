@@ -0,0 +1,65 @@
+import { createAdminClient } from '@/lib/supabase/admin';
+import { normalizeTagList } from '@/lib/tags';
+import type { TagCategory, TagTaxonomy } from '@/types/place';
+
+interface PlaceTagFields {
+  tags?: string[];
+  amenities?: string[];
+  cuisineTypes?: string[];
+}
+
+// Category guessed for a proposal, by the field it was entered in
+const PROPOSAL_CATEGORIES: Record<keyof PlaceTagFields, TagCategory> = {
+  tags: 'atmosphere',
+  amenities: 'amenity',
+  cuisineTypes: 'cuisine',
+};
+
+/**
+ * Fetch all canonical tags and aliases
+ */
+export async function getTagTaxonomy(): Promise<TagTaxonomy> {
+  const admin = createAdminClient();
+  const [tagsResult, aliasesResult] = await Promise.all([
+    admin.from('tags').select('id, name, slug, category').order('name'),
+    admin.from('tag_aliases').select('alias, tag_slug'),
+  ]);
+
+  if (tagsResult.error) throw new Error(tagsResult.error.message);
+  if (aliasesResult.error) throw new Error(aliasesResult.error.message);
+
+  return {
+    tags: tagsResult.data,
+    aliases: Object.fromEntries(aliasesResult.data.map((row) => [row.alias, row.tag_slug])),
+  };
+}
+
+/**
+ * Normalize tags, amenities and cuisine types to canonical slugs before saving.
+ * Values that aren't canonical are kept and queued in tag_proposals for review.
+ */
+export async function normalizePlaceTags<T extends PlaceTagFields>(data: T): Promise<T> {
+  const { tags, aliases } = await getTagTaxonomy();
+  const canonical = new Set(tags.map((tag) => tag.slug));
+  const admin = createAdminClient();
+  const result = { ...data };
+
+  for (const field of Object.keys(PROPOSAL_CATEGORIES) as Array<keyof PlaceTagFields>) {
+    const values = data[field];
+    if (!values) continue;
+
+    const normalized = normalizeTagList(values, aliases);
+    result[field] = normalized as T[keyof PlaceTagFields];
+
+    const proposed = normalized.filter((slug) => !canonical.has(slug));
+    if (proposed.length > 0) {
+      const { error } = await admin.rpc('propose_tags', {
+        p_slugs: proposed,
+        p_category: PROPOSAL_CATEGORIES[field],
+      });
+      if (error) console.info('[tags] Proposal error:', error.message);
+    }
+  }
+
+  return result;
+}
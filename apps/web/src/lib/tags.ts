@@ -0,0 +1,51 @@
+import type { TagCategory, TagTaxonomy } from '@/types/place';
+
+/**
+ * Canonical tag taxonomy
+ * Tags, amenities and cuisine types are stored as canonical slugs from the
+ * `tags` table; alternative spellings map to them through `tag_aliases`.
+ * slugifyTag and normalizeTagList mirror slugify_tag / normalize_tags in SQL.
+ */
+
+export const TAG_CATEGORIES: Array<{ value: TagCategory; label: string }> = [
+  { value: 'cuisine', label: 'Cuisine' },
+  { value: 'amenity', label: 'Amenity' },
+  { value: 'service', label: 'Service' },
+  { value: 'dietary', label: 'Dietary' },
+  { value: 'atmosphere', label: 'Atmosphere' },
+];
+
+export function isTagCategory(value: string | null | undefined): value is TagCategory {
+  return TAG_CATEGORIES.some((category) => category.value === value);
+}
+
+/**
+ * "Group Friendly", "group_friendly" and "group-friendly" all become "group-friendly"
+ */
+export function slugifyTag(value: string): string {
+  return value.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Slugify, resolve aliases and drop duplicates, keeping first-seen order.
+ * Unknown tags are kept (slugified).
+ */
+export function normalizeTagList(values: string[], aliases: Record<string, string>): string[] {
+  const result: string[] = [];
+  for (const value of values) {
+    const slug = slugifyTag(value);
+    if (!slug) continue;
+    const canonical = aliases[slug] ?? slug;
+    if (!result.includes(canonical)) result.push(canonical);
+  }
+  return result;
+}
+
+/**
+ * Canonical slugs offered by a TagInput, e.g. cuisine + dietary for cuisineTypes
+ */
+export function tagSlugsFor(taxonomy: TagTaxonomy, categories: TagCategory[]): string[] {
+  return taxonomy.tags
+    .filter((tag) => categories.includes(tag.category))
+    .map((tag) => tag.slug);
+}
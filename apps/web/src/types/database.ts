@@ -54,10 +54,14 @@ export interface Database {
           phone: string | null;
           email: string | null;
           website: string | null;
+          links: Json;
           logo_url: string | null;
           cover_image_url: string | null;
           photos_urls: string[] | null;
           operating_hours: Json;
+          hours_overrides: Json;
+          status: string;
+          status_effective_date: string | null;
           price_range: string;
           payment_methods: string[] | null;
           tags: string[] | null;
@@ -67,9 +71,11 @@ export interface Database {
           latitude: number | null;
           longitude: number | null;
           rating: number | null;
-          review_count: number | null;
+          review_count: number;
+          favorite_count: number;
           verified: boolean | null;
           claimed_by: string | null;
+          brand_id: string | null;
           created_by: string | null;
           created_at: string;
           updated_at: string;
@@ -83,10 +89,14 @@ export interface Database {
           phone?: string | null;
           email?: string | null;
           website?: string | null;
+          links?: Json;
           logo_url?: string | null;
           cover_image_url?: string | null;
           photos_urls?: string[] | null;
           operating_hours: Json;
+          hours_overrides?: Json;
+          status?: string;
+          status_effective_date?: string | null;
           price_range: string;
           payment_methods?: string[] | null;
           tags?: string[] | null;
@@ -96,9 +106,11 @@ export interface Database {
           latitude?: number | null;
           longitude?: number | null;
           rating?: number | null;
-          review_count?: number | null;
+          review_count?: number;
+          favorite_count?: number;
           verified?: boolean | null;
           claimed_by?: string | null;
+          brand_id?: string | null;
           created_by?: string | null;
           created_at?: string;
           updated_at?: string;
@@ -112,10 +124,14 @@ export interface Database {
           phone?: string | null;
           email?: string | null;
           website?: string | null;
+          links?: Json;
           logo_url?: string | null;
           cover_image_url?: string | null;
           photos_urls?: string[] | null;
           operating_hours?: Json;
+          hours_overrides?: Json;
+          status?: string;
+          status_effective_date?: string | null;
           price_range?: string;
           payment_methods?: string[] | null;
           tags?: string[] | null;
@@ -125,9 +141,11 @@ export interface Database {
           latitude?: number | null;
           longitude?: number | null;
           rating?: number | null;
-          review_count?: number | null;
+          review_count?: number;
+          favorite_count?: number;
           verified?: boolean | null;
           claimed_by?: string | null;
+          brand_id?: string | null;
           created_by?: string | null;
           created_at?: string;
           updated_at?: string;
@@ -140,6 +158,13 @@ export interface Database {
             referencedRelation: 'profiles';
             referencedColumns: ['id'];
           },
+          {
+            foreignKeyName: 'places_brand_id_fkey';
+            columns: ['brand_id'];
+            isOneToOne: false;
+            referencedRelation: 'brands';
+            referencedColumns: ['id'];
+          },
         ];
       };
       contributors: {
@@ -405,12 +430,934 @@ export interface Database {
         };
         Relationships: [];
       };
+      tags: {
+        Row: {
+          id: string;
+          name: string;
+          slug: string;
+          category: 'amenity' | 'cuisine' | 'dietary' | 'atmosphere' | 'service';
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          slug: string;
+          category: 'amenity' | 'cuisine' | 'dietary' | 'atmosphere' | 'service';
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          slug?: string;
+          category?: 'amenity' | 'cuisine' | 'dietary' | 'atmosphere' | 'service';
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+      tag_aliases: {
+        Row: {
+          alias: string;
+          tag_slug: string;
+          created_at: string;
+        };
+        Insert: {
+          alias: string;
+          tag_slug: string;
+          created_at?: string;
+        };
+        Update: {
+          alias?: string;
+          tag_slug?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'tag_aliases_tag_slug_fkey';
+            columns: ['tag_slug'];
+            isOneToOne: false;
+            referencedRelation: 'tags';
+            referencedColumns: ['slug'];
+          },
+        ];
+      };
+      tag_proposals: {
+        Row: {
+          id: string;
+          slug: string;
+          category: 'amenity' | 'cuisine' | 'dietary' | 'atmosphere' | 'service' | null;
+          usage_count: number;
+          status: 'pending' | 'approved' | 'aliased' | 'rejected';
+          reviewed_by: string | null;
+          reviewed_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          slug: string;
+          category?: 'amenity' | 'cuisine' | 'dietary' | 'atmosphere' | 'service' | null;
+          usage_count?: number;
+          status?: 'pending' | 'approved' | 'aliased' | 'rejected';
+          reviewed_by?: string | null;
+          reviewed_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          slug?: string;
+          category?: 'amenity' | 'cuisine' | 'dietary' | 'atmosphere' | 'service' | null;
+          usage_count?: number;
+          status?: 'pending' | 'approved' | 'aliased' | 'rejected';
+          reviewed_by?: string | null;
+          reviewed_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'tag_proposals_reviewed_by_fkey';
+            columns: ['reviewed_by'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      search_events: {
+        Row: {
+          id: string;
+          query: string | null;
+          filters: Json;
+          result_count: number;
+          source: 'places' | 'search-bar';
+          clicked_place_id: string | null;
+          clicked_position: number | null;
+          clicked_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          query?: string | null;
+          filters?: Json;
+          result_count: number;
+          source: 'places' | 'search-bar';
+          clicked_place_id?: string | null;
+          clicked_position?: number | null;
+          clicked_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          query?: string | null;
+          filters?: Json;
+          result_count?: number;
+          source?: 'places' | 'search-bar';
+          clicked_place_id?: string | null;
+          clicked_position?: number | null;
+          clicked_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'search_events_clicked_place_id_fkey';
+            columns: ['clicked_place_id'];
+            isOneToOne: false;
+            referencedRelation: 'places';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      saved_searches: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          filters: Json;
+          alerts_enabled: boolean;
+          last_notified_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          filters?: Json;
+          alerts_enabled?: boolean;
+          last_notified_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          filters?: Json;
+          alerts_enabled?: boolean;
+          last_notified_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'saved_searches_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      notifications: {
+        Row: {
+          id: string;
+          user_id: string;
+          type: 'saved_search_match';
+          title: string;
+          body: string | null;
+          href: string | null;
+          place_id: string | null;
+          saved_search_id: string | null;
+          read_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          type: 'saved_search_match';
+          title: string;
+          body?: string | null;
+          href?: string | null;
+          place_id?: string | null;
+          saved_search_id?: string | null;
+          read_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          type?: 'saved_search_match';
+          title?: string;
+          body?: string | null;
+          href?: string | null;
+          place_id?: string | null;
+          saved_search_id?: string | null;
+          read_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'notifications_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'notifications_place_id_fkey';
+            columns: ['place_id'];
+            isOneToOne: false;
+            referencedRelation: 'places';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'notifications_saved_search_id_fkey';
+            columns: ['saved_search_id'];
+            isOneToOne: false;
+            referencedRelation: 'saved_searches';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      search_synonyms: {
+        Row: {
+          id: string;
+          term: string;
+          synonyms: string[];
+          kind: 'synonym' | 'dish';
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          term: string;
+          synonyms?: string[];
+          kind?: 'synonym' | 'dish';
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          term?: string;
+          synonyms?: string[];
+          kind?: 'synonym' | 'dish';
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      menu_items: {
+        Row: {
+          id: string;
+          place_id: string;
+          name: string;
+          description: string | null;
+          price: number | null;
+          category: string | null;
+          photo_url: string | null;
+          dietary_flags: string[];
+          is_available: boolean;
+          sort_order: number;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          place_id: string;
+          name: string;
+          description?: string | null;
+          price?: number | null;
+          category?: string | null;
+          photo_url?: string | null;
+          dietary_flags?: string[];
+          is_available?: boolean;
+          sort_order?: number;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          place_id?: string;
+          name?: string;
+          description?: string | null;
+          price?: number | null;
+          category?: string | null;
+          photo_url?: string | null;
+          dietary_flags?: string[];
+          is_available?: boolean;
+          sort_order?: number;
+          created_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'menu_items_place_id_fkey';
+            columns: ['place_id'];
+            isOneToOne: false;
+            referencedRelation: 'places';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      place_revisions: {
+        Row: {
+          id: string;
+          place_id: string;
+          snapshot: Json;
+          changed_fields: string[];
+          source: string;
+          changed_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          place_id: string;
+          snapshot: Json;
+          changed_fields?: string[];
+          source?: string;
+          changed_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          place_id?: string;
+          snapshot?: Json;
+          changed_fields?: string[];
+          source?: string;
+          changed_by?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'place_revisions_place_id_fkey';
+            columns: ['place_id'];
+            isOneToOne: false;
+            referencedRelation: 'places';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'place_revisions_changed_by_fkey';
+            columns: ['changed_by'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      place_slugs: {
+        Row: {
+          slug: string;
+          place_id: string;
+          created_at: string;
+        };
+        Insert: {
+          slug: string;
+          place_id: string;
+          created_at?: string;
+        };
+        Update: {
+          slug?: string;
+          place_id?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'place_slugs_place_id_fkey';
+            columns: ['place_id'];
+            isOneToOne: false;
+            referencedRelation: 'places';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      place_merges: {
+        Row: {
+          retired_id: string;
+          retired_name: string;
+          retired_slug: string;
+          survivor_id: string;
+          merged_by: string | null;
+          merged_at: string;
+        };
+        Insert: {
+          retired_id: string;
+          retired_name: string;
+          retired_slug: string;
+          survivor_id: string;
+          merged_by?: string | null;
+          merged_at?: string;
+        };
+        Update: {
+          retired_id?: string;
+          retired_name?: string;
+          retired_slug?: string;
+          survivor_id?: string;
+          merged_by?: string | null;
+          merged_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'place_merges_survivor_id_fkey';
+            columns: ['survivor_id'];
+            isOneToOne: false;
+            referencedRelation: 'places';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'place_merges_merged_by_fkey';
+            columns: ['merged_by'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      place_photos: {
+        Row: {
+          id: string;
+          place_id: string;
+          url: string;
+          caption: string | null;
+          alt_text: string | null;
+          sort_order: number;
+          status: 'visible' | 'pending' | 'hidden';
+          uploaded_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          place_id: string;
+          url: string;
+          caption?: string | null;
+          alt_text?: string | null;
+          sort_order?: number;
+          status?: 'visible' | 'pending' | 'hidden';
+          uploaded_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          place_id?: string;
+          url?: string;
+          caption?: string | null;
+          alt_text?: string | null;
+          sort_order?: number;
+          status?: 'visible' | 'pending' | 'hidden';
+          uploaded_by?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'place_photos_place_id_fkey';
+            columns: ['place_id'];
+            isOneToOne: false;
+            referencedRelation: 'places';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'place_photos_uploaded_by_fkey';
+            columns: ['uploaded_by'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      brands: {
+        Row: {
+          id: string;
+          name: string;
+          slug: string;
+          description: string | null;
+          logo_url: string | null;
+          website: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          slug: string;
+          description?: string | null;
+          logo_url?: string | null;
+          website?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          slug?: string;
+          description?: string | null;
+          logo_url?: string | null;
+          website?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      place_reviews: {
+        Row: {
+          id: string;
+          place_id: string;
+          user_id: string;
+          rating: number;
+          body: string;
+          photo_urls: string[];
+          visited_on: string | null;
+          status: 'visible' | 'hidden';
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          place_id: string;
+          user_id: string;
+          rating: number;
+          body: string;
+          photo_urls?: string[];
+          visited_on?: string | null;
+          status?: 'visible' | 'hidden';
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          place_id?: string;
+          user_id?: string;
+          rating?: number;
+          body?: string;
+          photo_urls?: string[];
+          visited_on?: string | null;
+          status?: 'visible' | 'hidden';
+          created_at?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'place_reviews_place_id_fkey';
+            columns: ['place_id'];
+            isOneToOne: false;
+            referencedRelation: 'places';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'place_reviews_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      content_reports: {
+        Row: {
+          id: string;
+          target_type: 'review' | 'photo' | 'description';
+          review_id: string | null;
+          photo_id: string | null;
+          place_id: string | null;
+          reason: 'spam' | 'offensive' | 'wrong_place' | 'privacy';
+          details: string | null;
+          hidden_description: string | null;
+          reported_by: string | null;
+          status: 'pending' | 'actioned' | 'dismissed';
+          resolved_by: string | null;
+          resolved_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          target_type: 'review' | 'photo' | 'description';
+          review_id?: string | null;
+          photo_id?: string | null;
+          place_id?: string | null;
+          reason: 'spam' | 'offensive' | 'wrong_place' | 'privacy';
+          details?: string | null;
+          hidden_description?: string | null;
+          reported_by?: string | null;
+          status?: 'pending' | 'actioned' | 'dismissed';
+          resolved_by?: string | null;
+          resolved_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          target_type?: 'review' | 'photo' | 'description';
+          review_id?: string | null;
+          photo_id?: string | null;
+          place_id?: string | null;
+          reason?: 'spam' | 'offensive' | 'wrong_place' | 'privacy';
+          details?: string | null;
+          hidden_description?: string | null;
+          reported_by?: string | null;
+          status?: 'pending' | 'actioned' | 'dismissed';
+          resolved_by?: string | null;
+          resolved_at?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'content_reports_review_id_fkey';
+            columns: ['review_id'];
+            isOneToOne: false;
+            referencedRelation: 'place_reviews';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'content_reports_photo_id_fkey';
+            columns: ['photo_id'];
+            isOneToOne: false;
+            referencedRelation: 'place_photos';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'content_reports_place_id_fkey';
+            columns: ['place_id'];
+            isOneToOne: false;
+            referencedRelation: 'places';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'content_reports_reported_by_fkey';
+            columns: ['reported_by'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'content_reports_resolved_by_fkey';
+            columns: ['resolved_by'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      user_bans: {
+        Row: {
+          user_id: string;
+          reason: string | null;
+          banned_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          user_id: string;
+          reason?: string | null;
+          banned_by?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          reason?: string | null;
+          banned_by?: string | null;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'user_bans_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: true;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'user_bans_banned_by_fkey';
+            columns: ['banned_by'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      place_favorites: {
+        Row: {
+          place_id: string;
+          voter: string;
+          created_at: string;
+        };
+        Insert: {
+          place_id: string;
+          voter: string;
+          created_at?: string;
+        };
+        Update: {
+          place_id?: string;
+          voter?: string;
+          created_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'place_favorites_place_id_fkey';
+            columns: ['place_id'];
+            isOneToOne: false;
+            referencedRelation: 'places';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
     };
     Views: {
       [_ in never]: never;
     };
     Functions: {
-      [_ in never]: never;
+      find_duplicate_places: {
+        Args: {
+          p_name: string;
+          p_address?: string | null;
+          p_latitude?: number | null;
+          p_longitude?: number | null;
+          p_exclude_id?: string | null;
+          p_min_score?: number;
+          p_limit?: number;
+        };
+        Returns: {
+          id: string;
+          name: string;
+          slug: string;
+          address: string;
+          distance_meters: number | null;
+          score: number;
+        }[];
+      };
+      find_duplicate_place_pairs: {
+        Args: {
+          p_min_score?: number;
+          p_limit?: number;
+        };
+        Returns: {
+          place_a_id: string;
+          place_b_id: string;
+          score: number;
+        }[];
+      };
+      moderate_report: {
+        Args: {
+          p_report_id: string;
+          p_action: string;
+        };
+        Returns: string;
+      };
+      photo_has_pending_reports: {
+        Args: {
+          p_photo_id: string;
+        };
+        Returns: boolean;
+      };
+      merge_places: {
+        Args: {
+          p_survivor_id: string;
+          p_retired_id: string;
+          p_fields?: string[];
+        };
+        Returns: string;
+      };
+      unique_place_slug: {
+        Args: {
+          p_base: string;
+          p_place_id?: string | null;
+        };
+        Returns: string;
+      };
+      set_place_favorite: {
+        Args: {
+          p_place_id: string;
+          p_voter: string;
+          p_favorited: boolean;
+        };
+        Returns: number | null;
+      };
+      search_places: {
+        Args: {
+          p_query?: string | null;
+          p_keywords?: string[] | null;
+          p_tags?: string[] | null;
+          p_amenities?: string[] | null;
+          p_cuisine_types?: string[] | null;
+          p_price_ranges?: string[] | null;
+          p_open_now?: boolean;
+          p_place_ids?: string[] | null;
+          p_latitude?: number | null;
+          p_longitude?: number | null;
+          p_radius_meters?: number | null;
+          p_south?: number | null;
+          p_west?: number | null;
+          p_north?: number | null;
+          p_east?: number | null;
+          p_sort?: string;
+          p_limit?: number;
+          p_after_key?: number | null;
+          p_after_name?: string | null;
+          p_after_id?: string | null;
+          p_group_branches?: boolean;
+        };
+        Returns: {
+          place: Database['public']['Tables']['places']['Row'];
+          score: number;
+          distance: number | null;
+          sort_key: number;
+          total: number;
+          brand: Database['public']['Tables']['brands']['Row'] | null;
+          branches: {
+            place: Database['public']['Tables']['places']['Row'];
+            distance: number | null;
+          }[];
+        }[];
+      };
+      propose_tags: {
+        Args: {
+          p_slugs: string[];
+          p_category?: string | null;
+        };
+        Returns: undefined;
+      };
+      apply_tag_alias: {
+        Args: {
+          p_alias: string;
+          p_tag_slug: string;
+        };
+        Returns: undefined;
+      };
+      remove_tag: {
+        Args: {
+          p_slug: string;
+        };
+        Returns: undefined;
+      };
+      search_place_facets: {
+        Args: {
+          p_query?: string | null;
+          p_keywords?: string[] | null;
+          p_tags?: string[] | null;
+          p_amenities?: string[] | null;
+          p_cuisine_types?: string[] | null;
+          p_price_ranges?: string[] | null;
+          p_open_now?: boolean;
+          p_place_ids?: string[] | null;
+          p_latitude?: number | null;
+          p_longitude?: number | null;
+          p_radius_meters?: number | null;
+          p_south?: number | null;
+          p_west?: number | null;
+          p_north?: number | null;
+          p_east?: number | null;
+        };
+        Returns: {
+          facet: 'cuisine' | 'amenity' | 'price';
+          value: string;
+          count: number;
+        }[];
+      };
+      search_query_stats: {
+        Args: {
+          p_since: string;
+          p_limit?: number;
+          p_zero_results_only?: boolean;
+        };
+        Returns: {
+          query: string;
+          searches: number;
+          zero_result_searches: number;
+          clicked_searches: number;
+          avg_results: number;
+          last_searched_at: string;
+        }[];
+      };
+      search_filter_stats: {
+        Args: {
+          p_since: string;
+          p_limit?: number;
+        };
+        Returns: {
+          filter: string;
+          value: string;
+          searches: number;
+          zero_result_searches: number;
+        }[];
+      };
+      notify_saved_search_matches: {
+        Args: {
+          p_place_id: string;
+        };
+        Returns: number;
+      };
+      search_ts_query: {
+        Args: {
+          p_query: string | null;
+        };
+        Returns: string | null;
+      };
+      search_menu_items: {
+        Args: {
+          p_query: string;
+          p_min_price?: number | null;
+          p_max_price?: number | null;
+          p_limit?: number;
+        };
+        Returns: {
+          item: Database['public']['Tables']['menu_items']['Row'];
+          place_name: string;
+          place_slug: string;
+          score: number;
+        }[];
+      };
     };
     Enums: {
       user_role: 'user' | 'admin' | 'business_owner';
@@ -5,23 +5,73 @@
 
 export type DayOfWeek = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
 
+export type TimeInterval = {
+  open: string;   // Format: "HH:MM" (24-hour)
+  close: string;  // Format: "HH:MM" (24-hour)
+};
+
+/**
+ * Weekly hours keyed by day name. A day with one interval uses open/close;
+ * split shifts (e.g. lunch and dinner) list every interval in `intervals`,
+ * which takes precedence over open/close when present.
+ */
 export interface OperatingHours {
   [key: string]:
     | {
         closed: any;  // Accepts any truthy value (true, 1, "yes", etc.)
         open?: string;
         close?: string;
+        intervals?: TimeInterval[];
       }
     | {
         open: string;   // Format: "HH:MM" (24-hour)
         close: string;  // Format: "HH:MM" (24-hour)
         closed?: false;
+        intervals?: TimeInterval[];
+      }
+    | {
+        intervals: TimeInterval[];
+        closed?: false;
+        open?: string;
+        close?: string;
       };
 }
 
+/**
+ * A dated exception to the weekly schedule (holiday, renovation, etc.)
+ * Dates are Manila dates ("YYYY-MM-DD"); endDate defaults to startDate.
+ */
+export interface HoursOverride {
+  startDate: string;
+  endDate?: string;
+  closed?: boolean;
+  open?: string;   // Format: "HH:MM" (24-hour), when not closed
+  close?: string;  // Format: "HH:MM" (24-hour), when not closed
+  note?: string;   // e.g., "Holy Week", "Closed for renovation"
+}
+
 export type PriceRange = '$' | '$$' | '$$$' | '$$$$';
 
-export type PaymentMethod = 'cash' | 'gcash' | 'paymaya' | 'credit-card' | 'debit-card' | 'bank-transfer';
+export type PlaceStatus = 'active' | 'temporarily_closed' | 'permanently_closed' | 'coming_soon';
+
+export type PaymentMethod = 'cash' | 'gcash' | 'paymaya' | 'credit-card' | 'debit-card' | 'bank-transfer' | 'grab-pay';
+
+export type PlaceLinkPlatform = 'facebook' | 'instagram' | 'tiktok' | 'grabfood' | 'foodpanda' | 'reservation';
+
+/** Social, delivery and reservation pages, one URL per platform */
+export type PlaceLinks = Partial<Record<PlaceLinkPlatform, string>>;
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface GeoBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
 
 export type TagCategory = 'amenity' | 'cuisine' | 'dietary' | 'atmosphere' | 'service';
 
@@ -32,6 +82,11 @@ export interface Tag {
   category: TagCategory;
 }
 
+export interface TagTaxonomy {
+  tags: Tag[];
+  aliases: Record<string, string>;  // alias -> canonical slug
+}
+
 export interface Contributor {
   name: string;           // Display name or nickname (required)
   email?: string;         // Optional email
@@ -40,6 +95,127 @@ export interface Contributor {
   action: 'created' | 'updated' | 'verified';  // Type of contribution
 }
 
+export type DietaryFlag = 'vegetarian' | 'vegan' | 'halal' | 'gluten-free' | 'spicy';
+
+export interface MenuItem {
+  id: string;
+  placeId: string;
+  name: string;
+  description?: string;
+  price?: number;              // PHP; undefined when not listed
+  category?: string;           // e.g., "Rice Meals", "Drinks"
+  photoUrl?: string;
+  dietaryFlags: DietaryFlag[];
+  isAvailable: boolean;
+  sortOrder: number;
+}
+
+export type PhotoStatus = 'visible' | 'pending' | 'hidden';
+
+export interface PlacePhoto {
+  id: string;
+  placeId: string;
+  url: string;
+  caption?: string;
+  altText?: string;
+  sortOrder: number;
+  status: PhotoStatus;
+  uploadedBy?: string;
+  uploaderName?: string;       // Attribution shown in the gallery
+  createdAt: string;
+}
+
+export type ReviewStatus = 'visible' | 'hidden';
+
+/**
+ * A signed-in user's review of a place (one per user per place)
+ */
+export interface PlaceReview {
+  id: string;
+  placeId: string;
+  userId: string;
+  authorName?: string;
+  authorAvatarUrl?: string;
+  rating: number;              // 1-5 stars
+  body: string;
+  photoUrls: string[];
+  visitedOn?: string;          // "YYYY-MM-DD"
+  status: ReviewStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ReviewSort = 'newest' | 'oldest' | 'highest' | 'lowest';
+
+/** What a content report flags: a review, a gallery photo or a place's description */
+export type ReportTargetType = 'review' | 'photo' | 'description';
+
+export type ReportReason = 'spam' | 'offensive' | 'wrong_place' | 'privacy';
+
+export type ReportStatus = 'pending' | 'actioned' | 'dismissed';
+
+/**
+ * Which route wrote a place revision
+ */
+export type RevisionSource =
+  | 'baseline'
+  | 'created'
+  | 'admin_edit'
+  | 'owner_edit'
+  | 'suggestion'
+  | 'submission'
+  | 'claim'
+  | 'special_hours'
+  | 'status'
+  | 'restore'
+  | 'merge'
+  | 'photos'
+  | 'moderation'
+  | 'other';
+
+/**
+ * A stored version of a place. The snapshot is the full database row
+ * (snake_case columns) as it was after the write.
+ */
+export interface PlaceRevision {
+  id: string;
+  placeId: string;
+  snapshot: Record<string, unknown>;
+  changedFields: string[];
+  source: RevisionSource;
+  changedBy?: string;
+  createdAt: string;
+}
+
+export interface RevisionFieldChange {
+  field: string;
+  old: unknown;
+  new: unknown;
+}
+
+/**
+ * A menu item matched by dish search, with the place that serves it
+ */
+export interface DishResult extends MenuItem {
+  placeName: string;
+  placeSlug: string;
+}
+
+/**
+ * A restaurant chain. Each branch is a place with its own address and
+ * hours; the brand's logo and website fill in where a branch has none.
+ */
+export interface Brand {
+  id: string;
+  name: string;
+  slug: string;
+  description?: string;
+  logoUrl?: string;
+  website?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
 /**
  * PlaceIndex - Lightweight type for list views and search
  * Contains only essential fields needed for browsing and filtering
@@ -61,11 +237,31 @@ export interface PlaceIndex {
   cuisineTypes: string[];
   specialties: string[];
 
+  // Business Details
+  operatingHours: OperatingHours;  // Needed for "open now" filtering and status
+  hoursOverrides?: HoursOverride[];
+
+  // Location
+  latitude?: number;
+  longitude?: number;
+  distanceMeters?: number;  // Set by search when a location is given
+
   // Metadata
+  createdAt?: string;
   updatedAt: string;
   createdBy?: string;  // Display name of original creator
   verified?: boolean;
   claimedBy?: string;
+  favoriteCount?: number;
+  rating?: number;
+  reviewCount?: number;
+  status?: PlaceStatus;
+  statusEffectiveDate?: string;  // "YYYY-MM-DD" the status takes effect
+
+  // Chain
+  brandId?: string;
+  brand?: Brand;            // Set by search and brand pages
+  branches?: PlaceIndex[];  // Other matching branches, set by grouped search
 }
 
 /**
@@ -84,6 +280,7 @@ export interface Place {
   phone?: string;
   email?: string;
   website?: string;
+  links?: PlaceLinks;              // Facebook, Instagram, delivery apps, etc.
 
   // Media
   logoUrl?: string;
@@ -92,6 +289,7 @@ export interface Place {
 
   // Business Details
   operatingHours: OperatingHours;
+  hoursOverrides?: HoursOverride[];  // Dated exceptions to operatingHours
   priceRange: PriceRange;
   paymentMethods: PaymentMethod[];
 
@@ -113,11 +311,22 @@ export interface Place {
   createdBy?: string;              // Display name of original creator
   contributors?: Contributor[];    // History of all contributors
 
-  // Optional future fields
-  rating?: number;
+  // Lifecycle
+  status?: PlaceStatus;            // Defaults to active
+  statusEffectiveDate?: string;    // "YYYY-MM-DD" the status takes effect
+
+  // Chain
+  brandId?: string;
+  brand?: Brand;                   // Loaded on the place page
+
+  // Reviews (kept up to date from place_reviews)
+  rating?: number;                 // Average of visible reviews, 1-5
   reviewCount?: number;
+
+  // Optional future fields
   verified?: boolean;
   claimedBy?: string;
+  favoriteCount?: number;
 }
 
 /**
@@ -185,6 +394,15 @@ export interface Place {
  */
 
 // Search and filter types
+export type SearchSort =
+  | 'relevance'
+  | 'name'
+  | 'newest'
+  | 'updated'
+  | 'price'
+  | 'distance'
+  | 'favorites';
+
 export interface SearchFilters {
   query?: string;
   keywords?: string[]; // Search across tags, amenities, cuisineTypes, and specialties
@@ -194,10 +412,30 @@ export interface SearchFilters {
   priceRanges?: PriceRange[];
   openNow?: boolean;
   favoritesOnly?: boolean;
+  near?: GeoPoint;        // User location (browser geolocation or a dropped pin)
+  radiusMeters?: number;  // Only applies when `near` is set
+  bounds?: GeoBounds;     // Visible map area ("search this area")
+  sort?: SearchSort;      // Defaults to relevance
 }
 
 export interface SearchResult {
   places: PlaceIndex[];  // Use PlaceIndex for list views (lighter payload)
   total: number;
   filters: SearchFilters;
+  nextCursor?: string | null;  // Opaque cursor for the next page (server search only)
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+/**
+ * Number of matching places per filter option, given the other active filters.
+ * Sorted by count (highest first).
+ */
+export interface SearchFacets {
+  cuisineTypes: FacetCount[];
+  amenities: FacetCount[];
+  priceRanges: FacetCount[];
 }
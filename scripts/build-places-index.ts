@@ -42,6 +42,7 @@ type PlaceIndex = {
   amenities: string[];
   cuisineTypes: string[];
   specialties: string[];
+  operatingHours: Record<string, unknown>;
   updatedAt: string;
   createdBy?: string;
 };
@@ -63,6 +64,7 @@ function extractIndexFields(place: Place): PlaceIndex {
     amenities: place.amenities,
     cuisineTypes: place.cuisineTypes,
     specialties: place.specialties,
+    operatingHours: place.operatingHours ?? {},
     updatedAt: place.updatedAt,
     createdBy: place.createdBy,
   };
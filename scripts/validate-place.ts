@@ -1,98 +1,24 @@
 #!/usr/bin/env tsx
 
-import { z } from 'zod';
 import fs from 'fs';
 import path from 'path';
+import { PAYMENT_METHODS, checkPaymentMethods, placeFileSchema } from '../apps/web/src/lib/place-schema';
 
 /**
  * Schema Validator for Place JSON Files
  * Validates individual place files against the Place schema
  * Used in CI/CD to ensure data quality
+ *
+ * The schema lives in apps/web/src/lib/place-schema.ts and is shared with
+ * the API routes, so files and submissions follow the same rules.
  */
 
-// Define operating hours schema
-// Accepts either { closed: truthy } or { open: "HH:MM", close: "HH:MM" }
-const operatingHoursSchema = z.record(
-  z.string(),  // Keys are day names (strings)
-  z.union([
-    // Day is closed (accepts any truthy value)
-    z.object({
-      closed: z.any().refine(val => !!val, { message: 'Closed must be truthy' }),
-      open: z.string().optional(),
-      close: z.string().optional(),
-    }),
-    // Day is open with hours
-    z.object({
-      open: z.string().regex(/^\d{2}:\d{2}$/, 'Time must be in HH:MM format'),
-      close: z.string().regex(/^\d{2}:\d{2}$/, 'Time must be in HH:MM format'),
-      closed: z.literal(false).optional(),
-    }),
-  ])
-);
-
-// Define contributor schema
-const contributorSchema = z.object({
-  name: z.string().min(1, 'Contributor name is required'),
-  email: z.string().email('Invalid email format').optional(),
-  github: z.string().optional(),
-  contributedAt: z.string().datetime('Invalid contribution timestamp'),
-  action: z.enum(['created', 'updated', 'verified']),
-});
-
-// Define the complete Place schema
-const placeSchema = z.object({
-  id: z.string().uuid('ID must be a valid UUID (e.g., 550e8400-e29b-41d4-a716-446655440000)'),
-  name: z.string().min(1, 'Name is required'),
-  slug: z.string()
-    .min(1, 'Slug is required')
-    .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Slug must be kebab-case'),
-  description: z.string().min(10, 'Description must be at least 10 characters'),
-
-  // Contact Information
-  address: z.string().min(1, 'Address is required'),
-  phone: z.string().optional(),
-  email: z.string().email('Invalid email format').optional().or(z.literal('')),
-  website: z.string().url('Invalid URL format').optional().or(z.literal('')),
-
-  // Media
-  logoUrl: z.string().url('Invalid logo URL').optional().or(z.literal('')),
-  coverImageUrl: z.string().url('Invalid cover image URL').optional().or(z.literal('')),
-  photosUrls: z.array(z.string().url('Invalid photo URL')),
-
-  // Business Details
-  operatingHours: operatingHoursSchema,
-  priceRange: z.enum(['$', '$$', '$$$', '$$$$'], {
-    message: 'Price range must be $, $$, $$$, or $$$$',
-  }),
-  paymentMethods: z.array(z.string()),
-
-  // Categorization & Search
-  tags: z.array(z.string()),
-  amenities: z.array(z.string()),
-  cuisineTypes: z.array(z.string()).min(1, 'At least one cuisine type is required'),
-  specialties: z.array(z.string()),
-
-  // Location
-  latitude: z.number().min(-90).max(90).optional(),
-  longitude: z.number().min(-180).max(180).optional(),
-
-  // Metadata
-  createdAt: z.string().datetime('Invalid createdAt timestamp'),
-  updatedAt: z.string().datetime('Invalid updatedAt timestamp'),
-
-  // Contributor Information
-  createdBy: z.string().min(1, 'Creator name is required'),
-  contributors: z.array(contributorSchema).optional(),
-
-  // Optional future fields
-  rating: z.number().min(0).max(5).optional(),
-  reviewCount: z.number().int().min(0).optional(),
-  verified: z.boolean().optional(),
-});
+type ValidationIssue = { path: PropertyKey[]; message: string };
 
 type ValidationResult = {
   valid: boolean;
-  errors?: z.ZodError['errors'];
+  errors?: ValidationIssue[];
+  warnings?: string[];
   filePath: string;
 };
 
@@ -100,43 +26,49 @@ type ValidationResult = {
  * Validate a single place file
  */
 export function validatePlaceFile(filePath: string): ValidationResult {
+  let data: unknown;
   try {
     // Read the file
     const fileContent = fs.readFileSync(filePath, 'utf-8');
-    const data = JSON.parse(fileContent);
-
-    // Validate against schema
-    placeSchema.parse(data);
-
-    return {
-      valid: true,
-      filePath,
-    };
+    data = JSON.parse(fileContent);
   } catch (error) {
-    if (error instanceof z.ZodError) {
-      return {
-        valid: false,
-        errors: error.issues as any,
-        filePath,
-      };
-    }
-
     if (error instanceof SyntaxError) {
       return {
         valid: false,
         errors: [
           {
-            code: 'custom',
             path: [],
             message: `JSON parse error: ${error.message}`,
           },
-        ] as any,
+        ],
         filePath,
       };
     }
 
     throw error;
   }
+
+  // Validate against schema
+  const result = placeFileSchema.safeParse(data);
+  if (!result.success) {
+    return {
+      valid: false,
+      errors: result.error.issues,
+      filePath,
+    };
+  }
+
+  // Payment methods outside the list are older data; warn instead of failing
+  const { unknown } = checkPaymentMethods(result.data.paymentMethods, []);
+  const warnings = unknown.map(
+    (method) => `paymentMethods: "${method}" is not a known payment method. Use one of: ${PAYMENT_METHODS.join(', ')}`
+  );
+
+  return {
+    valid: true,
+    ...(warnings.length > 0 && { warnings }),
+    filePath,
+  };
 }
 
 /**
@@ -250,9 +182,14 @@ function main() {
   // Separate valid and invalid results
   const validResults = results.filter(r => r.valid);
   const invalidResults = results.filter(r => !r.valid);
+  const warnedResults = results.filter(r => r.warnings);
 
   // CI mode: output clean, parseable format
   if (ciMode) {
+    warnedResults.forEach(result => {
+      result.warnings!.forEach(warning => console.warn(`WARNING: ${warning}`));
+    });
+
     if (invalidResults.length > 0) {
       invalidResults.forEach(result => {
         if (result.errors) {
@@ -284,6 +221,12 @@ function main() {
     console.error('');
   }
 
+  // Print warnings
+  warnedResults.forEach(result => {
+    console.warn(`\n⚠️  ${result.filePath}`);
+    result.warnings!.forEach(warning => console.warn(`  • ${warning}`));
+  });
+
   // Print summary
   console.info('📊 Summary:');
   console.info(`  ✅ Valid: ${validResults.length}`);
@@ -0,0 +1,147 @@
+-- =============================================
+-- Server-side search: full-text ranking with trigram fallback
+-- =============================================
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX idx_places_name_trgm ON public.places USING GIN(name gin_trgm_ops);
+
+-- Backfill search_vector for rows inserted before the trigger existed
+UPDATE public.places SET search_vector =
+  setweight(to_tsvector('english', COALESCE(name, '')), 'A') ||
+  setweight(to_tsvector('english', COALESCE(description, '')), 'B') ||
+  setweight(to_tsvector('english', COALESCE(array_to_string(cuisine_types, ' '), '')), 'B') ||
+  setweight(to_tsvector('english', COALESCE(array_to_string(specialties, ' '), '')), 'B') ||
+  setweight(to_tsvector('english', COALESCE(array_to_string(tags, ' '), '')), 'C')
+WHERE search_vector IS NULL;
+
+-- =============================================
+-- Operating Hours Helpers (mirror apps/web/src/lib/hours.ts)
+-- =============================================
+
+-- Opening interval of a single day entry in minutes since midnight.
+-- Closing times at or before the opening time roll past midnight.
+-- Returns NULL when the day is closed or has no valid times.
+CREATE OR REPLACE FUNCTION hours_day_interval(entry JSONB) RETURNS INT4RANGE AS $$
+DECLARE
+  closed JSONB;
+  open_min INT;
+  close_min INT;
+BEGIN
+  IF entry IS NULL OR jsonb_typeof(entry) <> 'object' THEN
+    RETURN NULL;
+  END IF;
+
+  -- "closed" accepts any truthy value (true, 1, "yes", etc.)
+  closed := entry->'closed';
+  IF closed IS NOT NULL AND (
+    (jsonb_typeof(closed) = 'boolean' AND closed = 'true'::jsonb) OR
+    (jsonb_typeof(closed) = 'number' AND (closed #>> '{}')::NUMERIC <> 0) OR
+    (jsonb_typeof(closed) = 'string' AND lower(trim(closed #>> '{}')) NOT IN ('', 'false', 'no', '0', 'open')) OR
+    jsonb_typeof(closed) IN ('object', 'array')
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  IF NOT (COALESCE(entry->>'open', '') ~ '^\d{1,2}:\d{2}$' AND COALESCE(entry->>'close', '') ~ '^\d{1,2}:\d{2}$') THEN
+    RETURN NULL;
+  END IF;
+
+  open_min := split_part(entry->>'open', ':', 1)::INT * 60 + split_part(entry->>'open', ':', 2)::INT;
+  close_min := split_part(entry->>'close', ':', 1)::INT * 60 + split_part(entry->>'close', ':', 2)::INT;
+  IF close_min <= open_min THEN
+    close_min := close_min + 1440;
+  END IF;
+
+  RETURN int4range(open_min, close_min);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Whether a place is open at the given moment, evaluated in Asia/Manila time
+CREATE OR REPLACE FUNCTION place_is_open(hours JSONB, at TIMESTAMPTZ DEFAULT NOW()) RETURNS BOOLEAN AS $$
+DECLARE
+  local_ts TIMESTAMP := at AT TIME ZONE 'Asia/Manila';
+  minutes INT := EXTRACT(HOUR FROM local_ts)::INT * 60 + EXTRACT(MINUTE FROM local_ts)::INT;
+  today TEXT := lower(to_char(local_ts, 'FMDay'));
+  yesterday TEXT := lower(to_char(local_ts - INTERVAL '1 day', 'FMDay'));
+BEGIN
+  RETURN COALESCE(minutes + 1440 <@ hours_day_interval(hours->yesterday), false)
+      OR COALESCE(minutes <@ hours_day_interval(hours->today), false);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- =============================================
+-- search_places RPC
+-- =============================================
+
+-- Ranks full-text matches (prefix-aware) above trigram fuzzy matches on the
+-- name, applies every SearchFilters field, and pages with a keyset cursor on
+-- (score DESC, name, id). `total` is the match count before pagination.
+CREATE OR REPLACE FUNCTION search_places(
+  p_query TEXT DEFAULT NULL,
+  p_keywords TEXT[] DEFAULT NULL,
+  p_tags TEXT[] DEFAULT NULL,
+  p_amenities TEXT[] DEFAULT NULL,
+  p_cuisine_types TEXT[] DEFAULT NULL,
+  p_price_ranges TEXT[] DEFAULT NULL,
+  p_open_now BOOLEAN DEFAULT FALSE,
+  p_place_ids UUID[] DEFAULT NULL,
+  p_limit INT DEFAULT 24,
+  p_after_score REAL DEFAULT NULL,
+  p_after_name TEXT DEFAULT NULL,
+  p_after_id UUID DEFAULT NULL
+) RETURNS TABLE (place public.places, score REAL, total BIGINT) AS $$
+  WITH params AS (
+    SELECT
+      NULLIF(trim(p_query), '') AS q,
+      (
+        SELECT to_tsquery('english', string_agg(word || ':*', ' & '))
+        FROM regexp_split_to_table(
+          trim(regexp_replace(lower(COALESCE(p_query, '')), '[^[:alnum:][:space:]]', ' ', 'g')),
+          '\s+'
+        ) AS word
+        WHERE word <> ''
+      ) AS ts_query
+  ),
+  matched AS (
+    SELECT
+      p AS place,
+      (CASE
+        WHEN params.q IS NULL THEN 0
+        WHEN params.ts_query IS NOT NULL AND p.search_vector @@ params.ts_query
+          THEN 1 + ts_rank(p.search_vector, params.ts_query)
+        ELSE word_similarity(params.q, p.name)
+      END)::REAL AS score,
+      COUNT(*) OVER () AS total
+    FROM public.places p, params
+    WHERE
+      (
+        params.q IS NULL
+        OR (params.ts_query IS NOT NULL AND p.search_vector @@ params.ts_query)
+        OR params.q <% p.name
+      )
+      AND (
+        p_keywords IS NULL OR cardinality(p_keywords) = 0
+        OR p.tags && p_keywords
+        OR p.amenities && p_keywords
+        OR p.cuisine_types && p_keywords
+        OR p.specialties && p_keywords
+      )
+      AND (p_tags IS NULL OR cardinality(p_tags) = 0 OR p.tags && p_tags)
+      AND (p_amenities IS NULL OR cardinality(p_amenities) = 0 OR p.amenities @> p_amenities)
+      AND (p_cuisine_types IS NULL OR cardinality(p_cuisine_types) = 0 OR p.cuisine_types && p_cuisine_types)
+      AND (p_price_ranges IS NULL OR cardinality(p_price_ranges) = 0 OR p.price_range = ANY(p_price_ranges))
+      AND (NOT COALESCE(p_open_now, false) OR place_is_open(p.operating_hours))
+      AND (p_place_ids IS NULL OR p.id = ANY(p_place_ids))
+  )
+  SELECT m.place, m.score, m.total
+  FROM matched m
+  WHERE
+    p_after_id IS NULL
+    OR m.score < p_after_score
+    OR (m.score = p_after_score AND ((m.place).name, (m.place).id) > (p_after_name, p_after_id))
+  ORDER BY m.score DESC, (m.place).name, (m.place).id
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 24), 1), 100);
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION search_places TO anon, authenticated;
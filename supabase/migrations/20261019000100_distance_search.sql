@@ -0,0 +1,118 @@
+-- =============================================
+-- Distance search: "near me" radius filter and distance sort
+-- =============================================
+
+CREATE INDEX idx_places_coordinates ON public.places(latitude, longitude)
+  WHERE latitude IS NOT NULL AND longitude IS NOT NULL;
+
+-- Great-circle distance in meters (haversine)
+CREATE OR REPLACE FUNCTION distance_meters(
+  lat1 DOUBLE PRECISION,
+  lng1 DOUBLE PRECISION,
+  lat2 DOUBLE PRECISION,
+  lng2 DOUBLE PRECISION
+) RETURNS DOUBLE PRECISION AS $$
+  SELECT 2 * 6371000 * asin(sqrt(
+    power(sin(radians(lat2 - lat1) / 2), 2) +
+    cos(radians(lat1)) * cos(radians(lat2)) * power(sin(radians(lng2 - lng1) / 2), 2)
+  ));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- =============================================
+-- search_places RPC (replaces the previous signature)
+-- =============================================
+
+DROP FUNCTION IF EXISTS search_places(TEXT, TEXT[], TEXT[], TEXT[], TEXT[], TEXT[], BOOLEAN, UUID[], INT, REAL, TEXT, UUID);
+
+-- Results are ordered by (sort_key, name, id) and paged with a keyset cursor
+-- on those three values. sort_key is -score for relevance and the distance in
+-- meters for distance sort (places without coordinates sort last).
+CREATE OR REPLACE FUNCTION search_places(
+  p_query TEXT DEFAULT NULL,
+  p_keywords TEXT[] DEFAULT NULL,
+  p_tags TEXT[] DEFAULT NULL,
+  p_amenities TEXT[] DEFAULT NULL,
+  p_cuisine_types TEXT[] DEFAULT NULL,
+  p_price_ranges TEXT[] DEFAULT NULL,
+  p_open_now BOOLEAN DEFAULT FALSE,
+  p_place_ids UUID[] DEFAULT NULL,
+  p_latitude DOUBLE PRECISION DEFAULT NULL,
+  p_longitude DOUBLE PRECISION DEFAULT NULL,
+  p_radius_meters DOUBLE PRECISION DEFAULT NULL,
+  p_sort TEXT DEFAULT 'relevance',
+  p_limit INT DEFAULT 24,
+  p_after_key DOUBLE PRECISION DEFAULT NULL,
+  p_after_name TEXT DEFAULT NULL,
+  p_after_id UUID DEFAULT NULL
+) RETURNS TABLE (place public.places, score REAL, distance DOUBLE PRECISION, sort_key DOUBLE PRECISION, total BIGINT) AS $$
+  WITH params AS (
+    SELECT
+      NULLIF(trim(p_query), '') AS q,
+      (
+        SELECT to_tsquery('english', string_agg(word || ':*', ' & '))
+        FROM regexp_split_to_table(
+          trim(regexp_replace(lower(COALESCE(p_query, '')), '[^[:alnum:][:space:]]', ' ', 'g')),
+          '\s+'
+        ) AS word
+        WHERE word <> ''
+      ) AS ts_query,
+      (p_latitude IS NOT NULL AND p_longitude IS NOT NULL) AS has_location
+  ),
+  scored AS (
+    SELECT
+      p AS place,
+      (CASE
+        WHEN params.q IS NULL THEN 0
+        WHEN params.ts_query IS NOT NULL AND p.search_vector @@ params.ts_query
+          THEN 1 + ts_rank(p.search_vector, params.ts_query)
+        ELSE word_similarity(params.q, p.name)
+      END)::REAL AS score,
+      CASE
+        WHEN params.has_location AND p.latitude IS NOT NULL AND p.longitude IS NOT NULL
+          THEN distance_meters(p_latitude, p_longitude, p.latitude, p.longitude)
+      END AS distance,
+      params.has_location
+    FROM public.places p, params
+    WHERE
+      (
+        params.q IS NULL
+        OR (params.ts_query IS NOT NULL AND p.search_vector @@ params.ts_query)
+        OR params.q <% p.name
+      )
+      AND (
+        p_keywords IS NULL OR cardinality(p_keywords) = 0
+        OR p.tags && p_keywords
+        OR p.amenities && p_keywords
+        OR p.cuisine_types && p_keywords
+        OR p.specialties && p_keywords
+      )
+      AND (p_tags IS NULL OR cardinality(p_tags) = 0 OR p.tags && p_tags)
+      AND (p_amenities IS NULL OR cardinality(p_amenities) = 0 OR p.amenities @> p_amenities)
+      AND (p_cuisine_types IS NULL OR cardinality(p_cuisine_types) = 0 OR p.cuisine_types && p_cuisine_types)
+      AND (p_price_ranges IS NULL OR cardinality(p_price_ranges) = 0 OR p.price_range = ANY(p_price_ranges))
+      AND (NOT COALESCE(p_open_now, false) OR place_is_open(p.operating_hours))
+      AND (p_place_ids IS NULL OR p.id = ANY(p_place_ids))
+  ),
+  matched AS (
+    SELECT
+      s.place,
+      s.score,
+      s.distance,
+      (CASE
+        WHEN p_sort = 'distance' AND s.has_location THEN COALESCE(s.distance, 1e12)
+        ELSE -s.score
+      END)::DOUBLE PRECISION AS sort_key,
+      COUNT(*) OVER () AS total
+    FROM scored s
+    WHERE p_radius_meters IS NULL OR NOT s.has_location OR s.distance <= p_radius_meters
+  )
+  SELECT m.place, m.score, m.distance, m.sort_key, m.total
+  FROM matched m
+  WHERE
+    p_after_id IS NULL
+    OR (m.sort_key, (m.place).name, (m.place).id) > (p_after_key, p_after_name, p_after_id)
+  ORDER BY m.sort_key, (m.place).name, (m.place).id
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 24), 1), 100);
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION search_places TO anon, authenticated;
@@ -0,0 +1,182 @@
+-- =============================================
+-- Faceted filter counts
+-- =============================================
+
+-- The filtering half of search_places, shared with search_place_facets so
+-- both always agree on what matches. Returns every match with its relevance
+-- score and distance (when a location is given); radius and bounds applied.
+CREATE OR REPLACE FUNCTION search_place_matches(
+  p_query TEXT DEFAULT NULL,
+  p_keywords TEXT[] DEFAULT NULL,
+  p_tags TEXT[] DEFAULT NULL,
+  p_amenities TEXT[] DEFAULT NULL,
+  p_cuisine_types TEXT[] DEFAULT NULL,
+  p_price_ranges TEXT[] DEFAULT NULL,
+  p_open_now BOOLEAN DEFAULT FALSE,
+  p_place_ids UUID[] DEFAULT NULL,
+  p_latitude DOUBLE PRECISION DEFAULT NULL,
+  p_longitude DOUBLE PRECISION DEFAULT NULL,
+  p_radius_meters DOUBLE PRECISION DEFAULT NULL,
+  p_south DOUBLE PRECISION DEFAULT NULL,
+  p_west DOUBLE PRECISION DEFAULT NULL,
+  p_north DOUBLE PRECISION DEFAULT NULL,
+  p_east DOUBLE PRECISION DEFAULT NULL
+) RETURNS TABLE (place public.places, score REAL, distance DOUBLE PRECISION, has_location BOOLEAN) AS $$
+  WITH params AS (
+    SELECT
+      NULLIF(trim(p_query), '') AS q,
+      (
+        SELECT to_tsquery('english', string_agg(word || ':*', ' & '))
+        FROM regexp_split_to_table(
+          trim(regexp_replace(lower(COALESCE(p_query, '')), '[^[:alnum:][:space:]]', ' ', 'g')),
+          '\s+'
+        ) AS word
+        WHERE word <> ''
+      ) AS ts_query,
+      (p_latitude IS NOT NULL AND p_longitude IS NOT NULL) AS has_location
+  ),
+  scored AS (
+    SELECT
+      p AS place,
+      (CASE
+        WHEN params.q IS NULL THEN 0
+        WHEN params.ts_query IS NOT NULL AND p.search_vector @@ params.ts_query
+          THEN 1 + ts_rank(p.search_vector, params.ts_query)
+        ELSE word_similarity(params.q, p.name)
+      END)::REAL AS score,
+      CASE
+        WHEN params.has_location AND p.latitude IS NOT NULL AND p.longitude IS NOT NULL
+          THEN distance_meters(p_latitude, p_longitude, p.latitude, p.longitude)
+      END AS distance,
+      params.has_location
+    FROM public.places p, params
+    WHERE
+      (
+        params.q IS NULL
+        OR (params.ts_query IS NOT NULL AND p.search_vector @@ params.ts_query)
+        OR params.q <% p.name
+      )
+      AND (
+        p_keywords IS NULL OR cardinality(p_keywords) = 0
+        OR p.tags && p_keywords
+        OR p.amenities && p_keywords
+        OR p.cuisine_types && p_keywords
+        OR p.specialties && p_keywords
+      )
+      AND (p_tags IS NULL OR cardinality(p_tags) = 0 OR p.tags && p_tags)
+      AND (p_amenities IS NULL OR cardinality(p_amenities) = 0 OR p.amenities @> p_amenities)
+      AND (p_cuisine_types IS NULL OR cardinality(p_cuisine_types) = 0 OR p.cuisine_types && p_cuisine_types)
+      AND (p_price_ranges IS NULL OR cardinality(p_price_ranges) = 0 OR p.price_range = ANY(p_price_ranges))
+      AND (NOT COALESCE(p_open_now, false) OR place_is_open(p.operating_hours))
+      AND (p_place_ids IS NULL OR p.id = ANY(p_place_ids))
+      AND (
+        p_south IS NULL OR p_west IS NULL OR p_north IS NULL OR p_east IS NULL
+        OR (p.latitude BETWEEN p_south AND p_north AND p.longitude BETWEEN p_west AND p_east)
+      )
+  )
+  SELECT s.place, s.score, s.distance, s.has_location
+  FROM scored s
+  WHERE p_radius_meters IS NULL OR NOT s.has_location OR s.distance <= p_radius_meters;
+$$ LANGUAGE sql STABLE;
+
+-- =============================================
+-- search_places RPC (same signature, filtering moved to search_place_matches)
+-- =============================================
+
+CREATE OR REPLACE FUNCTION search_places(
+  p_query TEXT DEFAULT NULL,
+  p_keywords TEXT[] DEFAULT NULL,
+  p_tags TEXT[] DEFAULT NULL,
+  p_amenities TEXT[] DEFAULT NULL,
+  p_cuisine_types TEXT[] DEFAULT NULL,
+  p_price_ranges TEXT[] DEFAULT NULL,
+  p_open_now BOOLEAN DEFAULT FALSE,
+  p_place_ids UUID[] DEFAULT NULL,
+  p_latitude DOUBLE PRECISION DEFAULT NULL,
+  p_longitude DOUBLE PRECISION DEFAULT NULL,
+  p_radius_meters DOUBLE PRECISION DEFAULT NULL,
+  p_south DOUBLE PRECISION DEFAULT NULL,
+  p_west DOUBLE PRECISION DEFAULT NULL,
+  p_north DOUBLE PRECISION DEFAULT NULL,
+  p_east DOUBLE PRECISION DEFAULT NULL,
+  p_sort TEXT DEFAULT 'relevance',
+  p_limit INT DEFAULT 24,
+  p_after_key DOUBLE PRECISION DEFAULT NULL,
+  p_after_name TEXT DEFAULT NULL,
+  p_after_id UUID DEFAULT NULL
+) RETURNS TABLE (place public.places, score REAL, distance DOUBLE PRECISION, sort_key DOUBLE PRECISION, total BIGINT) AS $$
+  WITH matched AS (
+    SELECT
+      s.place,
+      s.score,
+      s.distance,
+      (CASE
+        WHEN p_sort = 'distance' AND s.has_location THEN COALESCE(s.distance, 1e12)
+        WHEN p_sort = 'name' THEN 0
+        WHEN p_sort = 'newest' THEN -extract(epoch FROM (s.place).created_at)
+        WHEN p_sort = 'updated' THEN -extract(epoch FROM (s.place).updated_at)
+        WHEN p_sort = 'price' THEN length((s.place).price_range)
+        WHEN p_sort = 'favorites' THEN -(s.place).favorite_count
+        ELSE -s.score
+      END)::DOUBLE PRECISION AS sort_key,
+      COUNT(*) OVER () AS total
+    FROM search_place_matches(
+      p_query, p_keywords, p_tags, p_amenities, p_cuisine_types, p_price_ranges, p_open_now, p_place_ids, p_latitude, p_longitude, p_radius_meters, p_south, p_west, p_north, p_east
+    ) s
+  )
+  SELECT m.place, m.score, m.distance, m.sort_key, m.total
+  FROM matched m
+  WHERE
+    p_after_id IS NULL
+    OR (m.sort_key, (m.place).name, (m.place).id) > (p_after_key, p_after_name, p_after_id)
+  ORDER BY m.sort_key, (m.place).name, (m.place).id
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 24), 1), 100);
+$$ LANGUAGE sql STABLE;
+
+-- =============================================
+-- search_place_facets RPC
+-- =============================================
+
+-- Counts per cuisine, amenity and price range for the given filters.
+-- Cuisine and price are "any of" filters, so their counts ignore their own
+-- selection (choosing another cuisine widens the results). Amenities are
+-- "all of", so their counts keep the current selection.
+CREATE OR REPLACE FUNCTION search_place_facets(
+  p_query TEXT DEFAULT NULL,
+  p_keywords TEXT[] DEFAULT NULL,
+  p_tags TEXT[] DEFAULT NULL,
+  p_amenities TEXT[] DEFAULT NULL,
+  p_cuisine_types TEXT[] DEFAULT NULL,
+  p_price_ranges TEXT[] DEFAULT NULL,
+  p_open_now BOOLEAN DEFAULT FALSE,
+  p_place_ids UUID[] DEFAULT NULL,
+  p_latitude DOUBLE PRECISION DEFAULT NULL,
+  p_longitude DOUBLE PRECISION DEFAULT NULL,
+  p_radius_meters DOUBLE PRECISION DEFAULT NULL,
+  p_south DOUBLE PRECISION DEFAULT NULL,
+  p_west DOUBLE PRECISION DEFAULT NULL,
+  p_north DOUBLE PRECISION DEFAULT NULL,
+  p_east DOUBLE PRECISION DEFAULT NULL
+) RETURNS TABLE (facet TEXT, value TEXT, count BIGINT) AS $$
+  SELECT 'cuisine', c, COUNT(*)
+  FROM search_place_matches(
+    p_query, p_keywords, p_tags, p_amenities, NULL, p_price_ranges, p_open_now, p_place_ids, p_latitude, p_longitude, p_radius_meters, p_south, p_west, p_north, p_east
+  ) m, unnest((m.place).cuisine_types) AS c
+  GROUP BY c
+  UNION ALL
+  SELECT 'amenity', a, COUNT(*)
+  FROM search_place_matches(
+    p_query, p_keywords, p_tags, p_amenities, p_cuisine_types, p_price_ranges, p_open_now, p_place_ids, p_latitude, p_longitude, p_radius_meters, p_south, p_west, p_north, p_east
+  ) m, unnest((m.place).amenities) AS a
+  GROUP BY a
+  UNION ALL
+  SELECT 'price', (m.place).price_range, COUNT(*)
+  FROM search_place_matches(
+    p_query, p_keywords, p_tags, p_amenities, p_cuisine_types, NULL, p_open_now, p_place_ids, p_latitude, p_longitude, p_radius_meters, p_south, p_west, p_north, p_east
+  ) m
+  GROUP BY (m.place).price_range;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION search_place_matches TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION search_places TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION search_place_facets TO anon, authenticated;
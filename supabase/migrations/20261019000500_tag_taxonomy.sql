@@ -0,0 +1,362 @@
+-- =============================================
+-- Canonical tag taxonomy with aliases
+-- =============================================
+
+-- Canonical tags used in places.tags, places.amenities and places.cuisine_types
+CREATE TABLE public.tags (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  slug TEXT UNIQUE NOT NULL,
+  category TEXT NOT NULL CHECK (category IN ('amenity', 'cuisine', 'dietary', 'atmosphere', 'service')),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Alternative spellings that normalize to a canonical tag
+CREATE TABLE public.tag_aliases (
+  alias TEXT PRIMARY KEY,
+  tag_slug TEXT NOT NULL REFERENCES public.tags(slug) ON UPDATE CASCADE ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Non-canonical tags seen in places, submissions and suggestions, awaiting review
+CREATE TABLE public.tag_proposals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  slug TEXT UNIQUE NOT NULL,
+  category TEXT CHECK (category IN ('amenity', 'cuisine', 'dietary', 'atmosphere', 'service')),
+  usage_count INTEGER NOT NULL DEFAULT 1,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'aliased', 'rejected')),
+  reviewed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_tags_category ON public.tags(category);
+CREATE INDEX idx_tag_aliases_tag_slug ON public.tag_aliases(tag_slug);
+CREATE INDEX idx_tag_proposals_status ON public.tag_proposals(status);
+
+CREATE TRIGGER tag_proposals_updated_at BEFORE UPDATE ON public.tag_proposals FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- =============================================
+-- Seed: canonical tags and known aliases
+-- =============================================
+
+INSERT INTO public.tags (name, slug, category) VALUES
+  ('WiFi', 'wifi', 'amenity'),
+  ('Parking', 'parking', 'amenity'),
+  ('Pet Friendly', 'pet-friendly', 'amenity'),
+  ('LGBT Friendly', 'lgbt-friendly', 'amenity'),
+  ('Wheelchair Accessible', 'wheelchair-accessible', 'amenity'),
+  ('Outdoor Seating', 'outdoor-seating', 'amenity'),
+  ('Air Conditioned', 'air-conditioned', 'amenity'),
+  ('Smoking Area', 'smoking-area', 'amenity'),
+  ('Power Outlets', 'power-outlets', 'amenity'),
+  ('Group Seating', 'group-seating', 'amenity'),
+  ('Food Stall', 'food-stall', 'amenity'),
+  ('Live Music', 'live-music', 'amenity'),
+  ('Alcohol Served', 'alcohol-served', 'amenity'),
+  ('Kids Friendly', 'kids-friendly', 'amenity'),
+  ('Bike Parking', 'bike-parking', 'amenity'),
+  ('Board Games', 'board-games', 'amenity'),
+  ('Tv Screens', 'tv-screens', 'amenity'),
+  ('Billiards', 'billiards', 'amenity'),
+  ('Dine-in', 'dine-in', 'service'),
+  ('Takeout', 'takeout', 'service'),
+  ('Delivery', 'delivery', 'service'),
+  ('Reservations', 'reservations', 'service'),
+  ('Drive-thru', 'drive-thru', 'service'),
+  ('Quick Service', 'quick-service', 'service'),
+  ('Open 24 Hours', '24-hours', 'service'),
+  ('Late Night', 'late-night', 'service'),
+  ('Buffet', 'buffet', 'service'),
+  ('Unlimited Rice', 'unlimited-rice', 'service'),
+  ('Vegetarian', 'vegetarian', 'dietary'),
+  ('Vegan', 'vegan', 'dietary'),
+  ('Halal', 'halal', 'dietary'),
+  ('Gluten Free', 'gluten-free', 'dietary'),
+  ('Keto Friendly', 'keto-friendly', 'dietary'),
+  ('Organic', 'organic', 'dietary'),
+  ('Healthy', 'healthy', 'dietary'),
+  ('Pork Free', 'pork-free', 'dietary'),
+  ('Casual', 'casual', 'atmosphere'),
+  ('Fine Dining', 'fine-dining', 'atmosphere'),
+  ('Cozy', 'cozy', 'atmosphere'),
+  ('Romantic', 'romantic', 'atmosphere'),
+  ('Family Friendly', 'family-friendly', 'atmosphere'),
+  ('Quiet', 'quiet', 'atmosphere'),
+  ('Lively', 'lively', 'atmosphere'),
+  ('Trendy', 'trendy', 'atmosphere'),
+  ('Artsy', 'artsy', 'atmosphere'),
+  ('Minimalist', 'minimalist', 'atmosphere'),
+  ('Rustic', 'rustic', 'atmosphere'),
+  ('Modern', 'modern', 'atmosphere'),
+  ('Budget Friendly', 'budget-friendly', 'atmosphere'),
+  ('Group Friendly', 'group-friendly', 'atmosphere'),
+  ('Study Spot', 'study-spot', 'atmosphere'),
+  ('Work Friendly', 'work-friendly', 'atmosphere'),
+  ('Date Spot', 'date-spot', 'atmosphere'),
+  ('Instagram Worthy', 'instagram-worthy', 'atmosphere'),
+  ('Student Friendly', 'student-friendly', 'atmosphere'),
+  ('Upscale', 'upscale', 'atmosphere'),
+  ('Intimate', 'intimate', 'atmosphere'),
+  ('Nostalgic', 'nostalgic', 'atmosphere'),
+  ('Retro', 'retro', 'atmosphere'),
+  ('Quirky', 'quirky', 'atmosphere'),
+  ('Aesthetic', 'aesthetic', 'atmosphere'),
+  ('Authentic', 'authentic', 'atmosphere'),
+  ('Chain', 'chain', 'atmosphere'),
+  ('Food Park', 'food-park', 'atmosphere'),
+  ('Unique', 'unique', 'atmosphere'),
+  ('Iconic', 'iconic', 'atmosphere'),
+  ('Traditional', 'traditional', 'atmosphere'),
+  ('Local Favorite', 'local-favorite', 'atmosphere'),
+  ('Premium', 'premium', 'atmosphere'),
+  ('Artisan', 'artisan', 'atmosphere'),
+  ('Gourmet', 'gourmet', 'atmosphere'),
+  ('Heritage', 'heritage', 'atmosphere'),
+  ('Contemporary', 'contemporary', 'atmosphere'),
+  ('Filipino', 'filipino', 'cuisine'),
+  ('Modern Filipino', 'modern-filipino', 'cuisine'),
+  ('Chinese Filipino', 'chinese-filipino', 'cuisine'),
+  ('Ilocano', 'ilocano', 'cuisine'),
+  ('Japanese', 'japanese', 'cuisine'),
+  ('Korean', 'korean', 'cuisine'),
+  ('Chinese', 'chinese', 'cuisine'),
+  ('Cantonese', 'cantonese', 'cuisine'),
+  ('Taiwanese', 'taiwanese', 'cuisine'),
+  ('Vietnamese', 'vietnamese', 'cuisine'),
+  ('Thai', 'thai', 'cuisine'),
+  ('Indian', 'indian', 'cuisine'),
+  ('Italian', 'italian', 'cuisine'),
+  ('French', 'french', 'cuisine'),
+  ('Spanish', 'spanish', 'cuisine'),
+  ('Portuguese', 'portuguese', 'cuisine'),
+  ('British', 'british', 'cuisine'),
+  ('Canadian', 'canadian', 'cuisine'),
+  ('American', 'american', 'cuisine'),
+  ('Tex-Mex', 'tex-mex', 'cuisine'),
+  ('Mexican', 'mexican', 'cuisine'),
+  ('Latin', 'latin', 'cuisine'),
+  ('Mediterranean', 'mediterranean', 'cuisine'),
+  ('Middle Eastern', 'middle-eastern', 'cuisine'),
+  ('Persian', 'persian', 'cuisine'),
+  ('Turkish', 'turkish', 'cuisine'),
+  ('Lebanese', 'lebanese', 'cuisine'),
+  ('Tibetan', 'tibetan', 'cuisine'),
+  ('Nepali', 'nepali', 'cuisine'),
+  ('Asian', 'asian', 'cuisine'),
+  ('European', 'european', 'cuisine'),
+  ('International', 'international', 'cuisine'),
+  ('Fusion', 'fusion', 'cuisine'),
+  ('Café', 'cafe', 'cuisine'),
+  ('Bakery', 'bakery', 'cuisine'),
+  ('Dessert', 'dessert', 'cuisine'),
+  ('Bar', 'bar', 'cuisine'),
+  ('Wine Bar', 'wine-bar', 'cuisine'),
+  ('Gastropub', 'gastropub', 'cuisine'),
+  ('Diner', 'diner', 'cuisine'),
+  ('Steakhouse', 'steakhouse', 'cuisine'),
+  ('Fast Food', 'fast-food', 'cuisine'),
+  ('Coffee', 'coffee', 'cuisine'),
+  ('Specialty Coffee', 'specialty-coffee', 'cuisine'),
+  ('Tea', 'tea', 'cuisine'),
+  ('Milk Tea', 'milk-tea', 'cuisine'),
+  ('Beverages', 'beverages', 'cuisine'),
+  ('Cocktails', 'cocktails', 'cuisine'),
+  ('Breakfast', 'breakfast', 'cuisine'),
+  ('All Day Breakfast', 'all-day-breakfast', 'cuisine'),
+  ('Brunch', 'brunch', 'cuisine'),
+  ('Comfort Food', 'comfort-food', 'cuisine'),
+  ('Street Food', 'street-food', 'cuisine'),
+  ('Bar Food', 'bar-food', 'cuisine'),
+  ('BBQ', 'bbq', 'cuisine'),
+  ('Grilled', 'grilled', 'cuisine'),
+  ('Burgers', 'burgers', 'cuisine'),
+  ('Pizza', 'pizza', 'cuisine'),
+  ('Pasta', 'pasta', 'cuisine'),
+  ('Ramen', 'ramen', 'cuisine'),
+  ('Sushi', 'sushi', 'cuisine'),
+  ('Noodles', 'noodles', 'cuisine'),
+  ('Seafood', 'seafood', 'cuisine'),
+  ('Steak', 'steak', 'cuisine'),
+  ('Chicken', 'chicken', 'cuisine'),
+  ('Fried Chicken', 'fried-chicken', 'cuisine'),
+  ('Roasted Chicken', 'roasted-chicken', 'cuisine'),
+  ('Wings', 'wings', 'cuisine'),
+  ('Tacos', 'tacos', 'cuisine'),
+  ('Sandwiches', 'sandwiches', 'cuisine'),
+  ('Ice Cream', 'ice-cream', 'cuisine'),
+  ('Gelato', 'gelato', 'cuisine'),
+  ('Pastries', 'pastries', 'cuisine'),
+  ('Cakes', 'cakes', 'cuisine'),
+  ('Waffles', 'waffles', 'cuisine'),
+  ('Dim Sum', 'dim-sum', 'cuisine'),
+  ('Pho', 'pho', 'cuisine'),
+  ('Kebabs', 'kebabs', 'cuisine'),
+  ('Tapas', 'tapas', 'cuisine'),
+  ('Samgyupsal', 'samgyupsal', 'cuisine'),
+  ('Sisig', 'sisig', 'cuisine'),
+  ('Hot Pot', 'hot-pot', 'cuisine'),
+  ('Curry', 'curry', 'cuisine'),
+  ('Deli', 'deli', 'cuisine'),
+  ('Snacks', 'snacks', 'cuisine'),
+  ('Pork', 'pork', 'cuisine');
+
+INSERT INTO public.tag_aliases (alias, tag_slug) VALUES
+  ('al-fresco', 'outdoor-seating'),
+  ('alfresco', 'outdoor-seating'),
+  ('outdoor-dining', 'outdoor-seating'),
+  ('group-dining', 'group-friendly'),
+  ('family-dining', 'family-friendly'),
+  ('affordable', 'budget-friendly'),
+  ('cheap', 'budget-friendly'),
+  ('instagrammable', 'instagram-worthy'),
+  ('coffee-shop', 'cafe'),
+  ('casual-dining', 'casual'),
+  ('24-7', '24-hours'),
+  ('open-24-hours', '24-hours'),
+  ('reservation-recommended', 'reservations'),
+  ('reservation-required', 'reservations'),
+  ('bubble-tea', 'milk-tea'),
+  ('kebab', 'kebabs'),
+  ('desserts', 'dessert'),
+  ('sweet-treats', 'dessert'),
+  ('chicken-wings', 'wings'),
+  ('vegetarian-options', 'vegetarian'),
+  ('artisanal', 'artisan'),
+  ('bar-chow', 'bar-food'),
+  ('pub-food', 'bar-food'),
+  ('iranian', 'persian'),
+  ('aircon', 'air-conditioned'),
+  ('airconditioned', 'air-conditioned'),
+  ('wi-fi', 'wifi'),
+  ('free-wifi', 'wifi'),
+  ('take-out', 'takeout'),
+  ('takeaway', 'takeout'),
+  ('take-away', 'takeout'),
+  ('kid-friendly', 'kids-friendly'),
+  ('child-friendly', 'kids-friendly'),
+  ('dog-friendly', 'pet-friendly'),
+  ('study-area', 'study-spot'),
+  ('quiet-zone', 'quiet'),
+  ('quiet-space', 'quiet'),
+  ('grill', 'grilled'),
+  ('dimsum', 'dim-sum');
+
+-- =============================================
+-- Normalization (mirrors apps/web/src/lib/tags.ts)
+-- =============================================
+
+-- "Group Friendly", "group_friendly" and "group-friendly" all become "group-friendly"
+CREATE OR REPLACE FUNCTION slugify_tag(value TEXT) RETURNS TEXT AS $$
+  SELECT NULLIF(trim(BOTH '-' FROM regexp_replace(lower(trim(value)), '[^a-z0-9]+', '-', 'g')), '');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Slugify, resolve aliases and drop duplicates, keeping first-seen order.
+-- Unknown tags are kept (slugified).
+CREATE OR REPLACE FUNCTION normalize_tags(tags TEXT[]) RETURNS TEXT[] AS $$
+  SELECT COALESCE(array_agg(slug ORDER BY pos), '{}')
+  FROM (
+    SELECT DISTINCT ON (slug) slug, pos
+    FROM (
+      SELECT COALESCE(a.tag_slug, s.slug) AS slug, s.pos
+      FROM (
+        SELECT slugify_tag(raw) AS slug, pos
+        FROM unnest(tags) WITH ORDINALITY AS u(raw, pos)
+      ) s
+      LEFT JOIN public.tag_aliases a ON a.alias = s.slug
+      WHERE s.slug IS NOT NULL
+    ) mapped
+    ORDER BY slug, pos
+  ) deduped;
+$$ LANGUAGE sql STABLE;
+
+-- Queue non-canonical tags for admin review. Called with the service role
+-- when submissions and suggestions are saved.
+CREATE OR REPLACE FUNCTION propose_tags(p_slugs TEXT[], p_category TEXT DEFAULT NULL) RETURNS VOID AS $$
+  INSERT INTO public.tag_proposals (slug, category)
+  SELECT DISTINCT s, p_category
+  FROM unnest(p_slugs) AS s
+  WHERE s IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM public.tags t WHERE t.slug = s)
+    AND NOT EXISTS (SELECT 1 FROM public.tag_aliases a WHERE a.alias = s)
+  ON CONFLICT (slug) DO UPDATE SET usage_count = public.tag_proposals.usage_count + 1;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION propose_tags FROM PUBLIC, anon, authenticated;
+
+-- Map a tag onto a canonical one and rewrite every place using it
+CREATE OR REPLACE FUNCTION apply_tag_alias(p_alias TEXT, p_tag_slug TEXT) RETURNS VOID AS $$
+BEGIN
+  INSERT INTO public.tag_aliases (alias, tag_slug) VALUES (p_alias, p_tag_slug)
+  ON CONFLICT (alias) DO UPDATE SET tag_slug = EXCLUDED.tag_slug;
+
+  UPDATE public.places SET
+    tags = normalize_tags(tags),
+    amenities = normalize_tags(amenities),
+    cuisine_types = normalize_tags(cuisine_types)
+  WHERE p_alias = ANY(tags) OR p_alias = ANY(amenities) OR p_alias = ANY(cuisine_types);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Strip a rejected tag from every place using it
+CREATE OR REPLACE FUNCTION remove_tag(p_slug TEXT) RETURNS VOID AS $$
+  UPDATE public.places SET
+    tags = array_remove(tags, p_slug),
+    amenities = array_remove(amenities, p_slug),
+    cuisine_types = array_remove(cuisine_types, p_slug)
+  WHERE p_slug = ANY(tags) OR p_slug = ANY(amenities) OR p_slug = ANY(cuisine_types);
+$$ LANGUAGE sql;
+
+-- =============================================
+-- Rewrite existing data
+-- =============================================
+
+-- A spelling fix isn't a content update; keep updated_at as it was
+ALTER TABLE public.places DISABLE TRIGGER places_updated_at;
+
+UPDATE public.places SET
+  tags = normalize_tags(tags),
+  amenities = normalize_tags(amenities),
+  cuisine_types = normalize_tags(cuisine_types);
+
+ALTER TABLE public.places ENABLE TRIGGER places_updated_at;
+
+-- Whatever is still non-canonical goes to the review queue
+INSERT INTO public.tag_proposals (slug, category, usage_count)
+SELECT slug, MIN(category), COUNT(*)
+FROM (
+  SELECT unnest(tags) AS slug, 'atmosphere' AS category FROM public.places
+  UNION ALL
+  SELECT unnest(amenities), 'amenity' FROM public.places
+  UNION ALL
+  SELECT unnest(cuisine_types), 'cuisine' FROM public.places
+) used
+WHERE NOT EXISTS (SELECT 1 FROM public.tags t WHERE t.slug = used.slug)
+GROUP BY slug;
+
+-- =============================================
+-- Row Level Security
+-- =============================================
+
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tag_aliases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tag_proposals ENABLE ROW LEVEL SECURITY;
+
+-- tags, tag_aliases: public read, admin manage
+CREATE POLICY "tags_select" ON public.tags FOR SELECT USING (true);
+CREATE POLICY "tags_admin_all" ON public.tags FOR ALL USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+);
+CREATE POLICY "tag_aliases_select" ON public.tag_aliases FOR SELECT USING (true);
+CREATE POLICY "tag_aliases_admin_all" ON public.tag_aliases FOR ALL USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- tag_proposals: admin only (inserts go through propose_tags)
+CREATE POLICY "tag_proposals_admin_select" ON public.tag_proposals FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+);
+CREATE POLICY "tag_proposals_admin_update" ON public.tag_proposals FOR UPDATE USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+);
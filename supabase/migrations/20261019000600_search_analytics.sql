@@ -0,0 +1,90 @@
+-- =============================================
+-- Search analytics
+-- =============================================
+
+-- One row per search on /places or pick from the SearchBar dropdown.
+-- No user, session or IP is stored; location filters are reduced to flags
+-- and the query is normalized and scrubbed by /api/search/events.
+CREATE TABLE public.search_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  query TEXT,
+  filters JSONB NOT NULL DEFAULT '{}',
+  result_count INTEGER NOT NULL CHECK (result_count >= 0),
+  source TEXT NOT NULL CHECK (source IN ('places', 'search-bar')),
+  -- First result clicked from this search, if any
+  clicked_place_id UUID REFERENCES public.places(id) ON DELETE SET NULL,
+  clicked_position INTEGER,
+  clicked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_search_events_created_at ON public.search_events(created_at DESC);
+CREATE INDEX idx_search_events_query ON public.search_events(query) WHERE query IS NOT NULL;
+
+-- =============================================
+-- Reports (admin only through RLS)
+-- =============================================
+
+-- Per-query totals since p_since, most searched first.
+-- With p_zero_results_only, only queries that came up empty, most misses first.
+CREATE OR REPLACE FUNCTION search_query_stats(
+  p_since TIMESTAMPTZ,
+  p_limit INT DEFAULT 50,
+  p_zero_results_only BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE (
+  query TEXT,
+  searches BIGINT,
+  zero_result_searches BIGINT,
+  clicked_searches BIGINT,
+  avg_results DOUBLE PRECISION,
+  last_searched_at TIMESTAMPTZ
+) AS $$
+  SELECT
+    e.query,
+    COUNT(*),
+    COUNT(*) FILTER (WHERE e.result_count = 0),
+    COUNT(e.clicked_at),
+    AVG(e.result_count)::DOUBLE PRECISION,
+    MAX(e.created_at)
+  FROM public.search_events e
+  WHERE e.query IS NOT NULL AND e.created_at >= p_since
+  GROUP BY e.query
+  HAVING NOT p_zero_results_only OR COUNT(*) FILTER (WHERE e.result_count = 0) > 0
+  ORDER BY
+    CASE WHEN p_zero_results_only THEN COUNT(*) FILTER (WHERE e.result_count = 0) ELSE COUNT(*) END DESC,
+    MAX(e.created_at) DESC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 50), 1), 500);
+$$ LANGUAGE sql STABLE;
+
+-- How often each filter value was applied since p_since
+CREATE OR REPLACE FUNCTION search_filter_stats(p_since TIMESTAMPTZ, p_limit INT DEFAULT 50)
+RETURNS TABLE (filter TEXT, value TEXT, searches BIGINT, zero_result_searches BIGINT) AS $$
+  SELECT
+    f.key,
+    v.value,
+    COUNT(*),
+    COUNT(*) FILTER (WHERE e.result_count = 0)
+  FROM public.search_events e
+  CROSS JOIN LATERAL jsonb_each(e.filters) AS f(key, val)
+  CROSS JOIN LATERAL (
+    SELECT jsonb_array_elements_text(f.val) AS value WHERE jsonb_typeof(f.val) = 'array'
+    UNION ALL
+    SELECT f.val #>> '{}' WHERE jsonb_typeof(f.val) <> 'array'
+  ) v
+  WHERE e.created_at >= p_since
+  GROUP BY f.key, v.value
+  ORDER BY COUNT(*) DESC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 50), 1), 500);
+$$ LANGUAGE sql STABLE;
+
+-- =============================================
+-- Row Level Security
+-- =============================================
+
+ALTER TABLE public.search_events ENABLE ROW LEVEL SECURITY;
+
+-- Inserts and click updates go through the service role in /api/search/events
+CREATE POLICY "search_events_admin_select" ON public.search_events FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+);
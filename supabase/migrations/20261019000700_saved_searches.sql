@@ -0,0 +1,127 @@
+-- =============================================
+-- Saved searches and notifications
+-- =============================================
+
+-- SearchFilters saved from /places (camelCase, as in types/place.ts)
+CREATE TABLE public.saved_searches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  filters JSONB NOT NULL DEFAULT '{}',
+  alerts_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  last_notified_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- In-app notifications shown on the dashboard
+CREATE TABLE public.notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('saved_search_match')),
+  title TEXT NOT NULL,
+  body TEXT,
+  href TEXT,
+  place_id UUID REFERENCES public.places(id) ON DELETE CASCADE,
+  saved_search_id UUID REFERENCES public.saved_searches(id) ON DELETE CASCADE,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_saved_searches_user_id ON public.saved_searches(user_id);
+CREATE INDEX idx_saved_searches_alerts ON public.saved_searches(alerts_enabled) WHERE alerts_enabled;
+CREATE INDEX idx_notifications_user_id ON public.notifications(user_id, created_at DESC);
+CREATE INDEX idx_notifications_unread ON public.notifications(user_id) WHERE read_at IS NULL;
+
+CREATE TRIGGER saved_searches_updated_at BEFORE UPDATE ON public.saved_searches FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- =============================================
+-- Alerts
+-- =============================================
+
+-- JSON array of strings -> TEXT[] (NULL for anything else)
+CREATE OR REPLACE FUNCTION jsonb_text_array(value JSONB) RETURNS TEXT[] AS $$
+  SELECT CASE WHEN jsonb_typeof(value) = 'array' THEN ARRAY(SELECT jsonb_array_elements_text(value)) END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Notify owners of saved searches (alerts on) that a newly approved place matches.
+-- Matching goes through search_place_matches so alerts agree with /places.
+-- "Open now" and favorites-only are ignored: neither applies to a place that was just added.
+-- Returns the number of notifications created.
+CREATE OR REPLACE FUNCTION notify_saved_search_matches(p_place_id UUID) RETURNS INT AS $$
+DECLARE
+  v_place public.places;
+  v_count INT;
+BEGIN
+  SELECT * INTO v_place FROM public.places WHERE id = p_place_id;
+  IF NOT FOUND THEN
+    RETURN 0;
+  END IF;
+
+  WITH matched AS (
+    SELECT s.id, s.user_id, s.name
+    FROM public.saved_searches s
+    WHERE s.alerts_enabled
+      AND EXISTS (
+        SELECT 1
+        FROM search_place_matches(
+          s.filters->>'query',
+          jsonb_text_array(s.filters->'keywords'),
+          jsonb_text_array(s.filters->'tags'),
+          jsonb_text_array(s.filters->'amenities'),
+          jsonb_text_array(s.filters->'cuisineTypes'),
+          jsonb_text_array(s.filters->'priceRanges'),
+          FALSE,
+          ARRAY[p_place_id],
+          (s.filters->'near'->>'latitude')::DOUBLE PRECISION,
+          (s.filters->'near'->>'longitude')::DOUBLE PRECISION,
+          (s.filters->>'radiusMeters')::DOUBLE PRECISION,
+          (s.filters->'bounds'->>'south')::DOUBLE PRECISION,
+          (s.filters->'bounds'->>'west')::DOUBLE PRECISION,
+          (s.filters->'bounds'->>'north')::DOUBLE PRECISION,
+          (s.filters->'bounds'->>'east')::DOUBLE PRECISION
+        )
+      )
+  ),
+  notified AS (
+    INSERT INTO public.notifications (user_id, type, title, body, href, place_id, saved_search_id)
+    SELECT
+      m.user_id,
+      'saved_search_match',
+      'New match for "' || m.name || '"',
+      v_place.name || ' was just added to Where In Maginhawa.',
+      '/places/' || v_place.slug,
+      v_place.id,
+      m.id
+    FROM matched m
+    RETURNING saved_search_id
+  )
+  UPDATE public.saved_searches s
+  SET last_notified_at = NOW()
+  FROM notified n
+  WHERE s.id = n.saved_search_id;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION notify_saved_search_matches FROM PUBLIC, anon, authenticated;
+
+-- =============================================
+-- Row Level Security
+-- =============================================
+
+ALTER TABLE public.saved_searches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- saved_searches: users manage their own
+CREATE POLICY "saved_searches_select_own" ON public.saved_searches FOR SELECT USING (user_id = auth.uid());
+CREATE POLICY "saved_searches_insert_own" ON public.saved_searches FOR INSERT WITH CHECK (user_id = auth.uid());
+CREATE POLICY "saved_searches_update_own" ON public.saved_searches FOR UPDATE USING (user_id = auth.uid());
+CREATE POLICY "saved_searches_delete_own" ON public.saved_searches FOR DELETE USING (user_id = auth.uid());
+
+-- notifications: users read, mark read and dismiss their own (created by notify_saved_search_matches)
+CREATE POLICY "notifications_select_own" ON public.notifications FOR SELECT USING (user_id = auth.uid());
+CREATE POLICY "notifications_update_own" ON public.notifications FOR UPDATE USING (user_id = auth.uid());
+CREATE POLICY "notifications_delete_own" ON public.notifications FOR DELETE USING (user_id = auth.uid());
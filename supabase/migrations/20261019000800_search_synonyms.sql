@@ -0,0 +1,197 @@
+-- =============================================
+-- Filipino/Taglish search synonyms
+-- =============================================
+
+-- Query expansion dictionary. A search word matching `term` or any entry in
+-- `synonyms` also matches every other word in the group, so "kape" finds
+-- coffee shops and "coffee" finds "Kape Tayo". Terms are single words;
+-- synonyms may be phrases ("milk tea"), which must match word for word.
+CREATE TABLE public.search_synonyms (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  term TEXT UNIQUE NOT NULL CHECK (term ~ '^[[:alnum:]]+$' AND term = lower(term)),
+  synonyms TEXT[] NOT NULL DEFAULT '{}',
+  kind TEXT NOT NULL DEFAULT 'synonym' CHECK (kind IN ('synonym', 'dish')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_search_synonyms_synonyms ON public.search_synonyms USING GIN(synonyms);
+
+CREATE TRIGGER search_synonyms_updated_at BEFORE UPDATE ON public.search_synonyms FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- =============================================
+-- Seed: common Filipino/Taglish words and dishes
+-- =============================================
+
+INSERT INTO public.search_synonyms (term, synonyms, kind) VALUES
+  ('kape', '{coffee,cafe,kapihan}', 'synonym'),
+  ('ulam', '{viand,rice meal,lutong bahay}', 'synonym'),
+  ('tambayan', '{hangout,chill,cozy,study}', 'synonym'),
+  ('inihaw', '{grilled,grill,ihaw,barbecue,bbq}', 'synonym'),
+  ('kainan', '{restaurant,eatery}', 'synonym'),
+  ('karinderya', '{carinderia,eatery,turo turo,lutong bahay}', 'synonym'),
+  ('inuman', '{bar,beer,drinks,alcohol}', 'synonym'),
+  ('pulutan', '{bar chow,bar,beer}', 'synonym'),
+  ('inumin', '{drinks,beverages}', 'synonym'),
+  ('panghimagas', '{dessert,sweets}', 'synonym'),
+  ('matamis', '{dessert,sweets}', 'synonym'),
+  ('tinapay', '{bread,bakery,pandesal}', 'synonym'),
+  ('panaderya', '{bakery,bread,pandesal}', 'synonym'),
+  ('almusal', '{breakfast,silog}', 'synonym'),
+  ('tanghalian', '{lunch}', 'synonym'),
+  ('hapunan', '{dinner}', 'synonym'),
+  ('meryenda', '{merienda,snacks}', 'synonym'),
+  ('gulay', '{vegetables,vegetarian,vegan}', 'synonym'),
+  ('manok', '{chicken}', 'synonym'),
+  ('baboy', '{pork}', 'synonym'),
+  ('baka', '{beef}', 'synonym'),
+  ('isda', '{fish,seafood}', 'synonym'),
+  ('hipon', '{shrimp,seafood}', 'synonym'),
+  ('kanin', '{rice}', 'synonym'),
+  ('sabaw', '{soup}', 'synonym'),
+  ('mura', '{cheap,affordable,budget}', 'synonym'),
+  ('silog', '{tapsilog,tocilog,longsilog,bangsilog,cornsilog,hotsilog,spamsilog,chicksilog}', 'dish'),
+  ('tapsilog', '{tapa,silog}', 'dish'),
+  ('sinangag', '{garlic rice,fried rice}', 'dish'),
+  ('pancit', '{pansit,noodles,canton,bihon,palabok}', 'dish'),
+  ('lugaw', '{congee,porridge,arroz caldo,goto}', 'dish'),
+  ('sisig', '{sizzling,pulutan}', 'dish'),
+  ('lechon', '{roast pork,lechon kawali}', 'dish'),
+  ('sinigang', '{sour soup,sabaw}', 'dish'),
+  ('bulalo', '{beef soup,sabaw}', 'dish'),
+  ('pares', '{beef stew,mami}', 'dish'),
+  ('mami', '{noodle soup,pares}', 'dish'),
+  ('lumpia', '{spring rolls,shanghai}', 'dish'),
+  ('isaw', '{street food,inihaw}', 'dish'),
+  ('kwekkwek', '{kwek kwek,tokneneng,street food}', 'dish'),
+  ('turon', '{banana,dessert}', 'dish'),
+  ('taho', '{tofu,soy}', 'dish'),
+  ('milktea', '{milk tea,boba}', 'dish');
+
+-- =============================================
+-- Query expansion
+-- =============================================
+
+-- Prefix tsquery for a free-text search, with each word ORed against its
+-- dictionary alternatives: "kape malapit" becomes
+-- (kape:* | coffee:* | cafe:* | kapihan:*) & (malapit:*)
+CREATE OR REPLACE FUNCTION search_ts_query(p_query TEXT) RETURNS tsquery AS $$
+  WITH words AS (
+    SELECT w.word, w.ord
+    FROM regexp_split_to_table(
+      trim(regexp_replace(lower(COALESCE(p_query, '')), '[^[:alnum:][:space:]]', ' ', 'g')),
+      '\s+'
+    ) WITH ORDINALITY AS w(word, ord)
+    WHERE w.word <> ''
+  ),
+  alternatives AS (
+    SELECT words.ord, alt.phrase
+    FROM words
+    CROSS JOIN LATERAL (
+      SELECT words.word AS phrase
+      UNION
+      SELECT unnest(s.term || s.synonyms)
+      FROM public.search_synonyms s
+      WHERE s.term = words.word OR words.word = ANY(s.synonyms)
+    ) alt
+  ),
+  -- Multi-word phrases must match every word: "milk tea" -> (milk:* & tea:*)
+  terms AS (
+    SELECT alternatives.ord, (
+      SELECT '(' || string_agg(part || ':*', ' & ') || ')'
+      FROM regexp_split_to_table(
+        trim(regexp_replace(lower(alternatives.phrase), '[^[:alnum:][:space:]]', ' ', 'g')),
+        '\s+'
+      ) AS part
+      WHERE part <> ''
+    ) AS term
+    FROM alternatives
+  ),
+  grouped AS (
+    SELECT ord, '(' || string_agg(term, ' | ') || ')' AS alternatives
+    FROM terms
+    WHERE term IS NOT NULL
+    GROUP BY ord
+  )
+  SELECT to_tsquery('english', string_agg(alternatives, ' & ' ORDER BY ord))
+  FROM grouped;
+$$ LANGUAGE sql STABLE;
+
+-- Same as 20261019000400 except the tsquery is built by search_ts_query
+CREATE OR REPLACE FUNCTION search_place_matches(
+  p_query TEXT DEFAULT NULL,
+  p_keywords TEXT[] DEFAULT NULL,
+  p_tags TEXT[] DEFAULT NULL,
+  p_amenities TEXT[] DEFAULT NULL,
+  p_cuisine_types TEXT[] DEFAULT NULL,
+  p_price_ranges TEXT[] DEFAULT NULL,
+  p_open_now BOOLEAN DEFAULT FALSE,
+  p_place_ids UUID[] DEFAULT NULL,
+  p_latitude DOUBLE PRECISION DEFAULT NULL,
+  p_longitude DOUBLE PRECISION DEFAULT NULL,
+  p_radius_meters DOUBLE PRECISION DEFAULT NULL,
+  p_south DOUBLE PRECISION DEFAULT NULL,
+  p_west DOUBLE PRECISION DEFAULT NULL,
+  p_north DOUBLE PRECISION DEFAULT NULL,
+  p_east DOUBLE PRECISION DEFAULT NULL
+) RETURNS TABLE (place public.places, score REAL, distance DOUBLE PRECISION, has_location BOOLEAN) AS $$
+  WITH params AS (
+    SELECT
+      NULLIF(trim(p_query), '') AS q,
+      search_ts_query(p_query) AS ts_query,
+      (p_latitude IS NOT NULL AND p_longitude IS NOT NULL) AS has_location
+  ),
+  scored AS (
+    SELECT
+      p AS place,
+      (CASE
+        WHEN params.q IS NULL THEN 0
+        WHEN params.ts_query IS NOT NULL AND p.search_vector @@ params.ts_query
+          THEN 1 + ts_rank(p.search_vector, params.ts_query)
+        ELSE word_similarity(params.q, p.name)
+      END)::REAL AS score,
+      CASE
+        WHEN params.has_location AND p.latitude IS NOT NULL AND p.longitude IS NOT NULL
+          THEN distance_meters(p_latitude, p_longitude, p.latitude, p.longitude)
+      END AS distance,
+      params.has_location
+    FROM public.places p, params
+    WHERE
+      (
+        params.q IS NULL
+        OR (params.ts_query IS NOT NULL AND p.search_vector @@ params.ts_query)
+        OR params.q <% p.name
+      )
+      AND (
+        p_keywords IS NULL OR cardinality(p_keywords) = 0
+        OR p.tags && p_keywords
+        OR p.amenities && p_keywords
+        OR p.cuisine_types && p_keywords
+        OR p.specialties && p_keywords
+      )
+      AND (p_tags IS NULL OR cardinality(p_tags) = 0 OR p.tags && p_tags)
+      AND (p_amenities IS NULL OR cardinality(p_amenities) = 0 OR p.amenities @> p_amenities)
+      AND (p_cuisine_types IS NULL OR cardinality(p_cuisine_types) = 0 OR p.cuisine_types && p_cuisine_types)
+      AND (p_price_ranges IS NULL OR cardinality(p_price_ranges) = 0 OR p.price_range = ANY(p_price_ranges))
+      AND (NOT COALESCE(p_open_now, false) OR place_is_open(p.operating_hours))
+      AND (p_place_ids IS NULL OR p.id = ANY(p_place_ids))
+      AND (
+        p_south IS NULL OR p_west IS NULL OR p_north IS NULL OR p_east IS NULL
+        OR (p.latitude BETWEEN p_south AND p_north AND p.longitude BETWEEN p_west AND p_east)
+      )
+  )
+  SELECT s.place, s.score, s.distance, s.has_location
+  FROM scored s
+  WHERE p_radius_meters IS NULL OR NOT s.has_location OR s.distance <= p_radius_meters;
+$$ LANGUAGE sql STABLE;
+
+-- =============================================
+-- RLS: public read (client-side search expands queries too), admin manage
+-- =============================================
+
+ALTER TABLE public.search_synonyms ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "search_synonyms_select" ON public.search_synonyms FOR SELECT USING (true);
+CREATE POLICY "search_synonyms_admin_all" ON public.search_synonyms FOR ALL USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+);
@@ -0,0 +1,97 @@
+-- =============================================
+-- Menu items
+-- =============================================
+
+-- Dishes and drinks offered by a place, managed by its owner or an admin.
+-- Prices are in PHP; NULL means the price isn't listed.
+CREATE TABLE public.menu_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  place_id UUID NOT NULL REFERENCES public.places(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  price NUMERIC(10, 2) CHECK (price IS NULL OR price >= 0),
+  category TEXT,
+  photo_url TEXT,
+  dietary_flags TEXT[] NOT NULL DEFAULT '{}',
+  is_available BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  search_vector tsvector,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_menu_items_place ON public.menu_items(place_id, sort_order);
+CREATE INDEX idx_menu_items_search ON public.menu_items USING GIN(search_vector);
+CREATE INDEX idx_menu_items_name_trgm ON public.menu_items USING GIN(name gin_trgm_ops);
+CREATE INDEX idx_menu_items_price ON public.menu_items(price);
+
+CREATE TRIGGER menu_items_updated_at BEFORE UPDATE ON public.menu_items FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+CREATE OR REPLACE FUNCTION menu_items_search_vector_update() RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('english', COALESCE(NEW.name, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(NEW.category, '')), 'B') ||
+    setweight(to_tsvector('english', COALESCE(NEW.description, '')), 'C');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER menu_items_search_update
+  BEFORE INSERT OR UPDATE OF name, category, description ON public.menu_items
+  FOR EACH ROW EXECUTE FUNCTION menu_items_search_vector_update();
+
+-- =============================================
+-- search_menu_items RPC
+-- =============================================
+
+-- Dish search across all places ("sisig under ₱200"). Matches like
+-- search_place_matches: synonym-expanded full text first, trigram fallback
+-- for typos. Unavailable items are skipped.
+CREATE OR REPLACE FUNCTION search_menu_items(
+  p_query TEXT,
+  p_min_price NUMERIC DEFAULT NULL,
+  p_max_price NUMERIC DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20
+) RETURNS TABLE (item public.menu_items, place_name TEXT, place_slug TEXT, score REAL) AS $$
+  WITH params AS (
+    SELECT NULLIF(trim(p_query), '') AS q, search_ts_query(p_query) AS ts_query
+  )
+  SELECT
+    m AS item,
+    p.name AS place_name,
+    p.slug AS place_slug,
+    (CASE
+      WHEN params.ts_query IS NOT NULL AND m.search_vector @@ params.ts_query
+        THEN 1 + ts_rank(m.search_vector, params.ts_query)
+      ELSE word_similarity(params.q, m.name)
+    END)::REAL AS score
+  FROM public.menu_items m
+  JOIN public.places p ON p.id = m.place_id, params
+  WHERE
+    params.q IS NOT NULL
+    AND m.is_available
+    AND (
+      (params.ts_query IS NOT NULL AND m.search_vector @@ params.ts_query)
+      OR params.q <% m.name
+    )
+    AND (p_min_price IS NULL OR m.price >= p_min_price)
+    AND (p_max_price IS NULL OR m.price <= p_max_price)
+  ORDER BY score DESC, m.price ASC NULLS LAST, m.name, m.id
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100);
+$$ LANGUAGE sql STABLE;
+
+-- =============================================
+-- RLS: public read, place owner and admins manage
+-- =============================================
+
+ALTER TABLE public.menu_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "menu_items_select" ON public.menu_items FOR SELECT USING (true);
+CREATE POLICY "menu_items_owner_all" ON public.menu_items FOR ALL USING (
+  EXISTS (SELECT 1 FROM public.places WHERE id = place_id AND claimed_by = auth.uid())
+);
+CREATE POLICY "menu_items_admin_all" ON public.menu_items FOR ALL USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+);
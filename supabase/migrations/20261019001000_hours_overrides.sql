@@ -0,0 +1,108 @@
+-- =============================================
+-- Date-specific hours overrides (holidays, temporary closures)
+-- =============================================
+
+-- Each override covers startDate..endDate (inclusive, Manila dates; endDate
+-- defaults to startDate) and is either closed or has its own open/close, e.g.
+-- [{"startDate": "2027-03-25", "endDate": "2027-03-28", "closed": true, "note": "Holy Week"}]
+ALTER TABLE public.places ADD COLUMN hours_overrides JSONB NOT NULL DEFAULT '[]'::jsonb
+  CHECK (jsonb_typeof(hours_overrides) = 'array');
+
+-- Entry (weekly day entry or override) that applies on a Manila date.
+-- Later overrides win when ranges overlap.
+CREATE OR REPLACE FUNCTION hours_entry_on(hours JSONB, overrides JSONB, local_date DATE) RETURNS JSONB AS $$
+  SELECT COALESCE(
+    (
+      SELECT o.value
+      FROM jsonb_array_elements(
+        CASE WHEN jsonb_typeof(overrides) = 'array' THEN overrides ELSE '[]'::jsonb END
+      ) WITH ORDINALITY AS o(value, ord)
+      WHERE (o.value->>'startDate') ~ '^\d{4}-\d{2}-\d{2}$'
+        AND local_date >= (o.value->>'startDate')::DATE
+        AND local_date <= COALESCE(NULLIF(o.value->>'endDate', ''), o.value->>'startDate')::DATE
+      ORDER BY o.ord DESC
+      LIMIT 1
+    ),
+    hours->lower(to_char(local_date, 'FMDay'))
+  );
+$$ LANGUAGE sql STABLE;
+
+-- place_is_open with overrides: same rules as the weekly version, but a date
+-- with an override uses it instead of that weekday's hours
+CREATE OR REPLACE FUNCTION place_is_open(hours JSONB, overrides JSONB, at TIMESTAMPTZ DEFAULT NOW()) RETURNS BOOLEAN AS $$
+DECLARE
+  local_ts TIMESTAMP := at AT TIME ZONE 'Asia/Manila';
+  minutes INT := EXTRACT(HOUR FROM local_ts)::INT * 60 + EXTRACT(MINUTE FROM local_ts)::INT;
+BEGIN
+  RETURN COALESCE(minutes + 1440 <@ hours_day_interval(hours_entry_on(hours, overrides, local_ts::DATE - 1)), false)
+      OR COALESCE(minutes <@ hours_day_interval(hours_entry_on(hours, overrides, local_ts::DATE)), false);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Same as 20261019000800 except open-now respects hours_overrides
+CREATE OR REPLACE FUNCTION search_place_matches(
+  p_query TEXT DEFAULT NULL,
+  p_keywords TEXT[] DEFAULT NULL,
+  p_tags TEXT[] DEFAULT NULL,
+  p_amenities TEXT[] DEFAULT NULL,
+  p_cuisine_types TEXT[] DEFAULT NULL,
+  p_price_ranges TEXT[] DEFAULT NULL,
+  p_open_now BOOLEAN DEFAULT FALSE,
+  p_place_ids UUID[] DEFAULT NULL,
+  p_latitude DOUBLE PRECISION DEFAULT NULL,
+  p_longitude DOUBLE PRECISION DEFAULT NULL,
+  p_radius_meters DOUBLE PRECISION DEFAULT NULL,
+  p_south DOUBLE PRECISION DEFAULT NULL,
+  p_west DOUBLE PRECISION DEFAULT NULL,
+  p_north DOUBLE PRECISION DEFAULT NULL,
+  p_east DOUBLE PRECISION DEFAULT NULL
+) RETURNS TABLE (place public.places, score REAL, distance DOUBLE PRECISION, has_location BOOLEAN) AS $$
+  WITH params AS (
+    SELECT
+      NULLIF(trim(p_query), '') AS q,
+      search_ts_query(p_query) AS ts_query,
+      (p_latitude IS NOT NULL AND p_longitude IS NOT NULL) AS has_location
+  ),
+  scored AS (
+    SELECT
+      p AS place,
+      (CASE
+        WHEN params.q IS NULL THEN 0
+        WHEN params.ts_query IS NOT NULL AND p.search_vector @@ params.ts_query
+          THEN 1 + ts_rank(p.search_vector, params.ts_query)
+        ELSE word_similarity(params.q, p.name)
+      END)::REAL AS score,
+      CASE
+        WHEN params.has_location AND p.latitude IS NOT NULL AND p.longitude IS NOT NULL
+          THEN distance_meters(p_latitude, p_longitude, p.latitude, p.longitude)
+      END AS distance,
+      params.has_location
+    FROM public.places p, params
+    WHERE
+      (
+        params.q IS NULL
+        OR (params.ts_query IS NOT NULL AND p.search_vector @@ params.ts_query)
+        OR params.q <% p.name
+      )
+      AND (
+        p_keywords IS NULL OR cardinality(p_keywords) = 0
+        OR p.tags && p_keywords
+        OR p.amenities && p_keywords
+        OR p.cuisine_types && p_keywords
+        OR p.specialties && p_keywords
+      )
+      AND (p_tags IS NULL OR cardinality(p_tags) = 0 OR p.tags && p_tags)
+      AND (p_amenities IS NULL OR cardinality(p_amenities) = 0 OR p.amenities @> p_amenities)
+      AND (p_cuisine_types IS NULL OR cardinality(p_cuisine_types) = 0 OR p.cuisine_types && p_cuisine_types)
+      AND (p_price_ranges IS NULL OR cardinality(p_price_ranges) = 0 OR p.price_range = ANY(p_price_ranges))
+      AND (NOT COALESCE(p_open_now, false) OR place_is_open(p.operating_hours, p.hours_overrides))
+      AND (p_place_ids IS NULL OR p.id = ANY(p_place_ids))
+      AND (
+        p_south IS NULL OR p_west IS NULL OR p_north IS NULL OR p_east IS NULL
+        OR (p.latitude BETWEEN p_south AND p_north AND p.longitude BETWEEN p_west AND p_east)
+      )
+  )
+  SELECT s.place, s.score, s.distance, s.has_location
+  FROM scored s
+  WHERE p_radius_meters IS NULL OR NOT s.has_location OR s.distance <= p_radius_meters;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,50 @@
+-- =============================================
+-- Split shifts: multiple opening intervals per day
+-- =============================================
+
+-- Day entries may list several intervals, e.g.
+-- {"intervals": [{"open": "11:00", "close": "14:00"}, {"open": "17:00", "close": "22:00"}]}
+-- `intervals` takes precedence over open/close; single-interval entries keep
+-- the open/close shape, so existing rows are read unchanged.
+
+-- Every opening interval of a day entry (or override) in minutes since
+-- midnight (mirrors getIntervals in apps/web/src/lib/hours.ts).
+-- Returns NULL when the day is closed or has no valid intervals.
+CREATE OR REPLACE FUNCTION hours_day_ranges(entry JSONB) RETURNS INT4MULTIRANGE AS $$
+  SELECT range_agg(r)
+  FROM (
+    -- Each interval inherits the entry's closed flag
+    SELECT hours_day_interval(interval || jsonb_build_object('closed', COALESCE(entry->'closed', 'false'::jsonb))) AS r
+    FROM jsonb_array_elements(
+      CASE
+        WHEN jsonb_typeof(entry) <> 'object' THEN '[]'::jsonb
+        WHEN jsonb_typeof(entry->'intervals') = 'array' AND jsonb_array_length(entry->'intervals') > 0
+          THEN entry->'intervals'
+        ELSE jsonb_build_array(entry - 'intervals')
+      END
+    ) AS interval
+  ) ranges
+  WHERE r IS NOT NULL;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION place_is_open(hours JSONB, at TIMESTAMPTZ DEFAULT NOW()) RETURNS BOOLEAN AS $$
+DECLARE
+  local_ts TIMESTAMP := at AT TIME ZONE 'Asia/Manila';
+  minutes INT := EXTRACT(HOUR FROM local_ts)::INT * 60 + EXTRACT(MINUTE FROM local_ts)::INT;
+  today TEXT := lower(to_char(local_ts, 'FMDay'));
+  yesterday TEXT := lower(to_char(local_ts - INTERVAL '1 day', 'FMDay'));
+BEGIN
+  RETURN COALESCE(minutes + 1440 <@ hours_day_ranges(hours->yesterday), false)
+      OR COALESCE(minutes <@ hours_day_ranges(hours->today), false);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION place_is_open(hours JSONB, overrides JSONB, at TIMESTAMPTZ DEFAULT NOW()) RETURNS BOOLEAN AS $$
+DECLARE
+  local_ts TIMESTAMP := at AT TIME ZONE 'Asia/Manila';
+  minutes INT := EXTRACT(HOUR FROM local_ts)::INT * 60 + EXTRACT(MINUTE FROM local_ts)::INT;
+BEGIN
+  RETURN COALESCE(minutes + 1440 <@ hours_day_ranges(hours_entry_on(hours, overrides, local_ts::DATE - 1)), false)
+      OR COALESCE(minutes <@ hours_day_ranges(hours_entry_on(hours, overrides, local_ts::DATE)), false);
+END;
+$$ LANGUAGE plpgsql STABLE;
@@ -0,0 +1,106 @@
+-- =============================================
+-- Place lifecycle status
+-- =============================================
+
+-- status_effective_date is when the status takes effect (Manila date):
+-- a closure scheduled for a future date keeps the place active until then,
+-- and a coming-soon place counts as active from its opening date.
+ALTER TABLE public.places
+  ADD COLUMN status TEXT NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'temporarily_closed', 'permanently_closed', 'coming_soon')),
+  ADD COLUMN status_effective_date DATE;
+
+CREATE INDEX idx_places_status ON public.places(status) WHERE status <> 'active';
+
+-- Status in effect at the given moment (mirrors getEffectiveStatus in
+-- apps/web/src/lib/place-status.ts)
+CREATE OR REPLACE FUNCTION place_effective_status(
+  p_status TEXT,
+  p_effective_date DATE,
+  at TIMESTAMPTZ DEFAULT NOW()
+) RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN p_effective_date IS NULL OR p_status = 'active' THEN p_status
+    WHEN p_status = 'coming_soon' AND p_effective_date <= (at AT TIME ZONE 'Asia/Manila')::DATE THEN 'active'
+    WHEN p_status <> 'coming_soon' AND p_effective_date > (at AT TIME ZONE 'Asia/Manila')::DATE THEN 'active'
+    ELSE p_status
+  END;
+$$ LANGUAGE sql STABLE;
+
+-- Same as 20261019001000 except closed places are left out of default
+-- searches and never count as open now
+CREATE OR REPLACE FUNCTION search_place_matches(
+  p_query TEXT DEFAULT NULL,
+  p_keywords TEXT[] DEFAULT NULL,
+  p_tags TEXT[] DEFAULT NULL,
+  p_amenities TEXT[] DEFAULT NULL,
+  p_cuisine_types TEXT[] DEFAULT NULL,
+  p_price_ranges TEXT[] DEFAULT NULL,
+  p_open_now BOOLEAN DEFAULT FALSE,
+  p_place_ids UUID[] DEFAULT NULL,
+  p_latitude DOUBLE PRECISION DEFAULT NULL,
+  p_longitude DOUBLE PRECISION DEFAULT NULL,
+  p_radius_meters DOUBLE PRECISION DEFAULT NULL,
+  p_south DOUBLE PRECISION DEFAULT NULL,
+  p_west DOUBLE PRECISION DEFAULT NULL,
+  p_north DOUBLE PRECISION DEFAULT NULL,
+  p_east DOUBLE PRECISION DEFAULT NULL
+) RETURNS TABLE (place public.places, score REAL, distance DOUBLE PRECISION, has_location BOOLEAN) AS $$
+  WITH params AS (
+    SELECT
+      NULLIF(trim(p_query), '') AS q,
+      search_ts_query(p_query) AS ts_query,
+      (p_latitude IS NOT NULL AND p_longitude IS NOT NULL) AS has_location
+  ),
+  scored AS (
+    SELECT
+      p AS place,
+      (CASE
+        WHEN params.q IS NULL THEN 0
+        WHEN params.ts_query IS NOT NULL AND p.search_vector @@ params.ts_query
+          THEN 1 + ts_rank(p.search_vector, params.ts_query)
+        ELSE word_similarity(params.q, p.name)
+      END)::REAL AS score,
+      CASE
+        WHEN params.has_location AND p.latitude IS NOT NULL AND p.longitude IS NOT NULL
+          THEN distance_meters(p_latitude, p_longitude, p.latitude, p.longitude)
+      END AS distance,
+      params.has_location
+    FROM public.places p, params
+    WHERE
+      (
+        params.q IS NULL
+        OR (params.ts_query IS NOT NULL AND p.search_vector @@ params.ts_query)
+        OR params.q <% p.name
+      )
+      AND (
+        p_keywords IS NULL OR cardinality(p_keywords) = 0
+        OR p.tags && p_keywords
+        OR p.amenities && p_keywords
+        OR p.cuisine_types && p_keywords
+        OR p.specialties && p_keywords
+      )
+      AND (p_tags IS NULL OR cardinality(p_tags) = 0 OR p.tags && p_tags)
+      AND (p_amenities IS NULL OR cardinality(p_amenities) = 0 OR p.amenities @> p_amenities)
+      AND (p_cuisine_types IS NULL OR cardinality(p_cuisine_types) = 0 OR p.cuisine_types && p_cuisine_types)
+      AND (p_price_ranges IS NULL OR cardinality(p_price_ranges) = 0 OR p.price_range = ANY(p_price_ranges))
+      AND (
+        NOT COALESCE(p_open_now, false)
+        OR (place_effective_status(p.status, p.status_effective_date) = 'active'
+            AND place_is_open(p.operating_hours, p.hours_overrides))
+      )
+      AND (p_place_ids IS NULL OR p.id = ANY(p_place_ids))
+      -- Closed places only show up when asked for by ID (e.g. favorites)
+      AND (
+        p_place_ids IS NOT NULL
+        OR place_effective_status(p.status, p.status_effective_date) NOT IN ('temporarily_closed', 'permanently_closed')
+      )
+      AND (
+        p_south IS NULL OR p_west IS NULL OR p_north IS NULL OR p_east IS NULL
+        OR (p.latitude BETWEEN p_south AND p_north AND p.longitude BETWEEN p_west AND p_east)
+      )
+  )
+  SELECT s.place, s.score, s.distance, s.has_location
+  FROM scored s
+  WHERE p_radius_meters IS NULL OR NOT s.has_location OR s.distance <= p_radius_meters;
+$$ LANGUAGE sql STABLE;
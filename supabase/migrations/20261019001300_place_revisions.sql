@@ -0,0 +1,77 @@
+-- =============================================
+-- Place revision history
+-- =============================================
+
+-- Every insert or update of a place stores a full snapshot of the row.
+-- Diffs are computed between consecutive snapshots, so a revision can be
+-- restored by writing its snapshot back.
+CREATE TABLE public.place_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  place_id UUID NOT NULL REFERENCES public.places(id) ON DELETE CASCADE,
+  snapshot JSONB NOT NULL,
+  changed_fields TEXT[] NOT NULL DEFAULT '{}',
+  -- Which route wrote the change (admin_edit, owner_edit, suggestion, ...)
+  source TEXT NOT NULL DEFAULT 'other',
+  changed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_place_revisions_place ON public.place_revisions(place_id, created_at DESC);
+
+-- Columns maintained by the database or by counters; changing only these
+-- doesn't make a revision
+CREATE OR REPLACE FUNCTION place_revision_ignored_fields() RETURNS TEXT[] AS $$
+  SELECT ARRAY['search_vector', 'updated_at', 'favorite_count', 'rating', 'review_count'];
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Routes label their writes with an x-revision-source header, which
+-- PostgREST exposes as request.headers. Direct writes fall back to 'other'.
+CREATE OR REPLACE FUNCTION record_place_revision() RETURNS TRIGGER AS $$
+DECLARE
+  new_row JSONB := to_jsonb(NEW) - place_revision_ignored_fields();
+  old_row JSONB := CASE WHEN TG_OP = 'UPDATE' THEN to_jsonb(OLD) - place_revision_ignored_fields() END;
+  fields TEXT[];
+  headers JSONB := NULLIF(current_setting('request.headers', true), '')::JSONB;
+BEGIN
+  SELECT COALESCE(array_agg(key ORDER BY key), '{}')
+  INTO fields
+  FROM jsonb_each(new_row)
+  WHERE old_row IS NULL OR old_row -> key IS DISTINCT FROM value;
+
+  IF TG_OP = 'UPDATE' AND cardinality(fields) = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.place_revisions (place_id, snapshot, changed_fields, source, changed_by)
+  VALUES (
+    NEW.id,
+    to_jsonb(NEW) - 'search_vector',
+    CASE WHEN TG_OP = 'INSERT' THEN '{}' ELSE fields END,
+    COALESCE(NULLIF(headers ->> 'x-revision-source', ''), CASE WHEN TG_OP = 'INSERT' THEN 'created' ELSE 'other' END),
+    auth.uid()
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER places_record_revision
+  AFTER INSERT OR UPDATE ON public.places
+  FOR EACH ROW EXECUTE FUNCTION record_place_revision();
+
+-- Current rows become the first revision, so the next edit has something
+-- to diff against
+INSERT INTO public.place_revisions (place_id, snapshot, source, created_at)
+SELECT id, to_jsonb(p) - 'search_vector', 'baseline', COALESCE(updated_at, created_at, NOW())
+FROM public.places p;
+
+-- =============================================
+-- RLS
+-- =============================================
+
+-- Admins read the full history; the public history is served by the app
+-- with personal fields removed
+ALTER TABLE public.place_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "place_revisions_admin_select" ON public.place_revisions FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+);
@@ -0,0 +1,72 @@
+-- =============================================
+-- Slug history
+-- =============================================
+
+-- Former slugs of renamed places. /places/[slug] redirects these to the
+-- place's current slug so shared links keep working.
+CREATE TABLE public.place_slugs (
+  slug TEXT PRIMARY KEY,
+  place_id UUID NOT NULL REFERENCES public.places(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_place_slugs_place ON public.place_slugs(place_id);
+
+-- Keep the old slug when a place's slug changes. A slug in use by a place
+-- is never kept as history, so live slugs always win.
+CREATE OR REPLACE FUNCTION record_place_slug_change() RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.slug IS DISTINCT FROM OLD.slug THEN
+    INSERT INTO public.place_slugs (slug, place_id)
+    VALUES (OLD.slug, NEW.id)
+    ON CONFLICT (slug) DO UPDATE SET place_id = EXCLUDED.place_id, created_at = NOW();
+  END IF;
+
+  DELETE FROM public.place_slugs WHERE slug = NEW.slug;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER places_record_slug_change
+  AFTER INSERT OR UPDATE OF slug ON public.places
+  FOR EACH ROW EXECUTE FUNCTION record_place_slug_change();
+
+-- =============================================
+-- unique_place_slug RPC
+-- =============================================
+
+-- First free slug for a base: "kape-co", then "kape-co-2", "kape-co-3", ...
+-- Former slugs count as taken so old links never point at a different
+-- place. Pass p_place_id to let a place keep its own slugs.
+CREATE OR REPLACE FUNCTION unique_place_slug(
+  p_base TEXT,
+  p_place_id UUID DEFAULT NULL
+) RETURNS TEXT AS $$
+DECLARE
+  base TEXT := COALESCE(NULLIF(trim(p_base), ''), 'place');
+  candidate TEXT := base;
+  n INTEGER := 1;
+BEGIN
+  WHILE EXISTS (
+    SELECT 1 FROM public.places
+    WHERE slug = candidate AND (p_place_id IS NULL OR id <> p_place_id)
+  ) OR EXISTS (
+    SELECT 1 FROM public.place_slugs
+    WHERE slug = candidate AND (p_place_id IS NULL OR place_id <> p_place_id)
+  ) LOOP
+    n := n + 1;
+    candidate := base || '-' || n;
+  END LOOP;
+
+  RETURN candidate;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- =============================================
+-- RLS
+-- =============================================
+
+-- place_slugs: public read; written only by the trigger above
+ALTER TABLE public.place_slugs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "place_slugs_select" ON public.place_slugs FOR SELECT USING (true);
@@ -0,0 +1,231 @@
+-- =============================================
+-- Duplicate detection
+-- =============================================
+
+-- Name reduced to what tells places apart: "The Kape Co. - Maginhawa" and
+-- "Kape Co" both become "kape co"
+CREATE OR REPLACE FUNCTION place_name_key(value TEXT) RETURNS TEXT AS $$
+  SELECT trim(regexp_replace(
+    regexp_replace(
+      regexp_replace(lower(COALESCE(value, '')), '&', ' and ', 'g'),
+      '\m(the|and|maginhawa|teachers village|qc|quezon city|branch)\M', ' ', 'g'
+    ),
+    '[^a-z0-9]+', ' ', 'g'
+  ));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- 0..1 likelihood that two records describe the same place. The name
+-- carries most of the weight; the address and the distance between the
+-- pins (when both have coordinates) confirm it.
+CREATE OR REPLACE FUNCTION place_duplicate_score(
+  name_a TEXT, address_a TEXT, lat_a DOUBLE PRECISION, lng_a DOUBLE PRECISION,
+  name_b TEXT, address_b TEXT, lat_b DOUBLE PRECISION, lng_b DOUBLE PRECISION
+) RETURNS DOUBLE PRECISION AS $$
+  SELECT CASE
+    WHEN proximity IS NULL THEN name_score * 0.75 + address_score * 0.25
+    ELSE name_score * 0.6 + address_score * 0.15 + proximity * 0.25
+  END
+  FROM (
+    SELECT
+      CASE
+        WHEN place_name_key(name_a) = '' OR place_name_key(name_b) = '' THEN 0
+        WHEN place_name_key(name_a) = place_name_key(name_b) THEN 1
+        ELSE similarity(place_name_key(name_a), place_name_key(name_b))
+      END AS name_score,
+      similarity(lower(COALESCE(address_a, '')), lower(COALESCE(address_b, ''))) AS address_score,
+      CASE
+        WHEN lat_a IS NULL OR lng_a IS NULL OR lat_b IS NULL OR lng_b IS NULL THEN NULL
+        WHEN distance_meters(lat_a, lng_a, lat_b, lng_b) <= 30 THEN 1
+        WHEN distance_meters(lat_a, lng_a, lat_b, lng_b) <= 150 THEN 0.6
+        WHEN distance_meters(lat_a, lng_a, lat_b, lng_b) <= 500 THEN 0.2
+        ELSE 0
+      END AS proximity
+  ) parts;
+$$ LANGUAGE sql STABLE;
+
+-- Existing places that look like the given record, best match first.
+-- Used on admin/submissions/[id] before a submission is approved.
+CREATE OR REPLACE FUNCTION find_duplicate_places(
+  p_name TEXT,
+  p_address TEXT DEFAULT NULL,
+  p_latitude DOUBLE PRECISION DEFAULT NULL,
+  p_longitude DOUBLE PRECISION DEFAULT NULL,
+  p_exclude_id UUID DEFAULT NULL,
+  p_min_score DOUBLE PRECISION DEFAULT 0.5,
+  p_limit INT DEFAULT 5
+) RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  slug TEXT,
+  address TEXT,
+  distance_meters DOUBLE PRECISION,
+  score DOUBLE PRECISION
+) AS $$
+  SELECT * FROM (
+    SELECT
+      p.id, p.name, p.slug, p.address,
+      CASE WHEN p_latitude IS NOT NULL AND p_longitude IS NOT NULL
+        AND p.latitude IS NOT NULL AND p.longitude IS NOT NULL
+        THEN distance_meters(p_latitude, p_longitude, p.latitude, p.longitude)
+      END,
+      place_duplicate_score(
+        p_name, p_address, p_latitude, p_longitude,
+        p.name, p.address, p.latitude, p.longitude
+      ) AS score
+    FROM public.places p
+    WHERE p_exclude_id IS NULL OR p.id <> p_exclude_id
+  ) scored
+  WHERE scored.score >= p_min_score
+  ORDER BY scored.score DESC
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
+
+-- Likely duplicates already in the directory, for admin/places/duplicates
+CREATE OR REPLACE FUNCTION find_duplicate_place_pairs(
+  p_min_score DOUBLE PRECISION DEFAULT 0.6,
+  p_limit INT DEFAULT 100
+) RETURNS TABLE (
+  place_a_id UUID,
+  place_b_id UUID,
+  score DOUBLE PRECISION
+) AS $$
+  SELECT * FROM (
+    SELECT
+      a.id, b.id,
+      place_duplicate_score(
+        a.name, a.address, a.latitude, a.longitude,
+        b.name, b.address, b.latitude, b.longitude
+      ) AS score
+    FROM public.places a
+    JOIN public.places b ON a.id < b.id
+      AND similarity(place_name_key(a.name), place_name_key(b.name)) >= 0.3
+  ) pairs
+  WHERE pairs.score >= p_min_score
+  ORDER BY pairs.score DESC
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
+
+-- =============================================
+-- Merging
+-- =============================================
+
+-- Places folded into another one. Favorites live in visitors' browsers as
+-- place IDs, so the app maps a retired ID to its survivor through here.
+CREATE TABLE public.place_merges (
+  retired_id UUID PRIMARY KEY,
+  retired_name TEXT NOT NULL,
+  retired_slug TEXT NOT NULL,
+  survivor_id UUID NOT NULL REFERENCES public.places(id) ON DELETE CASCADE,
+  merged_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  merged_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_place_merges_survivor ON public.place_merges(survivor_id);
+
+-- Fold p_retired_id into p_survivor_id. p_fields lists the fields whose
+-- value is taken from the retired place; every other field keeps the
+-- survivor's value, and the survivor keeps its slug. Contributors, claims,
+-- suggestions and favorites move to the survivor, the menu too if the
+-- survivor has none, and the retired slug redirects to the survivor.
+CREATE OR REPLACE FUNCTION merge_places(
+  p_survivor_id UUID,
+  p_retired_id UUID,
+  p_fields TEXT[] DEFAULT '{}'
+) RETURNS TEXT AS $$
+DECLARE
+  survivor public.places;
+  retired public.places;
+  merged public.places;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can merge places' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_survivor_id = p_retired_id THEN
+    RAISE EXCEPTION 'A place cannot be merged into itself' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO survivor FROM public.places WHERE id = p_survivor_id FOR UPDATE;
+  SELECT * INTO retired FROM public.places WHERE id = p_retired_id FOR UPDATE;
+
+  IF survivor.id IS NULL OR retired.id IS NULL THEN
+    RAISE EXCEPTION 'Place not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  merged := jsonb_populate_record(survivor, (
+    SELECT COALESCE(jsonb_object_agg(key, value), '{}')
+    FROM jsonb_each(to_jsonb(retired))
+    WHERE key = ANY(p_fields)
+      AND key NOT IN ('id', 'slug', 'created_at', 'updated_at', 'search_vector', 'favorite_count')
+  ));
+
+  UPDATE public.places SET
+    name = merged.name,
+    description = merged.description,
+    address = merged.address,
+    phone = merged.phone,
+    email = merged.email,
+    website = merged.website,
+    logo_url = merged.logo_url,
+    cover_image_url = merged.cover_image_url,
+    photos_urls = merged.photos_urls,
+    operating_hours = merged.operating_hours,
+    hours_overrides = merged.hours_overrides,
+    status = merged.status,
+    status_effective_date = merged.status_effective_date,
+    price_range = merged.price_range,
+    payment_methods = merged.payment_methods,
+    tags = merged.tags,
+    amenities = merged.amenities,
+    cuisine_types = merged.cuisine_types,
+    specialties = merged.specialties,
+    latitude = merged.latitude,
+    longitude = merged.longitude,
+    verified = merged.verified,
+    claimed_by = merged.claimed_by,
+    favorite_count = survivor.favorite_count + retired.favorite_count
+  WHERE id = p_survivor_id;
+
+  UPDATE public.contributors SET place_id = p_survivor_id WHERE place_id = p_retired_id;
+  UPDATE public.update_suggestions SET place_id = p_survivor_id WHERE place_id = p_retired_id;
+
+  -- A claimant with a claim on both places keeps the survivor's claim
+  UPDATE public.business_claims c SET place_id = p_survivor_id
+  WHERE c.place_id = p_retired_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.business_claims s
+      WHERE s.place_id = p_survivor_id AND s.user_id = c.user_id
+    );
+
+  IF NOT EXISTS (SELECT 1 FROM public.menu_items WHERE place_id = p_survivor_id) THEN
+    UPDATE public.menu_items SET place_id = p_survivor_id WHERE place_id = p_retired_id;
+  END IF;
+
+  -- Earlier merges into the retired place now point at the survivor
+  UPDATE public.place_merges SET survivor_id = p_survivor_id WHERE survivor_id = p_retired_id;
+  UPDATE public.place_slugs SET place_id = p_survivor_id WHERE place_id = p_retired_id;
+
+  DELETE FROM public.places WHERE id = p_retired_id;
+
+  INSERT INTO public.place_slugs (slug, place_id)
+  VALUES (retired.slug, p_survivor_id)
+  ON CONFLICT (slug) DO UPDATE SET place_id = EXCLUDED.place_id, created_at = NOW();
+
+  INSERT INTO public.place_merges (retired_id, retired_name, retired_slug, survivor_id, merged_by)
+  VALUES (retired.id, retired.name, retired.slug, p_survivor_id, auth.uid());
+
+  RETURN survivor.slug;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION merge_places FROM PUBLIC, anon;
+
+-- =============================================
+-- RLS
+-- =============================================
+
+-- place_merges: public read so favorites can be remapped; written only by
+-- merge_places
+ALTER TABLE public.place_merges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "place_merges_select" ON public.place_merges FOR SELECT USING (true);
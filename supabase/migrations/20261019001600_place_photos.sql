@@ -0,0 +1,125 @@
+-- =============================================
+-- Photo gallery
+-- =============================================
+
+-- One row per gallery photo. places.photos_urls stays as the ordered list
+-- of visible photos, kept in sync both ways by the triggers below, so
+-- search results, revisions and restores keep working on the plain array.
+CREATE TABLE public.place_photos (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  place_id UUID NOT NULL REFERENCES public.places(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  caption TEXT,
+  alt_text TEXT,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  -- Hidden photos stay stored but are left out of the gallery
+  status TEXT NOT NULL DEFAULT 'visible' CHECK (status IN ('visible', 'hidden')),
+  uploaded_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (place_id, url)
+);
+
+CREATE INDEX idx_place_photos_place ON public.place_photos(place_id, sort_order);
+
+CREATE TRIGGER place_photos_updated_at BEFORE UPDATE ON public.place_photos FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Gallery -> places.photos_urls. Skipped when the gallery write came from
+-- another trigger (the reverse sync below, or a place being deleted).
+CREATE OR REPLACE FUNCTION sync_place_photos_urls() RETURNS TRIGGER AS $$
+DECLARE
+  target UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.place_id ELSE NEW.place_id END;
+  urls TEXT[];
+BEGIN
+  IF pg_trigger_depth() > 1 THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(array_agg(url ORDER BY sort_order, created_at), '{}')
+  INTO urls
+  FROM public.place_photos
+  WHERE place_id = target AND status = 'visible';
+
+  UPDATE public.places SET photos_urls = urls
+  WHERE id = target AND photos_urls IS DISTINCT FROM urls;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER place_photos_sync_urls
+  AFTER INSERT OR UPDATE OR DELETE ON public.place_photos
+  FOR EACH ROW EXECUTE FUNCTION sync_place_photos_urls();
+
+-- places.photos_urls -> gallery, for routes that write the array directly
+-- (submissions, suggestions, restores, merges). New URLs are added, removed
+-- ones deleted and the order copied; hidden photos stay hidden. Skipped
+-- when the write came from the gallery trigger above.
+CREATE OR REPLACE FUNCTION sync_place_photos_from_urls() RETURNS TRIGGER AS $$
+DECLARE
+  urls TEXT[];
+BEGIN
+  IF pg_trigger_depth() > 1 THEN
+    RETURN NULL;
+  END IF;
+
+  DELETE FROM public.place_photos
+  WHERE place_id = NEW.id AND status = 'visible'
+    AND NOT (url = ANY(COALESCE(NEW.photos_urls, '{}')));
+
+  -- A URL coming from another place (a merged duplicate) keeps its caption
+  INSERT INTO public.place_photos (place_id, url, sort_order, caption, alt_text, uploaded_by)
+  SELECT NEW.id, u.url, u.pos, source.caption, source.alt_text, source.uploaded_by
+  FROM unnest(COALESCE(NEW.photos_urls, '{}')) WITH ORDINALITY AS u(url, pos)
+  LEFT JOIN LATERAL (
+    SELECT caption, alt_text, uploaded_by FROM public.place_photos
+    WHERE url = u.url ORDER BY created_at LIMIT 1
+  ) source ON true
+  ON CONFLICT (place_id, url) DO UPDATE SET sort_order = EXCLUDED.sort_order;
+
+  -- Drop hidden photos that were written back into the array
+  SELECT COALESCE(array_agg(url ORDER BY sort_order, created_at), '{}')
+  INTO urls
+  FROM public.place_photos
+  WHERE place_id = NEW.id AND status = 'visible';
+
+  UPDATE public.places SET photos_urls = urls
+  WHERE id = NEW.id AND photos_urls IS DISTINCT FROM urls;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER places_sync_photos
+  AFTER INSERT OR UPDATE OF photos_urls ON public.places
+  FOR EACH ROW EXECUTE FUNCTION sync_place_photos_from_urls();
+
+-- Existing photos become the first gallery rows
+INSERT INTO public.place_photos (place_id, url, sort_order)
+SELECT p.id, u.url, u.pos
+FROM public.places p, unnest(p.photos_urls) WITH ORDINALITY AS u(url, pos)
+ON CONFLICT (place_id, url) DO NOTHING;
+
+-- =============================================
+-- RLS
+-- =============================================
+
+-- Visible photos are public. Signed-in users add photos as themselves and
+-- can delete their own; the place owner and admins manage everything.
+ALTER TABLE public.place_photos ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "place_photos_select" ON public.place_photos FOR SELECT USING (
+  status = 'visible' OR uploaded_by = auth.uid()
+);
+CREATE POLICY "place_photos_insert_own" ON public.place_photos FOR INSERT WITH CHECK (
+  uploaded_by = auth.uid() AND status = 'visible'
+);
+CREATE POLICY "place_photos_delete_own" ON public.place_photos FOR DELETE USING (
+  uploaded_by = auth.uid()
+);
+CREATE POLICY "place_photos_owner_all" ON public.place_photos FOR ALL USING (
+  EXISTS (SELECT 1 FROM public.places WHERE id = place_id AND claimed_by = auth.uid())
+);
+CREATE POLICY "place_photos_admin_all" ON public.place_photos FOR ALL USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+);
@@ -0,0 +1,108 @@
+-- =============================================
+-- Social and delivery-platform links
+-- =============================================
+
+-- One URL per platform, keyed by platform (see PLACE_LINK_PLATFORMS in
+-- apps/web/src/lib/place-links.ts). The per-platform URL checks live in
+-- the API schemas; the database only keeps the keys to the known set.
+ALTER TABLE public.places
+  ADD COLUMN links JSONB NOT NULL DEFAULT '{}'
+    CHECK (
+      jsonb_typeof(links) = 'object'
+      AND links - ARRAY['facebook', 'instagram', 'tiktok', 'grabfood', 'foodpanda', 'reservation'] = '{}'::jsonb
+    );
+
+-- Same as 20261019001500 with links added to the merged fields
+CREATE OR REPLACE FUNCTION merge_places(
+  p_survivor_id UUID,
+  p_retired_id UUID,
+  p_fields TEXT[] DEFAULT '{}'
+) RETURNS TEXT AS $$
+DECLARE
+  survivor public.places;
+  retired public.places;
+  merged public.places;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can merge places' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_survivor_id = p_retired_id THEN
+    RAISE EXCEPTION 'A place cannot be merged into itself' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO survivor FROM public.places WHERE id = p_survivor_id FOR UPDATE;
+  SELECT * INTO retired FROM public.places WHERE id = p_retired_id FOR UPDATE;
+
+  IF survivor.id IS NULL OR retired.id IS NULL THEN
+    RAISE EXCEPTION 'Place not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  merged := jsonb_populate_record(survivor, (
+    SELECT COALESCE(jsonb_object_agg(key, value), '{}')
+    FROM jsonb_each(to_jsonb(retired))
+    WHERE key = ANY(p_fields)
+      AND key NOT IN ('id', 'slug', 'created_at', 'updated_at', 'search_vector', 'favorite_count')
+  ));
+
+  UPDATE public.places SET
+    name = merged.name,
+    description = merged.description,
+    address = merged.address,
+    phone = merged.phone,
+    email = merged.email,
+    website = merged.website,
+    links = merged.links,
+    logo_url = merged.logo_url,
+    cover_image_url = merged.cover_image_url,
+    photos_urls = merged.photos_urls,
+    operating_hours = merged.operating_hours,
+    hours_overrides = merged.hours_overrides,
+    status = merged.status,
+    status_effective_date = merged.status_effective_date,
+    price_range = merged.price_range,
+    payment_methods = merged.payment_methods,
+    tags = merged.tags,
+    amenities = merged.amenities,
+    cuisine_types = merged.cuisine_types,
+    specialties = merged.specialties,
+    latitude = merged.latitude,
+    longitude = merged.longitude,
+    verified = merged.verified,
+    claimed_by = merged.claimed_by,
+    favorite_count = survivor.favorite_count + retired.favorite_count
+  WHERE id = p_survivor_id;
+
+  UPDATE public.contributors SET place_id = p_survivor_id WHERE place_id = p_retired_id;
+  UPDATE public.update_suggestions SET place_id = p_survivor_id WHERE place_id = p_retired_id;
+
+  -- A claimant with a claim on both places keeps the survivor's claim
+  UPDATE public.business_claims c SET place_id = p_survivor_id
+  WHERE c.place_id = p_retired_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.business_claims s
+      WHERE s.place_id = p_survivor_id AND s.user_id = c.user_id
+    );
+
+  IF NOT EXISTS (SELECT 1 FROM public.menu_items WHERE place_id = p_survivor_id) THEN
+    UPDATE public.menu_items SET place_id = p_survivor_id WHERE place_id = p_retired_id;
+  END IF;
+
+  -- Earlier merges into the retired place now point at the survivor
+  UPDATE public.place_merges SET survivor_id = p_survivor_id WHERE survivor_id = p_retired_id;
+  UPDATE public.place_slugs SET place_id = p_survivor_id WHERE place_id = p_retired_id;
+
+  DELETE FROM public.places WHERE id = p_retired_id;
+
+  INSERT INTO public.place_slugs (slug, place_id)
+  VALUES (retired.slug, p_survivor_id)
+  ON CONFLICT (slug) DO UPDATE SET place_id = EXCLUDED.place_id, created_at = NOW();
+
+  INSERT INTO public.place_merges (retired_id, retired_name, retired_slug, survivor_id, merged_by)
+  VALUES (retired.id, retired.name, retired.slug, p_survivor_id, auth.uid());
+
+  RETURN survivor.slug;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION merge_places FROM PUBLIC, anon;
@@ -0,0 +1,237 @@
+-- =============================================
+-- Brands (restaurant chains)
+-- =============================================
+
+-- A chain's shared identity. Each branch stays a place of its own with its
+-- own address and hours; the brand's logo and website fill in for branches
+-- that don't have their own.
+CREATE TABLE public.brands (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  slug TEXT UNIQUE NOT NULL,
+  description TEXT,
+  logo_url TEXT,
+  website TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TRIGGER brands_updated_at BEFORE UPDATE ON public.brands FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE public.places
+  ADD COLUMN brand_id UUID REFERENCES public.brands(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_places_brand ON public.places(brand_id) WHERE brand_id IS NOT NULL;
+
+-- =============================================
+-- search_places RPC (branch grouping)
+-- =============================================
+
+-- Same as 20261019000400 plus p_group_branches. When set, matching branches
+-- of a brand collapse into one result: the branch that sorts first, with
+-- the other matching branches (in sort order, with their distances) in
+-- `branches`. Places without a brand are their own group. total counts
+-- results after grouping.
+DROP FUNCTION IF EXISTS search_places(TEXT, TEXT[], TEXT[], TEXT[], TEXT[], TEXT[], BOOLEAN, UUID[], DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, INT, DOUBLE PRECISION, TEXT, UUID);
+
+CREATE OR REPLACE FUNCTION search_places(
+  p_query TEXT DEFAULT NULL,
+  p_keywords TEXT[] DEFAULT NULL,
+  p_tags TEXT[] DEFAULT NULL,
+  p_amenities TEXT[] DEFAULT NULL,
+  p_cuisine_types TEXT[] DEFAULT NULL,
+  p_price_ranges TEXT[] DEFAULT NULL,
+  p_open_now BOOLEAN DEFAULT FALSE,
+  p_place_ids UUID[] DEFAULT NULL,
+  p_latitude DOUBLE PRECISION DEFAULT NULL,
+  p_longitude DOUBLE PRECISION DEFAULT NULL,
+  p_radius_meters DOUBLE PRECISION DEFAULT NULL,
+  p_south DOUBLE PRECISION DEFAULT NULL,
+  p_west DOUBLE PRECISION DEFAULT NULL,
+  p_north DOUBLE PRECISION DEFAULT NULL,
+  p_east DOUBLE PRECISION DEFAULT NULL,
+  p_sort TEXT DEFAULT 'relevance',
+  p_limit INT DEFAULT 24,
+  p_after_key DOUBLE PRECISION DEFAULT NULL,
+  p_after_name TEXT DEFAULT NULL,
+  p_after_id UUID DEFAULT NULL,
+  p_group_branches BOOLEAN DEFAULT FALSE
+) RETURNS TABLE (
+  place public.places,
+  score REAL,
+  distance DOUBLE PRECISION,
+  sort_key DOUBLE PRECISION,
+  total BIGINT,
+  brand public.brands,
+  branches JSONB
+) AS $$
+  WITH matched AS (
+    SELECT
+      s.place,
+      s.score,
+      s.distance,
+      (CASE
+        WHEN p_sort = 'distance' AND s.has_location THEN COALESCE(s.distance, 1e12)
+        WHEN p_sort = 'name' THEN 0
+        WHEN p_sort = 'newest' THEN -extract(epoch FROM (s.place).created_at)
+        WHEN p_sort = 'updated' THEN -extract(epoch FROM (s.place).updated_at)
+        WHEN p_sort = 'price' THEN length((s.place).price_range)
+        WHEN p_sort = 'favorites' THEN -(s.place).favorite_count
+        ELSE -s.score
+      END)::DOUBLE PRECISION AS sort_key,
+      CASE
+        WHEN COALESCE(p_group_branches, false) THEN COALESCE((s.place).brand_id, (s.place).id)
+        ELSE (s.place).id
+      END AS group_id
+    FROM search_place_matches(
+      p_query, p_keywords, p_tags, p_amenities, p_cuisine_types, p_price_ranges, p_open_now, p_place_ids, p_latitude, p_longitude, p_radius_meters, p_south, p_west, p_north, p_east
+    ) s
+  ),
+  ranked AS (
+    SELECT
+      m.*,
+      ROW_NUMBER() OVER (PARTITION BY m.group_id ORDER BY m.sort_key, (m.place).name, (m.place).id) AS branch_rank
+    FROM matched m
+  ),
+  grouped AS (
+    SELECT r.*, COUNT(*) OVER () AS total
+    FROM ranked r
+    WHERE r.branch_rank = 1
+  )
+  SELECT
+    g.place,
+    g.score,
+    g.distance,
+    g.sort_key,
+    g.total,
+    b AS brand,
+    COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object('place', to_jsonb(o.place) - 'search_vector', 'distance', o.distance)
+        ORDER BY o.branch_rank
+      )
+      FROM ranked o
+      WHERE o.group_id = g.group_id AND o.branch_rank > 1
+    ), '[]'::jsonb) AS branches
+  FROM grouped g
+  LEFT JOIN public.brands b ON b.id = (g.place).brand_id
+  WHERE
+    p_after_id IS NULL
+    OR (g.sort_key, (g.place).name, (g.place).id) > (p_after_key, p_after_name, p_after_id)
+  ORDER BY g.sort_key, (g.place).name, (g.place).id
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 24), 1), 100);
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION search_places TO anon, authenticated;
+
+-- =============================================
+-- merge_places: keep the brand
+-- =============================================
+
+-- Same as 20261019001700, except the survivor joins the retired place's
+-- brand when it has none of its own
+CREATE OR REPLACE FUNCTION merge_places(
+  p_survivor_id UUID,
+  p_retired_id UUID,
+  p_fields TEXT[] DEFAULT '{}'
+) RETURNS TEXT AS $$
+DECLARE
+  survivor public.places;
+  retired public.places;
+  merged public.places;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can merge places' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_survivor_id = p_retired_id THEN
+    RAISE EXCEPTION 'A place cannot be merged into itself' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO survivor FROM public.places WHERE id = p_survivor_id FOR UPDATE;
+  SELECT * INTO retired FROM public.places WHERE id = p_retired_id FOR UPDATE;
+
+  IF survivor.id IS NULL OR retired.id IS NULL THEN
+    RAISE EXCEPTION 'Place not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  merged := jsonb_populate_record(survivor, (
+    SELECT COALESCE(jsonb_object_agg(key, value), '{}')
+    FROM jsonb_each(to_jsonb(retired))
+    WHERE key = ANY(p_fields)
+      AND key NOT IN ('id', 'slug', 'created_at', 'updated_at', 'search_vector', 'favorite_count')
+  ));
+
+  UPDATE public.places SET
+    name = merged.name,
+    description = merged.description,
+    address = merged.address,
+    phone = merged.phone,
+    email = merged.email,
+    website = merged.website,
+    links = merged.links,
+    logo_url = merged.logo_url,
+    cover_image_url = merged.cover_image_url,
+    photos_urls = merged.photos_urls,
+    operating_hours = merged.operating_hours,
+    hours_overrides = merged.hours_overrides,
+    status = merged.status,
+    status_effective_date = merged.status_effective_date,
+    price_range = merged.price_range,
+    payment_methods = merged.payment_methods,
+    tags = merged.tags,
+    amenities = merged.amenities,
+    cuisine_types = merged.cuisine_types,
+    specialties = merged.specialties,
+    latitude = merged.latitude,
+    longitude = merged.longitude,
+    verified = merged.verified,
+    claimed_by = merged.claimed_by,
+    brand_id = COALESCE(survivor.brand_id, retired.brand_id),
+    favorite_count = survivor.favorite_count + retired.favorite_count
+  WHERE id = p_survivor_id;
+
+  UPDATE public.contributors SET place_id = p_survivor_id WHERE place_id = p_retired_id;
+  UPDATE public.update_suggestions SET place_id = p_survivor_id WHERE place_id = p_retired_id;
+
+  -- A claimant with a claim on both places keeps the survivor's claim
+  UPDATE public.business_claims c SET place_id = p_survivor_id
+  WHERE c.place_id = p_retired_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.business_claims s
+      WHERE s.place_id = p_survivor_id AND s.user_id = c.user_id
+    );
+
+  IF NOT EXISTS (SELECT 1 FROM public.menu_items WHERE place_id = p_survivor_id) THEN
+    UPDATE public.menu_items SET place_id = p_survivor_id WHERE place_id = p_retired_id;
+  END IF;
+
+  -- Earlier merges into the retired place now point at the survivor
+  UPDATE public.place_merges SET survivor_id = p_survivor_id WHERE survivor_id = p_retired_id;
+  UPDATE public.place_slugs SET place_id = p_survivor_id WHERE place_id = p_retired_id;
+
+  DELETE FROM public.places WHERE id = p_retired_id;
+
+  INSERT INTO public.place_slugs (slug, place_id)
+  VALUES (retired.slug, p_survivor_id)
+  ON CONFLICT (slug) DO UPDATE SET place_id = EXCLUDED.place_id, created_at = NOW();
+
+  INSERT INTO public.place_merges (retired_id, retired_name, retired_slug, survivor_id, merged_by)
+  VALUES (retired.id, retired.name, retired.slug, p_survivor_id, auth.uid());
+
+  RETURN survivor.slug;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION merge_places FROM PUBLIC, anon;
+
+-- =============================================
+-- RLS
+-- =============================================
+
+ALTER TABLE public.brands ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "brands_select" ON public.brands FOR SELECT USING (true);
+CREATE POLICY "brands_admin_all" ON public.brands FOR ALL USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+);
@@ -0,0 +1,208 @@
+-- =============================================
+-- Reviews
+-- =============================================
+
+-- One review per user per place. places.rating and places.review_count
+-- are maintained from the visible reviews by the trigger below.
+CREATE TABLE public.place_reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  place_id UUID NOT NULL REFERENCES public.places(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  body TEXT NOT NULL,
+  photo_urls TEXT[] NOT NULL DEFAULT '{}' CHECK (cardinality(photo_urls) <= 4),
+  visited_on DATE,
+  -- Hidden reviews stay stored but don't show or count towards the rating
+  status TEXT NOT NULL DEFAULT 'visible' CHECK (status IN ('visible', 'hidden')),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (place_id, user_id)
+);
+
+CREATE INDEX idx_place_reviews_place ON public.place_reviews(place_id, created_at DESC);
+
+CREATE TRIGGER place_reviews_updated_at BEFORE UPDATE ON public.place_reviews FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Recompute the rating (average of visible reviews, one decimal) and count
+-- of each place a review was added to, changed on, or removed from
+CREATE OR REPLACE FUNCTION sync_place_review_stats() RETURNS TRIGGER AS $$
+DECLARE
+  target UUID;
+BEGIN
+  FOR target IN
+    SELECT DISTINCT t.id FROM unnest(ARRAY[
+      CASE WHEN TG_OP <> 'INSERT' THEN OLD.place_id END,
+      CASE WHEN TG_OP <> 'DELETE' THEN NEW.place_id END
+    ]) AS t(id)
+    WHERE t.id IS NOT NULL
+  LOOP
+    UPDATE public.places p SET
+      rating = stats.rating,
+      review_count = stats.review_count
+    FROM (
+      SELECT ROUND(AVG(rating), 1) AS rating, COUNT(*)::INT AS review_count
+      FROM public.place_reviews
+      WHERE place_id = target AND status = 'visible'
+    ) stats
+    WHERE p.id = target
+      AND (p.rating, p.review_count) IS DISTINCT FROM (stats.rating, stats.review_count);
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER place_reviews_sync_stats
+  AFTER INSERT OR UPDATE OF place_id, rating, status OR DELETE ON public.place_reviews
+  FOR EACH ROW EXECUTE FUNCTION sync_place_review_stats();
+
+-- Nothing wrote these before; from now on they come only from reviews
+UPDATE public.places SET rating = NULL, review_count = 0
+WHERE rating IS NOT NULL OR review_count IS DISTINCT FROM 0;
+
+ALTER TABLE public.places ALTER COLUMN review_count SET NOT NULL;
+
+-- Reviews shouldn't count as an update for the "recently updated" sort
+CREATE OR REPLACE FUNCTION places_update_updated_at() RETURNS TRIGGER AS $$
+BEGIN
+  IF (to_jsonb(NEW) - 'favorite_count' - 'rating' - 'review_count' - 'updated_at')
+    IS DISTINCT FROM (to_jsonb(OLD) - 'favorite_count' - 'rating' - 'review_count' - 'updated_at') THEN
+    NEW.updated_at = NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =============================================
+-- merge_places: move reviews
+-- =============================================
+
+-- Same as 20261019001800, except reviews move to the survivor. A user who
+-- reviewed both places keeps their review of the survivor. Rating and
+-- review count follow from the moved reviews.
+CREATE OR REPLACE FUNCTION merge_places(
+  p_survivor_id UUID,
+  p_retired_id UUID,
+  p_fields TEXT[] DEFAULT '{}'
+) RETURNS TEXT AS $$
+DECLARE
+  survivor public.places;
+  retired public.places;
+  merged public.places;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can merge places' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_survivor_id = p_retired_id THEN
+    RAISE EXCEPTION 'A place cannot be merged into itself' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO survivor FROM public.places WHERE id = p_survivor_id FOR UPDATE;
+  SELECT * INTO retired FROM public.places WHERE id = p_retired_id FOR UPDATE;
+
+  IF survivor.id IS NULL OR retired.id IS NULL THEN
+    RAISE EXCEPTION 'Place not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  merged := jsonb_populate_record(survivor, (
+    SELECT COALESCE(jsonb_object_agg(key, value), '{}')
+    FROM jsonb_each(to_jsonb(retired))
+    WHERE key = ANY(p_fields)
+      AND key NOT IN ('id', 'slug', 'created_at', 'updated_at', 'search_vector', 'favorite_count', 'rating', 'review_count')
+  ));
+
+  UPDATE public.places SET
+    name = merged.name,
+    description = merged.description,
+    address = merged.address,
+    phone = merged.phone,
+    email = merged.email,
+    website = merged.website,
+    links = merged.links,
+    logo_url = merged.logo_url,
+    cover_image_url = merged.cover_image_url,
+    photos_urls = merged.photos_urls,
+    operating_hours = merged.operating_hours,
+    hours_overrides = merged.hours_overrides,
+    status = merged.status,
+    status_effective_date = merged.status_effective_date,
+    price_range = merged.price_range,
+    payment_methods = merged.payment_methods,
+    tags = merged.tags,
+    amenities = merged.amenities,
+    cuisine_types = merged.cuisine_types,
+    specialties = merged.specialties,
+    latitude = merged.latitude,
+    longitude = merged.longitude,
+    verified = merged.verified,
+    claimed_by = merged.claimed_by,
+    brand_id = COALESCE(survivor.brand_id, retired.brand_id),
+    favorite_count = survivor.favorite_count + retired.favorite_count
+  WHERE id = p_survivor_id;
+
+  UPDATE public.contributors SET place_id = p_survivor_id WHERE place_id = p_retired_id;
+  UPDATE public.update_suggestions SET place_id = p_survivor_id WHERE place_id = p_retired_id;
+
+  -- A claimant with a claim on both places keeps the survivor's claim
+  UPDATE public.business_claims c SET place_id = p_survivor_id
+  WHERE c.place_id = p_retired_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.business_claims s
+      WHERE s.place_id = p_survivor_id AND s.user_id = c.user_id
+    );
+
+  UPDATE public.place_reviews r SET place_id = p_survivor_id
+  WHERE r.place_id = p_retired_id
+    AND NOT EXISTS (
+      SELECT 1 FROM public.place_reviews s
+      WHERE s.place_id = p_survivor_id AND s.user_id = r.user_id
+    );
+
+  IF NOT EXISTS (SELECT 1 FROM public.menu_items WHERE place_id = p_survivor_id) THEN
+    UPDATE public.menu_items SET place_id = p_survivor_id WHERE place_id = p_retired_id;
+  END IF;
+
+  -- Earlier merges into the retired place now point at the survivor
+  UPDATE public.place_merges SET survivor_id = p_survivor_id WHERE survivor_id = p_retired_id;
+  UPDATE public.place_slugs SET place_id = p_survivor_id WHERE place_id = p_retired_id;
+
+  DELETE FROM public.places WHERE id = p_retired_id;
+
+  INSERT INTO public.place_slugs (slug, place_id)
+  VALUES (retired.slug, p_survivor_id)
+  ON CONFLICT (slug) DO UPDATE SET place_id = EXCLUDED.place_id, created_at = NOW();
+
+  INSERT INTO public.place_merges (retired_id, retired_name, retired_slug, survivor_id, merged_by)
+  VALUES (retired.id, retired.name, retired.slug, p_survivor_id, auth.uid());
+
+  RETURN survivor.slug;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION merge_places FROM PUBLIC, anon;
+
+-- =============================================
+-- RLS
+-- =============================================
+
+-- Visible reviews are public. Signed-in users write their own review and
+-- can edit it while it's visible; a hidden review can only be deleted by
+-- its author. Admins manage everything.
+ALTER TABLE public.place_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "place_reviews_select" ON public.place_reviews FOR SELECT USING (
+  status = 'visible' OR user_id = auth.uid()
+);
+CREATE POLICY "place_reviews_insert_own" ON public.place_reviews FOR INSERT WITH CHECK (
+  user_id = auth.uid() AND status = 'visible'
+);
+CREATE POLICY "place_reviews_update_own" ON public.place_reviews FOR UPDATE
+  USING (user_id = auth.uid() AND status = 'visible')
+  WITH CHECK (user_id = auth.uid() AND status = 'visible');
+CREATE POLICY "place_reviews_delete_own" ON public.place_reviews FOR DELETE USING (
+  user_id = auth.uid()
+);
+CREATE POLICY "place_reviews_admin_all" ON public.place_reviews FOR ALL USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+);
@@ -0,0 +1,167 @@
+-- =============================================
+-- Content reports and bans
+-- =============================================
+
+-- A signed-in user flags a review, a gallery photo or a place description.
+-- Exactly one target is set, matching target_type. Reports on a review or
+-- photo go away with it.
+CREATE TABLE public.content_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  target_type TEXT NOT NULL CHECK (target_type IN ('review', 'photo', 'description')),
+  review_id UUID REFERENCES public.place_reviews(id) ON DELETE CASCADE,
+  photo_id UUID REFERENCES public.place_photos(id) ON DELETE CASCADE,
+  place_id UUID REFERENCES public.places(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL CHECK (reason IN ('spam', 'offensive', 'wrong_place', 'privacy')),
+  details TEXT,
+  reported_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'actioned', 'dismissed')),
+  resolved_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (
+    (target_type = 'review') = (review_id IS NOT NULL)
+    AND (target_type = 'photo') = (photo_id IS NOT NULL)
+    AND (target_type = 'description') = (place_id IS NOT NULL)
+  )
+);
+
+CREATE INDEX idx_content_reports_pending ON public.content_reports(created_at DESC) WHERE status = 'pending';
+
+-- One open report per user per item
+CREATE UNIQUE INDEX idx_content_reports_once ON public.content_reports(
+  reported_by, target_type, COALESCE(review_id, photo_id, place_id)
+) WHERE status = 'pending';
+
+-- Banned users keep their account but can no longer post reviews, photos
+-- or reports. Admin-only, so users can't lift their own ban.
+CREATE TABLE public.user_bans (
+  user_id UUID PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  reason TEXT,
+  banned_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- =============================================
+-- moderate_report
+-- =============================================
+
+-- Called by /api/admin/reports/[id]. p_action is one of:
+--   hide    - hide the review or photo
+--   restore - show it again (or keep it); the reports are dismissed
+--   ban     - ban the author and hide all their reviews and photos
+-- Every open report on the same item is closed along with this one.
+-- Descriptions can't be hidden; admins edit the place instead.
+-- Returns the report's new status.
+CREATE OR REPLACE FUNCTION moderate_report(p_report_id UUID, p_action TEXT) RETURNS TEXT AS $$
+DECLARE
+  report public.content_reports;
+  author UUID;
+  new_status TEXT := CASE WHEN p_action = 'restore' THEN 'dismissed' ELSE 'actioned' END;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can moderate reports' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_action NOT IN ('hide', 'restore', 'ban') THEN
+    RAISE EXCEPTION 'Unknown moderation action: %', p_action USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO report FROM public.content_reports WHERE id = p_report_id FOR UPDATE;
+  IF report.id IS NULL THEN
+    RAISE EXCEPTION 'Report not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF report.target_type = 'description' AND p_action <> 'restore' THEN
+    RAISE EXCEPTION 'Descriptions cannot be hidden; edit the place instead' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_action = 'ban' THEN
+    SELECT COALESCE(
+      (SELECT user_id FROM public.place_reviews WHERE id = report.review_id),
+      (SELECT uploaded_by FROM public.place_photos WHERE id = report.photo_id)
+    ) INTO author;
+
+    IF author IS NULL THEN
+      RAISE EXCEPTION 'This content has no author to ban' USING ERRCODE = '22023';
+    END IF;
+    IF EXISTS (SELECT 1 FROM public.profiles WHERE id = author AND role = 'admin') THEN
+      RAISE EXCEPTION 'Admins cannot be banned' USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO public.user_bans (user_id, reason, banned_by)
+    VALUES (author, report.reason, auth.uid())
+    ON CONFLICT (user_id) DO NOTHING;
+
+    UPDATE public.place_reviews SET status = 'hidden' WHERE user_id = author AND status = 'visible';
+    UPDATE public.place_photos SET status = 'hidden' WHERE uploaded_by = author AND status = 'visible';
+  ELSE
+    UPDATE public.place_reviews SET status = CASE WHEN p_action = 'hide' THEN 'hidden' ELSE 'visible' END
+    WHERE id = report.review_id;
+    UPDATE public.place_photos SET status = CASE WHEN p_action = 'hide' THEN 'hidden' ELSE 'visible' END
+    WHERE id = report.photo_id;
+  END IF;
+
+  UPDATE public.content_reports SET status = new_status, resolved_by = auth.uid(), resolved_at = NOW()
+  WHERE id = report.id
+    OR (
+      status = 'pending'
+      AND target_type = report.target_type
+      AND COALESCE(review_id, photo_id, place_id) = COALESCE(report.review_id, report.photo_id, report.place_id)
+    );
+
+  RETURN new_status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION moderate_report FROM PUBLIC, anon;
+
+-- =============================================
+-- RLS
+-- =============================================
+
+-- Users file reports as themselves and see their own; admins see and
+-- resolve everything
+ALTER TABLE public.content_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "content_reports_select_own" ON public.content_reports FOR SELECT USING (
+  reported_by = auth.uid()
+);
+CREATE POLICY "content_reports_insert_own" ON public.content_reports FOR INSERT WITH CHECK (
+  reported_by = auth.uid()
+  AND status = 'pending'
+  AND NOT EXISTS (SELECT 1 FROM public.user_bans WHERE user_id = auth.uid())
+);
+CREATE POLICY "content_reports_admin_all" ON public.content_reports FOR ALL USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- Users can see their own ban, which the policies below rely on
+ALTER TABLE public.user_bans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "user_bans_select_own" ON public.user_bans FOR SELECT USING (
+  user_id = auth.uid()
+);
+CREATE POLICY "user_bans_admin_all" ON public.user_bans FOR ALL USING (
+  EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- Banned users can't post or edit reviews or add photos
+DROP POLICY "place_reviews_insert_own" ON public.place_reviews;
+CREATE POLICY "place_reviews_insert_own" ON public.place_reviews FOR INSERT WITH CHECK (
+  user_id = auth.uid() AND status = 'visible'
+  AND NOT EXISTS (SELECT 1 FROM public.user_bans WHERE user_id = auth.uid())
+);
+
+DROP POLICY "place_reviews_update_own" ON public.place_reviews;
+CREATE POLICY "place_reviews_update_own" ON public.place_reviews FOR UPDATE
+  USING (user_id = auth.uid() AND status = 'visible')
+  WITH CHECK (
+    user_id = auth.uid() AND status = 'visible'
+    AND NOT EXISTS (SELECT 1 FROM public.user_bans WHERE user_id = auth.uid())
+  );
+
+DROP POLICY "place_photos_insert_own" ON public.place_photos;
+CREATE POLICY "place_photos_insert_own" ON public.place_photos FOR INSERT WITH CHECK (
+  uploaded_by = auth.uid() AND status = 'visible'
+  AND NOT EXISTS (SELECT 1 FROM public.user_bans WHERE user_id = auth.uid())
+);
@@ -0,0 +1,40 @@
+-- =============================================
+-- Skip hours overrides with dates that don't exist
+-- =============================================
+
+-- The API validates dates now, but a single bad startDate/endDate (e.g.
+-- 2027-02-30) used to make hours_entry_on's ::DATE cast raise, failing every
+-- open-now search. Unparseable dates now read as NULL and the entry is ignored.
+CREATE OR REPLACE FUNCTION try_parse_date(value TEXT) RETURNS DATE AS $$
+BEGIN
+  IF value IS NULL OR value !~ '^\d{4}-\d{2}-\d{2}$' THEN
+    RETURN NULL;
+  END IF;
+  RETURN value::DATE;
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Same as 20261019001000 except entries with invalid dates are skipped
+CREATE OR REPLACE FUNCTION hours_entry_on(hours JSONB, overrides JSONB, local_date DATE) RETURNS JSONB AS $$
+  SELECT COALESCE(
+    (
+      SELECT o.value
+      FROM jsonb_array_elements(
+        CASE WHEN jsonb_typeof(overrides) = 'array' THEN overrides ELSE '[]'::jsonb END
+      ) WITH ORDINALITY AS o(value, ord)
+      CROSS JOIN LATERAL (
+        SELECT
+          try_parse_date(o.value->>'startDate') AS start_date,
+          try_parse_date(COALESCE(NULLIF(o.value->>'endDate', ''), o.value->>'startDate')) AS end_date
+      ) d
+      WHERE d.start_date IS NOT NULL
+        AND d.end_date IS NOT NULL
+        AND local_date BETWEEN d.start_date AND d.end_date
+      ORDER BY o.ord DESC
+      LIMIT 1
+    ),
+    hours->lower(to_char(local_date, 'FMDay'))
+  );
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,19 @@
+-- =============================================
+-- Approve contributed gallery photos
+-- =============================================
+
+-- Photos from visitors now wait as 'pending' until the place owner or an
+-- admin approves (visible) or hides them. Photos the owner or admins add,
+-- and rows created from places.photos_urls, are still visible right away.
+ALTER TABLE public.place_photos DROP CONSTRAINT place_photos_status_check;
+ALTER TABLE public.place_photos ADD CONSTRAINT place_photos_status_check
+  CHECK (status IN ('visible', 'pending', 'hidden'));
+
+CREATE INDEX idx_place_photos_pending ON public.place_photos(created_at) WHERE status = 'pending';
+
+-- Same as 20261019002100 except contributed photos must start out pending
+DROP POLICY "place_photos_insert_own" ON public.place_photos;
+CREATE POLICY "place_photos_insert_own" ON public.place_photos FOR INSERT WITH CHECK (
+  uploaded_by = auth.uid() AND status = 'pending'
+  AND NOT EXISTS (SELECT 1 FROM public.user_bans WHERE user_id = auth.uid())
+);
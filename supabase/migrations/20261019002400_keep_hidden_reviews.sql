@@ -0,0 +1,11 @@
+-- =============================================
+-- Authors can't delete hidden reviews
+-- =============================================
+
+-- Deleting a review a moderator hid would free the one-review-per-place
+-- slot for a fresh visible review and cascade away its content_reports.
+-- Same as 20261019002000 except only visible reviews can be deleted.
+DROP POLICY "place_reviews_delete_own" ON public.place_reviews;
+CREATE POLICY "place_reviews_delete_own" ON public.place_reviews FOR DELETE USING (
+  user_id = auth.uid() AND status = 'visible'
+);
@@ -0,0 +1,89 @@
+-- =============================================
+-- Hide reported place descriptions
+-- =============================================
+
+-- places.description is NOT NULL, so hiding one clears it to '' and keeps
+-- the old text on the report; restoring puts the latest hidden text back
+-- if nobody has written a new description since.
+ALTER TABLE public.content_reports ADD COLUMN hidden_description TEXT;
+
+-- Same as 20261019002100 except descriptions can be hidden and restored,
+-- and a ban also hides the author's photos still waiting for approval
+CREATE OR REPLACE FUNCTION moderate_report(p_report_id UUID, p_action TEXT) RETURNS TEXT AS $$
+DECLARE
+  report public.content_reports;
+  author UUID;
+  old_description TEXT;
+  new_status TEXT := CASE WHEN p_action = 'restore' THEN 'dismissed' ELSE 'actioned' END;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin') THEN
+    RAISE EXCEPTION 'Only admins can moderate reports' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_action NOT IN ('hide', 'restore', 'ban') THEN
+    RAISE EXCEPTION 'Unknown moderation action: %', p_action USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO report FROM public.content_reports WHERE id = p_report_id FOR UPDATE;
+  IF report.id IS NULL THEN
+    RAISE EXCEPTION 'Report not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_action = 'ban' THEN
+    SELECT COALESCE(
+      (SELECT user_id FROM public.place_reviews WHERE id = report.review_id),
+      (SELECT uploaded_by FROM public.place_photos WHERE id = report.photo_id)
+    ) INTO author;
+
+    IF author IS NULL THEN
+      RAISE EXCEPTION 'This content has no author to ban' USING ERRCODE = '22023';
+    END IF;
+    IF EXISTS (SELECT 1 FROM public.profiles WHERE id = author AND role = 'admin') THEN
+      RAISE EXCEPTION 'Admins cannot be banned' USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO public.user_bans (user_id, reason, banned_by)
+    VALUES (author, report.reason, auth.uid())
+    ON CONFLICT (user_id) DO NOTHING;
+
+    UPDATE public.place_reviews SET status = 'hidden' WHERE user_id = author AND status = 'visible';
+    UPDATE public.place_photos SET status = 'hidden' WHERE uploaded_by = author AND status <> 'hidden';
+  ELSIF report.target_type = 'description' THEN
+    IF p_action = 'hide' THEN
+      SELECT description INTO old_description FROM public.places WHERE id = report.place_id FOR UPDATE;
+      IF old_description <> '' THEN
+        UPDATE public.places SET description = '' WHERE id = report.place_id;
+        UPDATE public.content_reports SET hidden_description = old_description WHERE id = report.id;
+      END IF;
+    ELSE
+      UPDATE public.places SET description = (
+        SELECT hidden_description FROM public.content_reports
+        WHERE place_id = report.place_id AND hidden_description IS NOT NULL
+        ORDER BY resolved_at DESC LIMIT 1
+      )
+      WHERE id = report.place_id AND description = ''
+        AND EXISTS (
+          SELECT 1 FROM public.content_reports
+          WHERE place_id = report.place_id AND hidden_description IS NOT NULL
+        );
+    END IF;
+  ELSE
+    UPDATE public.place_reviews SET status = CASE WHEN p_action = 'hide' THEN 'hidden' ELSE 'visible' END
+    WHERE id = report.review_id;
+    UPDATE public.place_photos SET status = CASE WHEN p_action = 'hide' THEN 'hidden' ELSE 'visible' END
+    WHERE id = report.photo_id;
+  END IF;
+
+  UPDATE public.content_reports SET status = new_status, resolved_by = auth.uid(), resolved_at = NOW()
+  WHERE id = report.id
+    OR (
+      status = 'pending'
+      AND target_type = report.target_type
+      AND COALESCE(review_id, photo_id, place_id) = COALESCE(report.review_id, report.photo_id, report.place_id)
+    );
+
+  RETURN new_status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION moderate_report FROM PUBLIC, anon;
@@ -0,0 +1,7 @@
+-- =============================================
+-- Pin search_path on record_place_revision
+-- =============================================
+
+-- Like the other SECURITY DEFINER functions, so it can't pick up objects
+-- from a caller-controlled schema
+ALTER FUNCTION record_place_revision() SET search_path = public;
@@ -0,0 +1,50 @@
+-- =============================================
+-- One favorite per visitor
+-- =============================================
+
+-- adjust_favorite_count took any +1/-1, so anyone could push a place's
+-- favorite_count up or down by repeating the call. Each favorite now
+-- needs a row per visitor: a signed-in user's ID or a keyed hash of an
+-- anonymous visitor's IP (never the IP itself). Only the API writes here.
+CREATE TABLE public.place_favorites (
+  place_id UUID NOT NULL REFERENCES public.places(id) ON DELETE CASCADE,
+  voter TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (place_id, voter)
+);
+
+ALTER TABLE public.place_favorites ENABLE ROW LEVEL SECURITY;
+
+-- Counts only change when the visitor's row is added or removed, so
+-- favorites from before this table can't be taken back anonymously.
+-- Returns the new count, or NULL when the place doesn't exist.
+CREATE OR REPLACE FUNCTION set_place_favorite(p_place_id UUID, p_voter TEXT, p_favorited BOOLEAN) RETURNS INT AS $$
+DECLARE
+  delta INT := 0;
+  new_count INT;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.places WHERE id = p_place_id) THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_favorited THEN
+    INSERT INTO public.place_favorites (place_id, voter) VALUES (p_place_id, p_voter)
+    ON CONFLICT DO NOTHING;
+    IF FOUND THEN delta := 1; END IF;
+  ELSE
+    DELETE FROM public.place_favorites WHERE place_id = p_place_id AND voter = p_voter;
+    IF FOUND THEN delta := -1; END IF;
+  END IF;
+
+  UPDATE public.places
+  SET favorite_count = GREATEST(favorite_count + delta, 0)
+  WHERE id = p_place_id
+  RETURNING favorite_count INTO new_count;
+
+  RETURN new_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION set_place_favorite FROM PUBLIC, anon, authenticated;
+
+DROP FUNCTION adjust_favorite_count(UUID, INT);
@@ -0,0 +1,33 @@
+-- =============================================
+-- Sanitize reviews written straight through the API
+-- =============================================
+
+-- place_reviews_insert_own and place_reviews_update_own let signed-in
+-- users write reviews without going through /api/places/[id]/reviews, so
+-- the route's sanitizeStrings isn't enough. Strip the same things as
+-- stripHtml (lib/sanitize.ts) in the database too.
+CREATE OR REPLACE FUNCTION strip_html(p_input TEXT) RETURNS TEXT AS $$
+  SELECT btrim(
+    regexp_replace(
+      regexp_replace(
+        regexp_replace(p_input, '<[^>]*>', '', 'g'),
+        'javascript:', '', 'gi'
+      ),
+      'on\w+\s*=', '', 'gi'
+    )
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION sanitize_place_review() RETURNS TRIGGER AS $$
+BEGIN
+  NEW.body = strip_html(NEW.body);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER place_reviews_sanitize
+  BEFORE INSERT OR UPDATE OF body ON public.place_reviews
+  FOR EACH ROW EXECUTE FUNCTION sanitize_place_review();
+
+-- Reviews stored before this
+UPDATE public.place_reviews SET body = strip_html(body) WHERE body IS DISTINCT FROM strip_html(body);
@@ -0,0 +1,39 @@
+-- =============================================
+-- Dish search skips closed places
+-- =============================================
+
+-- Same as 20261019000900 except dishes from temporarily or permanently
+-- closed places are left out, like places in search_place_matches
+CREATE OR REPLACE FUNCTION search_menu_items(
+  p_query TEXT,
+  p_min_price NUMERIC DEFAULT NULL,
+  p_max_price NUMERIC DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20
+) RETURNS TABLE (item public.menu_items, place_name TEXT, place_slug TEXT, score REAL) AS $$
+  WITH params AS (
+    SELECT NULLIF(trim(p_query), '') AS q, search_ts_query(p_query) AS ts_query
+  )
+  SELECT
+    m AS item,
+    p.name AS place_name,
+    p.slug AS place_slug,
+    (CASE
+      WHEN params.ts_query IS NOT NULL AND m.search_vector @@ params.ts_query
+        THEN 1 + ts_rank(m.search_vector, params.ts_query)
+      ELSE word_similarity(params.q, m.name)
+    END)::REAL AS score
+  FROM public.menu_items m
+  JOIN public.places p ON p.id = m.place_id, params
+  WHERE
+    params.q IS NOT NULL
+    AND m.is_available
+    AND place_effective_status(p.status, p.status_effective_date) NOT IN ('temporarily_closed', 'permanently_closed')
+    AND (
+      (params.ts_query IS NOT NULL AND m.search_vector @@ params.ts_query)
+      OR params.q <% m.name
+    )
+    AND (p_min_price IS NULL OR m.price >= p_min_price)
+    AND (p_max_price IS NULL OR m.price <= p_max_price)
+  ORDER BY score DESC, m.price ASC NULLS LAST, m.name, m.id
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100);
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,21 @@
+-- =============================================
+-- Uploaders can't delete hidden or reported photos
+-- =============================================
+
+-- Deleting a photo cascades away its content_reports, so an uploader could
+-- wipe the report trail. Like reviews (20261019002400), hidden photos and
+-- photos with open reports now stay until a moderator deals with them.
+
+-- Reports are only readable by their reporter and admins, so policies and
+-- routes check for open ones through this
+CREATE OR REPLACE FUNCTION photo_has_pending_reports(p_photo_id UUID) RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.content_reports WHERE photo_id = p_photo_id AND status = 'pending'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Same as 20261019001600 except only unhidden, unreported photos
+DROP POLICY "place_photos_delete_own" ON public.place_photos;
+CREATE POLICY "place_photos_delete_own" ON public.place_photos FOR DELETE USING (
+  uploaded_by = auth.uid() AND status <> 'hidden' AND NOT photo_has_pending_reports(id)
+);